@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client';
+import securityConfig from '../../src/config/security.config';
+import { seedLogger } from '../../src/utils';
+import { encryptCBC } from '../../src/utils/security/crypto';
+
+/**
+ * Moves bank details of the deprecated withdrawals into encrypted payout methods.
+ * Statements the withdrawals point to were never created, so "userStatementId" is matched against users.
+ * Moved rows are deleted, rows without a matching user are kept for a manual review.
+ * Running it again moves only the rows that are left.
+ */
+const prisma = new PrismaClient();
+
+const main = async () => {
+  const { encryptionKey } = securityConfig();
+  // * same normalization as for the payout methods created by users
+  const normalizeBankCode = (value: string) =>
+    value.replace(/[\s-]/g, '').toUpperCase();
+  const encrypt = (value: string) => {
+    const { iv, encrypted } = encryptCBC(value, encryptionKey);
+
+    return `${iv}:${encrypted}`;
+  };
+
+  const withdrawals = await prisma.influencerAmbassadorWithdraw.findMany({
+    orderBy: { id: 'asc' },
+  });
+  const users = await prisma.user.findMany({
+    where: {
+      id: { in: withdrawals.map((withdrawal) => withdrawal.userStatementId) },
+    },
+    select: { id: true, payoutMethods: { select: { id: true } } },
+  });
+  const usersWithPayoutMethods = new Set(
+    users.filter((user) => user.payoutMethods.length).map((user) => user.id),
+  );
+  const userIds = new Set(users.map((user) => user.id));
+  let moved = 0;
+
+  for (const withdrawal of withdrawals) {
+    const userId = withdrawal.userStatementId;
+
+    if (!userIds.has(userId)) {
+      seedLogger(
+        'Payout methods',
+        `withdrawal ${withdrawal.id} skipped, user ${userId} does not exist`,
+      );
+      continue;
+    }
+
+    await prisma.$transaction([
+      prisma.payoutMethod.create({
+        data: {
+          userId,
+          bankAccountFirstName: withdrawal.bankAccountFirstName,
+          bankAccountLastName: withdrawal.bankAccountLastName,
+          bankName: withdrawal.bankName,
+          bankAddress: encrypt(withdrawal.bankAddress),
+          iban: encrypt(normalizeBankCode(withdrawal.iban)),
+          swiftBic: encrypt(normalizeBankCode(withdrawal.swiftBic)),
+          // * the first payout method of the user is the default one
+          isDefault: !usersWithPayoutMethods.has(userId),
+          createdAt: withdrawal.createdAt,
+        },
+      }),
+      prisma.influencerAmbassadorWithdraw.delete({
+        where: { id: withdrawal.id },
+      }),
+    ]);
+    usersWithPayoutMethods.add(userId);
+    moved++;
+  }
+
+  seedLogger(
+    'Payout methods',
+    `${moved} of ${withdrawals.length} withdrawals moved`,
+  );
+};
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
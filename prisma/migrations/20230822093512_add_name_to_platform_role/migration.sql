@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "platform_roles" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "name" TEXT;
+
+-- * existing roles get a unique name, it can be renamed afterwards
+UPDATE "platform_roles" SET "name" = 'Role ' || "id" WHERE "name" IS NULL;
+
+-- AlterTable
+ALTER TABLE "platform_roles" ALTER COLUMN "name" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_roles_name_key" ON "platform_roles"("name");
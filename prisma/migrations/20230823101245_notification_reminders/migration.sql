@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "product_order_chat_room_members" ADD COLUMN     "lastReadAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "notification_reminders" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_reminders_key_key" ON "notification_reminders"("key");
+
+-- AddForeignKey
+ALTER TABLE "notification_reminders" ADD CONSTRAINT "notification_reminders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "disease_areas" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "interests" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "struggles" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "symptoms" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "themes" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "stakeholder_posts" ADD COLUMN     "isContentAnalyzed" BOOLEAN NOT NULL DEFAULT false;
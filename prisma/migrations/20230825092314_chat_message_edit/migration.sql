@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "platform_product_order_chat_messages" ADD COLUMN     "editedAt" TIMESTAMP(3);
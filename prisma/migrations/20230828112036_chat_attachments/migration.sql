@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "files" ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "size" INTEGER;
+
+-- CreateTable
+CREATE TABLE "platform_product_order_chat_attachments" (
+    "id" SERIAL NOT NULL,
+    "chatRoomId" INTEGER NOT NULL,
+    "chatMessageId" INTEGER,
+    "uploaderId" INTEGER NOT NULL,
+    "fileId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "platform_product_order_chat_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_product_order_chat_attachments_fileId_key" ON "platform_product_order_chat_attachments"("fileId");
+
+-- AddForeignKey
+ALTER TABLE "platform_product_order_chat_attachments" ADD CONSTRAINT "platform_product_order_chat_attachments_chatRoomId_fkey" FOREIGN KEY ("chatRoomId") REFERENCES "platform_product_order_chat_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "platform_product_order_chat_attachments" ADD CONSTRAINT "platform_product_order_chat_attachments_chatMessageId_fkey" FOREIGN KEY ("chatMessageId") REFERENCES "platform_product_order_chat_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "platform_product_order_chat_attachments" ADD CONSTRAINT "platform_product_order_chat_attachments_uploaderId_fkey" FOREIGN KEY ("uploaderId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "platform_product_order_chat_attachments" ADD CONSTRAINT "platform_product_order_chat_attachments_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
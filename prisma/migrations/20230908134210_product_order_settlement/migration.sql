@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "platform_product_order_influencers" ADD COLUMN     "payoutStatus" INTEGER,
+ADD COLUMN     "salaryTransactionFlowId" INTEGER,
+ADD COLUMN     "settledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "transaction_flows" ADD COLUMN     "settlementKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_product_order_influencers_salaryTransactionFlowId_key" ON "platform_product_order_influencers"("salaryTransactionFlowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_flows_settlementKey_key" ON "transaction_flows"("settlementKey");
+
+-- AddForeignKey
+ALTER TABLE "platform_product_order_influencers" ADD CONSTRAINT "platform_product_order_influencers_salaryTransactionFlowId_fkey" FOREIGN KEY ("salaryTransactionFlowId") REFERENCES "transaction_flows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "balance" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" SERIAL NOT NULL,
+    "debitAccountId" INTEGER NOT NULL,
+    "creditAccountId" INTEGER NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "transactionFlowId" INTEGER,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_key_key" ON "ledger_accounts"("key");
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_debitAccountId_fkey" FOREIGN KEY ("debitAccountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_creditAccountId_fkey" FOREIGN KEY ("creditAccountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionFlowId_fkey" FOREIGN KEY ("transactionFlowId") REFERENCES "transaction_flows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: platform accounts
+-- * types: 0 - user available, 1 - user unavailable, 2 - platform revenue, 3 - pending payouts, 4 - paid out
+INSERT INTO "ledger_accounts" ("key", "type", "updatedAt") VALUES
+    ('platform:revenue', 2, CURRENT_TIMESTAMP),
+    ('platform:pending-payouts', 3, CURRENT_TIMESTAMP),
+    ('platform:paid-out', 4, CURRENT_TIMESTAMP);
+
+-- Backfill: opening balances of users from the latest transaction snapshot
+CREATE TEMPORARY TABLE "opening_balances" AS
+SELECT DISTINCT ON (tf."userId") tf."userId", t."availableAmounts", t."unavailableAmounts"
+FROM "transactions" t
+JOIN "transaction_flows" tf ON tf."id" = t."transactionFlowId"
+ORDER BY tf."userId", t."createdAt" DESC, t."id" DESC;
+
+INSERT INTO "ledger_accounts" ("key", "type", "userId", "updatedAt")
+SELECT 'user:' || ob."userId" || ':available', 0, ob."userId", CURRENT_TIMESTAMP FROM "opening_balances" ob
+UNION ALL
+SELECT 'user:' || ob."userId" || ':unavailable', 1, ob."userId", CURRENT_TIMESTAMP FROM "opening_balances" ob;
+
+INSERT INTO "ledger_entries" ("debitAccountId", "creditAccountId", "amount", "description")
+SELECT (SELECT "id" FROM "ledger_accounts" WHERE "key" = 'platform:revenue'), a."id", ob."availableAmounts", 'Opening balance'
+FROM "opening_balances" ob
+JOIN "ledger_accounts" a ON a."key" = 'user:' || ob."userId" || ':available'
+WHERE ob."availableAmounts" <> 0;
+
+INSERT INTO "ledger_entries" ("debitAccountId", "creditAccountId", "amount", "description")
+SELECT (SELECT "id" FROM "ledger_accounts" WHERE "key" = 'platform:revenue'), a."id", ob."unavailableAmounts", 'Opening balance'
+FROM "opening_balances" ob
+JOIN "ledger_accounts" a ON a."key" = 'user:' || ob."userId" || ':unavailable'
+WHERE ob."unavailableAmounts" <> 0;
+
+DROP TABLE "opening_balances";
+
+-- Backfill: reserve amounts of pending flows (other than withdrawals, type 1)
+INSERT INTO "ledger_entries" ("debitAccountId", "creditAccountId", "amount", "transactionFlowId", "description")
+SELECT (SELECT "id" FROM "ledger_accounts" WHERE "key" = 'platform:revenue'), (SELECT "id" FROM "ledger_accounts" WHERE "key" = 'platform:pending-payouts'), tf."amount", tf."id", 'Payout reserved'
+FROM "transaction_flows" tf
+WHERE tf."type" <> 1 AND (
+    SELECT t."status" FROM "transactions" t
+    WHERE t."transactionFlowId" = tf."id"
+    ORDER BY t."createdAt" DESC, t."id" DESC
+    LIMIT 1
+) = 0;
+
+-- Backfill: account balances from entries
+UPDATE "ledger_accounts" a SET "balance" =
+    COALESCE((SELECT SUM(e."amount") FROM "ledger_entries" e WHERE e."creditAccountId" = a."id"), 0) -
+    COALESCE((SELECT SUM(e."amount") FROM "ledger_entries" e WHERE e."debitAccountId" = a."id"), 0);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "survey_questions" ADD COLUMN     "isMultiSelect" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maxLength" INTEGER,
+ADD COLUMN     "maxValue" INTEGER,
+ADD COLUMN     "minLength" INTEGER,
+ADD COLUMN     "minValue" INTEGER;
+
+-- AlterTable
+ALTER TABLE "survey_responses" ADD COLUMN     "isDraft" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "value" INTEGER;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "survey_question_rules" (
+    "id" SERIAL NOT NULL,
+    "surveyQuestionId" INTEGER NOT NULL,
+    "action" INTEGER NOT NULL,
+    "surveyOptionId" INTEGER,
+    "minValue" INTEGER,
+    "maxValue" INTEGER,
+    "targetQuestionId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "survey_question_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "survey_question_rules" ADD CONSTRAINT "survey_question_rules_surveyQuestionId_fkey" FOREIGN KEY ("surveyQuestionId") REFERENCES "survey_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "survey_question_rules" ADD CONSTRAINT "survey_question_rules_surveyOptionId_fkey" FOREIGN KEY ("surveyOptionId") REFERENCES "survey_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "survey_question_rules" ADD CONSTRAINT "survey_question_rules_targetQuestionId_fkey" FOREIGN KEY ("targetQuestionId") REFERENCES "survey_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
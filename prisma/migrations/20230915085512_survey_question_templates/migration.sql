@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "survey_question_templates" (
+    "id" SERIAL NOT NULL,
+    "clientId" INTEGER,
+    "questionText" TEXT NOT NULL,
+    "questionType" INTEGER NOT NULL,
+    "questionCredit" INTEGER,
+    "isMultiSelect" BOOLEAN NOT NULL DEFAULT false,
+    "minValue" INTEGER,
+    "maxValue" INTEGER,
+    "minLength" INTEGER,
+    "maxLength" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "survey_question_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "survey_question_template_options" (
+    "id" SERIAL NOT NULL,
+    "surveyQuestionTemplateId" INTEGER NOT NULL,
+    "optionText" TEXT NOT NULL,
+    "order" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "survey_question_template_options_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "survey_question_templates" ADD CONSTRAINT "survey_question_templates_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "survey_question_template_options" ADD CONSTRAINT "survey_question_template_options_surveyQuestionTemplateId_fkey" FOREIGN KEY ("surveyQuestionTemplateId") REFERENCES "survey_question_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
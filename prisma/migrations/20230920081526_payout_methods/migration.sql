@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "transaction_flows" ADD COLUMN     "payoutMethodId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "payout_methods" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "bankAccountFirstName" TEXT NOT NULL,
+    "bankAccountLastName" TEXT NOT NULL,
+    "bankName" TEXT NOT NULL,
+    "bankAddress" TEXT NOT NULL,
+    "iban" TEXT NOT NULL,
+    "swiftBic" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_methods_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "transaction_flows" ADD CONSTRAINT "transaction_flows_payoutMethodId_fkey" FOREIGN KEY ("payoutMethodId") REFERENCES "payout_methods"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_methods" ADD CONSTRAINT "payout_methods_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "payout_batches" (
+    "id" SERIAL NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "itemsCount" INTEGER NOT NULL,
+    "controlSum" DECIMAL(65,30) NOT NULL,
+    "executionDate" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_batch_items" (
+    "id" SERIAL NOT NULL,
+    "payoutBatchId" INTEGER NOT NULL,
+    "transactionFlowId" INTEGER NOT NULL,
+    "payoutMethodId" INTEGER NOT NULL,
+    "endToEndId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "remittanceInformation" TEXT NOT NULL,
+    "status" INTEGER NOT NULL,
+    "statusReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_batch_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_batches_messageId_key" ON "payout_batches"("messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_batch_items_endToEndId_key" ON "payout_batch_items"("endToEndId");
+
+-- AddForeignKey
+ALTER TABLE "payout_batch_items" ADD CONSTRAINT "payout_batch_items_payoutBatchId_fkey" FOREIGN KEY ("payoutBatchId") REFERENCES "payout_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_batch_items" ADD CONSTRAINT "payout_batch_items_transactionFlowId_fkey" FOREIGN KEY ("transactionFlowId") REFERENCES "transaction_flows"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_batch_items" ADD CONSTRAINT "payout_batch_items_payoutMethodId_fkey" FOREIGN KEY ("payoutMethodId") REFERENCES "payout_methods"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
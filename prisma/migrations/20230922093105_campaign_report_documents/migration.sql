@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "campaign_reports" ADD COLUMN     "pdfFileId" INTEGER,
+ADD COLUMN     "xlsxFileId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "notification_payloads" ADD COLUMN     "fileId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_reports_pdfFileId_key" ON "campaign_reports"("pdfFileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_reports_xlsxFileId_key" ON "campaign_reports"("xlsxFileId");
+
+-- AddForeignKey
+ALTER TABLE "campaign_reports" ADD CONSTRAINT "campaign_reports_pdfFileId_fkey" FOREIGN KEY ("pdfFileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_reports" ADD CONSTRAINT "campaign_reports_xlsxFileId_fkey" FOREIGN KEY ("xlsxFileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_payloads" ADD CONSTRAINT "notification_payloads_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "insight_daily_rollups" (
+    "id" SERIAL NOT NULL,
+    "metric" TEXT NOT NULL,
+    "dimensions" JSONB NOT NULL DEFAULT '{}',
+    "dimensionKey" TEXT NOT NULL DEFAULT '',
+    "date" DATE NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "sum" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "insight_daily_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "insight_daily_rollups_metric_date_idx" ON "insight_daily_rollups"("metric", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "insight_daily_rollups_metric_dimensionKey_date_key" ON "insight_daily_rollups"("metric", "dimensionKey", "date");
@@ -0,0 +1,111 @@
+-- CreateTable
+CREATE TABLE "outreach_sequences" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdByUserId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outreach_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_steps" (
+    "id" SERIAL NOT NULL,
+    "sequenceId" INTEGER NOT NULL,
+    "order" INTEGER NOT NULL,
+    "delayDays" INTEGER NOT NULL DEFAULT 0,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outreach_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_enrollments" (
+    "id" SERIAL NOT NULL,
+    "sequenceId" INTEGER NOT NULL,
+    "discoverClientId" INTEGER NOT NULL,
+    "status" INTEGER NOT NULL,
+    "stopReason" INTEGER,
+    "nextStepOrder" INTEGER,
+    "nextStepAt" TIMESTAMP(3),
+    "stoppedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outreach_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_messages" (
+    "id" SERIAL NOT NULL,
+    "discoverClientId" INTEGER NOT NULL,
+    "enrollmentId" INTEGER,
+    "stepId" INTEGER,
+    "trackingToken" TEXT NOT NULL,
+    "openedAt" TIMESTAMP(3),
+    "openCount" INTEGER NOT NULL DEFAULT 0,
+    "clickedAt" TIMESTAMP(3),
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_events" (
+    "id" SERIAL NOT NULL,
+    "discoverClientId" INTEGER NOT NULL,
+    "enrollmentId" INTEGER,
+    "messageId" INTEGER,
+    "type" INTEGER NOT NULL,
+    "stopReason" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_steps_sequenceId_order_key" ON "outreach_steps"("sequenceId", "order");
+
+-- CreateIndex
+CREATE INDEX "outreach_enrollments_status_nextStepAt_idx" ON "outreach_enrollments"("status", "nextStepAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_messages_trackingToken_key" ON "outreach_messages"("trackingToken");
+
+-- CreateIndex
+CREATE INDEX "outreach_events_discoverClientId_createdAt_idx" ON "outreach_events"("discoverClientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "outreach_sequences" ADD CONSTRAINT "outreach_sequences_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_steps" ADD CONSTRAINT "outreach_steps_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "outreach_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_enrollments" ADD CONSTRAINT "outreach_enrollments_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "outreach_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_enrollments" ADD CONSTRAINT "outreach_enrollments_discoverClientId_fkey" FOREIGN KEY ("discoverClientId") REFERENCES "discover_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_messages" ADD CONSTRAINT "outreach_messages_discoverClientId_fkey" FOREIGN KEY ("discoverClientId") REFERENCES "discover_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_messages" ADD CONSTRAINT "outreach_messages_enrollmentId_fkey" FOREIGN KEY ("enrollmentId") REFERENCES "outreach_enrollments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_messages" ADD CONSTRAINT "outreach_messages_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "outreach_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_events" ADD CONSTRAINT "outreach_events_discoverClientId_fkey" FOREIGN KEY ("discoverClientId") REFERENCES "discover_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_events" ADD CONSTRAINT "outreach_events_enrollmentId_fkey" FOREIGN KEY ("enrollmentId") REFERENCES "outreach_enrollments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_events" ADD CONSTRAINT "outreach_events_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "outreach_messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- * daily facts are replaced by hourly ones, the facts are rebuilt from the records on the start
+-- DropTable
+DROP TABLE "insight_daily_rollups";
+
+-- CreateTable
+CREATE TABLE "insight_hourly_rollups" (
+    "id" SERIAL NOT NULL,
+    "metric" TEXT NOT NULL,
+    "dimensions" JSONB NOT NULL DEFAULT '{}',
+    "dimensionKey" TEXT NOT NULL DEFAULT '',
+    "date" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "sum" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "insight_hourly_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "insight_hourly_rollups_metric_date_idx" ON "insight_hourly_rollups"("metric", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "insight_hourly_rollups_metric_dimensionKey_date_key" ON "insight_hourly_rollups"("metric", "dimensionKey", "date");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "outreach_enrollments" ADD COLUMN     "failedAttempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN     "rotatedTokenHashes" TEXT[] DEFAULT ARRAY[]::TEXT[];
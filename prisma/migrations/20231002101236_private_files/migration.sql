@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "files" ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- * chat attachments are served only to the members of their chat room
+UPDATE "files" SET "isPrivate" = true
+WHERE "id" IN (SELECT "fileId" FROM "platform_product_order_chat_attachments");
@@ -0,0 +1,7 @@
+-- * campaign report documents are served only through their report
+UPDATE "files" SET "isPrivate" = true
+WHERE "id" IN (
+  SELECT "pdfFileId" FROM "campaign_reports" WHERE "pdfFileId" IS NOT NULL
+  UNION
+  SELECT "xlsxFileId" FROM "campaign_reports" WHERE "xlsxFileId" IS NOT NULL
+);
@@ -49,14 +49,20 @@ import { ApplicationExceptionFilter } from './exceptions/application-exception.f
 import { AwsS3Module } from './integrations/aws-s3/aws-s3.module';
 import { FileManagerModule } from './core/file-manager/file-manager.module';
 import awsConfig from './config/aws.config';
+import remindersConfig from './config/reminders.config';
+import invoiceConfig from './config/invoice.config';
+import sepaConfig from './config/sepa.config';
+import cacheConfig from './config/cache.config';
+import outreachConfig from './config/outreach.config';
 import { CalendarModule } from './core/calendar/calendar.module';
 import { NotificationsModule } from './core/notifications/notifications.module';
 import { SMLModule } from './core/sml/sml.module';
 import { SurveysModule } from './core/surveys/surveys.module';
+import { InvoicesModule } from './core/invoices/invoices.module';
 import { AdminModule } from './core/admin/admin.module';
 import { InsightModule } from './core/insight/insight.module';
 import { ScheduleModule } from '@nestjs/schedule';
-import { CacheModule } from '@nestjs/cache-manager';
+import { AppCacheModule } from './integrations/cache/cache.module';
 import { LegalsModule } from './core/common/legals/legals.module';
 import { IndustryModule } from './core/common/industry/industry.module';
 import { ProductsModule } from './core/common/products/products.module';
@@ -71,7 +77,7 @@ import { CurrencyModule } from './core/common/currency/currency.module';
 
 @Module({
   imports: [
-    CacheModule.register({ isGlobal: true }),
+    AppCacheModule,
     ConfigModule.forRoot({
       isGlobal: true,
       cache: true,
@@ -81,6 +87,11 @@ import { CurrencyModule } from './core/common/currency/currency.module';
         sendgridConfig,
         socialConfig,
         awsConfig,
+        remindersConfig,
+        invoiceConfig,
+        sepaConfig,
+        cacheConfig,
+        outreachConfig,
       ],
     }),
     JwtModule.registerAsync({
@@ -161,6 +172,7 @@ import { CurrencyModule } from './core/common/currency/currency.module';
     InterestsModule,
     SymptomsModule,
     CurrencyModule,
+    InvoicesModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+import { validate } from './utils/env-validation';
+import { CacheEnvironmentVariables } from './dto/cache-config.dto';
+import { ICacheConfig } from './interfaces/cache-config.interface';
+
+export default registerAs('cache', (): ICacheConfig => {
+  validate(process.env, CacheEnvironmentVariables);
+
+  return {
+    redisUrl: process.env.CACHE_REDIS_URL,
+    keyPrefix: process.env.CACHE_KEY_PREFIX || 'api',
+    memoryMaxItems: process.env.CACHE_MEMORY_MAX_ITEMS
+      ? parseInt(process.env.CACHE_MEMORY_MAX_ITEMS)
+      : 1000,
+  };
+});
@@ -17,6 +17,7 @@ export const timeUnitSeconds = {
 };
 
 export const ambassadorCommission = 0.025;
+export const influencerAffiliateCommission = 0.01;
 
 export const cacheKeys = {
   insightInfluencers: 'insightInfluencers',
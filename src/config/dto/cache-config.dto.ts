@@ -0,0 +1,18 @@
+import { IsNumber, IsOptional, IsString, IsUrl, Min } from 'class-validator';
+
+export class CacheEnvironmentVariables {
+  // * Redis-compatible storage shared by the instances, in-memory cache is used without it
+  @IsUrl({ protocols: ['redis', 'rediss'], require_tld: false })
+  @IsOptional()
+  CACHE_REDIS_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  CACHE_KEY_PREFIX?: string;
+
+  // * max number of items of the in-memory cache
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  CACHE_MEMORY_MAX_ITEMS?: number;
+}
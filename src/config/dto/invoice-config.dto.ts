@@ -0,0 +1,48 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const vatRateListRegex = /^[^:,]+:\d+(\.\d+)?(,[^:,]+:\d+(\.\d+)?)*$/;
+
+export class InvoiceEnvironmentVariables {
+  @IsString()
+  @IsOptional()
+  INVOICE_ISSUER_NAME?: string;
+
+  // * lines are separated by "|"
+  @IsString()
+  @IsOptional()
+  INVOICE_ISSUER_ADDRESS?: string;
+
+  @IsString()
+  @IsOptional()
+  INVOICE_ISSUER_VAT_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  INVOICE_NUMBER_PREFIX?: string;
+
+  @IsString()
+  @IsOptional()
+  INVOICE_CREDIT_NOTE_NUMBER_PREFIX?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  INVOICE_PAYMENT_TERM_DAYS?: number;
+
+  @Matches(vatRateListRegex)
+  @IsOptional()
+  INVOICE_VAT_RATES?: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  INVOICE_DEFAULT_VAT_RATE?: number;
+}
@@ -0,0 +1,17 @@
+import { IsNumber, IsOptional, IsUrl, Min } from 'class-validator';
+
+export class OutreachEnvironmentVariables {
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  OUTREACH_TRACKING_BASE_URL?: string;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  OUTREACH_MAX_MESSAGES_PER_RUN?: number;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  OUTREACH_MAX_SEND_ATTEMPTS?: number;
+}
@@ -0,0 +1,23 @@
+import { IsNumber, IsOptional, Matches, Min } from 'class-validator';
+
+const thresholdListRegex = /^\d+(,\d+)*$/;
+
+export class RemindersEnvironmentVariables {
+  @Matches(thresholdListRegex)
+  @IsOptional()
+  REMINDER_STATUS_UNCHANGED_DAYS?: string;
+
+  @Matches(thresholdListRegex)
+  @IsOptional()
+  REMINDER_EMAIL_UNVERIFIED_DAYS?: string;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  REMINDER_MESSAGE_UNREAD_MINUTES?: number;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  REMINDER_MESSAGE_UNREAD_MAX_DAYS?: number;
+}
@@ -3,6 +3,8 @@ import {
   IsNumber,
   IsOptional,
   IsString,
+  Length,
+  Matches,
   Min,
 } from 'class-validator';
 
@@ -31,6 +33,41 @@ export class SecurityEnvironmentVariables {
   @IsOptional()
   JWT_EXPIRES_IN?: string;
 
+  @IsString()
+  @IsOptional()
+  JWT_REFRESH_COOKIE_NAME?: string;
+
+  @IsString()
+  @IsOptional()
+  JWT_REFRESH_EXPIRES_IN?: string;
+
+  @IsHexadecimal()
+  @Length(64, 64)
+  @IsOptional()
+  ENCRYPTION_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  TWO_FACTOR_ISSUER?: string;
+
+  @Matches(/^\d+(,\d+)*$/)
+  @IsOptional()
+  TWO_FACTOR_REQUIRED_ROLES?: string;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  LOGIN_MAX_ATTEMPTS?: number;
+
+  @IsString()
+  @IsOptional()
+  LOGIN_LOCKOUT_DURATION?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  LOGIN_DELAY_AFTER_ATTEMPTS?: number;
+
   @IsNumber()
   @Min(1)
   @IsOptional()
@@ -0,0 +1,21 @@
+import { IsNumber, IsOptional, IsString, Matches, Min } from 'class-validator';
+
+export class SepaEnvironmentVariables {
+  @IsString()
+  @IsOptional()
+  SEPA_DEBTOR_NAME?: string;
+
+  // * account the payouts are sent from, SEPA export is disabled without it
+  @Matches(/^[A-Z]{2}\d{2}[A-Z0-9 ]{11,36}$/i)
+  @IsOptional()
+  SEPA_DEBTOR_IBAN?: string;
+
+  @Matches(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/i)
+  @IsOptional()
+  SEPA_DEBTOR_BIC?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  SEPA_EXECUTION_DAYS?: number;
+}
@@ -0,0 +1,5 @@
+export interface ICacheConfig {
+  redisUrl?: string;
+  keyPrefix: string;
+  memoryMaxItems: number;
+}
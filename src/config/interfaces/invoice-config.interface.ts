@@ -0,0 +1,13 @@
+export interface IInvoiceConfig {
+  issuer: {
+    name: string;
+    address: string[];
+    vatId?: string;
+  };
+  invoicePrefix: string;
+  creditNotePrefix: string;
+  paymentTermDays: number;
+  // * percentages by lowercase country name
+  vatRates: Record<string, number>;
+  defaultVatRate: number;
+}
@@ -0,0 +1,5 @@
+export interface IOutreachConfig {
+  trackingBaseUrl: string;
+  maxMessagesPerRun: number;
+  maxSendAttempts: number;
+}
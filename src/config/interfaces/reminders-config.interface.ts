@@ -0,0 +1,8 @@
+export interface IRemindersConfig {
+  statusUnchangedDays: number[];
+  emailUnverifiedDays: number[];
+  messageUnread: {
+    minutes: number;
+    maxDays: number;
+  };
+}
@@ -9,6 +9,18 @@ export interface ISecurityConfig {
   jwt: {
     cookieName: string;
     expiresIn: string;
+    refreshCookieName: string;
+    refreshExpiresIn: string;
+  };
+  encryptionKey: string;
+  twoFactor: {
+    issuer: string;
+    requiredRoles: number[];
+  };
+  loginLockout: {
+    maxAttempts: number;
+    duration: string;
+    delayAfterAttempts: number;
   };
   rateLimit: {
     ttl: number;
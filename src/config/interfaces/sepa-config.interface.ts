@@ -0,0 +1,8 @@
+export interface ISepaConfig {
+  debtor: {
+    name: string;
+    iban?: string;
+    bic?: string;
+  };
+  executionDays: number;
+}
@@ -0,0 +1,38 @@
+import { registerAs } from '@nestjs/config';
+import { validate } from './utils/env-validation';
+import { InvoiceEnvironmentVariables } from './dto/invoice-config.dto';
+import { IInvoiceConfig } from './interfaces/invoice-config.interface';
+
+// * "Germany:19,Switzerland:8.1" => { germany: 19, switzerland: 8.1 }
+const parseVatRates = (value: string | undefined) =>
+  (value ? value.split(',') : []).reduce<Record<string, number>>(
+    (vatRates, vatRate) => {
+      const [country, rate] = vatRate.split(':');
+
+      return { ...vatRates, [country.trim().toLowerCase()]: parseFloat(rate) };
+    },
+    {},
+  );
+
+export default registerAs('invoice', (): IInvoiceConfig => {
+  validate(process.env, InvoiceEnvironmentVariables);
+
+  return {
+    issuer: {
+      name: process.env.INVOICE_ISSUER_NAME || 'Patients Influence',
+      address: process.env.INVOICE_ISSUER_ADDRESS
+        ? process.env.INVOICE_ISSUER_ADDRESS.split('|')
+        : [],
+      vatId: process.env.INVOICE_ISSUER_VAT_ID,
+    },
+    invoicePrefix: process.env.INVOICE_NUMBER_PREFIX || 'INV',
+    creditNotePrefix: process.env.INVOICE_CREDIT_NOTE_NUMBER_PREFIX || 'CN',
+    paymentTermDays: process.env.INVOICE_PAYMENT_TERM_DAYS
+      ? parseInt(process.env.INVOICE_PAYMENT_TERM_DAYS)
+      : 30,
+    vatRates: parseVatRates(process.env.INVOICE_VAT_RATES),
+    defaultVatRate: process.env.INVOICE_DEFAULT_VAT_RATE
+      ? parseFloat(process.env.INVOICE_DEFAULT_VAT_RATE)
+      : 0,
+  };
+});
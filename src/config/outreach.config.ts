@@ -0,0 +1,22 @@
+import { registerAs } from '@nestjs/config';
+import { validate } from './utils/env-validation';
+import { OutreachEnvironmentVariables } from './dto/outreach-config.dto';
+import { IOutreachConfig } from './interfaces/outreach-config.interface';
+
+export default registerAs('outreach', (): IOutreachConfig => {
+  validate(process.env, OutreachEnvironmentVariables);
+
+  return {
+    // * public URL of this API, the tracking links in the emails point to it
+    trackingBaseUrl:
+      process.env.OUTREACH_TRACKING_BASE_URL ||
+      `http://localhost:${parseInt(process.env.API_PORT) || 3000}`,
+    maxMessagesPerRun: process.env.OUTREACH_MAX_MESSAGES_PER_RUN
+      ? parseInt(process.env.OUTREACH_MAX_MESSAGES_PER_RUN)
+      : 100,
+    // * the step is retried with a growing delay, the enrollment is stopped after the last attempt
+    maxSendAttempts: process.env.OUTREACH_MAX_SEND_ATTEMPTS
+      ? parseInt(process.env.OUTREACH_MAX_SEND_ATTEMPTS)
+      : 5,
+  };
+});
@@ -0,0 +1,37 @@
+import { registerAs } from '@nestjs/config';
+import { validate } from './utils/env-validation';
+import { RemindersEnvironmentVariables } from './dto/reminders-config.dto';
+import { IRemindersConfig } from './interfaces/reminders-config.interface';
+
+// * "3,7,14" => [3, 7, 14]
+const parseThresholds = (value: string | undefined, defaultValue: number[]) =>
+  value
+    ? value
+        .split(',')
+        .map((threshold) => parseInt(threshold))
+        .sort((a, b) => a - b)
+    : defaultValue;
+
+export default registerAs('reminders', (): IRemindersConfig => {
+  validate(process.env, RemindersEnvironmentVariables);
+
+  return {
+    statusUnchangedDays: parseThresholds(
+      process.env.REMINDER_STATUS_UNCHANGED_DAYS,
+      [7, 14, 30],
+    ),
+    emailUnverifiedDays: parseThresholds(
+      process.env.REMINDER_EMAIL_UNVERIFIED_DAYS,
+      [1, 3, 7],
+    ),
+    messageUnread: {
+      minutes: process.env.REMINDER_MESSAGE_UNREAD_MINUTES
+        ? parseInt(process.env.REMINDER_MESSAGE_UNREAD_MINUTES)
+        : 60,
+      // * messages older than this are not reminded about anymore
+      maxDays: process.env.REMINDER_MESSAGE_UNREAD_MAX_DAYS
+        ? parseInt(process.env.REMINDER_MESSAGE_UNREAD_MAX_DAYS)
+        : 3,
+    },
+  };
+});
@@ -1,4 +1,5 @@
 import { registerAs } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { SecurityEnvironmentVariables } from './dto/security-config.dto';
 import { validate } from './utils/env-validation';
 import { ISecurityConfig } from './interfaces/security-config.interface';
@@ -16,7 +17,30 @@ export default registerAs('security', (): ISecurityConfig => {
     },
     jwt: {
       cookieName: process.env.JWT_COOKIE_NAME || 'auth',
-      expiresIn: process.env.JWT_EXPIRES_IN || '1d',
+      expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+      refreshCookieName: process.env.JWT_REFRESH_COOKIE_NAME || 'refresh',
+      refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
+    },
+    // * AES-256 key (64 hex characters), derived from the secret key if not set
+    encryptionKey:
+      process.env.ENCRYPTION_KEY ||
+      createHash('sha256').update(process.env.SECRET_KEY).digest('hex'),
+    twoFactor: {
+      issuer: process.env.TWO_FACTOR_ISSUER || 'Patients Influence',
+      // * users of these roles can't login without 2FA, eg. "0,1"
+      requiredRoles: process.env.TWO_FACTOR_REQUIRED_ROLES
+        ? process.env.TWO_FACTOR_REQUIRED_ROLES.split(',').map((role) =>
+            parseInt(role),
+          )
+        : [],
+    },
+    loginLockout: {
+      maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS) || 10,
+      // * failed attempts older than this are forgotten
+      duration: process.env.LOGIN_LOCKOUT_DURATION || '30m',
+      delayAfterAttempts: process.env.LOGIN_DELAY_AFTER_ATTEMPTS
+        ? parseInt(process.env.LOGIN_DELAY_AFTER_ATTEMPTS)
+        : 3,
     },
     rateLimit: {
       ttl: process.env.RATE_LIMIT_TTL
@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+import { validate } from './utils/env-validation';
+import { SepaEnvironmentVariables } from './dto/sepa-config.dto';
+import { ISepaConfig } from './interfaces/sepa-config.interface';
+
+export default registerAs('sepa', (): ISepaConfig => {
+  validate(process.env, SepaEnvironmentVariables);
+
+  return {
+    debtor: {
+      name: process.env.SEPA_DEBTOR_NAME || 'Patients Influence',
+      iban: process.env.SEPA_DEBTOR_IBAN?.replace(/\s/g, '').toUpperCase(),
+      bic: process.env.SEPA_DEBTOR_BIC?.replace(/\s/g, '').toUpperCase(),
+    },
+    // * days after the export the bank should execute the payouts
+    executionDays: process.env.SEPA_EXECUTION_DAYS
+      ? parseInt(process.env.SEPA_EXECUTION_DAYS)
+      : 1,
+  };
+});
@@ -1,8 +1,20 @@
-import { Controller, Get, UnauthorizedException } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiBody, ApiOkResponse, ApiOperation } from '@nestjs/swagger';
 import { AdminService } from './admin.service';
 import { UserEntity } from '../users/entities/user.entity';
 import { AuthUser } from '../auth/decorators';
 import { UserRole } from 'src/utils';
+import { CheckAbilities } from '../auth/ability/decorators/ability.decorator';
+import { Action } from '../auth/ability';
+import { BatchPayloadEntity } from 'src/utils/entities/batch-payload.entity';
 
 @Controller('admin')
 export class AdminController {
@@ -14,4 +26,67 @@ export class AdminController {
 
     return this.adminService.generateAmbassadorInvLink(user);
   }
+
+  @Get(':adminId/permissions')
+  @CheckAbilities({ action: Action.Read, subject: 'Admin' })
+  @ApiOperation({
+    summary: 'Get admin roles and permissions',
+    description:
+      'Retrieves roles and permissions assigned to the admin, together with the effective permissions the admin gets through both.',
+  })
+  getAdminPermissions(@Param('adminId', ParseIntPipe) adminId: number) {
+    return this.adminService.getAdminPermissions(adminId);
+  }
+
+  @Patch(':adminId/roles')
+  @CheckAbilities({ action: Action.Update, subject: 'Admin' })
+  @ApiOperation({
+    summary: 'Update roles of an admin',
+    description:
+      'Assigns platform roles to the admin. A new list of roles swaps the old list. Only roles with permissions the admin holds can be assigned, and not to itself.',
+  })
+  @ApiBody({
+    description: 'Platform role IDs',
+    type: Number,
+    isArray: true,
+  })
+  @ApiOkResponse({
+    description: 'Admin roles updated',
+    type: BatchPayloadEntity,
+  })
+  updateAdminRoles(
+    @Param('adminId', ParseIntPipe) adminId: number,
+    @Body() roleIds: number[],
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.adminService.updateAdminRoles(adminId, roleIds, user);
+  }
+
+  @Patch(':adminId/permissions')
+  @CheckAbilities({ action: Action.Update, subject: 'Admin' })
+  @ApiOperation({
+    summary: 'Update permissions of an admin',
+    description:
+      'Grants permissions to the admin directly, next to the ones from its roles. A new list of permissions swaps the old list. Only permissions the admin holds can be granted, and not to itself.',
+  })
+  @ApiBody({
+    description: 'Permission IDs',
+    type: Number,
+    isArray: true,
+  })
+  @ApiOkResponse({
+    description: 'Admin permissions updated',
+    type: BatchPayloadEntity,
+  })
+  updateAdminPermissions(
+    @Param('adminId', ParseIntPipe) adminId: number,
+    @Body() permissionIds: number[],
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.adminService.updateAdminPermissions(
+      adminId,
+      permissionIds,
+      user,
+    );
+  }
 }
@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { AdminController } from './admin.controller';
+import { AuthModule } from '../auth/auth.module';
+import { RolesController } from './subroutes/roles/roles.controller';
+import { RolesService } from './subroutes/roles/roles.service';
+import { PermissionsController } from './subroutes/permissions/permissions.controller';
+import { PermissionsService } from './subroutes/permissions/permissions.service';
 
 @Module({
-  controllers: [AdminController],
-  providers: [AdminService],
+  imports: [AuthModule],
+  controllers: [AdminController, RolesController, PermissionsController],
+  providers: [AdminService, RolesService, PermissionsService],
 })
 export class AdminModule {}
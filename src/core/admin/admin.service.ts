@@ -9,6 +9,8 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { convertToMilliseconds } from 'src/utils';
 import securityConfig from 'src/config/security.config';
+import { ForbiddenApplicationException } from 'src/exceptions/application.exception';
+import { AbilityFactory } from '../auth/ability/ability.factory';
 
 @Injectable()
 export class AdminService {
@@ -18,6 +20,7 @@ export class AdminService {
     private readonly _securityConfig: ConfigType<typeof securityConfig>,
     private readonly prismaService: PrismaService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private readonly abilityFactory: AbilityFactory,
   ) {}
 
   static queryInclude: Prisma.UserInclude = {
@@ -48,4 +51,98 @@ export class AdminService {
       .join('.')}`;
     return `${baseUrl}/register?as=ambassador&token=${token}`;
   }
+
+  async getAdminPermissions(adminId: number) {
+    const admin = await this.prismaService.admin.findUniqueOrThrow({
+      where: { id: adminId },
+      include: {
+        adminRoles: { include: { role: true } },
+        adminPermissions: { include: { permission: true } },
+      },
+    });
+
+    return {
+      roles: admin.adminRoles.map((adminRole) => adminRole.role),
+      permissions: admin.adminPermissions.map(
+        (adminPermission) => adminPermission.permission,
+      ),
+      // * permissions granted directly and through roles
+      effectivePermissions: await this.abilityFactory.getAdminPermissions(
+        admin.userId,
+      ),
+    };
+  }
+
+  async updateAdminRoles(adminId: number, roleIds: number[], user: UserEntity) {
+    const admin = await this.findGrantableAdmin(adminId, user);
+    const rolePermissions = await this.prismaService.rolePermission.findMany({
+      where: { roleId: { in: roleIds } },
+      select: { permissionId: true },
+    });
+
+    await this.abilityFactory.assertCanGrantPermissions(
+      user,
+      rolePermissions.map(({ permissionId }) => permissionId),
+    );
+
+    const result = await this.prismaService.$transaction(async (tx) => {
+      const unassignedRoles = await tx.adminRole.deleteMany({
+        where: { adminId, roleId: { notIn: roleIds } },
+      });
+      const assignedRoles = await tx.adminRole.createMany({
+        data: roleIds.map((roleId) => ({ adminId, roleId })),
+        skipDuplicates: true,
+      });
+
+      return {
+        count: unassignedRoles.count + assignedRoles.count,
+      } as Prisma.BatchPayload;
+    });
+
+    await this.abilityFactory.invalidateAbilityCache([admin.userId]);
+
+    return result;
+  }
+
+  async updateAdminPermissions(
+    adminId: number,
+    permissionIds: number[],
+    user: UserEntity,
+  ) {
+    const admin = await this.findGrantableAdmin(adminId, user);
+
+    await this.abilityFactory.assertCanGrantPermissions(user, permissionIds);
+
+    const result = await this.prismaService.$transaction(async (tx) => {
+      const revokedPermissions = await tx.adminPermission.deleteMany({
+        where: { adminId, permissionId: { notIn: permissionIds } },
+      });
+      const grantedPermissions = await tx.adminPermission.createMany({
+        data: permissionIds.map((permissionId) => ({ adminId, permissionId })),
+        skipDuplicates: true,
+      });
+
+      return {
+        count: revokedPermissions.count + grantedPermissions.count,
+      } as Prisma.BatchPayload;
+    });
+
+    await this.abilityFactory.invalidateAbilityCache([admin.userId]);
+
+    return result;
+  }
+
+  private async findGrantableAdmin(adminId: number, user: UserEntity) {
+    const admin = await this.prismaService.admin.findUniqueOrThrow({
+      where: { id: adminId },
+    });
+
+    if (admin.userId === user.id) {
+      throw new ForbiddenApplicationException(
+        `You can't change your own roles and permissions`,
+      );
+    }
+
+    return admin;
+  }
 }
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsIn } from 'class-validator';
+import { Action } from 'src/core/auth/ability';
+import { appSubjectNames } from 'src/core/auth/ability/types/app-subjects.type';
+import { AppSubjectName } from 'src/core/auth/ability/utils/permission.util';
+
+export class CreatePermissionDto {
+  @ApiProperty({ enum: Action, example: Action.Read })
+  @IsEnum(Action)
+  action: Action;
+
+  @ApiProperty({ enum: appSubjectNames, example: 'Campaign' })
+  @IsIn(appSubjectNames)
+  subject: AppSubjectName;
+}
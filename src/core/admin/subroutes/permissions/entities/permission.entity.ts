@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from '@prisma/client';
+
+export class PermissionEntity implements Permission {
+  id: number;
+
+  @ApiProperty({
+    description: 'Permission in the "action:subject" format',
+    example: 'read:Campaign',
+  })
+  permission: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<PermissionEntity>) {
+    Object.assign(this, partial);
+  }
+}
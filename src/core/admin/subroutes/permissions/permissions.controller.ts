@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorator';
+import { Action } from 'src/core/auth/ability';
+import { PermissionsService } from './permissions.service';
+import { CreatePermissionDto } from './dto/create-permission.dto';
+import { PermissionEntity } from './entities/permission.entity';
+
+@Controller('admin/permissions')
+@ApiTags('admin')
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Post()
+  @CheckAbilities({ action: Action.Create, subject: 'Permission' })
+  @ApiOperation({
+    summary: 'Create a permission',
+    description:
+      'Creates a permission that can be granted to platform roles or admins. If the permission already exists, it is returned instead.',
+  })
+  @ApiCreatedResponse({ type: PermissionEntity })
+  async create(@Body() dto: CreatePermissionDto) {
+    return new PermissionEntity(await this.permissionsService.create(dto));
+  }
+
+  @Get()
+  @CheckAbilities({ action: Action.Read, subject: 'Permission' })
+  @ApiOperation({ summary: 'Get all permissions' })
+  @ApiOkResponse({ type: PermissionEntity, isArray: true })
+  async findAll() {
+    const permissions = await this.permissionsService.findAll();
+
+    return permissions.map((permission) => new PermissionEntity(permission));
+  }
+
+  @Delete(':id')
+  @CheckAbilities({ action: Action.Delete, subject: 'Permission' })
+  @ApiOperation({
+    summary: 'Delete a permission',
+    description:
+      'Deletes the permission and revokes it from every platform role and admin.',
+  })
+  @ApiOkResponse({ type: PermissionEntity })
+  async deleteOne(@Param('id', ParseIntPipe) id: number) {
+    return new PermissionEntity(await this.permissionsService.deleteOne(id));
+  }
+}
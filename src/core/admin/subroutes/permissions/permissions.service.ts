@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { AbilityFactory } from 'src/core/auth/ability/ability.factory';
+import { formatPermission } from 'src/core/auth/ability/utils/permission.util';
+import { CreatePermissionDto } from './dto/create-permission.dto';
+
+@Injectable()
+export class PermissionsService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly abilityFactory: AbilityFactory,
+  ) {}
+
+  async create(dto: CreatePermissionDto) {
+    const permission = formatPermission(dto);
+
+    return await this.prismaService.permission.upsert({
+      where: { permission },
+      create: { permission },
+      update: {},
+    });
+  }
+
+  async findAll() {
+    return await this.prismaService.permission.findMany({
+      orderBy: { permission: 'asc' },
+    });
+  }
+
+  async deleteOne(id: number) {
+    const affectedAdmins = await this.prismaService.admin.findMany({
+      where: {
+        OR: [
+          { adminPermissions: { some: { permissionId: id } } },
+          {
+            adminRoles: {
+              some: {
+                role: { rolePermissions: { some: { permissionId: id } } },
+              },
+            },
+          },
+        ],
+      },
+      select: { userId: true },
+    });
+
+    const permission = await this.prismaService.$transaction(async (tx) => {
+      await tx.adminPermission.deleteMany({ where: { permissionId: id } });
+      await tx.rolePermission.deleteMany({ where: { permissionId: id } });
+
+      return await tx.permission.delete({ where: { id } });
+    });
+
+    await this.abilityFactory.invalidateAbilityCache(
+      affectedAdmins.map((admin) => admin.userId),
+    );
+
+    return permission;
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'Finance' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ description: 'Permission IDs', type: [Number] })
+  @IsArray()
+  @IsInt({ each: true })
+  @IsOptional()
+  permissionIds?: number[];
+}
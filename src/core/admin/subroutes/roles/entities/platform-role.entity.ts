@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PlatformRole } from '@prisma/client';
+import { UserRole } from 'src/utils';
+import { PermissionEntity } from '../../permissions/entities/permission.entity';
+
+export class PlatformRoleEntity implements PlatformRole {
+  id: number;
+
+  @ApiProperty({ example: 'Finance' })
+  name: string;
+
+  description: string;
+
+  @ApiProperty({
+    description: 'User role that the platform role can be assigned to',
+    enum: UserRole,
+  })
+  role: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  @ApiProperty({ type: PermissionEntity, isArray: true })
+  permissions?: PermissionEntity[];
+
+  constructor({
+    rolePermissions,
+    ...data
+  }: Partial<PlatformRoleEntity> & {
+    rolePermissions?: { permission: PermissionEntity }[];
+  }) {
+    Object.assign(this, data);
+
+    if (rolePermissions) {
+      this.permissions = rolePermissions.map(
+        (rolePermission) => new PermissionEntity(rolePermission.permission),
+      );
+    }
+  }
+}
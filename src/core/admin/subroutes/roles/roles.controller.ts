@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorator';
+import { Action } from 'src/core/auth/ability';
+import { BatchPayloadEntity } from 'src/utils/entities/batch-payload.entity';
+import { AuthUser } from 'src/core/auth/decorators';
+import { UserEntity } from 'src/core/users/entities/user.entity';
+import { RolesService } from './roles.service';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { PlatformRoleEntity } from './entities/platform-role.entity';
+
+@Controller('admin/roles')
+@ApiTags('admin')
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Post()
+  @CheckAbilities({ action: Action.Create, subject: 'PlatformRole' })
+  @ApiOperation({
+    summary: 'Create a platform role',
+    description:
+      'Creates a role that groups permissions, so they can be assigned to admins at once.',
+  })
+  @ApiCreatedResponse({ type: PlatformRoleEntity })
+  async create(@Body() dto: CreateRoleDto, @AuthUser() user: UserEntity) {
+    return new PlatformRoleEntity(await this.rolesService.create(dto, user));
+  }
+
+  @Get()
+  @CheckAbilities({ action: Action.Read, subject: 'PlatformRole' })
+  @ApiOperation({ summary: 'Get all platform roles' })
+  @ApiOkResponse({ type: PlatformRoleEntity, isArray: true })
+  async findAll() {
+    const roles = await this.rolesService.findAll();
+
+    return roles.map((role) => new PlatformRoleEntity(role));
+  }
+
+  @Get(':id')
+  @CheckAbilities({ action: Action.Read, subject: 'PlatformRole' })
+  @ApiOperation({ summary: 'Get single platform role' })
+  @ApiOkResponse({ type: PlatformRoleEntity })
+  async findOneById(@Param('id', ParseIntPipe) id: number) {
+    return new PlatformRoleEntity(await this.rolesService.findOneById(id));
+  }
+
+  @Patch(':id')
+  @CheckAbilities({ action: Action.Update, subject: 'PlatformRole' })
+  @ApiOperation({ summary: 'Update a platform role' })
+  @ApiOkResponse({ type: PlatformRoleEntity })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateRoleDto,
+  ) {
+    return new PlatformRoleEntity(await this.rolesService.update(id, dto));
+  }
+
+  @Patch(':id/permissions')
+  @CheckAbilities({ action: Action.Update, subject: 'PlatformRole' })
+  @ApiOperation({
+    summary: 'Update permissions of a platform role',
+    description:
+      'Grants permissions to the platform role. A new list of permissions swaps the old list. Only permissions the admin holds can be granted, and not to its own roles.',
+  })
+  @ApiBody({
+    description: 'Permission IDs',
+    type: Number,
+    isArray: true,
+  })
+  @ApiOkResponse({
+    description: 'Role permissions updated',
+    type: BatchPayloadEntity,
+  })
+  updatePermissions(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() permissionIds: number[],
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.rolesService.updatePermissions(id, permissionIds, user);
+  }
+
+  @Delete(':id')
+  @CheckAbilities({ action: Action.Delete, subject: 'PlatformRole' })
+  @ApiOperation({
+    summary: 'Delete a platform role',
+    description: 'Deletes the platform role and unassigns it from admins.',
+  })
+  @ApiOkResponse({ type: PlatformRoleEntity })
+  async deleteOne(@Param('id', ParseIntPipe) id: number) {
+    return new PlatformRoleEntity(await this.rolesService.deleteOne(id));
+  }
+}
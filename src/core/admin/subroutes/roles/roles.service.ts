@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { AbilityFactory } from 'src/core/auth/ability/ability.factory';
+import { UserRole } from 'src/utils';
+import { UserEntity } from 'src/core/users/entities/user.entity';
+import { ForbiddenApplicationException } from 'src/exceptions/application.exception';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+
+@Injectable()
+export class RolesService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly abilityFactory: AbilityFactory,
+  ) {}
+
+  static queryInclude = Prisma.validator<Prisma.PlatformRoleInclude>()({
+    rolePermissions: { include: { permission: true } },
+  });
+
+  async create(
+    { name, description, permissionIds }: CreateRoleDto,
+    user: UserEntity,
+  ) {
+    await this.abilityFactory.assertCanGrantPermissions(
+      user,
+      permissionIds ?? [],
+    );
+
+    return await this.prismaService.platformRole.create({
+      data: {
+        name,
+        description,
+        role: UserRole.Admin,
+        rolePermissions: permissionIds?.length
+          ? {
+              createMany: {
+                data: permissionIds.map((permissionId) => ({ permissionId })),
+                skipDuplicates: true,
+              },
+            }
+          : undefined,
+      },
+      include: RolesService.queryInclude,
+    });
+  }
+
+  async findAll() {
+    return await this.prismaService.platformRole.findMany({
+      include: RolesService.queryInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findOneById(id: number) {
+    return await this.prismaService.platformRole.findUniqueOrThrow({
+      where: { id },
+      include: RolesService.queryInclude,
+    });
+  }
+
+  async update(id: number, dto: UpdateRoleDto) {
+    return await this.prismaService.platformRole.update({
+      where: { id },
+      data: dto,
+      include: RolesService.queryInclude,
+    });
+  }
+
+  async updatePermissions(
+    id: number,
+    permissionIds: number[],
+    user: UserEntity,
+  ) {
+    // check if role exists
+    await this.prismaService.platformRole.findUniqueOrThrow({ where: { id } });
+
+    if ((await this.getRoleAdminUserIds(id)).includes(user.id)) {
+      throw new ForbiddenApplicationException(
+        `You can't change permissions of your own role`,
+      );
+    }
+    await this.abilityFactory.assertCanGrantPermissions(user, permissionIds);
+
+    const result = await this.prismaService.$transaction(async (tx) => {
+      const revokedPermissions = await tx.rolePermission.deleteMany({
+        where: { roleId: id, permissionId: { notIn: permissionIds } },
+      });
+      const grantedPermissions = await tx.rolePermission.createMany({
+        data: permissionIds.map((permissionId) => ({
+          roleId: id,
+          permissionId,
+        })),
+        skipDuplicates: true,
+      });
+
+      return {
+        count: revokedPermissions.count + grantedPermissions.count,
+      } as Prisma.BatchPayload;
+    });
+
+    await this.invalidateRoleAdmins(id);
+
+    return result;
+  }
+
+  async deleteOne(id: number) {
+    // * collect admins before the role is unassigned from them
+    const adminUserIds = await this.getRoleAdminUserIds(id);
+
+    const role = await this.prismaService.$transaction(async (tx) => {
+      await tx.adminRole.deleteMany({ where: { roleId: id } });
+      await tx.rolePermission.deleteMany({ where: { roleId: id } });
+
+      return await tx.platformRole.delete({ where: { id } });
+    });
+
+    await this.abilityFactory.invalidateAbilityCache(adminUserIds);
+
+    return role;
+  }
+
+  private async getRoleAdminUserIds(roleId: number) {
+    const admins = await this.prismaService.admin.findMany({
+      where: { adminRoles: { some: { roleId } } },
+      select: { userId: true },
+    });
+
+    return admins.map((admin) => admin.userId);
+  }
+
+  private async invalidateRoleAdmins(roleId: number) {
+    await this.abilityFactory.invalidateAbilityCache(
+      await this.getRoleAdminUserIds(roleId),
+    );
+  }
+}
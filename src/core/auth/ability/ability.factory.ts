@@ -1,15 +1,132 @@
 import { AbilityBuilder, ExtractSubjectType } from '@casl/ability';
 import { createPrismaAbility } from '@casl/prisma';
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
 import { UserRole } from '../../../utils/enums/user-role.enum';
 import { AppSubjects } from './types/app-subjects.type';
 import { Action } from './enums/action.enum';
 import { AppAbility } from './types/app-ability.type';
 import { UserEntity } from 'src/core/users/entities/user.entity';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { convertToMilliseconds } from 'src/utils/formatters/time.formatter';
+import { ForbiddenApplicationException } from 'src/exceptions/application.exception';
+import { isPermissionCovered, parsePermission } from './utils/permission.util';
 
 @Injectable()
 export class AbilityFactory {
-  defineAbility(user: UserEntity) {
+  private static readonly permissionsCacheTtl = convertToMilliseconds('1h');
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  static getPermissionsCacheKey(userId: number) {
+    return `ability_user_${userId}_permissions`;
+  }
+
+  async defineAbilityForUser(user: UserEntity) {
+    const permissions =
+      user.role === UserRole.Admin
+        ? await this.getAdminPermissions(user.id)
+        : [];
+
+    return this.defineAbility(user, permissions);
+  }
+
+  /**
+   * Retrieves permissions granted to the admin directly and through its roles.
+   * Result is cached per user until its grants are changed.
+   */
+  async getAdminPermissions(userId: number): Promise<string[]> {
+    const cacheKey = AbilityFactory.getPermissionsCacheKey(userId);
+    const cachedPermissions = await this.cacheManager.get<string[]>(cacheKey);
+
+    if (cachedPermissions) return cachedPermissions;
+
+    const admin = await this.prismaService.admin.findUnique({
+      where: { userId },
+      select: {
+        adminPermissions: {
+          select: { permission: { select: { permission: true } } },
+        },
+        adminRoles: {
+          select: {
+            role: {
+              select: {
+                rolePermissions: {
+                  select: { permission: { select: { permission: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const permissions = admin
+      ? [
+          ...new Set([
+            ...admin.adminPermissions.map(
+              (adminPermission) => adminPermission.permission.permission,
+            ),
+            ...admin.adminRoles.flatMap((adminRole) =>
+              adminRole.role.rolePermissions.map(
+                (rolePermission) => rolePermission.permission.permission,
+              ),
+            ),
+          ]),
+        ]
+      : [];
+
+    await this.cacheManager.set(
+      cacheKey,
+      permissions,
+      AbilityFactory.permissionsCacheTtl,
+    );
+
+    return permissions;
+  }
+
+  async invalidateAbilityCache(userIds: number[]) {
+    await Promise.all(
+      userIds.map((userId) =>
+        this.cacheManager.del(AbilityFactory.getPermissionsCacheKey(userId)),
+      ),
+    );
+  }
+
+  /**
+   * Makes sure the user grants only the permissions the user holds, so an admin can't escalate
+   * itself or others above its own permissions. Super admin holds every permission.
+   */
+  async assertCanGrantPermissions(user: UserEntity, permissionIds: number[]) {
+    if (user.role === UserRole.SuperAdmin || !permissionIds.length) return;
+
+    const heldPermissions =
+      user.role === UserRole.Admin
+        ? await this.getAdminPermissions(user.id)
+        : [];
+    const permissions = await this.prismaService.permission.findMany({
+      where: { id: { in: permissionIds } },
+    });
+    const ungrantablePermissions = permissions
+      .map(({ permission }) => permission)
+      .filter(
+        (permission) => !isPermissionCovered(permission, heldPermissions),
+      );
+
+    if (ungrantablePermissions.length) {
+      throw new ForbiddenApplicationException(
+        `You can't grant permissions you don't hold: ${ungrantablePermissions.join(
+          ', ',
+        )}`,
+      );
+    }
+  }
+
+  defineAbility(user: UserEntity, permissions: string[] = []) {
     const { can, cannot, build } = new AbilityBuilder<AppAbility>(
       createPrismaAbility,
     );
@@ -20,6 +137,12 @@ export class AbilityFactory {
         `As a super admin, you can't delete yourself`,
       );
     } else if (user.role === UserRole.Admin) {
+      // * rules granted through platform roles and admin permissions
+      permissions
+        .map((permission) => parsePermission(permission))
+        .filter((rule) => rule !== undefined)
+        .forEach((rule) => can(rule.action, rule.subject));
+
       can(Action.Read, 'User', { id: user.id });
       can(Action.Update, 'User', { id: user.id });
       cannot(Action.Delete, 'User', { id: user.id }).because(
@@ -35,7 +35,7 @@ export class AbilitiesGuard implements CanActivate {
       throw new UnauthorizedException();
     }
 
-    const ability = this.caslAbilityFactory.defineAbility(user);
+    const ability = await this.caslAbilityFactory.defineAbilityForUser(user);
 
     try {
       rules.forEach((rule) => {
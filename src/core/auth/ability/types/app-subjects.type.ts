@@ -26,6 +26,9 @@ import {
   Product,
   ClientProduct,
   Currency,
+  Admin,
+  PlatformRole,
+  Permission,
 } from '@prisma/client';
 
 export type AppSubjects =
@@ -57,4 +60,43 @@ export type AppSubjects =
       PlatformProductOrder: PlatformProductOrder;
       Legal: Legal;
       ClientProduct: ClientProduct;
+      Admin: Admin;
+      PlatformRole: PlatformRole;
+      Permission: Permission;
     }>;
+
+/**
+ * Subject names that can be stored as a permission, eg. "read:Campaign".
+ */
+export const appSubjectNames = [
+  'all',
+  'User',
+  'Stakeholder',
+  'Influencer',
+  'Client',
+  'ClientDiseaseArea',
+  'Currency',
+  'DiscoverClient',
+  'Ambassador',
+  'UserComment',
+  'UserLabel',
+  'Label',
+  'PlatformProductComment',
+  'PlatformProductLabel',
+  'Product',
+  'DiseaseArea',
+  'Location',
+  'Company',
+  'Campaign',
+  'CampaignReport',
+  'Survey',
+  'SML',
+  'Benefit',
+  'BenefitSuggestion',
+  'PlatformProductOrder',
+  'Legal',
+  'ClientProduct',
+  'Admin',
+  'PlatformRole',
+  'Permission',
+] as const;
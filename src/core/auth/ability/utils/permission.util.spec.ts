@@ -0,0 +1,26 @@
+import { isPermissionCovered } from './permission.util';
+
+describe('isPermissionCovered', () => {
+  it('should cover the same permission', () => {
+    expect(isPermissionCovered('read:Campaign', ['read:Campaign'])).toBe(true);
+  });
+
+  it('should cover every action with manage and every subject with all', () => {
+    expect(isPermissionCovered('update:Campaign', ['manage:Campaign'])).toBe(
+      true,
+    );
+    expect(isPermissionCovered('read:Campaign', ['read:all'])).toBe(true);
+    expect(isPermissionCovered('manage:all', ['manage:all'])).toBe(true);
+  });
+
+  it('should not cover wider or other permissions', () => {
+    expect(isPermissionCovered('manage:all', ['manage:PlatformRole'])).toBe(
+      false,
+    );
+    expect(isPermissionCovered('manage:Campaign', ['update:Campaign'])).toBe(
+      false,
+    );
+    expect(isPermissionCovered('read:Survey', ['read:Campaign'])).toBe(false);
+    expect(isPermissionCovered('read:Unknown', ['manage:all'])).toBe(false);
+  });
+});
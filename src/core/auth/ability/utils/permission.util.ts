@@ -0,0 +1,52 @@
+import { Action } from '../enums/action.enum';
+import { appSubjectNames } from '../types/app-subjects.type';
+
+export type AppSubjectName = (typeof appSubjectNames)[number];
+
+export interface IPermissionRule {
+  action: Action;
+  subject: AppSubjectName;
+}
+
+const permissionSeparator = ':';
+
+/**
+ * Permissions are stored as "action:subject" strings, eg. "read:Campaign" or "manage:all".
+ */
+export const formatPermission = ({ action, subject }: IPermissionRule) =>
+  `${action}${permissionSeparator}${subject}`;
+
+export const parsePermission = (permission: string): IPermissionRule => {
+  const [action, subject] = permission.split(permissionSeparator);
+
+  if (
+    !Object.values(Action).includes(action as Action) ||
+    !appSubjectNames.includes(subject as AppSubjectName)
+  ) {
+    return undefined;
+  }
+
+  return { action: action as Action, subject: subject as AppSubjectName };
+};
+
+/**
+ * Checks if the permission is covered by the held permissions, "manage" covers every action and "all" every subject.
+ */
+export const isPermissionCovered = (
+  permission: string,
+  heldPermissions: string[],
+) => {
+  const rule = parsePermission(permission);
+
+  if (!rule) return false;
+
+  return heldPermissions
+    .map((heldPermission) => parsePermission(heldPermission))
+    .some(
+      (heldRule) =>
+        heldRule !== undefined &&
+        (heldRule.action === Action.Manage ||
+          heldRule.action === rule.action) &&
+        (heldRule.subject === 'all' || heldRule.subject === rule.subject),
+    );
+};
@@ -11,12 +11,19 @@ import {
   Get,
   ParseIntPipe,
   Param,
+  Delete,
+  ForbiddenException,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import {
   LoginDto,
   ResendEmailConfirmationDto,
   EmailConfirmationDto,
+  TwoFactorCodeDto,
+  TwoFactorEnableLoginDto,
+  TwoFactorLoginDto,
+  TwoFactorTokenDto,
+  TwoFactorVerificationDto,
 } from './dto';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { Request, Response } from 'express';
@@ -47,18 +54,86 @@ import appConfig from '../../config/app.config';
 import { Environment } from '../../config/dto/app-config.dto';
 import { I18n, I18nContext } from 'nestjs-i18n';
 import { getUserByIdDto } from './dto/get-user.dto';
+import { AuthUser } from './decorators';
+import { UserSessionEntity } from './entities/user-session.entity';
+import { TwoFactorService } from './two-factor.service';
+import { CheckAbilities } from './ability/decorators/ability.decorator';
+import { Action } from './ability';
 
 @Controller('auth')
 @ApiTags('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
     @Inject(securityConfig.KEY)
     private readonly _securityConfig: ConfigType<typeof securityConfig>,
     @Inject(appConfig.KEY)
     private readonly _appConfig: ConfigType<typeof appConfig>,
   ) {}
 
+  private setAuthCookies(
+    res: Response,
+    {
+      accessToken,
+      refreshToken,
+    }: { accessToken: string; refreshToken: string },
+  ) {
+    const cookieOptions = {
+      httpOnly: true,
+      sameSite:
+        this._appConfig.nodeEnv === Environment.Production
+          ? ('none' as const)
+          : ('lax' as const),
+      secure: this._appConfig.nodeEnv === Environment.Production,
+      domain: this._securityConfig.baseDomain,
+    };
+
+    return res
+      .cookie(this._securityConfig.jwt.cookieName, accessToken, {
+        ...cookieOptions,
+        maxAge: convertToMilliseconds(this._securityConfig.jwt.expiresIn),
+      })
+      .cookie(this._securityConfig.jwt.refreshCookieName, refreshToken, {
+        ...cookieOptions,
+        maxAge: convertToMilliseconds(
+          this._securityConfig.jwt.refreshExpiresIn,
+        ),
+        // * refresh token is needed only by auth endpoints
+        path: '/auth',
+      });
+  }
+
+  private clearAuthCookies(res: Response, secure: boolean) {
+    // remove cookie content and set its maxAge to 0 so browser removes it automatically
+    const cookieOptions = {
+      httpOnly: true,
+      maxAge: 0,
+      sameSite:
+        this._appConfig.nodeEnv === Environment.Production
+          ? ('none' as const)
+          : ('lax' as const),
+      secure,
+      domain: this._securityConfig.baseDomain,
+    };
+
+    return res
+      .cookie(this._securityConfig.jwt.cookieName, '', cookieOptions)
+      .cookie(this._securityConfig.jwt.refreshCookieName, '', {
+        ...cookieOptions,
+        path: '/auth',
+      });
+  }
+
+  private async startSession(req: Request, res: Response, user: User) {
+    const tokens = await this.authService.login(user, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+
+    return this.setAuthCookies(res, tokens);
+  }
+
   // * throttle more than other endpoints
   @Throttle(3, 60)
   @Post('login')
@@ -67,7 +142,10 @@ export class AuthController {
     description:
       'Initiate the user session by providing valid credentials and retrieving the auth cookie.' +
       '<br><br>For each invalid login attempt, a user retrieves a generic response for security reasons, eg. unauthorized.' +
-      "<br>If credentials are valid but the user is not verified, he gets a message that he's forbidden to get in. A verification token is sent to the email upon registration.",
+      "<br>If credentials are valid but the user is not verified, he gets a message that he's forbidden to get in. A verification token is sent to the email upon registration." +
+      '<br>After a few failed attempts for the same email, each further attempt is delayed and eventually the account is temporarily locked. It can be unlocked by resetting the password or by an admin.' +
+      '<br><br>If the user has two-factor authentication enabled, no cookie is issued. Instead, "twoFactorRequired" and "twoFactorToken" are returned and the login is finished at "auth/login/2fa".' +
+      '<br>If the role of the user requires 2FA which is not yet enabled, "twoFactorSetupRequired" is returned and the login is finished at "auth/login/2fa/setup" and "auth/login/2fa/enable".',
   })
   @ApiBody({
     type: LoginDto,
@@ -87,30 +165,250 @@ export class AuthController {
   @UseGuards(LocalAuthGuard)
   @HttpCode(HttpStatus.OK)
   async login(@Req() req: Request, @Res() res: Response) {
-    const accessToken = (await this.authService.login(req.user as User))
-      .accessToken;
+    const twoFactorChallenge = await this.twoFactorService.createLoginChallenge(
+      req.user as User,
+    );
+
+    if (twoFactorChallenge) {
+      return res.json(twoFactorChallenge);
+    }
 
     return (
-      res
-        .cookie(this._securityConfig.jwt.cookieName, accessToken, {
-          httpOnly: true,
-          maxAge: convertToMilliseconds(this._securityConfig.jwt.expiresIn),
-          sameSite:
-            this._appConfig.nodeEnv === Environment.Production ? 'none' : 'lax',
-          secure: this._appConfig.nodeEnv === Environment.Production,
-          domain: this._securityConfig.baseDomain,
-        })
+      (await this.startSession(req, res, req.user as User))
         // * manually serialize
         .json(serializeObject(req.user, UserEntity))
       // .json(instanceToPlain(new UserEntity(req.user)))
     );
   }
 
+  @Throttle(3, 60)
+  @Post('login/2fa')
+  @ApiOperation({
+    summary: 'Finish the login with two-factor authentication',
+    description:
+      'Second login step that issues the auth cookie. Requires the code from the authenticator app or one of the recovery codes.',
+  })
+  @ApiOkResponse({
+    description: 'User logged in.',
+    type: UserEntity,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Code or the two-factor token is invalid.',
+  })
+  @Public()
+  @NoAutoSerialize()
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactor(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Body() { twoFactorToken, ...dto }: TwoFactorLoginDto,
+  ) {
+    const user = await this.twoFactorService.validateLoginToken(twoFactorToken);
+
+    await this.twoFactorService.verifyLogin(user, dto);
+
+    return (await this.startSession(req, res, user)).json(
+      serializeObject(user, UserEntity),
+    );
+  }
+
+  @Throttle(3, 60)
+  @Post('login/2fa/setup')
+  @ApiOperation({
+    summary: 'Set up mandatory two-factor authentication during the login',
+    description:
+      'Returns the secret, "otpauth" URL and its QR code (data URL) to be scanned by the authenticator app.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Two-factor authentication is not mandatory for the user.',
+  })
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactorSetup(@Body() { twoFactorToken }: TwoFactorTokenDto) {
+    const user = await this.twoFactorService.validateLoginToken(twoFactorToken);
+
+    if (!this.twoFactorService.isRequired(user)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is not mandatory, set it up after the login',
+      );
+    }
+
+    return this.twoFactorService.setup(user);
+  }
+
+  @Throttle(3, 60)
+  @Post('login/2fa/enable')
+  @ApiOperation({
+    summary: 'Enable mandatory two-factor authentication and finish the login',
+    description:
+      'Confirms the set up with the code from the authenticator app, issues the auth cookie and returns recovery codes. Recovery codes are shown only once.',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Code or the two-factor token is invalid.',
+  })
+  @Public()
+  @NoAutoSerialize()
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactorEnable(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Body() { twoFactorToken, code }: TwoFactorEnableLoginDto,
+  ) {
+    const user = await this.twoFactorService.validateLoginToken(twoFactorToken);
+    const { recoveryCodes } = await this.twoFactorService.enable(user, code);
+
+    return (await this.startSession(req, res, user)).json({
+      ...serializeObject(user, UserEntity),
+      recoveryCodes,
+    });
+  }
+
+  @Get('2fa')
+  @ApiOperation({
+    summary: 'Get my two-factor authentication status',
+  })
+  getTwoFactorStatus(@AuthUser() user: UserEntity) {
+    return this.twoFactorService.getStatus(user);
+  }
+
+  @Post('2fa/setup')
+  @ApiOperation({
+    summary: 'Set up two-factor authentication',
+    description:
+      'Returns the secret, "otpauth" URL and its QR code (data URL) to be scanned by the authenticator app. 2FA is not active until it is enabled.',
+  })
+  @HttpCode(HttpStatus.OK)
+  setupTwoFactor(@AuthUser() user: UserEntity) {
+    return this.twoFactorService.setup(user);
+  }
+
+  @Post('2fa/enable')
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description:
+      'Confirms the set up with the code from the authenticator app and returns recovery codes. Recovery codes are shown only once.',
+  })
+  @HttpCode(HttpStatus.OK)
+  enableTwoFactor(
+    @Body() { code }: TwoFactorCodeDto,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.twoFactorService.enable(user, code);
+  }
+
+  @Post('2fa/disable')
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+  })
+  @ApiForbiddenResponse({
+    description: 'Two-factor authentication is mandatory for the role.',
+  })
+  @HttpCode(HttpStatus.OK)
+  disableTwoFactor(
+    @Body() dto: TwoFactorVerificationDto,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.twoFactorService.disable(user, dto);
+  }
+
+  @Post('2fa/recoveryCodes')
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description:
+      'Invalidates existing recovery codes and returns new ones. Recovery codes are shown only once.',
+  })
+  @HttpCode(HttpStatus.OK)
+  regenerateRecoveryCodes(
+    @Body() { code }: TwoFactorCodeDto,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(user, code);
+  }
+
+  @Delete('2fa/users/:userId')
+  @ApiOperation({
+    summary: "Reset user's two-factor authentication",
+    description:
+      'Removes 2FA and recovery codes of the user and signs the user out from every device.' +
+      '<br><br>Only users with a lower role than the logged-in user can be reset.',
+  })
+  @ApiNotFoundResponse({
+    description: 'User has no two-factor authentication.',
+  })
+  @ApiForbiddenResponse({
+    description: 'User has the same or higher role.',
+  })
+  @CheckAbilities({ action: Action.Manage, subject: 'User' })
+  @HttpCode(HttpStatus.OK)
+  resetTwoFactor(
+    @Param('userId', ParseIntPipe) userId: number,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.twoFactorService.reset(userId, user);
+  }
+
+  @Post('refresh')
+  @ApiOperation({
+    summary: 'Refresh the session',
+    description:
+      'Issues a new short-lived auth cookie and rotates the refresh cookie.' +
+      '<br><br>Each refresh token can be used only once - reusing it revokes the whole session.',
+  })
+  @ApiOkResponse({
+    description: 'Session refreshed.',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Session is invalid, expired or revoked.',
+  })
+  @Public()
+  @NoAutoSerialize()
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Req() req: Request, @Res() res: Response) {
+    const tokens = await this.authService.refresh(
+      req.cookies?.[this._securityConfig.jwt.refreshCookieName],
+    );
+
+    return this.setAuthCookies(res, tokens).send();
+  }
+
+  @Get('sessions')
+  @ApiOperation({
+    summary: 'Get my sessions',
+    description:
+      'Retrieves active sessions (logged-in devices) of the logged-in user.',
+  })
+  @ApiOkResponse({ type: [UserSessionEntity] })
+  async findSessions(@Req() req: Request, @AuthUser() user: UserEntity) {
+    const sessions = await this.authService.findSessions(
+      user.id,
+      req.cookies?.[this._securityConfig.jwt.refreshCookieName],
+    );
+
+    return sessions.map((session) => new UserSessionEntity(session));
+  }
+
+  @Delete('sessions/:id')
+  @ApiOperation({
+    summary: 'Revoke my session',
+    description:
+      'Signs out the device of the session. Its auth cookie stops working immediately.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session does not exist or is already revoked.',
+  })
+  @HttpCode(HttpStatus.OK)
+  revokeSession(
+    @Param('id', ParseIntPipe) id: number,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.authService.revokeSession(id, user.id);
+  }
+
   @Post('logout')
   @ApiOperation({
     summary: 'Logout from the platform',
     description:
-      'Terminate the user session by killing the auth cookie.' +
+      'Terminate the user session by revoking it and killing the auth cookies.' +
       "<br><br>For valid logout, the auth cookie must be present, or else it means that the user wasn't logged in before.",
   })
   @ApiOkResponse({
@@ -122,18 +420,35 @@ export class AuthController {
   @NoAutoSerialize()
   @HttpCode(HttpStatus.OK)
   async logout(@Req() req: Request, @Res() res: Response) {
-    // remove cookie content and set its maxAge to 0 so browser removes it automatically
+    await this.authService.logout(
+      (req.user as User).id,
+      req.cookies?.[this._securityConfig.jwt.refreshCookieName],
+    );
+
     // also, send the usual response format
-    return res
-      .cookie(this._securityConfig.jwt.cookieName, '', {
-        httpOnly: true,
-        maxAge: 0,
-        sameSite:
-          this._appConfig.nodeEnv === Environment.Production ? 'none' : 'lax',
-        secure: this._appConfig.nodeEnv === Environment.Production,
-        domain: this._securityConfig.baseDomain,
-      })
-      .send();
+    return this.clearAuthCookies(
+      res,
+      this._appConfig.nodeEnv === Environment.Production,
+    ).send();
+  }
+
+  @Delete('lockout/users/:userId')
+  @ApiOperation({
+    summary: 'Unlock user account',
+    description:
+      'Clears failed login attempts of the user, so the user can login again before the lockout expires.' +
+      '<br><br>Only users with a lower role than the logged-in user can be unlocked.',
+  })
+  @ApiForbiddenResponse({
+    description: 'User has the same or higher role.',
+  })
+  @CheckAbilities({ action: Action.Manage, subject: 'User' })
+  @HttpCode(HttpStatus.OK)
+  unlock(
+    @Param('userId', ParseIntPipe) userId: number,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.authService.unlock(userId, user);
   }
 
   @Post('resetPassword')
@@ -171,16 +486,7 @@ export class AuthController {
     );
 
     // * logout after saving a new password
-    return res
-      .cookie(this._securityConfig.jwt.cookieName, '', {
-        httpOnly: true,
-        maxAge: 0,
-        sameSite:
-          this._appConfig.nodeEnv === Environment.Production ? 'none' : 'lax',
-        secure: true,
-        domain: this._securityConfig.baseDomain,
-      })
-      .send();
+    return this.clearAuthCookies(res, true).send();
   }
 
   @Post('resendEmailConfirmation')
@@ -7,11 +7,20 @@ import { PassportModule } from '@nestjs/passport';
 import { AbilityFactory } from './ability/ability.factory';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { MailModule } from 'src/integrations/mail/mail.module';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
 
 @Module({
   imports: [UsersModule, PassportModule, MailModule],
   controllers: [AuthController],
-  providers: [AuthService, LocalStrategy, JwtStrategy, AbilityFactory],
+  providers: [
+    AuthService,
+    TwoFactorService,
+    LoginAttemptsService,
+    LocalStrategy,
+    JwtStrategy,
+    AbilityFactory,
+  ],
   exports: [AbilityFactory],
 })
 export class AuthModule {}
@@ -0,0 +1,104 @@
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UserSession } from '@prisma/client';
+import { I18nService } from 'nestjs-i18n';
+import securityConfig from 'src/config/security.config';
+import sendgridConfig from 'src/config/sendgrid.config';
+import { MailService } from 'src/integrations/mail/mail.service';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { UserRole, UserStatus } from 'src/utils';
+import { UsersService } from '../users/users.service';
+import { AuthService } from './auth.service';
+import { InvalidSessionException } from './exceptions/session.exception';
+import { LoginAttemptsService } from './login-attempts.service';
+
+describe('AuthService', () => {
+  const user = {
+    id: 1,
+    email: 'jane@example.com',
+    role: UserRole.Client,
+    status: UserStatus.Approved,
+    isDeleted: false,
+  };
+  let session: UserSession;
+
+  // * keeps the single session in memory, so the rotation behaves like in the database
+  const prismaService = {
+    userSession: {
+      create: jest.fn(async ({ data }) => {
+        session = {
+          id: 1,
+          rotatedTokenHashes: [],
+          revokedAt: null,
+          ...data,
+        };
+
+        return session;
+      }),
+      findUnique: jest.fn(async () => ({ ...session, user })),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const isMatch =
+          (where.refreshTokenHash === undefined ||
+            where.refreshTokenHash === session.refreshTokenHash) &&
+          (where.revokedAt !== null || session.revokedAt === null);
+
+        if (isMatch) session = { ...session, ...data };
+
+        return { count: isMatch ? 1 : 0 };
+      }),
+    },
+  };
+  const service = new AuthService(
+    { signAsync: async () => 'access-token' } as unknown as JwtService,
+    {} as UsersService,
+    {} as MailService,
+    prismaService as unknown as PrismaService,
+    { reset: async () => undefined } as unknown as LoginAttemptsService,
+    {} as ConfigType<typeof sendgridConfig>,
+    { jwt: { refreshExpiresIn: '30d' } } as ConfigType<typeof securityConfig>,
+    {} as I18nService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token', async () => {
+      const { refreshToken } = await service.login(user as never);
+      const rotated = await service.refresh(refreshToken);
+
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      expect((await service.refresh(rotated.refreshToken)).accessToken).toBe(
+        'access-token',
+      );
+      expect(session.rotatedTokenHashes).toHaveLength(2);
+      expect(session.revokedAt).toBeNull();
+    });
+
+    it('should revoke the session if the rotated refresh token is reused', async () => {
+      const { refreshToken } = await service.login(user as never);
+      const rotated = await service.refresh(refreshToken);
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(
+        InvalidSessionException,
+      );
+      expect(session.revokedAt).not.toBeNull();
+      await expect(service.refresh(rotated.refreshToken)).rejects.toThrow(
+        InvalidSessionException,
+      );
+    });
+
+    it("shouldn't revoke the session for an unknown refresh token", async () => {
+      const { refreshToken } = await service.login(user as never);
+
+      await expect(service.refresh('1.forged')).rejects.toThrow(
+        InvalidSessionException,
+      );
+      expect(session.revokedAt).toBeNull();
+      expect((await service.refresh(refreshToken)).accessToken).toBe(
+        'access-token',
+      );
+    });
+  });
+});
@@ -3,11 +3,15 @@ import {
   Injectable,
   Logger,
   UnauthorizedException,
+  ForbiddenException,
   BadRequestException,
+  NotFoundException,
 } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
 import { JsonWebTokenError } from 'jsonwebtoken';
 import { UsersService } from '../../core/users/users.service';
 import { passwordValid } from './utils/password.util';
+import { canManageUserRole } from '../users/utils/user-role';
 import { UserNotFoundException } from '../users/exceptions/user.exception';
 import { InvalidPasswordException } from './exceptions/password.exception';
 import { User } from '@prisma/client';
@@ -20,23 +24,29 @@ import { I18nService } from 'nestjs-i18n';
 import { MailService } from 'src/integrations/mail/mail.service';
 import sendgridConfig from 'src/config/sendgrid.config';
 import { ConfigType } from '@nestjs/config';
-import { Hash, UserRole, UserStatus } from 'src/utils';
+import { convertToMilliseconds, Hash, UserRole, UserStatus } from 'src/utils';
 import { userIdentity } from '../users/utils/user-identity';
 import { ResendEmailConfirmationDto } from './dto/resend-email-confirmation.dto';
 import { PrismaService } from '../../integrations/prisma/prisma.service';
 import { EmailConfirmationDto } from './dto/email-confirmation.dto';
 import { generateAffiliateLink } from 'src/utils/generators/affiliate-link.generator';
 import securityConfig from 'src/config/security.config';
+import { ISessionClient } from './interfaces/session-client.interface';
+import { InvalidSessionException } from './exceptions/session.exception';
+import { LoginAttemptsService } from './login-attempts.service';
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
+  // * enough to detect the reuse of a stolen token, without growing the session forever
+  private static readonly maxRotatedTokenHashes = 100;
 
   constructor(
     private readonly jwtService: JwtService,
     private readonly usersService: UsersService,
     private readonly mailService: MailService,
     private readonly prismaService: PrismaService,
+    private readonly loginAttemptsService: LoginAttemptsService,
     @Inject(sendgridConfig.KEY)
     private readonly _sendgridConfig: ConfigType<typeof sendgridConfig>,
     @Inject(securityConfig.KEY)
@@ -45,6 +55,18 @@ export class AuthService {
   ) {}
 
   async validateUser(email: string, password: string) {
+    const { isLocked } = await this.loginAttemptsService.check(email);
+
+    // * unknown emails get locked as well, so the response doesn't reveal if the account exists
+    if (isLocked) {
+      this.logger.warn(`Login attempt of locked account ${email}`);
+      throw new UnauthorizedException(
+        this.i18n.t('_.error.message.login.locked', {
+          lang: undefined,
+        }),
+      );
+    }
+
     try {
       const user = await this.usersService.findOne(
         { email: email.toLowerCase() },
@@ -82,6 +104,7 @@ export class AuthService {
       ) {
         // write down user's try to log-in and return generic response
         this.logger.warn(`Invalid login: ${err.message}`);
+        await this.loginAttemptsService.registerFailure(email);
         throw new UnauthorizedException(
           this.i18n.t('_.error.message.login.incorrect', {
             // ! it is not possible to get language here
@@ -94,29 +117,222 @@ export class AuthService {
     }
   }
 
-  async login(user: User) {
-    try {
-    } catch (err) {
-      // write down user's try to log-in and return generic response
-      this.logger.warn(err.message);
-      throw err;
+  private hashRefreshToken(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private generateRefreshTokenSecret() {
+    return randomBytes(48).toString('hex');
+  }
+
+  /**
+   * Refresh token has a form of "<sessionId>.<secret>".
+   */
+  private parseRefreshToken(refreshToken: string) {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+
+    if (!/^\d+$/.test(sessionId) || !secret) {
+      throw new InvalidSessionException();
     }
 
+    return { sessionId: parseInt(sessionId), secret };
+  }
+
+  private isUserActive(user: User) {
+    return !user.isDeleted && user.status !== UserStatus.DoNotContact;
+  }
+
+  private signAccessToken(user: User, sessionId: number) {
     const payload: IJWTPayload = {
       user: {
         id: user.id,
         email: user.email,
         role: user.role,
       },
+      sessionId,
     };
 
+    return this.jwtService.signAsync(payload, {
+      subject: user.id.toString(),
+    });
+  }
+
+  async login(user: User, client?: ISessionClient) {
+    try {
+    } catch (err) {
+      // write down user's try to log-in and return generic response
+      this.logger.warn(err.message);
+      throw err;
+    }
+
+    // * counter is cleared only after the whole login, including 2FA
+    await this.loginAttemptsService.reset(user.email);
+
+    const secret = this.generateRefreshTokenSecret();
+    const session = await this.prismaService.userSession.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: this.hashRefreshToken(secret),
+        userAgent: client?.userAgent,
+        ipAddress: client?.ipAddress,
+        expiresAt: new Date(
+          Date.now() +
+            convertToMilliseconds(this._securityConfig.jwt.refreshExpiresIn),
+        ),
+      },
+    });
+
     return {
-      accessToken: await this.jwtService.signAsync(payload, {
-        subject: user.id.toString(),
-      }),
+      accessToken: await this.signAccessToken(user, session.id),
+      refreshToken: `${session.id}.${secret}`,
     };
   }
 
+  /**
+   * Rotates the refresh token and issues a new access token.
+   * Reusing already rotated refresh token revokes the session, as the token might be stolen.
+   * Unknown token is only rejected, so it can't be used to log out someone else.
+   */
+  async refresh(refreshToken: string) {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+    const session = await this.prismaService.userSession.findUnique({
+      where: { id: sessionId },
+      include: { user: true },
+    });
+
+    if (
+      !session ||
+      session.revokedAt !== null ||
+      session.expiresAt <= new Date()
+    ) {
+      throw new InvalidSessionException(sessionId);
+    }
+
+    if (!this.isUserActive(session.user)) {
+      await this.revokeSessions(session.userId);
+      throw new InvalidSessionException(sessionId);
+    }
+
+    const newSecret = this.generateRefreshTokenSecret();
+    const refreshTokenHash = this.hashRefreshToken(secret);
+    const { count } = await this.prismaService.userSession.updateMany({
+      where: {
+        id: sessionId,
+        refreshTokenHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: this.hashRefreshToken(newSecret),
+        rotatedTokenHashes: [
+          ...session.rotatedTokenHashes,
+          refreshTokenHash,
+        ].slice(-AuthService.maxRotatedTokenHashes),
+        lastUsedAt: new Date(),
+      },
+    });
+
+    if (count === 0 && !session.rotatedTokenHashes.includes(refreshTokenHash)) {
+      throw new InvalidSessionException(sessionId);
+    }
+
+    if (count === 0) {
+      this.logger.warn(
+        `Refresh token reuse detected, revoking session ${sessionId} of user ${userIdentity(
+          session.user,
+        )}`,
+      );
+      await this.revokeSession(sessionId, session.userId);
+      throw new InvalidSessionException(sessionId);
+    }
+
+    return {
+      accessToken: await this.signAccessToken(session.user, sessionId),
+      refreshToken: `${sessionId}.${newSecret}`,
+    };
+  }
+
+  /**
+   * Checks if the access token's session is still active, as well as its user.
+   */
+  async validateSession({ user, sessionId }: IJWTPayload) {
+    const session =
+      sessionId !== undefined &&
+      (await this.prismaService.userSession.findFirst({
+        where: {
+          id: sessionId,
+          userId: user.id,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        include: { user: true },
+      }));
+
+    if (!session || !this.isUserActive(session.user)) {
+      throw new InvalidSessionException(sessionId);
+    }
+
+    return session;
+  }
+
+  async findSessions(userId: number, refreshToken?: string) {
+    const currentSessionId = refreshToken
+      ? this.parseRefreshToken(refreshToken).sessionId
+      : undefined;
+    const sessions = await this.prismaService.userSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      isCurrent: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(id: number, userId: number) {
+    const { count } = await this.prismaService.userSession.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException(`Session with ID ${id} not found`);
+    }
+  }
+
+  async revokeSessions(userId: number) {
+    return this.prismaService.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async logout(userId: number, refreshToken?: string) {
+    try {
+      const { sessionId } = this.parseRefreshToken(refreshToken);
+
+      await this.revokeSession(sessionId, userId);
+    } catch (err) {
+      // * session is already gone, cookies get cleared anyway
+      this.logger.verbose(`Logout without active session: ${err.message}`);
+    }
+  }
+
+  async unlock(userId: number, admin: User) {
+    const user = await this.usersService.findOneById(userId, true);
+
+    if (!canManageUserRole(admin.role, user.role)) {
+      throw new ForbiddenException(
+        `You can't unlock an account of a user with the same or higher role`,
+      );
+    }
+
+    await this.loginAttemptsService.reset(user.email);
+    this.logger.log(
+      `Account ${userIdentity(user)} unlocked by ${userIdentity(admin)}`,
+    );
+  }
+
   async resetPassword(email: string, options?: { language: string }) {
     try {
       this.logger.verbose(
@@ -175,6 +391,11 @@ export class AuthService {
         `User ${userIdentity({ id, email })} updated its password`,
       );
 
+      // * sign out from every device, someone else might know the old password
+      await this.revokeSessions(id);
+      // * password reset email also unlocks the account
+      await this.loginAttemptsService.reset(user.email);
+
       // * as this will go public, omit user from a response
       // return user;
     } catch (err) {
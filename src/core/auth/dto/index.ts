@@ -2,3 +2,4 @@ export * from './email-confirmation.dto';
 export * from './login.dto';
 export * from './resend-email-confirmation.dto';
 export * from './reset-password.dto';
+export * from './two-factor.dto';
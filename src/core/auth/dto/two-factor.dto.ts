@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsJWT,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Code from the authenticator app.',
+    example: '123456',
+  })
+  @Matches(/^\d{6}$/)
+  code: string;
+}
+
+export class TwoFactorVerificationDto {
+  @ApiPropertyOptional({
+    description:
+      'Code from the authenticator app. Required if "recoveryCode" is not provided.',
+    example: '123456',
+  })
+  @ValidateIf((object) => object.recoveryCode === undefined)
+  @Matches(/^\d{6}$/)
+  code?: string;
+
+  @ApiPropertyOptional({
+    description: 'Single-use recovery code, if the authenticator is lost.',
+    example: '3f9a1-c04e7',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  recoveryCode?: string;
+}
+
+export class TwoFactorTokenDto {
+  @ApiProperty({
+    description: 'Token received from the login endpoint.',
+  })
+  @IsJWT()
+  twoFactorToken: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorVerificationDto {
+  @ApiProperty({
+    description: 'Token received from the login endpoint.',
+  })
+  @IsJWT()
+  twoFactorToken: string;
+}
+
+export class TwoFactorEnableLoginDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Token received from the login endpoint.',
+  })
+  @IsJWT()
+  twoFactorToken: string;
+}
@@ -0,0 +1,31 @@
+import { ApiHideProperty } from '@nestjs/swagger';
+import { UserSession } from '@prisma/client';
+import { Exclude } from 'class-transformer';
+
+export class UserSessionEntity implements UserSession {
+  id: number;
+  userId: number;
+
+  @ApiHideProperty()
+  @Exclude()
+  refreshTokenHash: string;
+
+  @ApiHideProperty()
+  @Exclude()
+  rotatedTokenHashes: string[];
+
+  userAgent: string;
+  ipAddress: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // * session that made the request
+  isCurrent?: boolean;
+
+  constructor(partial: Partial<UserSessionEntity>) {
+    Object.assign(this, partial);
+  }
+}
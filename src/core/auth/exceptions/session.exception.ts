@@ -0,0 +1,11 @@
+import { UnauthorizedException } from '@nestjs/common';
+
+export class InvalidSessionException extends UnauthorizedException {
+  constructor(sessionId?: number) {
+    super(
+      sessionId !== undefined
+        ? `Session ${sessionId} is invalid or revoked`
+        : 'Session is invalid or revoked',
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { UnauthorizedException } from '@nestjs/common';
+
+export class InvalidTwoFactorCodeException extends UnauthorizedException {
+  constructor() {
+    super('Two-factor authentication code is invalid');
+  }
+}
+
+export class InvalidTwoFactorTokenException extends UnauthorizedException {
+  constructor() {
+    super('Two-factor login step expired, please login again');
+  }
+}
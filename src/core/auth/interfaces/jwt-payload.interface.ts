@@ -2,6 +2,8 @@ import { User } from '@prisma/client';
 
 export interface IJWTPayload {
   user: IUserJwtPayload;
+  // * access token is valid as long as its session is not revoked
+  sessionId?: number;
 }
 
 export type IUserJwtPayload = Partial<Omit<User, 'password'>>;
@@ -0,0 +1,4 @@
+export interface ISessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
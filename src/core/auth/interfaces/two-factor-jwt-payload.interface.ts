@@ -0,0 +1,10 @@
+export const twoFactorJwtPurpose = 'two-factor';
+
+/**
+ * Short-lived token that proves the password step of the login was passed.
+ * It has no session, so it can't be used as an access token.
+ */
+export interface ITwoFactorJwtPayload {
+  user: { id: number };
+  purpose: typeof twoFactorJwtPurpose;
+}
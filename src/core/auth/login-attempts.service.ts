@@ -0,0 +1,121 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { setTimeout } from 'timers/promises';
+import securityConfig from 'src/config/security.config';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { convertToMilliseconds } from 'src/utils';
+
+// milliseconds
+const baseDelay = 500;
+const maxDelay = 8000;
+
+/**
+ * Tracks failed logins per account (email), independently of the IP based throttling.
+ * After a few failed attempts each further attempt is delayed progressively,
+ * and after too many the account is temporarily locked.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(securityConfig.KEY)
+    private readonly _securityConfig: ConfigType<typeof securityConfig>,
+  ) {}
+
+  private get lockoutDuration() {
+    return convertToMilliseconds(this._securityConfig.loginLockout.duration);
+  }
+
+  private getDelay(failedAttempts: number) {
+    const { delayAfterAttempts } = this._securityConfig.loginLockout;
+
+    if (failedAttempts < delayAfterAttempts) return 0;
+
+    return Math.min(
+      baseDelay * 2 ** (failedAttempts - delayAfterAttempts),
+      maxDelay,
+    );
+  }
+
+  private async findActive(email: string) {
+    const attempt = await this.prismaService.loginAttempt.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (
+      !attempt ||
+      (attempt.lastFailedAt.getTime() < Date.now() - this.lockoutDuration &&
+        !this.isLocked(attempt))
+    ) {
+      return;
+    }
+
+    return attempt;
+  }
+
+  private isLocked({ lockedUntil }: { lockedUntil: Date | null }) {
+    return lockedUntil !== null && lockedUntil > new Date();
+  }
+
+  /**
+   * Waits for the delay of the account and returns if it is locked.
+   */
+  async check(email: string) {
+    const attempt = await this.findActive(email);
+
+    if (!attempt) return { isLocked: false };
+
+    if (this.isLocked(attempt)) return { isLocked: true };
+
+    const delay = this.getDelay(attempt.failedAttempts);
+
+    if (delay) await setTimeout(delay);
+
+    return { isLocked: false };
+  }
+
+  async registerFailure(email: string) {
+    const normalizedEmail = email.toLowerCase();
+    const now = new Date();
+
+    // * forget expired attempts, so the counter starts from the beginning
+    await this.prismaService.loginAttempt.updateMany({
+      where: {
+        email: normalizedEmail,
+        lastFailedAt: { lt: new Date(now.getTime() - this.lockoutDuration) },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      },
+      data: { failedAttempts: 0, lockedUntil: null },
+    });
+
+    const attempt = await this.prismaService.loginAttempt.upsert({
+      where: { email: normalizedEmail },
+      create: { email: normalizedEmail, failedAttempts: 1, lastFailedAt: now },
+      update: { failedAttempts: { increment: 1 }, lastFailedAt: now },
+    });
+
+    if (
+      attempt.failedAttempts >= this._securityConfig.loginLockout.maxAttempts &&
+      !this.isLocked(attempt)
+    ) {
+      await this.prismaService.loginAttempt.update({
+        where: { id: attempt.id },
+        data: { lockedUntil: new Date(now.getTime() + this.lockoutDuration) },
+      });
+      this.logger.warn(
+        `Account ${normalizedEmail} locked after ${attempt.failedAttempts} failed login attempts`,
+      );
+    }
+  }
+
+  /**
+   * Clears failed attempts and the lock, eg. after a successful login or a password reset.
+   */
+  async reset(email: string) {
+    await this.prismaService.loginAttempt.deleteMany({
+      where: { email: email.toLowerCase() },
+    });
+  }
+}
@@ -7,6 +7,7 @@ import securityConfig from '../../../config/security.config';
 import { UsersService } from '../../../core/users/users.service';
 import { IJWTPayload } from '../interfaces/jwt-payload.interface';
 import { UserRole } from 'src/utils';
+import { AuthService } from '../auth.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -15,6 +16,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 
   constructor(
     private usersService: UsersService,
+    private authService: AuthService,
     @Inject(securityConfig.KEY)
     private readonly config: ConfigType<typeof securityConfig>,
   ) {
@@ -23,7 +25,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         JwtStrategy.cookieJwtExtractor,
       ]),
       ignoreExpiration: false,
-      secretOrKey: "3ad1f08174d3b7036e8e13e8c87142d60823a522bbae22ab470d490f20327cc2e86cad51bce65f1489cb9d6968c33a26",
+      secretOrKey:
+        '3ad1f08174d3b7036e8e13e8c87142d60823a522bbae22ab470d490f20327cc2e86cad51bce65f1489cb9d6968c33a26',
     });
 
     JwtStrategy.config = config;
@@ -34,6 +37,9 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: IJWTPayload) {
+    // * reject tokens of revoked sessions, deleted and "do not contact" users
+    await this.authService.validateSession(payload);
+
     const user = await this.usersService.findOneById(payload.user.id, true, {
       influencer: payload.user.role === UserRole.Influencer,
       client: payload.user.role === UserRole.Client,
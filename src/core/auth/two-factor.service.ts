@@ -0,0 +1,380 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { toDataURL } from 'qrcode';
+import securityConfig from 'src/config/security.config';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { dencryptCBC, encryptCBC } from 'src/utils/security/crypto';
+import { userIdentity } from '../users/utils/user-identity';
+import { canManageUserRole } from '../users/utils/user-role';
+import { UsersService } from '../users/users.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { TwoFactorVerificationDto } from './dto/two-factor.dto';
+import {
+  InvalidTwoFactorCodeException,
+  InvalidTwoFactorTokenException,
+} from './exceptions/two-factor.exception';
+import {
+  ITwoFactorJwtPayload,
+  twoFactorJwtPurpose,
+} from './interfaces/two-factor-jwt-payload.interface';
+import {
+  generateTotpSecret,
+  getTotpKeyUri,
+  verifyTotp,
+} from './utils/totp.util';
+
+const recoveryCodesCount = 10;
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    @Inject(securityConfig.KEY)
+    private readonly _securityConfig: ConfigType<typeof securityConfig>,
+  ) {}
+
+  private encryptSecret(secret: string) {
+    const { iv, encrypted } = encryptCBC(
+      secret,
+      this._securityConfig.encryptionKey,
+    );
+
+    return `${iv}:${encrypted}`;
+  }
+
+  private decryptSecret(encryptedSecret: string) {
+    const [iv, encrypted] = encryptedSecret.split(':');
+
+    return dencryptCBC(encrypted, this._securityConfig.encryptionKey, iv);
+  }
+
+  /**
+   * Recovery codes are compared case-insensitively and without separators.
+   */
+  private hashRecoveryCode(code: string) {
+    return createHash('sha256')
+      .update(code.toLowerCase().replace(/[^0-9a-f]/g, ''))
+      .digest('hex');
+  }
+
+  isRequired(user: Pick<User, 'role'>) {
+    return this._securityConfig.twoFactor.requiredRoles.includes(user.role);
+  }
+
+  async isEnabled(userId: number) {
+    const twoFactor = await this.prismaService.userTwoFactor.findUnique({
+      where: { userId },
+    });
+
+    return !!twoFactor?.isEnabled;
+  }
+
+  async getStatus(user: User) {
+    const twoFactor = await this.prismaService.userTwoFactor.findUnique({
+      where: { userId: user.id },
+    });
+    const recoveryCodesLeft = await this.prismaService.userRecoveryCode.count({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    return {
+      isEnabled: !!twoFactor?.isEnabled,
+      isRequired: this.isRequired(user),
+      enabledAt: twoFactor?.enabledAt ?? null,
+      recoveryCodesLeft,
+    };
+  }
+
+  /**
+   * Returns the second login step the user has to pass, if any.
+   */
+  async createLoginChallenge(user: User) {
+    const isEnabled = await this.isEnabled(user.id);
+
+    if (!isEnabled && !this.isRequired(user)) return;
+
+    const payload: ITwoFactorJwtPayload = {
+      user: { id: user.id },
+      purpose: twoFactorJwtPurpose,
+    };
+    const twoFactorToken = await this.jwtService.signAsync(payload, {
+      subject: user.id.toString(),
+      expiresIn: '5m',
+    });
+
+    return isEnabled
+      ? { twoFactorRequired: true, twoFactorToken }
+      : { twoFactorSetupRequired: true, twoFactorToken };
+  }
+
+  async validateLoginToken(twoFactorToken: string) {
+    let payload: ITwoFactorJwtPayload;
+
+    try {
+      payload = await this.jwtService.verifyAsync(twoFactorToken);
+    } catch (err) {
+      this.logger.warn(`Two-factor login failed (${err.message})`);
+      throw new InvalidTwoFactorTokenException();
+    }
+
+    if (payload.purpose !== twoFactorJwtPurpose) {
+      throw new InvalidTwoFactorTokenException();
+    }
+
+    const user = await this.usersService.findOneById(payload.user.id);
+
+    if (!user || user.isDeleted) {
+      throw new InvalidTwoFactorTokenException();
+    }
+
+    return user;
+  }
+
+  /**
+   * Second login step. Invalid codes count as failed login attempts of the account.
+   */
+  async verifyLogin(user: User, dto: TwoFactorVerificationDto) {
+    const { isLocked } = await this.loginAttemptsService.check(user.email);
+
+    if (isLocked) {
+      this.logger.warn(`Two-factor login of locked account ${user.email}`);
+      throw new InvalidTwoFactorCodeException();
+    }
+
+    try {
+      await this.verify(user.id, dto);
+    } catch (err) {
+      if (err instanceof InvalidTwoFactorCodeException) {
+        await this.loginAttemptsService.registerFailure(user.email);
+      }
+
+      throw err;
+    }
+  }
+
+  /**
+   * Creates a new secret that becomes active once it's confirmed with a code.
+   */
+  async setup(user: User) {
+    if (await this.isEnabled(user.id)) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const encryptedSecret = this.encryptSecret(secret);
+
+    await this.prismaService.userTwoFactor.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, secret: encryptedSecret },
+      update: { secret: encryptedSecret, lastUsedStep: null },
+    });
+
+    const otpauthUrl = getTotpKeyUri(
+      secret,
+      user.email,
+      this._securityConfig.twoFactor.issuer,
+    );
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await toDataURL(otpauthUrl),
+    };
+  }
+
+  async enable(user: User, code: string) {
+    const twoFactor = await this.prismaService.userTwoFactor.findUnique({
+      where: { userId: user.id },
+    });
+
+    if (!twoFactor) {
+      throw new BadRequestException(
+        'Two-factor authentication has not been set up',
+      );
+    } else if (twoFactor.isEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    await this.verifyCode(user.id, code);
+    await this.prismaService.userTwoFactor.update({
+      where: { userId: user.id },
+      data: { isEnabled: true, enabledAt: new Date() },
+    });
+    this.logger.log(
+      `User ${userIdentity(user)} enabled two-factor authentication`,
+    );
+
+    return this.generateRecoveryCodes(user.id);
+  }
+
+  async disable(user: User, dto: TwoFactorVerificationDto) {
+    if (this.isRequired(user)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is mandatory for your role',
+      );
+    }
+
+    await this.verify(user.id, dto);
+    await this.remove(user.id);
+    this.logger.log(
+      `User ${userIdentity(user)} disabled two-factor authentication`,
+    );
+  }
+
+  /**
+   * Admin-side reset, eg. if the user lost both the authenticator and recovery codes.
+   * The user is signed out and has to set up 2FA again if its role requires it.
+   */
+  async reset(userId: number, admin: User) {
+    const user = await this.usersService.findOneById(userId, true);
+
+    if (!canManageUserRole(admin.role, user.role)) {
+      throw new ForbiddenException(
+        `You can't reset two-factor authentication of a user with the same or higher role`,
+      );
+    }
+
+    const { count } = await this.prismaService.userTwoFactor.deleteMany({
+      where: { userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException(
+        `User with ID ${userId} has no two-factor authentication`,
+      );
+    }
+
+    await this.prismaService.userRecoveryCode.deleteMany({
+      where: { userId },
+    });
+    await this.prismaService.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    this.logger.warn(
+      `Two-factor authentication of user ${userIdentity(
+        user,
+      )} was reset by ${userIdentity(admin)}`,
+    );
+  }
+
+  private async remove(userId: number) {
+    await this.prismaService.$transaction([
+      this.prismaService.userTwoFactor.deleteMany({ where: { userId } }),
+      this.prismaService.userRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  /**
+   * Replaces all recovery codes. Codes are returned only once, only their hashes are stored.
+   */
+  async generateRecoveryCodes(userId: number) {
+    const recoveryCodes = Array.from({ length: recoveryCodesCount }, () =>
+      randomBytes(5)
+        .toString('hex')
+        .replace(/^(.{5})/, '$1-'),
+    );
+
+    await this.prismaService.$transaction([
+      this.prismaService.userRecoveryCode.deleteMany({ where: { userId } }),
+      this.prismaService.userRecoveryCode.createMany({
+        data: recoveryCodes.map((code) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+
+    return { recoveryCodes };
+  }
+
+  async regenerateRecoveryCodes(user: User, code: string) {
+    if (!(await this.isEnabled(user.id))) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    await this.verifyCode(user.id, code);
+
+    return this.generateRecoveryCodes(user.id);
+  }
+
+  /**
+   * Verifies the authenticator code. Each code can be used only once.
+   */
+  async verifyCode(userId: number, code: string) {
+    const twoFactor = await this.prismaService.userTwoFactor.findUnique({
+      where: { userId },
+    });
+    const step = twoFactor
+      ? verifyTotp(code, this.decryptSecret(twoFactor.secret))
+      : undefined;
+
+    if (step === undefined) {
+      throw new InvalidTwoFactorCodeException();
+    }
+
+    // * atomic check, so the same code can't be accepted by concurrent requests
+    const { count } = await this.prismaService.userTwoFactor.updateMany({
+      where: {
+        userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+
+    if (count === 0) {
+      throw new InvalidTwoFactorCodeException();
+    }
+  }
+
+  async verifyRecoveryCode(userId: number, recoveryCode: string) {
+    const { count } = await this.prismaService.userRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashRecoveryCode(recoveryCode),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new InvalidTwoFactorCodeException();
+    }
+
+    this.logger.warn(`User ${userId} used a recovery code`);
+  }
+
+  async verify(
+    userId: number,
+    { code, recoveryCode }: TwoFactorVerificationDto,
+  ) {
+    if (!(await this.isEnabled(userId))) {
+      throw new InvalidTwoFactorCodeException();
+    }
+
+    if (recoveryCode !== undefined) {
+      await this.verifyRecoveryCode(userId, recoveryCode);
+    } else {
+      await this.verifyCode(userId, code);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateHotp,
+  generateTotp,
+  getTotpTimeStep,
+  verifyTotp,
+} from './totp.util';
+
+// * test vectors from RFC 6238 appendix B (SHA-1, 8 digits)
+const rfcSecret = Buffer.from('12345678901234567890', 'ascii');
+const rfcVectors: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+describe('totp.util', () => {
+  it('should encode and decode base32', () => {
+    const encoded = base32Encode(rfcSecret);
+
+    expect(encoded).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(encoded).equals(rfcSecret)).toBe(true);
+  });
+
+  it.each(rfcVectors)('should match RFC 6238 at %i', (seconds, expected) => {
+    expect(generateHotp(rfcSecret, getTotpTimeStep(seconds * 1000), 8)).toBe(
+      expected,
+    );
+  });
+
+  it('should accept codes within the window only', () => {
+    const secret = base32Encode(rfcSecret);
+    const time = 1111111111 * 1000;
+    const step = getTotpTimeStep(time);
+
+    expect(verifyTotp(generateTotp(secret, time), secret, { time })).toBe(step);
+    expect(
+      verifyTotp(generateTotp(secret, time - 30 * 1000), secret, { time }),
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(generateTotp(secret, time - 90 * 1000), secret, { time }),
+    ).toBeUndefined();
+    expect(verifyTotp('abcdef', secret, { time })).toBeUndefined();
+  });
+});
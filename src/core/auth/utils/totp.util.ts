@@ -0,0 +1,140 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 4648 base32 alphabet, used by authenticator apps for secrets
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const totpDefaults = {
+  digits: 6,
+  // seconds
+  period: 30,
+  algorithm: 'sha1',
+};
+
+export const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string) => {
+  const cleanInput = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of cleanInput) {
+    const index = base32Alphabet.indexOf(char);
+
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+};
+
+/**
+ * 160-bit secret, as recommended by RFC 4226.
+ */
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+/**
+ * HOTP value as defined by RFC 4226.
+ */
+export const generateHotp = (
+  secret: Buffer,
+  counter: number,
+  digits = totpDefaults.digits,
+  algorithm = totpDefaults.algorithm,
+) => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(algorithm, secret).update(counterBuffer).digest();
+  // dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+export const getTotpTimeStep = (
+  time = Date.now(),
+  period = totpDefaults.period,
+) => Math.floor(time / 1000 / period);
+
+/**
+ * TOTP value as defined by RFC 6238.
+ */
+export const generateTotp = (secret: string, time = Date.now()) =>
+  generateHotp(base32Decode(secret), getTotpTimeStep(time));
+
+/**
+ * Returns matched time step, or undefined if the token is invalid.
+ * The window allows clock drift of the given number of steps in each direction.
+ */
+export const verifyTotp = (
+  token: string,
+  secret: string,
+  { window = 1, time = Date.now() }: { window?: number; time?: number } = {},
+) => {
+  if (!new RegExp(`^\\d{${totpDefaults.digits}}$`).test(token)) return;
+
+  const secretBuffer = base32Decode(secret);
+  const currentStep = getTotpTimeStep(time);
+
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateHotp(secretBuffer, step);
+
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(token))) {
+      return step;
+    }
+  }
+};
+
+/**
+ * Key URI that authenticator apps read from a QR code.
+ * Reference: https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export const getTotpKeyUri = (
+  secret: string,
+  account: string,
+  issuer: string,
+) =>
+  `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(
+    account,
+  )}?${new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: totpDefaults.algorithm.toUpperCase(),
+    digits: totpDefaults.digits.toString(),
+    period: totpDefaults.period.toString(),
+  }).toString()}`;
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../common/currency/currency.module';
+import { CampaignAnalyticsService } from './campaign-analytics.service';
+
+@Module({
+  imports: [CurrencyModule],
+  providers: [CampaignAnalyticsService],
+  exports: [CampaignAnalyticsService],
+})
+export class CampaignAnalyticsModule {}
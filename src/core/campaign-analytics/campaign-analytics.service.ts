@@ -0,0 +1,275 @@
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Inject, Injectable } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime';
+import { Cache } from 'cache-manager';
+import {
+  ForbiddenApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { convertToMilliseconds, UserRole } from 'src/utils';
+import { Status } from '../campaign/enums';
+import {
+  defaultCurrencyCode,
+  ExchangeRatesService,
+} from '../common/currency/exchange-rates.service';
+import { UserEntity } from '../users/entities/user.entity';
+import { ICampaignAnalytics } from './interfaces/campaign-analytics.interface';
+import {
+  calculateCampaignAnalytics,
+  getReportMetrics,
+} from './utils/campaign-analytics.util';
+
+/**
+ * Reach, audience overlap, engagement and costs of campaign influencers, calculated from followers and likers.
+ */
+@Injectable()
+export class CampaignAnalyticsService {
+  private static readonly analyticsCacheTtl = convertToMilliseconds('1h');
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly exchangeRatesService: ExchangeRatesService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  static getAnalyticsCacheKey(campaignId: number) {
+    return `campaign_${campaignId}_analytics`;
+  }
+
+  private async calculate(campaignId: number) {
+    const campaign = await this.prismaService.campaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        stakeholderTypes: true,
+        campaignInfluencerPerformances: {
+          include: {
+            influencer: {
+              select: {
+                influencerFollowers: {
+                  select: { stakeholder: { select: { id: true, type: true } } },
+                },
+              },
+            },
+            likers: {
+              select: { stakeholder: { select: { id: true, type: true } } },
+            },
+          },
+          orderBy: { id: 'asc' },
+        },
+        platformProductOrder: {
+          select: { currency: true, platformProductOrderInfluencers: true },
+        },
+      },
+    });
+
+    if (!campaign) {
+      throw new NotFoundApplicationException(
+        `Campaign with ID ${campaignId} not found`,
+      );
+    }
+
+    // * costs of the influencers are summed in the currency of the order
+    const currency =
+      campaign.platformProductOrder.currency?.code ?? defaultCurrencyCode;
+    const convert = await this.exchangeRatesService.getConverter(currency);
+    const stakeholderTypeById = new Map<number, number | null>();
+    const performances = campaign.campaignInfluencerPerformances.map(
+      (performance) => {
+        const followers = performance.influencer.influencerFollowers.map(
+          ({ stakeholder }) => stakeholder,
+        );
+        const likers = performance.likers.map(({ stakeholder }) => stakeholder);
+        const campaignInfluencer =
+          campaign.platformProductOrder.platformProductOrderInfluencers.find(
+            ({ influencerId }) => influencerId === performance.influencerId,
+          );
+
+        [...followers, ...likers].forEach(({ id, type }) =>
+          stakeholderTypeById.set(id, type),
+        );
+
+        return {
+          id: performance.id,
+          influencerId: performance.influencerId,
+          likes: performance.likes,
+          comments: performance.comments,
+          websiteClick: performance.websiteClick,
+          agreedAmount: campaignInfluencer?.agreedAmount ?? null,
+          currency: campaignInfluencer?.currency ?? null,
+          // * converted at the rate of the agreement date, as in the finance insights
+          campaignAmount: campaignInfluencer
+            ? convert(
+                campaignInfluencer.agreedAmount,
+                this.exchangeRatesService.getCurrencyEnumCode(
+                  campaignInfluencer.currency,
+                ),
+                campaignInfluencer.createdAt,
+              )
+            : null,
+          followerIds: followers.map(({ id }) => id),
+          likerIds: likers.map(({ id }) => id),
+        };
+      },
+    );
+
+    return calculateCampaignAnalytics({
+      campaignId,
+      currency,
+      stakeholderTypes: campaign.stakeholderTypes.map(
+        ({ stakeholderType }) => stakeholderType,
+      ),
+      stakeholderTypeById,
+      performances,
+    });
+  }
+
+  /**
+   * Analytics are cached per campaign until the performances of the campaign change.
+   */
+  async getCampaignAnalytics(campaignId: number) {
+    const cacheKey = CampaignAnalyticsService.getAnalyticsCacheKey(campaignId);
+    const cachedAnalytics = await this.cacheManager.get<ICampaignAnalytics>(
+      cacheKey,
+    );
+
+    if (cachedAnalytics) return cachedAnalytics;
+
+    const analytics = await this.calculate(campaignId);
+
+    await this.cacheManager.set(
+      cacheKey,
+      analytics,
+      CampaignAnalyticsService.analyticsCacheTtl,
+    );
+
+    return analytics;
+  }
+
+  /**
+   * Analytics of the campaign for the user. Clients and ambassadors see only the campaigns of their clients,
+   * influencers don't see them as they include the costs of the other influencers.
+   */
+  async getUserCampaignAnalytics(campaignId: number, user: UserEntity) {
+    const campaign = await this.prismaService.campaign.findUnique({
+      where: { id: campaignId },
+      select: {
+        platformProductOrder: {
+          select: {
+            client: {
+              select: {
+                userId: true,
+                ambassador: { select: { userId: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!campaign) {
+      throw new NotFoundApplicationException(
+        `Campaign with ID ${campaignId} not found`,
+      );
+    }
+
+    const { client } = campaign.platformProductOrder;
+
+    if (
+      (user.role === UserRole.Client && client?.userId !== user.id) ||
+      (user.role === UserRole.Ambassador &&
+        client?.ambassador?.userId !== user.id) ||
+      user.role === UserRole.Influencer
+    ) {
+      throw new ForbiddenApplicationException(
+        `Analytics are available only for campaigns of your clients`,
+      );
+    }
+
+    return this.getCampaignAnalytics(campaignId);
+  }
+
+  async invalidate(campaignId: number) {
+    await this.cacheManager.del(
+      CampaignAnalyticsService.getAnalyticsCacheKey(campaignId),
+    );
+  }
+
+  /**
+   * Stores the current metrics of the influencers, so the delivered report keeps the figures it was delivered with.
+   */
+  async storePerformances(campaignId: number) {
+    await this.invalidate(campaignId);
+
+    const analytics = await this.getCampaignAnalytics(campaignId);
+    const toDecimal = (value: number | null) =>
+      value !== null ? new Decimal(value) : null;
+
+    await this.prismaService.$transaction(
+      analytics.influencers.map((influencer) =>
+        this.prismaService.campaignInfluencerPerformance.update({
+          where: { id: influencer.campaignInfluencerPerformanceId },
+          data: {
+            reach: toDecimal(influencer.reach),
+            engagement: toDecimal(influencer.engagement),
+            costPerTarget: toDecimal(influencer.costPerTarget),
+            costPerClick: toDecimal(influencer.costPerClick),
+            overlap: toDecimal(influencer.overlap),
+          },
+        }),
+      ),
+    );
+
+    return analytics;
+  }
+
+  /**
+   * Analytics of the report, limited to the metrics it was ordered with. Clients see only their delivered reports.
+   */
+  async getReportAnalytics(reportId: number, user: UserEntity) {
+    const report = await this.prismaService.campaignReport.findUnique({
+      where: { id: reportId },
+      include: { platformProductOrder: { include: { client: true } } },
+    });
+
+    if (!report) {
+      throw new NotFoundApplicationException(
+        `Campaign report with ID ${reportId} not found`,
+      );
+    } else if (
+      user.role === UserRole.Client &&
+      (report.platformProductOrder.client.userId !== user.id ||
+        report.status !== Status.Delivered)
+    ) {
+      throw new ForbiddenApplicationException(
+        `Analytics are available only for delivered reports of the client`,
+      );
+    }
+
+    const analytics = await this.getCampaignAnalytics(report.campaignId);
+    const metrics = getReportMetrics(report);
+
+    return {
+      campaignId: analytics.campaignId,
+      reportId: report.id,
+      audience: analytics.audience,
+      reach: report.reach ? analytics.reach : undefined,
+      overlap: report.overlap ? analytics.overlap : undefined,
+      currency: report.costPerTarget ? analytics.currency : undefined,
+      costPerTarget: report.costPerTarget ? analytics.costPerTarget : undefined,
+      stakeholderTypes: report.costPerTarget
+        ? analytics.stakeholderTypes
+        : undefined,
+      influencers: analytics.influencers.map((influencer) => ({
+        campaignInfluencerPerformanceId:
+          influencer.campaignInfluencerPerformanceId,
+        influencerId: influencer.influencerId,
+        influencerCurrency: influencer.influencerCurrency,
+        ...Object.fromEntries(
+          metrics.map((metric) => [metric, influencer[metric]]),
+        ),
+      })),
+      calculatedAt: analytics.calculatedAt,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { Decimal } from '@prisma/client/runtime';
+
+export interface ICampaignPerformanceInput {
+  id: number;
+  influencerId: number;
+  likes: number | null;
+  comments: number | null;
+  websiteClick: number | null;
+  agreedAmount: Decimal | null;
+  currency: number | null;
+  // * agreed amount converted to the currency of the campaign
+  campaignAmount: Decimal | null;
+  // * stakeholder IDs
+  followerIds: number[];
+  likerIds: number[];
+}
+
+export interface ICampaignAnalyticsInput {
+  campaignId: number;
+  // * code of the currency the campaign costs are in
+  currency: string;
+  // * targeted stakeholder types, all types are targeted if empty
+  stakeholderTypes: number[];
+  stakeholderTypeById: Map<number, number | null>;
+  performances: ICampaignPerformanceInput[];
+}
+
+// * amounts are in the currency of the influencer, ratios are null when the denominator is zero
+export interface IInfluencerPerformanceAnalytics {
+  campaignInfluencerPerformanceId: number;
+  influencerId: number;
+  agreedAmount: number | null;
+  influencerCurrency: number | null;
+  followers: number;
+  likes: number;
+  comments: number;
+  websiteClick: number;
+  reach: number;
+  engagement: number | null;
+  targetAudience: number;
+  costPerTarget: number | null;
+  costPerClick: number | null;
+  costPerLike: number | null;
+  costPerComment: number | null;
+  costPerEngagement: number | null;
+  overlap: number | null;
+}
+
+export interface IStakeholderTypeAnalytics {
+  stakeholderType: number;
+  audience: number;
+  costPerTarget: number | null;
+}
+
+export interface ICampaignAnalytics {
+  campaignId: number;
+  // * unique stakeholders reached by all influencers
+  audience: number;
+  reach: number;
+  overlap: number | null;
+  // * code of the currency of the campaign and stakeholder type costs
+  currency: string;
+  costPerTarget: number | null;
+  stakeholderTypes: IStakeholderTypeAnalytics[];
+  influencers: IInfluencerPerformanceAnalytics[];
+  calculatedAt: Date;
+}
@@ -0,0 +1,149 @@
+import { Decimal } from '@prisma/client/runtime';
+import {
+  calculateCampaignAnalytics,
+  calculateOverlap,
+  calculateReach,
+  getReportMetrics,
+  safeDivide,
+} from './campaign-analytics.util';
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+describe('campaign analytics util', () => {
+  describe('safeDivide', () => {
+    it('should return null for a zero denominator', () => {
+      expect(safeDivide(new Decimal(100), 0)).toBeNull();
+      expect(safeDivide(100, null)).toBeNull();
+      expect(safeDivide(new Decimal(100), 8)).toBe(12.5);
+    });
+  });
+
+  describe('getReportMetrics', () => {
+    it('should return the metrics of the ordered report flags', () => {
+      expect(
+        getReportMetrics({ reach: true, costPerTarget: true, overlap: false }),
+      ).toEqual(['reach', 'targetAudience', 'costPerTarget']);
+      expect(getReportMetrics({})).toEqual([]);
+    });
+  });
+
+  describe('calculateReach', () => {
+    it('should count the followers and the likers once', () => {
+      // * 100 followers, 30 likers of which 20 follow the influencer
+      expect(
+        calculateReach(
+          new Set(range(1, 100)),
+          new Set([...range(81, 100), ...range(201, 210)]),
+        ),
+      ).toBe(110);
+      expect(calculateReach(new Set([1, 2, 3]), new Set([4, 5]))).toBe(5);
+      expect(calculateReach(new Set(), new Set())).toBe(0);
+    });
+
+    it("shouldn't exceed the followers and likers with few liking followers", () => {
+      // * 10,000 followers, 500 likers of which only one follows the influencer
+      expect(
+        calculateReach(
+          new Set(range(1, 10000)),
+          new Set([10000, ...range(20001, 20499)]),
+        ),
+      ).toBe(10499);
+    });
+  });
+
+  describe('calculateOverlap', () => {
+    it('should return the share of the audience reached by others', () => {
+      expect(
+        calculateOverlap(new Set([1, 2, 3, 4]), [
+          new Set([1]),
+          new Set([2, 9]),
+        ]),
+      ).toBe(0.5);
+      expect(calculateOverlap(new Set(), [new Set([1])])).toBeNull();
+    });
+  });
+
+  describe('calculateCampaignAnalytics', () => {
+    const analytics = calculateCampaignAnalytics({
+      campaignId: 1,
+      currency: 'EUR',
+      stakeholderTypes: [1],
+      stakeholderTypeById: new Map([
+        [1, 1],
+        [2, 1],
+        [3, 2],
+        [4, 1],
+        [5, null],
+      ]),
+      performances: [
+        {
+          id: 10,
+          influencerId: 100,
+          likes: 6,
+          comments: 2,
+          websiteClick: 0,
+          agreedAmount: new Decimal(120),
+          currency: 0,
+          campaignAmount: new Decimal(120),
+          followerIds: [1, 2, 3],
+          likerIds: [3, 4],
+        },
+        {
+          id: 11,
+          influencerId: 101,
+          likes: null,
+          comments: null,
+          websiteClick: null,
+          // * 100 USD agreed, 80 EUR in the currency of the campaign
+          agreedAmount: new Decimal(100),
+          currency: 1,
+          campaignAmount: new Decimal(80),
+          followerIds: [4, 5],
+          likerIds: [],
+        },
+      ],
+    });
+
+    it('should calculate metrics of the influencers', () => {
+      expect(analytics.influencers[0]).toMatchObject({
+        followers: 3,
+        reach: 4,
+        engagement: 8 / 3,
+        targetAudience: 3,
+        costPerTarget: 40,
+        costPerClick: null,
+        costPerLike: 20,
+        costPerEngagement: 15,
+        overlap: 0.25,
+      });
+    });
+
+    it('should not divide by zero metrics', () => {
+      expect(analytics.influencers[1]).toMatchObject({
+        likes: 0,
+        comments: 0,
+        reach: 2,
+        engagement: 0,
+        costPerClick: null,
+        costPerLike: null,
+        costPerComment: null,
+        costPerEngagement: null,
+        overlap: 0.5,
+      });
+    });
+
+    it('should calculate the audience, overlap and costs of the campaign', () => {
+      expect(analytics).toMatchObject({
+        audience: 5,
+        reach: 6,
+        overlap: 1 / 6,
+        currency: 'EUR',
+        costPerTarget: 200 / 3,
+        stakeholderTypes: [
+          { stakeholderType: 1, audience: 3, costPerTarget: 200 / 3 },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { CampaignReport } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import {
+  ICampaignAnalytics,
+  ICampaignAnalyticsInput,
+  IInfluencerPerformanceAnalytics,
+} from '../interfaces/campaign-analytics.interface';
+
+// * report flag => metrics of the influencer it enables
+const reportMetrics: Partial<
+  Record<keyof CampaignReport, (keyof IInfluencerPerformanceAnalytics)[]>
+> = {
+  reach: ['reach'],
+  numOfLikes: ['likes'],
+  numOfComments: ['comments'],
+  websiteClicks: ['websiteClick'],
+  engagement: ['engagement'],
+  costPerTarget: ['targetAudience', 'costPerTarget'],
+  costPerClick: ['costPerClick'],
+  costPerLike: ['costPerLike'],
+  costPerComment: ['costPerComment'],
+  costPerEngagement: ['costPerEngagement'],
+  overlap: ['overlap'],
+};
+
+/**
+ * Metrics of the influencers the report was ordered with, in the order of the report flags.
+ */
+export const getReportMetrics = (report: Partial<CampaignReport>) =>
+  Object.entries(reportMetrics)
+    .filter(([flag]) => report[flag])
+    .flatMap(([, metrics]) => metrics);
+
+/**
+ * Ratio of the amounts, or null if the denominator is zero (eg. no clicks yet).
+ */
+export const safeDivide = (
+  numerator: Decimal | number,
+  denominator: number | null | undefined,
+) => (denominator ? new Decimal(numerator).div(denominator).toNumber() : null);
+
+const union = <T>(...sets: Set<T>[]) =>
+  new Set(sets.flatMap((set) => [...set]));
+
+const intersectionSize = <T>(set: Set<T>, other: Set<T>) =>
+  [...set].filter((value) => other.has(value)).length;
+
+/**
+ * Reach of the post - the followers and the likers, each counted once.
+ */
+export const calculateReach = (
+  followerIds: Set<number>,
+  likerIds: Set<number>,
+) => union(followerIds, likerIds).size;
+
+/**
+ * Share of the audience that is also reached by the other audiences, from 0 to 1.
+ */
+export const calculateOverlap = (
+  audienceIds: Set<number>,
+  otherAudienceIds: Set<number>[],
+) =>
+  safeDivide(
+    intersectionSize(audienceIds, union(...otherAudienceIds)),
+    audienceIds.size,
+  );
+
+/**
+ * Audience of the influencer is the followers and the likers of the post. Target audience are the stakeholders
+ * of the campaign stakeholder types, or everyone if the campaign doesn't target any type.
+ */
+export const calculateCampaignAnalytics = ({
+  campaignId,
+  currency,
+  stakeholderTypes,
+  stakeholderTypeById,
+  performances,
+}: ICampaignAnalyticsInput): ICampaignAnalytics => {
+  const isTarget = (stakeholderId: number) =>
+    !stakeholderTypes.length ||
+    stakeholderTypes.includes(stakeholderTypeById.get(stakeholderId));
+  const audiences = performances.map(
+    ({ followerIds, likerIds }) => new Set([...followerIds, ...likerIds]),
+  );
+  const campaignAudience = union(...audiences);
+  const audiencesSize = audiences.reduce(
+    (size, audience) => size + audience.size,
+    0,
+  );
+  const totalAmount = performances.reduce(
+    (amount, performance) => amount.add(performance.campaignAmount ?? 0),
+    new Decimal(0),
+  );
+
+  const influencers = performances.map(
+    (performance, index): IInfluencerPerformanceAnalytics => {
+      const likes = performance.likes ?? 0;
+      const comments = performance.comments ?? 0;
+      const websiteClick = performance.websiteClick ?? 0;
+      const amount = performance.agreedAmount ?? new Decimal(0);
+      const followerIds = new Set(performance.followerIds);
+      const likerIds = new Set(performance.likerIds);
+      const targetAudience = [...audiences[index]].filter(isTarget).length;
+
+      return {
+        campaignInfluencerPerformanceId: performance.id,
+        influencerId: performance.influencerId,
+        agreedAmount: performance.agreedAmount?.toNumber() ?? null,
+        influencerCurrency: performance.currency,
+        followers: followerIds.size,
+        likes,
+        comments,
+        websiteClick,
+        reach: calculateReach(followerIds, likerIds),
+        engagement: safeDivide(likes + comments, followerIds.size),
+        targetAudience,
+        costPerTarget: safeDivide(amount, targetAudience),
+        costPerClick: safeDivide(amount, websiteClick),
+        costPerLike: safeDivide(amount, likes),
+        costPerComment: safeDivide(amount, comments),
+        costPerEngagement: safeDivide(amount, likes + comments),
+        overlap: calculateOverlap(
+          audiences[index],
+          audiences.filter((_, otherIndex) => otherIndex !== index),
+        ),
+      };
+    },
+  );
+  const targetStakeholderTypes = stakeholderTypes.length
+    ? stakeholderTypes
+    : [
+        ...new Set(
+          [...campaignAudience].map((id) => stakeholderTypeById.get(id)),
+        ),
+      ].filter((type) => type !== null && type !== undefined);
+
+  return {
+    campaignId,
+    audience: campaignAudience.size,
+    reach: influencers.reduce(
+      (reach, influencer) => reach + influencer.reach,
+      0,
+    ),
+    // * share of the summed audiences that is reached more than once
+    overlap: safeDivide(audiencesSize - campaignAudience.size, audiencesSize),
+    currency,
+    costPerTarget: safeDivide(
+      totalAmount,
+      [...campaignAudience].filter(isTarget).length,
+    ),
+    stakeholderTypes: targetStakeholderTypes.map((stakeholderType) => {
+      const audience = [...campaignAudience].filter(
+        (id) => stakeholderTypeById.get(id) === stakeholderType,
+      ).length;
+
+      return {
+        stakeholderType,
+        audience,
+        costPerTarget: safeDivide(totalAmount, audience),
+      };
+    }),
+    influencers,
+    calculatedAt: new Date(),
+  };
+};
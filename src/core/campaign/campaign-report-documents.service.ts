@@ -0,0 +1,142 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { CampaignReport } from '@prisma/client';
+import invoiceConfig from 'src/config/invoice.config';
+import {
+  BadRequestApplicationException,
+  ForbiddenApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { UserRole } from 'src/utils';
+import { ICampaignAnalytics } from '../campaign-analytics/interfaces/campaign-analytics.interface';
+import { FileManagerService } from '../file-manager/file-manager.service';
+import { UserEntity } from '../users/entities/user.entity';
+import { ReportDocumentFormat, Status } from './enums';
+import { buildCampaignReportDocument } from './utils/campaign-report-document.util';
+import { renderCampaignReportPdf } from './utils/campaign-report-pdf.util';
+import { renderCampaignReportXlsx } from './utils/campaign-report-xlsx.util';
+
+/**
+ * Branded PDF and XLSX documents of the delivered campaign reports, stored through the file manager.
+ */
+@Injectable()
+export class CampaignReportDocumentsService {
+  private readonly logger = new Logger(CampaignReportDocumentsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly fileManagerService: FileManagerService,
+    @Inject(invoiceConfig.KEY)
+    private readonly _invoiceConfig: ConfigType<typeof invoiceConfig>,
+  ) {}
+
+  private async getDocument(
+    report: CampaignReport,
+    analytics: ICampaignAnalytics,
+  ) {
+    const campaign = await this.prismaService.campaign.findUniqueOrThrow({
+      where: { id: report.campaignId },
+      select: {
+        name: true,
+        platformProductOrder: {
+          select: { client: { select: { company: true } } },
+        },
+      },
+    });
+    const influencers = await this.prismaService.influencer.findMany({
+      where: {
+        id: {
+          in: analytics.influencers.map(({ influencerId }) => influencerId),
+        },
+      },
+      select: {
+        id: true,
+        user: { select: { firstName: true, lastName: true } },
+      },
+    });
+
+    return buildCampaignReportDocument(report, analytics, {
+      // * the platform company issues the reports as well as the invoices
+      brand: this._invoiceConfig.issuer.name,
+      campaignName: campaign.name,
+      clientName: campaign.platformProductOrder.client?.company?.name,
+      deliveredAt: new Date(),
+      influencerNames: new Map(
+        influencers.map(({ id, user }) => [
+          id,
+          `${user.firstName} ${user.lastName}`,
+        ]),
+      ),
+    });
+  }
+
+  /**
+   * Renders and uploads the documents with the metrics the report was ordered with.
+   * They are private, available only through the report.
+   */
+  async create(report: CampaignReport, analytics: ICampaignAnalytics) {
+    const document = await this.getDocument(report, analytics);
+    const filename = `campaign-report-${report.id}`;
+    const name = `${document.campaignName} - Campaign Report`;
+
+    const pdfFile = await this.fileManagerService.uploadBuffer(
+      await renderCampaignReportPdf(document),
+      `${filename}.pdf`,
+      'application/pdf',
+      `${name}.pdf`,
+      true,
+    );
+    const xlsxFile = await this.fileManagerService.uploadBuffer(
+      await renderCampaignReportXlsx(document),
+      `${filename}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      `${name}.xlsx`,
+      true,
+    );
+
+    this.logger.log(`Documents of campaign report ${report.id} created`);
+
+    return { pdfFile, xlsxFile };
+  }
+
+  async getDownloadUrl(
+    reportId: number,
+    format: ReportDocumentFormat,
+    user: UserEntity,
+  ) {
+    const report = await this.prismaService.campaignReport.findUnique({
+      where: { id: reportId },
+      include: {
+        platformProductOrder: { include: { client: true } },
+        pdfFile: true,
+        xlsxFile: true,
+      },
+    });
+
+    if (!report) {
+      throw new NotFoundApplicationException(
+        `Campaign report with ID ${reportId} not found`,
+      );
+    } else if (
+      user.role === UserRole.Client &&
+      (report.platformProductOrder.client.userId !== user.id ||
+        report.status !== Status.Delivered)
+    ) {
+      throw new ForbiddenApplicationException(
+        `Documents are available only for delivered reports of the client`,
+      );
+    }
+
+    const file =
+      format === ReportDocumentFormat.PDF ? report.pdfFile : report.xlsxFile;
+
+    if (!file) {
+      throw new BadRequestApplicationException(
+        `${format.toUpperCase()} document of campaign report ${reportId} is not available`,
+      );
+    }
+
+    return { url: await this.fileManagerService.getPresignedUrl(file.key) };
+  }
+}
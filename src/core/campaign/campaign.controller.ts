@@ -43,6 +43,7 @@ import { EnumItemResult } from 'src/utils/object-definitions/results/enum-item-r
 import { serializeEnum } from 'src/utils/serializers/enum-result.serializer';
 import { ReportType } from './enums/report.enum';
 import { UserEntity } from '../users/entities/user.entity';
+import { CampaignAnalyticsService } from '../campaign-analytics/campaign-analytics.service';
 import { CampaignFiltersDto } from './dto';
 import { CampaignFilterDto } from './dto/campaign--filter.dto';
 import { CampaignReportFilterDto } from './dto/campaign-report-filter.dto';
@@ -55,6 +56,8 @@ import { CacheInvalidate } from 'src/decorators/cache-invalidate.decorator';
 import { DeleteManyCampaignsDto } from './dto/delete-many-campaigns.dto';
 import { DeleteManyCampaignReportsDto } from './dto/delete-many-campaign-reports.dto';
 import { CampaignInviteInfluencers } from './dto/campaing-invite-influencers.dto';
+import { CampaignReportDocumentDto } from './dto/campaign-report-document.dto';
+import { CampaignReportDocumentsService } from './campaign-report-documents.service';
 
 @Controller('campaign')
 @ApiTags('campaign')
@@ -78,7 +81,11 @@ export class CampaignController {
   private static readonly cacheInvalidateOnCampaignReportUpdate =
     CampaignController.cacheInvalidateOnCampaignReportCreate;
 
-  constructor(private readonly campaignService: CampaignService) {}
+  constructor(
+    private readonly campaignService: CampaignService,
+    private readonly campaignAnalyticsService: CampaignAnalyticsService,
+    private readonly campaignReportDocumentsService: CampaignReportDocumentsService,
+  ) {}
 
   @Get('track')
   // * 1 day = 86 400 seconds
@@ -192,6 +199,39 @@ export class CampaignController {
     return this.campaignService.markReportAsReady(reportId);
   }
 
+  @Get('reports/:reportId/analytics')
+  @CheckAbilities({ action: Action.Read, subject: 'CampaignReport' })
+  @ApiOperation({
+    summary: 'Get analytics of the campaign report',
+    description:
+      'Retrieves analytics of the campaign limited to the metrics the report was ordered with. Clients can get analytics of their delivered reports only.',
+  })
+  async getReportAnalytics(
+    @Param('reportId') reportId: number,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.campaignAnalyticsService.getReportAnalytics(reportId, user);
+  }
+
+  @Get('reports/:reportId/document')
+  @CheckAbilities({ action: Action.Read, subject: 'CampaignReport' })
+  @ApiOperation({
+    summary: 'Get a download URL of the campaign report document',
+    description:
+      'Retrieves a temporary URL of the PDF or XLSX document generated on the report delivery. Clients can download documents of their delivered reports only.',
+  })
+  async getReportDocument(
+    @Param('reportId') reportId: number,
+    @Query() { format }: CampaignReportDocumentDto,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.campaignReportDocumentsService.getDownloadUrl(
+      reportId,
+      format,
+      user,
+    );
+  }
+
   @Put('reports/:reportId/deliver')
   @CheckAbilities({ action: Action.Update, subject: 'CampaignReport' })
   @CacheInvalidate(...CampaignController.cacheInvalidateOnCampaignReportUpdate)
@@ -523,10 +563,29 @@ export class CampaignController {
   }
   //#endregion
 
-  // TODO refactor
   @Get(':id/performances')
-  async getPerformances(@Param('id') id: number) {
-    return this.campaignService.calculateInfluencersPerformances(id);
+  @CheckAbilities({ action: Action.Read, subject: 'Campaign' })
+  @ApiOperation({
+    summary: 'Get performances of the campaign influencers',
+    description:
+      'Retrieves reach, engagement, audience overlap and costs of each influencer. Ratios are null while their denominator is zero, eg. cost per click without clicks. Clients and ambassadors can get performances for campaigns of their clients only.',
+  })
+  async getPerformances(@Param('id') id: number, @AuthUser() user: UserEntity) {
+    const analytics =
+      await this.campaignAnalyticsService.getUserCampaignAnalytics(id, user);
+
+    return analytics.influencers;
+  }
+
+  @Get(':id/analytics')
+  @CheckAbilities({ action: Action.Read, subject: 'Campaign' })
+  @ApiOperation({
+    summary: 'Get analytics of the campaign',
+    description:
+      'Retrieves the unique audience, reach, audience overlap and cost per target stakeholder type of the campaign, with the performances of its influencers. Campaign costs are converted to the currency of the order, influencer costs stay in the currency of the influencer. Clients and ambassadors can get analytics for campaigns of their clients only.',
+  })
+  async getAnalytics(@Param('id') id: number, @AuthUser() user: UserEntity) {
+    return this.campaignAnalyticsService.getUserCampaignAnalytics(id, user);
   }
 
   @Post('getCampaigns')
@@ -3,10 +3,20 @@ import { CampaignService } from './campaign.service';
 import { CampaignController } from './campaign.controller';
 import { PrismaModule } from 'src/integrations/prisma/prisma.module';
 import { PlatformProductModule } from '../platform-product/platform-product.module';
+import { FinanceModule } from '../finance/finance.module';
+import { CampaignAnalyticsModule } from '../campaign-analytics/campaign-analytics.module';
+import { FileManagerModule } from '../file-manager/file-manager.module';
+import { CampaignReportDocumentsService } from './campaign-report-documents.service';
 
 @Module({
-  imports: [PrismaModule, PlatformProductModule],
+  imports: [
+    PrismaModule,
+    PlatformProductModule,
+    FinanceModule,
+    CampaignAnalyticsModule,
+    FileManagerModule,
+  ],
   controllers: [CampaignController],
-  providers: [CampaignService],
+  providers: [CampaignService, CampaignReportDocumentsService],
 })
 export class CampaignModule {}
@@ -1,4 +1,4 @@
-import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import {
   CampaignFiltersDto,
   CampaignSimpleFiltersDto,
@@ -12,12 +12,7 @@ import {
 import { PrismaService } from 'src/integrations/prisma/prisma.service';
 import { PlatformProductOrderService } from '../platform-product/platform-product-order.service';
 import { PlatformProduct } from '../platform-product/enums/platform-product.enum';
-import {
-  CampaignInfluencerPerformance,
-  Prisma,
-  Product,
-  User,
-} from '@prisma/client';
+import { Prisma, Product, User } from '@prisma/client';
 import { UserRole } from 'src/utils';
 import { ambassadorCommission } from 'src/config';
 import { ReportType, Status } from './enums';
@@ -34,17 +29,18 @@ import { ProductOrderInfluencerStatus } from '../platform-product/enums/product-
 import { UserWithInfluencer } from '../influencer/types';
 import { userIdentity } from '../users/utils/user-identity';
 import { idToPseudostring } from './utils/website-link-generator';
-import { Decimal } from '@prisma/client/runtime';
 import { CampaignFilterDto } from './dto/campaign--filter.dto';
 import { UserEntity } from '../users/entities/user.entity';
 import { CampaignReportFilterDto } from './dto/campaign-report-filter.dto';
 import { UpdateReportDto } from './dto/update-report.dto';
-import { Cache } from 'cache-manager';
-import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { DeleteManyCampaignsDto } from './dto/delete-many-campaigns.dto';
 import { DeleteManyCampaignReportsDto } from './dto/delete-many-campaign-reports.dto';
 import { FinanceStatus } from './enums/finance-status.enum';
 import { CampaignInviteInfluencers } from './dto/campaing-invite-influencers.dto';
+import { FinanceService } from '../finance/finance.service';
+import { CampaignAnalyticsService } from '../campaign-analytics/campaign-analytics.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CampaignReportDocumentsService } from './campaign-report-documents.service';
 
 @Injectable()
 export class CampaignService {
@@ -260,10 +256,12 @@ export class CampaignService {
 
   constructor(
     private readonly prismaService: PrismaService,
-    @Inject(CACHE_MANAGER)
-    private readonly cacheManager: Cache,
     private readonly productOrdersService: PlatformProductOrderService,
     private readonly jwtService: JwtService,
+    private readonly financeService: FinanceService,
+    private readonly campaignAnalyticsService: CampaignAnalyticsService,
+    private readonly campaignReportDocumentsService: CampaignReportDocumentsService,
+    private readonly notificationsService: NotificationsService,
   ) {}
 
   async create(createCampaignDto: CreateCampaignDto, user: UserEntity) {
@@ -483,8 +481,6 @@ export class CampaignService {
       return campaign;
     });
 
-    await this.cacheManager.del(`${campaign}-getClientCampaignsCountData`);
-
     return campaign;
   }
 
@@ -1233,11 +1229,13 @@ export class CampaignService {
   async track(code: string) {
     try {
       const {
+        campaignId,
         campaign: { clientCompanyWebsite },
       } = await this.prismaService.campaignInfluencerPerformance.update({
         where: { trackingCode: code },
         data: { websiteClick: { increment: 1 } },
         select: {
+          campaignId: true,
           campaign: {
             select: {
               clientCompanyWebsite: true,
@@ -1246,6 +1244,8 @@ export class CampaignService {
         },
       });
 
+      await this.campaignAnalyticsService.invalidate(campaignId);
+
       return clientCompanyWebsite;
     } catch (err) {
       if (
@@ -1800,34 +1800,40 @@ export class CampaignService {
       );
     }
 
-    return await this.prismaService.$transaction(async (tx) => {
-      await tx.platformProductOrderInfluencer.update({
-        data: {
-          status: ProductOrderInfluencerStatus.ToBeApproved,
-        },
-        where: {
-          id: campaignInfluencer.id,
-        },
-      });
+    const campaignInfluencerPerformance = await this.prismaService.$transaction(
+      async (tx) => {
+        await tx.platformProductOrderInfluencer.update({
+          data: {
+            status: ProductOrderInfluencerStatus.ToBeApproved,
+          },
+          where: {
+            id: campaignInfluencer.id,
+          },
+        });
 
-      return tx.campaignInfluencerPerformance.upsert({
-        create: {
-          campaignId,
-          influencerId: user.influencer.id,
-          submissionLink: data.submissionLink,
-          // * save unique ID only, not the whole link (website link)
-          trackingCode: idToPseudostring(user.influencer.id),
-          websiteClick: 0,
-        },
-        update: { submissionLink: data.submissionLink },
-        where: {
-          CampaignInfluencerPerformanceIdentifier: {
+        return tx.campaignInfluencerPerformance.upsert({
+          create: {
             campaignId,
             influencerId: user.influencer.id,
+            submissionLink: data.submissionLink,
+            // * save unique ID only, not the whole link (website link)
+            trackingCode: idToPseudostring(user.influencer.id),
+            websiteClick: 0,
           },
-        },
-      });
-    });
+          update: { submissionLink: data.submissionLink },
+          where: {
+            CampaignInfluencerPerformanceIdentifier: {
+              campaignId,
+              influencerId: user.influencer.id,
+            },
+          },
+        });
+      },
+    );
+
+    await this.campaignAnalyticsService.invalidate(campaignId);
+
+    return campaignInfluencerPerformance;
   }
 
   // * accept
@@ -2031,29 +2037,31 @@ export class CampaignService {
       );
     }
 
-    return await this.prismaService.$transaction(async (tx) => {
-      await tx.platformProductOrderInfluencer.updateMany({
-        data: {
-          status: ProductOrderInfluencerStatus.ToBePaid,
-        },
-        where: {
-          status: ProductOrderInfluencerStatus.Approved,
-        },
-      });
-
-      return this.prismaService.campaign.update({
-        data: {
-          platformProductOrder: {
-            update: {
-              status: Status.Finished,
+    const { updatedCampaign, transactionFlows } =
+      await this.prismaService.$transaction(async (tx) => {
+        const transactionFlows = await this.financeService.settleProductOrder(
+          campaign.platformProductOrderId,
+          tx,
+        );
+        const updatedCampaign = await tx.campaign.update({
+          data: {
+            platformProductOrder: {
+              update: {
+                status: Status.Finished,
+              },
             },
           },
-        },
-        where: {
-          id: campaignId,
-        },
+          where: {
+            id: campaignId,
+          },
+        });
+
+        return { updatedCampaign, transactionFlows };
       });
-    });
+
+    await this.financeService.notifySettlement(transactionFlows);
+
+    return updatedCampaign;
   }
 
   async archiveCampaign(campaignId: number) {
@@ -2216,10 +2224,29 @@ export class CampaignService {
   }
 
   async deliverReport(reportId: number) {
-    return this.prismaService.campaignReport.update({
+    const { platformProductOrder, ...report } =
+      await this.prismaService.campaignReport.findUniqueOrThrow({
+        where: { id_status: { id: reportId, status: Status.Ready } },
+        include: {
+          platformProductOrder: {
+            select: { client: { include: { ambassador: true } } },
+          },
+        },
+      });
+
+    // * figures of the delivered report are kept with the performances and the documents
+    const analytics = await this.campaignAnalyticsService.storePerformances(
+      report.campaignId,
+    );
+    const { pdfFile, xlsxFile } =
+      await this.campaignReportDocumentsService.create(report, analytics);
+
+    const deliveredReport = await this.prismaService.campaignReport.update({
       where: { id_status: { id: reportId, status: Status.Ready } },
       data: {
         status: Status.Delivered,
+        pdfFile: { connect: { id: pdfFile.id } },
+        xlsxFile: { connect: { id: xlsxFile.id } },
         platformProductOrder: {
           update: {
             status: Status.Delivered,
@@ -2227,6 +2254,16 @@ export class CampaignService {
         },
       },
     });
+
+    await this.notificationsService.campaignReportDelivered(
+      platformProductOrder.client.userId,
+      platformProductOrder.client.ambassador?.userId,
+      report.campaignId,
+      report.id,
+      pdfFile.id,
+    );
+
+    return deliveredReport;
   }
 
   async getReports(
@@ -2277,103 +2314,4 @@ export class CampaignService {
       },
     )();
   }
-
-  async calculateInfluencersPerformances(campaignId: number) {
-    const campaign = await this.prismaService.campaign.findUniqueOrThrow({
-      where: { id: campaignId },
-      include: {
-        campaignInfluencerPerformances: {
-          include: {
-            influencer: {
-              include: {
-                influencerFollowers: {
-                  include: {
-                    stakeholder: {
-                      include: {
-                        influencer: true,
-                      },
-                    },
-                  },
-                },
-              },
-            },
-            likers: {
-              include: {
-                stakeholder: true,
-              },
-            },
-          },
-        },
-        platformProductOrder: {
-          include: {
-            platformProductOrderInfluencers: true,
-          },
-        },
-      },
-    });
-    return campaign.campaignInfluencerPerformances.map(
-      (
-        campaignInfluencerPerformance,
-      ): Partial<
-        CampaignInfluencerPerformance & {
-          costPerClick: Decimal;
-          influencerCurrency: number;
-          engagement: Decimal;
-          costPerLike: Decimal;
-          costPerComment: Decimal;
-          costPerEngagement: Decimal;
-        }
-      > => {
-        const campaignInfluencer =
-          campaign.platformProductOrder.platformProductOrderInfluencers.find(
-            (campaignInfluencer) =>
-              campaignInfluencer.influencerId ===
-              campaignInfluencerPerformance.influencerId,
-          );
-
-        const reachMultiplier =
-          campaignInfluencerPerformance.likers.length /
-          campaignInfluencerPerformance.likers.filter((liker) => {
-            campaignInfluencerPerformance.influencer.influencerFollowers.find(
-              (follower) => follower.stakeholderId === liker.stakeholderId,
-            );
-          }).length;
-        const reach =
-          reachMultiplier *
-          campaignInfluencerPerformance.influencer.influencerFollowers.length;
-        const engagementRate =
-          (campaignInfluencerPerformance.likes +
-            campaignInfluencerPerformance.comments) /
-          campaignInfluencerPerformance.influencer.influencerFollowers.length;
-
-        return {
-          /* size: campaignInfluencerPerformance.influencer.influencerFollowers
-              .length, */
-          comments: campaignInfluencerPerformance.comments,
-          // * or likers.length
-          likes: campaignInfluencerPerformance.likes,
-          // * total number of likers divided by a number of likers that are influencr followers
-          reach: new Decimal(reach),
-          // TODO return reachMultiplier also
-          websiteClick: campaignInfluencerPerformance.websiteClick,
-          costPerClick: campaignInfluencer.agreedAmount.dividedBy(
-            campaignInfluencerPerformance.websiteClick,
-          ),
-          influencerCurrency: campaignInfluencer.currency,
-          engagement: new Decimal(engagementRate),
-          costPerLike: campaignInfluencer.agreedAmount.dividedBy(
-            campaignInfluencerPerformance.likes,
-          ),
-          costPerComment: campaignInfluencer.agreedAmount.dividedBy(
-            campaignInfluencerPerformance.comments,
-          ),
-          costPerEngagement: campaignInfluencer.agreedAmount.dividedBy(
-            campaignInfluencerPerformance.likes +
-              campaignInfluencerPerformance.comments,
-          ),
-          overlap: undefined,
-        };
-      },
-    );
-  }
 }
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { ReportDocumentFormat } from '../enums';
+
+export class CampaignReportDocumentDto {
+  @IsEnum(ReportDocumentFormat)
+  format: ReportDocumentFormat;
+}
@@ -21,6 +21,8 @@ export class CampaignReportEntity implements CampaignReport {
   costPerComment: boolean;
   costPerEngagement: boolean;
   overlap: boolean;
+  pdfFileId: number;
+  xlsxFileId: number;
   createdAt: Date;
   updatedAt: Date;
 
@@ -1,3 +1,4 @@
 export * from './filter-by.enum';
 export * from './status.enum';
 export * from './report.enum';
+export * from './report-document-format.enum';
@@ -0,0 +1,4 @@
+export enum ReportDocumentFormat {
+  PDF = 'pdf',
+  XLSX = 'xlsx',
+}
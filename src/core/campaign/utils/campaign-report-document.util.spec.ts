@@ -0,0 +1,103 @@
+import { ICampaignAnalytics } from '../../campaign-analytics/interfaces/campaign-analytics.interface';
+import {
+  buildCampaignReportDocument,
+  formatReportValue,
+} from './campaign-report-document.util';
+
+const influencer = {
+  agreedAmount: 100,
+  influencerCurrency: 0,
+  followers: 10,
+  comments: 1,
+  websiteClick: 0,
+  targetAudience: 4,
+  costPerClick: null,
+  costPerLike: null,
+  costPerComment: null,
+  costPerEngagement: null,
+};
+
+const analytics: ICampaignAnalytics = {
+  campaignId: 1,
+  audience: 15,
+  reach: 20,
+  overlap: 0.25,
+  currency: 'EUR',
+  costPerTarget: 25,
+  stakeholderTypes: [{ stakeholderType: 1, audience: 8, costPerTarget: 25 }],
+  influencers: [
+    {
+      ...influencer,
+      campaignInfluencerPerformanceId: 10,
+      influencerId: 100,
+      likes: 4,
+      reach: 12,
+      engagement: 0.5,
+      costPerTarget: 25,
+      overlap: 0.2,
+    },
+    {
+      ...influencer,
+      campaignInfluencerPerformanceId: 11,
+      influencerId: 101,
+      likes: 6,
+      reach: 8,
+      engagement: null,
+      costPerTarget: 25,
+      overlap: 0.3,
+    },
+  ],
+  calculatedAt: new Date(),
+};
+
+describe('campaign report document util', () => {
+  describe('formatReportValue', () => {
+    it('should format the values by the kind of the metric', () => {
+      expect(formatReportValue(0.1234, 'ratio')).toBe('12.3%');
+      expect(formatReportValue(12.5, 'amount')).toBe('12.50');
+      expect(formatReportValue(12345.4, 'count')).toBe('12,345');
+      expect(formatReportValue(null, 'count')).toBe('-');
+    });
+  });
+
+  describe('buildCampaignReportDocument', () => {
+    const document = buildCampaignReportDocument(
+      { reach: true, numOfLikes: true, engagement: true, costPerTarget: true },
+      analytics,
+      {
+        brand: 'Brand',
+        campaignName: 'Campaign',
+        deliveredAt: new Date(),
+        influencerNames: new Map([[100, 'Jane Doe']]),
+      },
+    );
+
+    it('should have the columns of the ordered metrics', () => {
+      expect(document.columns.map(({ metric }) => metric)).toEqual([
+        'reach',
+        'likes',
+        'engagement',
+        'targetAudience',
+        'costPerTarget',
+      ]);
+      expect(document.influencers).toEqual([
+        { name: 'Jane Doe', values: [12, 4, 0.5, 4, 25] },
+        { name: 'Influencer 101', values: [8, 6, null, 4, 25] },
+      ]);
+    });
+
+    it('should use campaign metrics or aggregate the influencer metrics', () => {
+      expect(document.summary).toEqual([
+        { label: 'Influencers', value: 2, kind: 'count' },
+        { label: 'Audience', value: 15, kind: 'count' },
+        { label: 'Reach', value: 20, kind: 'count' },
+        { label: 'Likes', value: 10, kind: 'count' },
+        { label: 'Engagement (average)', value: 0.5, kind: 'ratio' },
+        { label: 'Target audience', value: 8, kind: 'count' },
+        { label: 'Cost per target', value: 25, kind: 'amount' },
+        { label: 'Audience - Patient', value: 8, kind: 'count' },
+        { label: 'Cost per target - Patient', value: 25, kind: 'amount' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { CampaignReport } from '@prisma/client';
+import {
+  ICampaignAnalytics,
+  IInfluencerPerformanceAnalytics,
+} from '../../campaign-analytics/interfaces/campaign-analytics.interface';
+import { getReportMetrics } from '../../campaign-analytics/utils/campaign-analytics.util';
+import { StakeholderType } from '../../../utils/enums/stakeholder-type.enum';
+
+export type ReportMetricKind = 'count' | 'ratio' | 'amount';
+
+export interface ICampaignReportColumn {
+  metric: keyof IInfluencerPerformanceAnalytics;
+  label: string;
+  kind: ReportMetricKind;
+}
+
+export interface ICampaignReportValue {
+  label: string;
+  value: number | null;
+  kind: ReportMetricKind;
+}
+
+export interface ICampaignReportDocument {
+  brand: string;
+  campaignName: string;
+  clientName?: string;
+  deliveredAt: Date;
+  columns: ICampaignReportColumn[];
+  // * campaign-wide figures
+  summary: ICampaignReportValue[];
+  // * values are in the order of the columns
+  influencers: { name: string; values: (number | null)[] }[];
+}
+
+// * hex color of the report header, charts and data bars
+export const reportBrandColor = '1F4E79';
+
+const metricColumns: Partial<
+  Record<
+    keyof IInfluencerPerformanceAnalytics,
+    Omit<ICampaignReportColumn, 'metric'>
+  >
+> = {
+  reach: { label: 'Reach', kind: 'count' },
+  likes: { label: 'Likes', kind: 'count' },
+  comments: { label: 'Comments', kind: 'count' },
+  websiteClick: { label: 'Website clicks', kind: 'count' },
+  engagement: { label: 'Engagement', kind: 'ratio' },
+  targetAudience: { label: 'Target audience', kind: 'count' },
+  costPerTarget: { label: 'Cost per target', kind: 'amount' },
+  costPerClick: { label: 'Cost per click', kind: 'amount' },
+  costPerLike: { label: 'Cost per like', kind: 'amount' },
+  costPerComment: { label: 'Cost per comment', kind: 'amount' },
+  costPerEngagement: { label: 'Cost per engagement', kind: 'amount' },
+  overlap: { label: 'Overlap', kind: 'ratio' },
+};
+
+// * metrics calculated for the whole campaign, the other metrics are summed or averaged over the influencers
+const campaignMetrics: (keyof ICampaignAnalytics &
+  keyof IInfluencerPerformanceAnalytics)[] = [
+  'reach',
+  'overlap',
+  'costPerTarget',
+];
+
+export const formatReportValue = (
+  value: number | null,
+  kind: ReportMetricKind,
+) => {
+  if (value === null || value === undefined) return '-';
+
+  switch (kind) {
+    case 'ratio':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'amount':
+      return value.toFixed(2);
+    default:
+      return Math.round(value).toLocaleString('en-US');
+  }
+};
+
+const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Columns and campaign-wide figures of the metrics the report was ordered with.
+ */
+export const buildCampaignReportDocument = (
+  report: Partial<CampaignReport>,
+  analytics: ICampaignAnalytics,
+  {
+    brand,
+    campaignName,
+    clientName,
+    deliveredAt,
+    influencerNames,
+  }: Pick<
+    ICampaignReportDocument,
+    'brand' | 'campaignName' | 'clientName' | 'deliveredAt'
+  > & { influencerNames: Map<number, string> },
+): ICampaignReportDocument => {
+  const columns = getReportMetrics(report).map(
+    (metric): ICampaignReportColumn => ({ metric, ...metricColumns[metric] }),
+  );
+  const summary: ICampaignReportValue[] = [
+    {
+      label: 'Influencers',
+      value: analytics.influencers.length,
+      kind: 'count',
+    },
+    { label: 'Audience', value: analytics.audience, kind: 'count' },
+  ];
+
+  columns.forEach(({ metric, label, kind }) => {
+    const values = analytics.influencers
+      .map((influencer) => influencer[metric])
+      .filter((value) => value !== null);
+
+    if (campaignMetrics.includes(metric as (typeof campaignMetrics)[number])) {
+      summary.push({ label, value: analytics[metric], kind });
+    } else if (kind === 'count') {
+      summary.push({ label, value: sum(values), kind });
+    } else {
+      summary.push({
+        label: `${label} (average)`,
+        value: values.length ? sum(values) / values.length : null,
+        kind,
+      });
+    }
+  });
+
+  if (report.costPerTarget) {
+    analytics.stakeholderTypes.forEach(
+      ({ stakeholderType, audience, costPerTarget }) => {
+        const typeName = StakeholderType[stakeholderType] ?? stakeholderType;
+
+        summary.push(
+          { label: `Audience - ${typeName}`, value: audience, kind: 'count' },
+          {
+            label: `Cost per target - ${typeName}`,
+            value: costPerTarget,
+            kind: 'amount',
+          },
+        );
+      },
+    );
+  }
+
+  return {
+    brand,
+    campaignName,
+    clientName,
+    deliveredAt,
+    columns,
+    summary,
+    influencers: analytics.influencers.map((influencer) => ({
+      name:
+        influencerNames.get(influencer.influencerId) ??
+        `Influencer ${influencer.influencerId}`,
+      values: columns.map(({ metric }) => influencer[metric]),
+    })),
+  };
+};
@@ -0,0 +1,178 @@
+import { format } from 'date-fns';
+import PDFDocument from 'pdfkit';
+import {
+  formatReportValue,
+  ICampaignReportDocument,
+  reportBrandColor,
+} from './campaign-report-document.util';
+
+const brandColor = `#${reportBrandColor}`;
+const nameColumnWidth = 140;
+const rowHeight = 16;
+const barHeight = 10;
+
+/**
+ * Renders the report in landscape with the standard PDF fonts only, so no fonts or other assets are fetched.
+ * Charts are horizontal bars of every metric, drawn as rectangles.
+ */
+export const renderCampaignReportPdf = (report: ICampaignReportDocument) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const document = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 50,
+    });
+    const chunks: Buffer[] = [];
+    const left = document.page.margins.left;
+    const contentWidth =
+      document.page.width - left - document.page.margins.right;
+    const bottom = document.page.height - document.page.margins.bottom;
+
+    document.on('data', (chunk: Buffer) => chunks.push(chunk));
+    document.on('end', () => resolve(Buffer.concat(chunks)));
+    document.on('error', reject);
+
+    document.info.Title = `${report.campaignName} - Campaign Report`;
+    document.info.Author = report.brand;
+
+    const ensureSpace = (height: number) => {
+      if (document.y + height > bottom) document.addPage();
+    };
+    const addHeading = (text: string) => {
+      ensureSpace(rowHeight * 3);
+      document
+        .moveDown()
+        .fillColor(brandColor)
+        .font('Helvetica-Bold')
+        .fontSize(13)
+        .text(text, left)
+        .fillColor('black')
+        .moveDown(0.5);
+    };
+
+    // * brand header
+    document.rect(0, 0, document.page.width, 80).fill(brandColor);
+    document
+      .fillColor('white')
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .text(report.brand, left, 22)
+      .font('Helvetica')
+      .fontSize(11)
+      .text('Campaign Report', left)
+      .fillColor('black');
+
+    document.y = 100;
+    document.font('Helvetica-Bold').fontSize(16).text(report.campaignName);
+    document.font('Helvetica').fontSize(10);
+    if (report.clientName) document.text(`Client: ${report.clientName}`);
+    document.text(`Delivered: ${format(report.deliveredAt, 'dd.MM.yyyy')}`);
+
+    addHeading('Campaign summary');
+    document.fontSize(10);
+    report.summary.forEach(({ label, value, kind }) => {
+      ensureSpace(rowHeight);
+
+      const y = document.y;
+
+      document.font('Helvetica').text(label, left, y, { width: 220 });
+      document
+        .font('Helvetica-Bold')
+        .text(formatReportValue(value, kind), left + 220, y, {
+          width: 120,
+          align: 'right',
+        });
+      document.x = left;
+    });
+
+    if (!report.columns.length) {
+      document.end();
+      return;
+    }
+
+    const columnWidth =
+      (contentWidth - nameColumnWidth) / report.columns.length;
+    const addRow = (cells: string[], font = 'Helvetica') => {
+      ensureSpace(rowHeight * 2);
+
+      const y = document.y;
+
+      document.font(font).fontSize(8);
+      cells.forEach((cell, index) =>
+        document.text(
+          cell,
+          index ? left + nameColumnWidth + (index - 1) * columnWidth : left,
+          y,
+          {
+            width: index ? columnWidth : nameColumnWidth,
+            align: index ? 'right' : 'left',
+            lineBreak: false,
+            ellipsis: true,
+          },
+        ),
+      );
+      document.x = left;
+      document.y = y + rowHeight;
+    };
+
+    addHeading('Influencers');
+    addRow(
+      ['Influencer', ...report.columns.map(({ label }) => label)],
+      'Helvetica-Bold',
+    );
+    report.influencers.forEach(({ name, values }) =>
+      addRow([
+        name,
+        ...values.map((value, index) =>
+          formatReportValue(value, report.columns[index].kind),
+        ),
+      ]),
+    );
+
+    const chartWidth = contentWidth - nameColumnWidth - 80;
+
+    report.columns.forEach(({ label, kind }, index) => {
+      const values = report.influencers.map(({ values }) => values[index]);
+      const max = Math.max(...values.map((value) => Math.abs(value ?? 0)));
+
+      if (!max) return;
+
+      // * keeps the heading with the first bars, long charts continue on the next page
+      ensureSpace(rowHeight * (3 + Math.min(report.influencers.length, 5)));
+      addHeading(label);
+      document.fontSize(8);
+      report.influencers.forEach(({ name }, influencerIndex) => {
+        ensureSpace(rowHeight);
+
+        const value = values[influencerIndex];
+        const y = document.y;
+        const width = (Math.abs(value ?? 0) / max) * chartWidth;
+
+        document
+          .fillColor('black')
+          .font('Helvetica')
+          .text(name, left, y, {
+            width: nameColumnWidth - 10,
+            lineBreak: false,
+            ellipsis: true,
+          });
+        if (width) {
+          document
+            .rect(left + nameColumnWidth, y, width, barHeight)
+            .fill(brandColor);
+        }
+        document
+          .fillColor('black')
+          .text(
+            formatReportValue(value, kind),
+            left + nameColumnWidth + width + 5,
+            y,
+            { lineBreak: false },
+          );
+        document.x = left;
+        document.y = y + rowHeight;
+      });
+    });
+
+    document.end();
+  });
@@ -0,0 +1,100 @@
+import { DataBarRuleType, Workbook, Worksheet } from 'exceljs';
+import {
+  ICampaignReportDocument,
+  reportBrandColor,
+  ReportMetricKind,
+} from './campaign-report-document.util';
+
+const numberFormats: Record<ReportMetricKind, string> = {
+  count: '#,##0',
+  ratio: '0.0%',
+  amount: '#,##0.00',
+};
+
+const brandFill = {
+  type: 'pattern' as const,
+  pattern: 'solid' as const,
+  fgColor: { argb: `FF${reportBrandColor}` },
+};
+
+const styleHeader = (worksheet: Worksheet, rowNumber: number) => {
+  const row = worksheet.getRow(rowNumber);
+
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell((cell) => (cell.fill = brandFill));
+};
+
+/**
+ * Summary and influencers sheets of the report. Charts are data bars of the metric columns,
+ * so they are rendered by the spreadsheet application from the values.
+ */
+export const renderCampaignReportXlsx = async (
+  report: ICampaignReportDocument,
+) => {
+  const workbook = new Workbook();
+
+  workbook.creator = report.brand;
+  workbook.created = report.deliveredAt;
+
+  const summarySheet = workbook.addWorksheet('Summary');
+
+  summarySheet.columns = [{ width: 32 }, { width: 20 }];
+  summarySheet.addRows([
+    [report.brand],
+    ['Campaign Report'],
+    ['Campaign', report.campaignName],
+    ['Client', report.clientName ?? '-'],
+    ['Delivered', report.deliveredAt],
+    [],
+    ['Metric', 'Value'],
+  ]);
+  summarySheet.getRow(1).font = {
+    bold: true,
+    size: 16,
+    color: { argb: `FF${reportBrandColor}` },
+  };
+  summarySheet.getCell('B5').numFmt = 'dd.mm.yyyy';
+  styleHeader(summarySheet, 7);
+  report.summary.forEach(({ label, value, kind }) => {
+    const row = summarySheet.addRow([label, value]);
+
+    row.getCell(2).numFmt = numberFormats[kind];
+  });
+
+  const influencersSheet = workbook.addWorksheet('Influencers');
+
+  influencersSheet.columns = [
+    { header: 'Influencer', width: 30 },
+    ...report.columns.map(({ label, kind }) => ({
+      header: label,
+      width: 18,
+      style: { numFmt: numberFormats[kind] },
+    })),
+  ];
+  influencersSheet.addRows(
+    report.influencers.map(({ name, values }) => [name, ...values]),
+  );
+  styleHeader(influencersSheet, 1);
+  influencersSheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+
+  if (report.influencers.length) {
+    report.columns.forEach((_, index) => {
+      const column = influencersSheet.getColumn(index + 2).letter;
+
+      influencersSheet.addConditionalFormatting({
+        ref: `${column}2:${column}${report.influencers.length + 1}`,
+        rules: [
+          {
+            type: 'dataBar',
+            priority: index + 1,
+            gradient: false,
+            cfvo: [{ type: 'min' }, { type: 'max' }],
+            color: { argb: `FF${reportBrandColor}` },
+          } as DataBarRuleType,
+        ],
+      });
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
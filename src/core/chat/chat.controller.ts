@@ -1,6 +1,22 @@
-import { Controller, Get } from '@nestjs/common';
+import {
+  Controller,
+  FileTypeValidator,
+  Get,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  ParseIntPipe,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
 import { ChatService } from './chat.service';
-import { ApiTags } from '@nestjs/swagger';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiFile } from '../file-manager/decorators/api-file.decorator';
+import { AuthUser } from '../auth/decorators';
+import { UserEntity } from '../users/entities/user.entity';
+import { ChatAttachmentEntity } from './entity';
 
 @Controller('chat')
 @ApiTags('chat')
@@ -11,4 +27,48 @@ export class ChatController {
   pingChat() {
     return 'chat-controller';
   }
+
+  @Post('rooms/:chatRoomId/attachments')
+  @ApiOperation({
+    summary: 'Upload chat attachment',
+    description:
+      'Uploads a file to the chat room. Returned attachment ID is sent with the "sendMessage" event.',
+  })
+  @ApiFile('file', true)
+  @ApiOkResponse({ type: ChatAttachmentEntity })
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadAttachment(
+    @Param('chatRoomId', ParseIntPipe) chatRoomId: number,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 1024 * 1024 * 10 }),
+          new FileTypeValidator({
+            // * allow image, pdf, text, csv and office document mimetypes
+            fileType:
+              /(^image\/[a-zA-Z0-9_.+-]*)|(^application\/pdf)|(^text\/(plain|csv))|(^application\/(msword|vnd\.ms-excel|vnd\.ms-powerpoint|vnd\.openxmlformats-officedocument\.[a-z.]*))/,
+          }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @AuthUser() user: UserEntity,
+  ) {
+    return new ChatAttachmentEntity(
+      await this.chatService.uploadAttachment(chatRoomId, file, user),
+    );
+  }
+
+  @Get('attachments/:id/url')
+  @ApiOperation({
+    summary: 'Get chat attachment download URL',
+    description:
+      'Returns a short-lived presigned URL. Available to chat room members only.',
+  })
+  getAttachmentUrl(
+    @Param('id', ParseIntPipe) id: number,
+    @AuthUser() user: UserEntity,
+  ) {
+    return this.chatService.getAttachmentUrl(id, user);
+  }
 }
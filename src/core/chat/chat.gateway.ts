@@ -27,8 +27,11 @@ import { EventNameInterceptor } from 'src/interceptors/websocket';
 import {
   CreateChatRoomDto,
   CreateMessageDto,
+  DeleteMessageDto,
+  EditMessageDto,
   FindChatMessagesByChatRoomIdDto,
   JoinRoomDto,
+  MarkAsReadDto,
 } from './dto';
 import { JwtService } from '@nestjs/jwt';
 import { TypingDto } from './dto/typing.dto';
@@ -143,12 +146,76 @@ export class ChatGateway
     return { event: 'sendMessage', data: message };
   }
 
+  @SubscribeMessage('editMessage')
+  async editMessage(
+    @MessageBody() editMessageDto: EditMessageDto,
+    @ConnectedSocket() client: SocketWithAuth,
+  ): Promise<WsResponse<MessageEntity>> {
+    const message = new MessageEntity(
+      await this.chatService.editMessage(editMessageDto, client.authPayload),
+    );
+
+    client.to(String(message.chatRoomId)).emit('messageEdited', message);
+
+    return { event: 'editMessage', data: message };
+  }
+
+  @SubscribeMessage('deleteMessage')
+  async deleteMessage(
+    @MessageBody() deleteMessageDto: DeleteMessageDto,
+    @ConnectedSocket() client: SocketWithAuth,
+  ): Promise<WsResponse<MessageEntity>> {
+    const message = new MessageEntity(
+      await this.chatService.deleteMessage(
+        deleteMessageDto,
+        client.authPayload,
+      ),
+    );
+
+    if (message.deleteForAll) {
+      client.to(String(message.chatRoomId)).emit('messageDeleted', {
+        id: message.id,
+        chatRoomId: message.chatRoomId,
+      });
+    }
+
+    return { event: 'deleteMessage', data: message };
+  }
+
+  @SubscribeMessage('markAsRead')
+  async markAsRead(
+    @MessageBody() markAsReadDto: MarkAsReadDto,
+    @ConnectedSocket() client: SocketWithAuth,
+  ) {
+    const { productOrderChatRoomId, userId, lastReadAt } =
+      await this.chatService.markAsRead(
+        markAsReadDto.chatRoomId,
+        client.authPayload,
+      );
+    const readReceipt = {
+      chatRoomId: productOrderChatRoomId,
+      userId,
+      lastReadAt,
+    };
+
+    // * read receipt for other members
+    client.to(String(productOrderChatRoomId)).emit('messagesRead', readReceipt);
+
+    return { event: 'markAsRead', data: readReceipt };
+  }
+
   @SubscribeMessage('joinRoom')
-  joinRoom(
+  async joinRoom(
     @MessageBody()
     joinRoomDto: JoinRoomDto,
     @ConnectedSocket() client: SocketWithAuth,
   ) {
+    // * throws if user is not member of the chat room
+    await this.chatService.findChatRoomById(
+      joinRoomDto.chatRoomId,
+      client.authPayload,
+    );
+    client.join(String(joinRoomDto.chatRoomId));
     client.to(String(joinRoomDto.chatRoomId)).emit('joined', {
       event: 'joined',
       data: this.connectedUsers
@@ -191,9 +258,13 @@ export class ChatGateway
   async findChatRoomsByUserId(
     @ConnectedSocket() client: SocketWithAuth,
   ): Promise<WsResponse<PlatformProductOrderChatRoomEntity[]>> {
+    const rooms = await this.chatService.findChatRoomsByUserId(
+      client.authPayload,
+    );
+
     return {
       event: 'findChatRoomsByUserId',
-      data: await this.chatService.findChatRoomsByUserId(client.authPayload),
+      data: rooms.map((room) => new PlatformProductOrderChatRoomEntity(room)),
     };
   }
 
@@ -202,13 +273,15 @@ export class ChatGateway
     @MessageBody() findChatMessagesDto: FindChatMessagesByChatRoomIdDto,
     @ConnectedSocket() client: SocketWithAuth,
   ): Promise<WsResponse<MessageEntity[]>> {
+    const messages = await this.chatService.findChatMessagesByChatRoomId(
+      findChatMessagesDto.chatRoomId,
+      findChatMessagesDto.page,
+      client.authPayload,
+    );
+
     return {
       event: 'findChatRoomsByUserId',
-      data: await this.chatService.findChatMessagesByChatRoomId(
-        findChatMessagesDto.chatRoomId,
-        findChatMessagesDto.page,
-        client.authPayload,
-      ),
+      data: messages.map((message) => new MessageEntity(message)),
     };
   }
 }
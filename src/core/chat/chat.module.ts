@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { ChatService } from './chat.service';
 import { ChatGateway } from './chat.gateway';
 import { ChatController } from './chat.controller';
+import { FileManagerModule } from '../file-manager/file-manager.module';
 
 @Module({
+  imports: [FileManagerModule],
   providers: [ChatService, ChatGateway],
   controllers: [ChatController],
 })
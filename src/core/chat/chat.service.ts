@@ -1,11 +1,23 @@
-import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from 'src/integrations/prisma/prisma.service';
-import { CreateChatRoomDto, CreateMessageDto } from './dto';
+import {
+  CreateChatRoomDto,
+  CreateMessageDto,
+  DeleteMessageDto,
+  EditMessageDto,
+} from './dto';
 import { Prisma } from '@prisma/client';
 import { JwtService } from '@nestjs/jwt';
 import securityConfig from 'src/config/security.config';
 import { ConfigType } from '@nestjs/config';
 import { IUserJwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { FileManagerService } from '../file-manager/file-manager.service';
 
 @Injectable()
 export class ChatService {
@@ -14,33 +26,179 @@ export class ChatService {
     @Inject(securityConfig.KEY)
     private readonly _securityConfig: ConfigType<typeof securityConfig>,
     private readonly jwtService: JwtService,
+    private readonly fileManagerService: FileManagerService,
   ) {}
+
+  static readonly messageInclude =
+    Prisma.validator<Prisma.PlatformProductOrderChatMessageInclude>()({
+      author: true,
+      attachments: { include: { file: true } },
+    });
+
   platformProductOrderChatRoomIncludeWithLastMessage: Prisma.PlatformProductOrderChatRoomInclude =
     {
       //includes last message, members & productOrder
       productOrderChatRoomMembers: true,
       productOrder: true,
       platformProductOrderChatMessages: {
+        where: { NOT: { isDeleted: true, deleteForAll: true } },
         orderBy: { createdAt: 'desc' },
         take: 1,
-        include: { author: true },
+        include: ChatService.messageInclude,
       },
     };
 
   messageTake = 30;
 
-  createMessage(createMessageDto: CreateMessageDto, user: IUserJwtPayload) {
-    const { chatRoomId, message } = createMessageDto;
+  /**
+   * Messages deleted for all are hidden from everyone, other deleted messages only from their author.
+   */
+  private visibleMessagesQuery(
+    user: IUserJwtPayload,
+  ): Prisma.PlatformProductOrderChatMessageWhereInput {
+    return {
+      NOT: {
+        isDeleted: true,
+        OR: [{ deleteForAll: true }, { authorId: user.id }],
+      },
+    };
+  }
+
+  private async checkChatRoomMember(chatRoomId: number, user: IUserJwtPayload) {
+    const member =
+      await this.prismaService.productOrderChatRoomMember.findUnique({
+        where: {
+          productOrderChatRoomId_userId: {
+            productOrderChatRoomId: chatRoomId,
+            userId: user.id,
+          },
+        },
+      });
+
+    if (!member) {
+      throw new ForbiddenException('You are not a member of the chat room');
+    }
+
+    return member;
+  }
+
+  private async findOwnMessage(messageId: number, user: IUserJwtPayload) {
+    const message =
+      await this.prismaService.platformProductOrderChatMessage.findFirst({
+        where: { id: messageId, isDeleted: false },
+      });
+
+    if (!message) {
+      throw new NotFoundException(`Message with ID ${messageId} not found`);
+    }
+    if (message.authorId !== user.id) {
+      throw new ForbiddenException('Only the author can change the message');
+    }
+
+    return message;
+  }
+
+  async createMessage(
+    createMessageDto: CreateMessageDto,
+    user: IUserJwtPayload,
+  ) {
+    const { chatRoomId, message, attachmentIds } = createMessageDto;
     const authorId = user.id;
 
-    return this.prismaService.platformProductOrderChatMessage.create({
-      data: {
-        message,
-        chatRoom: { connect: { id: chatRoomId } },
-        author: { connect: { id: authorId } },
+    if (attachmentIds?.length) {
+      const attachmentsCount =
+        await this.prismaService.platformProductOrderChatAttachment.count({
+          where: {
+            id: { in: attachmentIds },
+            chatRoomId,
+            uploaderId: authorId,
+            chatMessageId: null,
+          },
+        });
+
+      if (attachmentsCount !== attachmentIds.length) {
+        throw new BadRequestException(
+          'Attachments must be uploaded to the chat room and not sent yet!',
+        );
+      }
+    }
+
+    const chatMessage =
+      await this.prismaService.platformProductOrderChatMessage.create({
+        data: {
+          message,
+          chatRoom: { connect: { id: chatRoomId } },
+          author: { connect: { id: authorId } },
+          attachments: attachmentIds?.length
+            ? { connect: attachmentIds.map((id) => ({ id })) }
+            : undefined,
+        },
+
+        include: { ...ChatService.messageInclude, chatRoom: true },
+      });
+
+    // * author has seen everything sent before his message
+    await this.prismaService.productOrderChatRoomMember.updateMany({
+      where: { productOrderChatRoomId: chatRoomId, userId: authorId },
+      data: { lastReadAt: chatMessage.createdAt },
+    });
+
+    return chatMessage;
+  }
+
+  async editMessage(editMessageDto: EditMessageDto, user: IUserJwtPayload) {
+    const { messageId, message } = editMessageDto;
+
+    await this.findOwnMessage(messageId, user);
+
+    return this.prismaService.platformProductOrderChatMessage.update({
+      where: { id: messageId },
+      data: { message, editedAt: new Date() },
+      include: { ...ChatService.messageInclude, chatRoom: true },
+    });
+  }
+
+  async deleteMessage(
+    deleteMessageDto: DeleteMessageDto,
+    user: IUserJwtPayload,
+  ) {
+    const { messageId, deleteForAll } = deleteMessageDto;
+
+    await this.findOwnMessage(messageId, user);
+
+    return this.prismaService.platformProductOrderChatMessage.update({
+      where: { id: messageId },
+      data: { isDeleted: true, deleteForAll: !!deleteForAll },
+    });
+  }
+
+  markAsRead(chatRoomId: number, user: IUserJwtPayload) {
+    return this.prismaService.productOrderChatRoomMember.update({
+      where: {
+        productOrderChatRoomId_userId: {
+          productOrderChatRoomId: chatRoomId,
+          userId: user.id,
+        },
       },
+      data: { lastReadAt: new Date() },
+    });
+  }
 
-      include: { chatRoom: true, author: true },
+  /**
+   * Counts messages of other members sent after the user's read marker.
+   */
+  countUnreadMessages(
+    chatRoomId: number,
+    lastReadAt: Date | null,
+    user: IUserJwtPayload,
+  ) {
+    return this.prismaService.platformProductOrderChatMessage.count({
+      where: {
+        ...this.visibleMessagesQuery(user),
+        chatRoomId,
+        authorId: { not: user.id },
+        createdAt: lastReadAt ? { gt: lastReadAt } : undefined,
+      },
     });
   }
 
@@ -92,12 +250,33 @@ export class ChatService {
     });
   }
 
-  findChatRoomsByUserId(user: IUserJwtPayload) {
-    //includes last message & members
-    return this.prismaService.platformProductOrderChatRoom.findMany({
-      where: { productOrderChatRoomMembers: { some: { userId: user.id } } },
-      include: this.platformProductOrderChatRoomIncludeWithLastMessage,
-    });
+  async findChatRoomsByUserId(user: IUserJwtPayload) {
+    //includes last message, members & unread messages count
+    const chatRooms =
+      await this.prismaService.platformProductOrderChatRoom.findMany({
+        where: { productOrderChatRoomMembers: { some: { userId: user.id } } },
+        include: {
+          ...this.platformProductOrderChatRoomIncludeWithLastMessage,
+          productOrderChatRoomMembers: true,
+        },
+      });
+
+    return Promise.all(
+      chatRooms.map(async (chatRoom) => {
+        const member = chatRoom.productOrderChatRoomMembers.find(
+          (member) => member.userId === user.id,
+        );
+
+        return {
+          ...chatRoom,
+          unreadCount: await this.countUnreadMessages(
+            chatRoom.id,
+            member.lastReadAt,
+            user,
+          ),
+        };
+      }),
+    );
   }
 
   findChatMessagesByChatRoomId(
@@ -108,16 +287,65 @@ export class ChatService {
     //gets 50 by 50 messages
     return this.prismaService.platformProductOrderChatMessage.findMany({
       where: {
+        ...this.visibleMessagesQuery(user),
         chatRoomId,
         chatRoom: {
           // only consider chat rooms that the user is member of
           productOrderChatRoomMembers: { some: { userId: user.id } },
         },
       },
-      include: { author: true },
+      include: ChatService.messageInclude,
       orderBy: { createdAt: 'desc' },
       skip: page * this.messageTake,
       take: this.messageTake,
     });
   }
+
+  async uploadAttachment(
+    chatRoomId: number,
+    file: Express.Multer.File,
+    user: IUserJwtPayload,
+  ) {
+    await this.checkChatRoomMember(chatRoomId, user);
+
+    const uploadedFile = await this.fileManagerService.upload(file, {}, true);
+
+    return this.prismaService.platformProductOrderChatAttachment.create({
+      data: {
+        chatRoom: { connect: { id: chatRoomId } },
+        uploader: { connect: { id: user.id } },
+        file: { connect: { id: uploadedFile.id } },
+      },
+      include: { file: true },
+    });
+  }
+
+  /**
+   * Presigned (short-lived) download URL, available to chat room members only.
+   */
+  async getAttachmentUrl(id: number, user: IUserJwtPayload) {
+    const attachment =
+      await this.prismaService.platformProductOrderChatAttachment.findUnique({
+        where: { id },
+        include: { file: true, chatMessage: true },
+      });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    await this.checkChatRoomMember(attachment.chatRoomId, user);
+
+    // * unsent attachments are available to the uploader only
+    if (
+      (!attachment.chatMessage && attachment.uploaderId !== user.id) ||
+      attachment.chatMessage?.deleteForAll
+    ) {
+      throw new NotFoundException(`Attachment with ID ${id} not found`);
+    }
+
+    return {
+      url: await this.fileManagerService.getPresignedUrl(attachment.file.key),
+    };
+  }
 }
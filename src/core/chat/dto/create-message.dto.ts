@@ -1,4 +1,11 @@
-import { IsInt, IsPositive, IsString } from 'class-validator';
+import {
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
 
 export class CreateMessageDto {
   @IsInt()
@@ -11,4 +18,11 @@ export class CreateMessageDto {
 
   @IsString()
   message: string;
+
+  // * attachments uploaded to the chat room, that weren't sent yet
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  attachmentIds?: number[];
 }
@@ -0,0 +1,12 @@
+import { IsBoolean, IsInt, IsOptional, IsPositive } from 'class-validator';
+
+export class DeleteMessageDto {
+  @IsInt()
+  @IsPositive()
+  messageId: number;
+
+  // * if false, message is hidden only for the author
+  @IsOptional()
+  @IsBoolean()
+  deleteForAll?: boolean;
+}
@@ -0,0 +1,11 @@
+import { IsInt, IsNotEmpty, IsPositive, IsString } from 'class-validator';
+
+export class EditMessageDto {
+  @IsInt()
+  @IsPositive()
+  messageId: number;
+
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+}
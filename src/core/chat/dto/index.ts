@@ -3,3 +3,6 @@ export * from './create-chat-room.dto';
 export * from './create-message.dto';
 export * from './join-room.dto';
 export * from './find-chat-messages.dto';
+export * from './mark-as-read.dto';
+export * from './edit-message.dto';
+export * from './delete-message.dto';
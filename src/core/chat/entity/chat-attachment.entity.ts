@@ -0,0 +1,30 @@
+import { File, PlatformProductOrderChatAttachment } from '@prisma/client';
+
+export class ChatAttachmentEntity {
+  id: number;
+  chatRoomId: number;
+  chatMessageId: number;
+  uploaderId: number;
+  fileId: number;
+  name: string;
+  filename: string;
+  mimeType: string;
+  // size in bytes
+  size: number;
+  createdAt: Date;
+
+  constructor({
+    file,
+    ...data
+  }: Partial<PlatformProductOrderChatAttachment> & { file?: File }) {
+    Object.assign(this, data);
+
+    // * file key and url are not exposed, presigned url has to be requested
+    if (file) {
+      this.name = file.name;
+      this.filename = file.filename;
+      this.mimeType = file.mimeType;
+      this.size = file.size;
+    }
+  }
+}
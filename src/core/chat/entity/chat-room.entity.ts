@@ -1,14 +1,33 @@
 import { PlatformProductOrderChatRoom } from '@prisma/client';
+import { MessageEntity } from './message.entity';
 
 export class PlatformProductOrderChatRoomEntity
   implements PlatformProductOrderChatRoom
 {
-  constructor(partial: Partial<PlatformProductOrderChatRoomEntity>) {
-    Object.assign(this, partial);
+  constructor({
+    platformProductOrderChatMessages,
+    ...data
+  }: Partial<
+    Omit<PlatformProductOrderChatRoomEntity, 'platformProductOrderChatMessages'>
+  > & {
+    platformProductOrderChatMessages?: ConstructorParameters<
+      typeof MessageEntity
+    >[0][];
+  }) {
+    Object.assign(this, data);
+
+    if (platformProductOrderChatMessages) {
+      this.platformProductOrderChatMessages =
+        platformProductOrderChatMessages.map(
+          (message) => new MessageEntity(message),
+        );
+    }
   }
   isGroupRoom: boolean;
   id: number;
   productOrderId: number;
   createdAt: Date;
   updatedAt: Date;
+  unreadCount?: number;
+  platformProductOrderChatMessages?: MessageEntity[];
 }
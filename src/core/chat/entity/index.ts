@@ -1,2 +1,3 @@
 export * from './chat-room.entity';
 export * from './message.entity';
+export * from './chat-attachment.entity';
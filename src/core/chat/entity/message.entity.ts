@@ -1,8 +1,24 @@
-import { PlatformProductOrderChatMessage } from '@prisma/client';
+import {
+  File,
+  PlatformProductOrderChatAttachment,
+  PlatformProductOrderChatMessage,
+} from '@prisma/client';
+import { ChatAttachmentEntity } from './chat-attachment.entity';
 
 export class MessageEntity implements PlatformProductOrderChatMessage {
-  constructor(partial: Partial<MessageEntity>) {
-    Object.assign(this, partial);
+  constructor({
+    attachments,
+    ...data
+  }: Partial<Omit<MessageEntity, 'attachments'>> & {
+    attachments?: (PlatformProductOrderChatAttachment & { file?: File })[];
+  }) {
+    Object.assign(this, data);
+
+    if (attachments) {
+      this.attachments = attachments.map(
+        (attachment) => new ChatAttachmentEntity(attachment),
+      );
+    }
   }
   id: number;
   chatRoomId: number;
@@ -10,6 +26,8 @@ export class MessageEntity implements PlatformProductOrderChatMessage {
   message: string;
   isDeleted: boolean;
   deleteForAll: boolean;
+  editedAt: Date;
   createdAt: Date;
   updatedAt: Date;
+  attachments?: ChatAttachmentEntity[];
 }
@@ -11,6 +11,11 @@ import {
   Delete,
   Patch,
   Put,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  FileTypeValidator,
 } from '@nestjs/common';
 import { ClientService } from './client.service';
 import {
@@ -42,6 +47,10 @@ import { FilterParamsDto } from 'src/utils/object-definitions/dtos/filter-params
 import { ClientProduct, DiseaseArea, Product, User } from '@prisma/client';
 import { ClientProductEntity } from './entities';
 import { Throttle } from '@nestjs/throttler';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiFile } from '../file-manager/decorators/api-file.decorator';
+import { ImportDiscoverClientsDto } from './dto/import-discover-clients.dto';
+import { DiscoverClientImportEntity } from './entities/discover-client-import.entity';
 
 @Controller('client')
 @ApiTags('client')
@@ -93,6 +102,36 @@ export class ClientController {
     );
   }
 
+  @Post('discoverClients/import')
+  @CheckAbilities({ action: Action.Create, subject: 'DiscoverClient' })
+  @ApiFile('file', true)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import discover clients',
+    description:
+      'Imports a CSV or XLSX file with the columns "email" (required), "firstName", "lastName", "company", "companyTitle", "industry", "location", "markets", "diseaseAreas" and "products". Multiple values are separated by ";". Related records are matched by name, companies only by their exact name or a synonym, unknown companies are created. Rows with an email of an existing discover client or client are skipped. By default it is a dry run that returns the preview of the rows with their errors, nothing is imported if any row is invalid.',
+  })
+  @ApiOkResponse({ type: DiscoverClientImportEntity })
+  async importDiscoverClients(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 1024 * 1024 * 5 }),
+          new FileTypeValidator({
+            fileType: /text\/csv|text\/plain|ms-excel|spreadsheetml\.sheet/,
+          }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @Query() dto: ImportDiscoverClientsDto,
+    @AuthUser() user: User,
+  ) {
+    return new DiscoverClientImportEntity(
+      await this.clientService.importDiscoverClients(file, dto, user),
+    );
+  }
+
   @Put('discoverClients/:discoverClientId/invite')
   @CheckAbilities(
     { action: Action.Manage, subject: 'Client' },
@@ -2,11 +2,15 @@ import { Module } from '@nestjs/common';
 import { ClientService } from './client.service';
 import { ClientController } from './client.controller';
 import { MailModule } from '../../integrations/mail/mail.module';
+import { OutreachController } from './outreach.controller';
+import { OutreachService } from './outreach.service';
+import { OutreachJobService } from './jobs/outreach.job';
 
 @Module({
   imports: [MailModule],
-  controllers: [ClientController],
-  providers: [ClientService],
-  exports: [ClientService],
+  // * registered first, so its routes aren't matched by "client/:id"
+  controllers: [OutreachController, ClientController],
+  providers: [ClientService, OutreachService, OutreachJobService],
+  exports: [ClientService, OutreachService],
 })
 export class ClientModule {}
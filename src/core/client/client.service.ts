@@ -1,6 +1,6 @@
-import { Injectable, Logger, Inject } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../integrations/prisma/prisma.service';
-import { Hash, UserRole, UserStatus } from '../../utils';
+import { Hash, parseCsvLines, UserRole, UserStatus } from '../../utils';
 import {
   ClientProductsDto,
   ClientRegistrationDto,
@@ -51,12 +51,12 @@ import {
   RoleTableResponseEntity,
 } from './entities/client-table-response.entity';
 import { CreateDiscoverClientDto } from './dto/create-discover-client.dto';
-import { ApplicationException } from 'src/exceptions/application.exception';
-import { generateInvitationLink } from 'src/utils/generators/invitation-link.generator';
-import { ConfigType } from '@nestjs/config';
+import {
+  ApplicationException,
+  BadRequestApplicationException,
+} from 'src/exceptions/application.exception';
 import { UpdateDiscoverClientDto } from './dto/update-discover-client.dto';
 import { UpdateClientDto } from './dto/update-client.dto';
-import securityConfig from 'src/config/security.config';
 import { Decimal } from '@prisma/client/runtime';
 import { getPaginatedResults } from 'src/utils/prisma/get-paginated-result.util';
 import { ClientEntity } from './entities/client.entity';
@@ -69,6 +69,25 @@ import { CreateProductDto } from '../common/products/dto/create-product.dto';
 import { product } from 'simple-statistics';
 import { text } from 'stream/consumers';
 import { PaginationResult } from 'src/utils/object-definitions/results/pagination-result';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { Workbook } from 'exceljs';
+import { ImportDiscoverClientsDto } from './dto/import-discover-clients.dto';
+import {
+  DiscoverClientImportMatchEntity,
+  DiscoverClientImportRowEntity,
+} from './entities/discover-client-import.entity';
+import { DiscoverClientImportRowStatus } from './enums/discover-client-import-row-status.enum';
+import { OutreachService } from './outreach.service';
+import { OutreachStopReason } from './enums/outreach-stop-reason.enum';
+import {
+  createNameMatcher,
+  DiscoverClientImportField,
+  INameMatch,
+  mapDiscoverClientImportColumns,
+  normalizeName,
+  splitListValue,
+} from './utils/discover-client-import.util';
 
 @Injectable()
 export class ClientService {
@@ -77,8 +96,7 @@ export class ClientService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly mailService: MailService,
-    @Inject(securityConfig.KEY)
-    private readonly _securityConfig: ConfigType<typeof securityConfig>,
+    private readonly outreachService: OutreachService,
   ) {}
 
   static readonly queryInclude: Prisma.UserInclude = {
@@ -174,6 +192,363 @@ export class ClientService {
     return discoverClient;
   }
 
+  /**
+   * Imports discover clients from CSV or from the first sheet of XLSX, the first row is the header.
+   * Names of the related records are matched exactly or by similarity. Companies are matched by the name or a synonym
+   * only, a company similar to an existing one is an error and unknown companies are created.
+   * Rows with an email of a discover client, a client or a previous row are skipped.
+   * Nothing is imported if any row is invalid, dry run returns the preview without importing.
+   */
+  async importDiscoverClients(
+    file: Express.Multer.File,
+    { dryRun }: ImportDiscoverClientsDto,
+    user: User,
+  ) {
+    const [header, ...rows] = await this.readImportFile(file);
+    const columns = mapDiscoverClientImportColumns(header?.values ?? []);
+
+    if (columns.email === undefined) {
+      throw new BadRequestApplicationException(
+        `File must have the column email`,
+      );
+    }
+
+    const [
+      companies,
+      companyTitles,
+      industries,
+      locations,
+      diseaseAreas,
+      products,
+    ] = await Promise.all([
+      this.prismaService.company.findMany(),
+      this.prismaService.companyTitle.findMany(),
+      this.prismaService.industry.findMany(),
+      this.prismaService.location.findMany({ include: { country: true } }),
+      this.prismaService.diseaseArea.findMany(),
+      this.prismaService.product.findMany(),
+    ]);
+    const matchCompany = createNameMatcher(companies, (company) => [
+      company.name,
+      ...company.synonyms,
+    ]);
+    const matchCompanyTitle = createNameMatcher(companyTitles, (title) => [
+      title.name,
+    ]);
+    const matchIndustry = createNameMatcher(industries, (industry) => [
+      industry.name,
+    ]);
+    // * cities with the same name are told apart by the country, eg. "Paris, France"
+    const matchLocation = createNameMatcher(locations, (location) => [
+      location.name,
+      location.country && `${location.name} ${location.country.name}`,
+    ]);
+    const matchDiseaseArea = createNameMatcher(diseaseAreas, (diseaseArea) => [
+      diseaseArea.name,
+      ...diseaseArea.synonyms,
+    ]);
+    const matchProduct = createNameMatcher(products, (product) => [
+      product.name,
+      product.genericName,
+      ...product.synonyms,
+    ]);
+
+    const getValue = (values: string[], field: DiscoverClientImportField) =>
+      columns[field] === undefined ? '' : values[columns[field]]?.trim() ?? '';
+    const emails = rows
+      .map(({ values }) => getValue(values, 'email'))
+      .filter(Boolean);
+    const [existingDiscoverClients, existingClients] = await Promise.all([
+      this.prismaService.discoverClient.findMany({
+        where: {
+          email: { in: emails, mode: 'insensitive' },
+          isDeleted: false,
+        },
+        select: { id: true, email: true },
+      }),
+      this.prismaService.client.findMany({
+        where: { user: { email: { in: emails, mode: 'insensitive' } } },
+        select: { id: true, user: { select: { email: true } } },
+      }),
+    ]);
+    const discoverClientIds = new Map(
+      existingDiscoverClients.map(({ id, email }) => [email.toLowerCase(), id]),
+    );
+    const clientIds = new Map(
+      existingClients.map(({ id, user }) => [user.email.toLowerCase(), id]),
+    );
+    const emailLines = new Map<string, number>();
+    // * rows with the same new company create it once, under the first spelling
+    const newCompanyNames = new Map<string, string>();
+
+    const importRows = rows.map(({ line, values }) => {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const match = <T extends { id: number; name: string }>(
+        label: string,
+        value: string,
+        matcher: (name: string) => INameMatch<T>,
+      ): DiscoverClientImportMatchEntity | undefined => {
+        if (!value) return undefined;
+
+        const { record, similarity, isAmbiguous } = matcher(value);
+
+        if (isAmbiguous) {
+          errors.push(`${label} "${value}" matches multiple records`);
+        } else if (!record) {
+          errors.push(`${label} "${value}" is not found`);
+        } else {
+          if (similarity < 1) {
+            warnings.push(`${label} "${value}" is matched to "${record.name}"`);
+          }
+
+          return { id: record.id, name: record.name, value };
+        }
+      };
+      const matchList = <T extends { id: number; name: string }>(
+        label: string,
+        value: string,
+        matcher: (name: string) => INameMatch<T>,
+      ) =>
+        splitListValue(value)
+          .map((item) => match(label, item, matcher))
+          .filter(
+            (item, index, items) =>
+              item && items.findIndex((i) => i?.id === item.id) === index,
+          );
+
+      const companyValue = getValue(values, 'company');
+      let company: DiscoverClientImportMatchEntity;
+
+      if (companyValue) {
+        const { record, similarity, isAmbiguous } = matchCompany(companyValue);
+
+        if (isAmbiguous) {
+          errors.push(`company "${companyValue}" matches multiple records`);
+        } else if (record && similarity < 1) {
+          // * a misspelled company would be linked to another company or created as a duplicate
+          errors.push(
+            `company "${companyValue}" is similar to "${record.name}", use its exact name or synonym`,
+          );
+        } else if (record) {
+          company = { id: record.id, name: record.name, value: companyValue };
+        } else {
+          const companyKey = normalizeName(companyValue);
+
+          if (!newCompanyNames.has(companyKey)) {
+            newCompanyNames.set(companyKey, companyValue);
+          }
+
+          company = {
+            id: null,
+            name: newCompanyNames.get(companyKey),
+            value: companyValue,
+          };
+          warnings.push(`company "${company.name}" is new`);
+        }
+      }
+
+      const row: DiscoverClientImportRowEntity = {
+        line,
+        status: DiscoverClientImportRowStatus.Valid,
+        firstName: getValue(values, 'firstName') || undefined,
+        lastName: getValue(values, 'lastName') || undefined,
+        email: getValue(values, 'email') || undefined,
+        company,
+        companyTitle: match(
+          'company title',
+          getValue(values, 'companyTitle'),
+          matchCompanyTitle,
+        ),
+        industry: match(
+          'industry',
+          getValue(values, 'industry'),
+          matchIndustry,
+        ),
+        location: match(
+          'location',
+          getValue(values, 'location'),
+          matchLocation,
+        ),
+        markets: matchList(
+          'market',
+          getValue(values, 'markets'),
+          matchLocation,
+        ),
+        diseaseAreas: matchList(
+          'disease area',
+          getValue(values, 'diseaseAreas'),
+          matchDiseaseArea,
+        ),
+        products: matchList(
+          'product',
+          getValue(values, 'products'),
+          matchProduct,
+        ),
+        errors,
+        warnings,
+      };
+      const dto = plainToInstance(CreateDiscoverClientDto, {
+        firstName: row.firstName,
+        lastName: row.lastName,
+        email: row.email,
+        company: row.company && {
+          name: row.company.name,
+          companyId: row.company.id ?? undefined,
+        },
+        companyTitleId: row.companyTitle?.id,
+        industryId: row.industry?.id,
+        locationId: row.location?.id,
+        marketIds: row.markets.map(({ id }) => id),
+        diseaseAreaIds: row.diseaseAreas.map(({ id }) => id),
+        clientProducts: row.products.map(({ id }) => ({ productId: id })),
+      });
+
+      errors.push(
+        ...validateSync(dto).flatMap((error) =>
+          Object.values(error.constraints ?? {}),
+        ),
+      );
+
+      const email = row.email?.toLowerCase();
+
+      if (discoverClientIds.has(email)) {
+        row.duplicateOf = { discoverClientId: discoverClientIds.get(email) };
+      } else if (clientIds.has(email)) {
+        row.duplicateOf = { clientId: clientIds.get(email) };
+      } else if (emailLines.has(email)) {
+        row.duplicateOf = { line: emailLines.get(email) };
+      } else if (email) {
+        emailLines.set(email, line);
+      }
+
+      if (row.duplicateOf) {
+        row.status = DiscoverClientImportRowStatus.Duplicate;
+      } else if (errors.length) {
+        row.status = DiscoverClientImportRowStatus.Invalid;
+      }
+
+      return { row, dto };
+    });
+
+    const countRows = (status: DiscoverClientImportRowStatus) =>
+      importRows.filter(({ row }) => row.status === status).length;
+    const invalidRows = importRows.filter(
+      ({ row }) => row.status === DiscoverClientImportRowStatus.Invalid,
+    );
+
+    if (!dryRun) {
+      if (invalidRows.length) {
+        throw new BadRequestApplicationException(
+          `Discover clients are not valid - ${invalidRows
+            .map(({ row }) => `line ${row.line}: ${row.errors.join(', ')}`)
+            .join('; ')}`,
+        );
+      }
+
+      const validRows = importRows.filter(
+        ({ row }) => row.status === DiscoverClientImportRowStatus.Valid,
+      );
+      const discoverClients = await this.prismaService.$transaction(
+        validRows.map(({ dto }) =>
+          this.prismaService.discoverClient.create({
+            data: {
+              firstName: dto.firstName,
+              lastName: dto.lastName,
+              email: dto.email,
+              company: dto.company.companyId
+                ? { connect: { id: dto.company.companyId } }
+                : {
+                    connectOrCreate: {
+                      where: { name: dto.company.name },
+                      create: {
+                        name: dto.company.name,
+                        createdByUserId:
+                          user.role === UserRole.SuperAdmin ? user.id : null,
+                      },
+                    },
+                  },
+              companyTitle: dto.companyTitleId
+                ? { connect: { id: dto.companyTitleId } }
+                : undefined,
+              industry: dto.industryId
+                ? { connect: { id: dto.industryId } }
+                : undefined,
+              location: dto.locationId
+                ? { connect: { id: dto.locationId } }
+                : undefined,
+              discoverClientMarkets: {
+                createMany: {
+                  data: dto.marketIds.map((locationId) => ({ locationId })),
+                },
+              },
+              discoverClientDiseaseAreas: {
+                createMany: {
+                  data: dto.diseaseAreaIds.map((diseaseAreaId) => ({
+                    diseaseAreaId,
+                  })),
+                },
+              },
+              discoverClientProducts: {
+                createMany: {
+                  data: dto.clientProducts.map(({ productId }) => ({
+                    productId,
+                  })),
+                },
+              },
+              status: UserStatus.Identified,
+            },
+          }),
+        ),
+      );
+
+      validRows.forEach(({ row }, index) => {
+        row.discoverClientId = discoverClients[index].id;
+      });
+
+      this.logger.verbose(
+        `Discover clients imported: ${discoverClients.length}`,
+      );
+    }
+
+    return {
+      dryRun,
+      total: importRows.length,
+      valid: countRows(DiscoverClientImportRowStatus.Valid),
+      duplicates: countRows(DiscoverClientImportRowStatus.Duplicate),
+      invalid: invalidRows.length,
+      rows: importRows.map(({ row }) => row),
+    };
+  }
+
+  private async readImportFile(file: Express.Multer.File) {
+    if (!file.mimetype.includes('spreadsheetml')) {
+      return parseCsvLines(file.buffer.toString('utf-8'));
+    }
+
+    const workbook = new Workbook();
+    const rows: { line: number; values: string[] }[] = [];
+
+    try {
+      await workbook.xlsx.load(file.buffer);
+    } catch (error) {
+      throw new BadRequestApplicationException(`File is not a valid XLSX`);
+    }
+
+    workbook.worksheets[0]?.eachRow((row, line) => {
+      rows.push({
+        line,
+        // * text of the formatted value, eg. the email of a hyperlink
+        values: Array.from(
+          { length: row.cellCount },
+          (_, index) => row.getCell(index + 1).text,
+        ),
+      });
+    });
+
+    return rows;
+  }
+
   async register(
     dto: ClientRegistrationDto,
     affiliateCode?: string,
@@ -316,6 +691,11 @@ export class ClientService {
         });
       });
 
+      await this.outreachService.stopOutreachOnRegistration(
+        email,
+        affiliateCode,
+      );
+
       await this.mailService.sendConfirmationEmail(
         user.id,
         user.email,
@@ -467,6 +847,12 @@ export class ClientService {
         });
       });
 
+      // * the invitation link of the discover client carries its invitation token as the affiliate code
+      await this.outreachService.stopOutreachOnRegistration(
+        email,
+        affiliateCode,
+      );
+
       await this.mailService.sendConfirmationEmail(
         user.id,
         user.email,
@@ -1529,26 +1915,8 @@ export class ClientService {
   // * discover client
   // send tracking code (invitation token)
   async inviteClient(discoverClientId: number, { content }: SendEmailDto) {
-    const discoverClient =
-      await this.prismaService.discoverClient.findUniqueOrThrow({
-        where: { id: discoverClientId },
-      });
-
-    const baseUrl = `${this._securityConfig.protocol}://${[
-      this._securityConfig.appSubdomain,
-      this._securityConfig.baseDomain,
-    ]
-      .filter((s) => !!s)
-      .join('.')}`;
-
-    const invitationLink = generateInvitationLink(baseUrl, discoverClient);
-
-    await this.mailService.sendClientInvitation(
-      discoverClient.email,
-      discoverClient.firstName,
-      invitationLink,
-      content,
-    );
+    // * tracked like the steps of the outreach sequences
+    await this.outreachService.sendInvitation(discoverClientId, content);
   }
 
   async updateDiscoverClient(
@@ -1567,9 +1935,10 @@ export class ClientService {
       locationId,
       marketIds,
       diseaseAreaIds,
+      status,
     } = dto;
 
-    return this.prismaService.$transaction(async (tx) => {
+    const discoverClient = await this.prismaService.$transaction(async (tx) => {
       clientProducts &&
         (await this.setDiscoverClientProducts(
           user,
@@ -1582,6 +1951,7 @@ export class ClientService {
           firstName,
           lastName,
           email,
+          status,
           company: company && {
             connectOrCreate: {
               create: {
@@ -1641,6 +2011,15 @@ export class ClientService {
         },
       });
     });
+
+    if (status === UserStatus.DoNotContact) {
+      await this.outreachService.stopOutreach(
+        discoverClientId,
+        OutreachStopReason.DoNotContact,
+      );
+    }
+
+    return discoverClient;
   }
 
   async updateClient(userId: number, dto: UpdateClientDto, user: User) {
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class CreateOutreachStepDto {
+  @ApiProperty({
+    description:
+      'Days after the previous step, or after the start of the sequence for the first step',
+  })
+  @IsInt()
+  @Min(0)
+  delayDays: number;
+
+  @ApiProperty({
+    description:
+      'Email content, placeholders {{firstName}}, {{lastName}}, {{company}} and {{companyTitle}} are replaced',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+}
+
+export class CreateOutreachSequenceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    default: true,
+    description: 'Inactive sequences can not be started',
+  })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @ApiProperty({
+    type: CreateOutreachStepDto,
+    isArray: true,
+    description: 'Steps in the order they are sent',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CreateOutreachStepDto)
+  steps: CreateOutreachStepDto[];
+}
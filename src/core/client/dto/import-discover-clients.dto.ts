@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ImportDiscoverClientsDto {
+  @ApiPropertyOptional({
+    default: true,
+    description:
+      'Only validate the file and return the preview of the rows, nothing is imported.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ obj }) => obj.dryRun !== 'false' && obj.dryRun !== false)
+  dryRun?: boolean = true;
+}
@@ -0,0 +1,7 @@
+import { IsInt, IsPositive } from 'class-validator';
+
+export class StartOutreachDto {
+  @IsInt()
+  @IsPositive()
+  sequenceId: number;
+}
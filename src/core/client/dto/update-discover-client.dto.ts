@@ -1,6 +1,21 @@
-import { PartialType } from '@nestjs/swagger';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { UserStatus } from 'src/utils';
 import { CreateDiscoverClientDto } from './create-discover-client.dto';
 
 export class UpdateDiscoverClientDto extends PartialType(
   CreateDiscoverClientDto,
-) {}
+) {
+  @ApiPropertyOptional({
+    enum: UserStatus,
+    description: 'Outreach of the discover client stops on "DoNotContact"',
+  })
+  @IsOptional()
+  @IsIn([
+    UserStatus.Identified,
+    UserStatus.Contacted,
+    UserStatus.Scheduled,
+    UserStatus.DoNotContact,
+  ])
+  status?: UserStatus;
+}
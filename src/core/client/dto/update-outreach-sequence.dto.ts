@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateOutreachSequenceDto } from './create-outreach-sequence.dto';
+
+export class UpdateOutreachSequenceDto extends PartialType(
+  CreateOutreachSequenceDto,
+) {}
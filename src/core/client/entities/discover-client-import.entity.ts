@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { DiscoverClientImportRowStatus } from '../enums/discover-client-import-row-status.enum';
+
+export class DiscoverClientImportMatchEntity {
+  @ApiProperty({
+    nullable: true,
+    description: 'Missing if the record is created by the import',
+  })
+  id: number | null;
+
+  @ApiProperty({ description: 'Name of the matched record' })
+  name: string;
+
+  @ApiProperty({ description: 'Value in the file' })
+  value: string;
+}
+
+export class DiscoverClientImportRowEntity {
+  @ApiProperty({ description: 'Line of the row in the file, header is 1' })
+  line: number;
+
+  @ApiProperty({ enum: DiscoverClientImportRowStatus })
+  status: DiscoverClientImportRowStatus;
+
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+
+  @Type(() => DiscoverClientImportMatchEntity)
+  company?: DiscoverClientImportMatchEntity;
+
+  @Type(() => DiscoverClientImportMatchEntity)
+  companyTitle?: DiscoverClientImportMatchEntity;
+
+  @Type(() => DiscoverClientImportMatchEntity)
+  industry?: DiscoverClientImportMatchEntity;
+
+  @Type(() => DiscoverClientImportMatchEntity)
+  location?: DiscoverClientImportMatchEntity;
+
+  @ApiProperty({ type: DiscoverClientImportMatchEntity, isArray: true })
+  @Type(() => DiscoverClientImportMatchEntity)
+  markets: DiscoverClientImportMatchEntity[];
+
+  @ApiProperty({ type: DiscoverClientImportMatchEntity, isArray: true })
+  @Type(() => DiscoverClientImportMatchEntity)
+  diseaseAreas: DiscoverClientImportMatchEntity[];
+
+  @ApiProperty({ type: DiscoverClientImportMatchEntity, isArray: true })
+  @Type(() => DiscoverClientImportMatchEntity)
+  products: DiscoverClientImportMatchEntity[];
+
+  @ApiPropertyOptional({
+    description:
+      'Discover client, or the line of the previous row, with the same email',
+  })
+  duplicateOf?: { discoverClientId?: number; clientId?: number; line?: number };
+
+  @ApiProperty({ description: 'Reasons why the row can not be imported' })
+  errors: string[];
+
+  @ApiProperty({
+    description: 'Values that are not matched exactly, eg. new companies',
+  })
+  warnings: string[];
+
+  @ApiPropertyOptional({ description: 'Created discover client' })
+  discoverClientId?: number;
+}
+
+export class DiscoverClientImportEntity {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  duplicates: number;
+  invalid: number;
+
+  @ApiProperty({ type: DiscoverClientImportRowEntity, isArray: true })
+  @Type(() => DiscoverClientImportRowEntity)
+  rows: DiscoverClientImportRowEntity[];
+
+  constructor(data: Partial<DiscoverClientImportEntity>) {
+    Object.assign(this, data);
+  }
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OutreachEnrollment } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { OutreachEnrollmentStatus } from '../enums/outreach-enrollment-status.enum';
+import { OutreachStopReason } from '../enums/outreach-stop-reason.enum';
+import { OutreachSequenceEntity } from './outreach-sequence.entity';
+
+export class OutreachEnrollmentEntity implements OutreachEnrollment {
+  id: number;
+  sequenceId: number;
+  discoverClientId: number;
+
+  @ApiProperty({ enum: OutreachEnrollmentStatus })
+  status: number;
+
+  @ApiProperty({ enum: OutreachStopReason, nullable: true })
+  stopReason: number;
+
+  nextStepOrder: number;
+  nextStepAt: Date;
+  failedAttempts: number;
+  stoppedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  @Type(() => OutreachSequenceEntity)
+  sequence?: OutreachSequenceEntity;
+
+  constructor({ sequence, ...data }: Partial<OutreachEnrollmentEntity>) {
+    Object.assign(this, data);
+
+    if (sequence) this.sequence = new OutreachSequenceEntity(sequence);
+  }
+}
@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OutreachEvent, OutreachMessage } from '@prisma/client';
+import { Exclude, Type } from 'class-transformer';
+import { OutreachEventType } from '../enums/outreach-event-type.enum';
+import { OutreachStopReason } from '../enums/outreach-stop-reason.enum';
+import { OutreachStepEntity } from './outreach-step.entity';
+
+export class OutreachMessageEntity implements OutreachMessage {
+  id: number;
+  discoverClientId: number;
+  enrollmentId: number;
+  stepId: number;
+
+  // * anyone with the token can track the message
+  @Exclude()
+  trackingToken: string;
+
+  openedAt: Date;
+  openCount: number;
+  clickedAt: Date;
+  clickCount: number;
+  createdAt: Date;
+
+  @Type(() => OutreachStepEntity)
+  step?: OutreachStepEntity;
+
+  constructor({ step, ...data }: Partial<OutreachMessageEntity>) {
+    Object.assign(this, data);
+
+    if (step) this.step = new OutreachStepEntity(step);
+  }
+}
+
+export class OutreachEventEntity implements OutreachEvent {
+  id: number;
+  discoverClientId: number;
+  enrollmentId: number;
+  messageId: number;
+
+  @ApiProperty({ enum: OutreachEventType })
+  type: number;
+
+  @ApiProperty({ enum: OutreachStopReason, nullable: true })
+  stopReason: number;
+
+  createdAt: Date;
+
+  @Type(() => OutreachMessageEntity)
+  message?: OutreachMessageEntity;
+
+  constructor({ message, ...data }: Partial<OutreachEventEntity>) {
+    Object.assign(this, data);
+
+    if (message) this.message = new OutreachMessageEntity(message);
+  }
+}
@@ -0,0 +1,25 @@
+import { OutreachSequence } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { OutreachStepEntity } from './outreach-step.entity';
+
+export class OutreachSequenceEntity implements OutreachSequence {
+  id: number;
+  name: string;
+  isActive: boolean;
+  createdByUserId: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  @Type(() => OutreachStepEntity)
+  outreachSteps?: OutreachStepEntity[];
+
+  constructor({ outreachSteps, ...data }: Partial<OutreachSequenceEntity>) {
+    Object.assign(this, data);
+
+    if (outreachSteps) {
+      this.outreachSteps = outreachSteps.map(
+        (step) => new OutreachStepEntity(step),
+      );
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { OutreachStep } from '@prisma/client';
+
+export class OutreachStepEntity implements OutreachStep {
+  id: number;
+  sequenceId: number;
+  order: number;
+  delayDays: number;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<OutreachStepEntity>) {
+    Object.assign(this, data);
+  }
+}
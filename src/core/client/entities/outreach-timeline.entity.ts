@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { OutreachEnrollmentEntity } from './outreach-enrollment.entity';
+import { OutreachEventEntity } from './outreach-event.entity';
+
+export class OutreachTimelineEntity {
+  @ApiProperty({ type: OutreachEnrollmentEntity, isArray: true })
+  @Type(() => OutreachEnrollmentEntity)
+  enrollments: OutreachEnrollmentEntity[];
+
+  @ApiProperty({
+    type: OutreachEventEntity,
+    isArray: true,
+    description: 'Events from the oldest, sent invitations included',
+  })
+  @Type(() => OutreachEventEntity)
+  events: OutreachEventEntity[];
+
+  constructor({ enrollments, events }: Partial<OutreachTimelineEntity>) {
+    this.enrollments = enrollments.map(
+      (enrollment) => new OutreachEnrollmentEntity(enrollment),
+    );
+    this.events = events.map((event) => new OutreachEventEntity(event));
+  }
+}
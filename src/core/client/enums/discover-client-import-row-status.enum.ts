@@ -0,0 +1,7 @@
+export enum DiscoverClientImportRowStatus {
+  // * would be imported, or was imported if it isn't a dry run
+  Valid = 'valid',
+  // * email already belongs to a discover client, a client, or to a previous row of the file
+  Duplicate = 'duplicate',
+  Invalid = 'invalid',
+}
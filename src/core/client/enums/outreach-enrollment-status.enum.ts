@@ -0,0 +1,6 @@
+export enum OutreachEnrollmentStatus {
+  Active = 0,
+  // * all steps are sent
+  Completed = 1,
+  Stopped = 2,
+}
@@ -0,0 +1,9 @@
+export enum OutreachEventType {
+  Started = 0,
+  Sent = 1,
+  // * only the first open and click of a message are in the timeline
+  Opened = 2,
+  Clicked = 3,
+  Completed = 4,
+  Stopped = 5,
+}
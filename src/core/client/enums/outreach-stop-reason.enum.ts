@@ -0,0 +1,9 @@
+export enum OutreachStopReason {
+  // * discover client registered, eg. through the invitation
+  Registered = 0,
+  DoNotContact = 1,
+  Manual = 2,
+  Deleted = 3,
+  // * sending of the step failed too many times
+  SendingFailed = 4,
+}
@@ -0,0 +1,23 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JobService } from 'src/utils/classes/job-service';
+import { OutreachService } from '../outreach.service';
+
+@Injectable()
+export class OutreachJobService extends JobService {
+  constructor(private readonly outreachService: OutreachService) {
+    super(new Logger(OutreachJobService.name));
+  }
+
+  private sendDueSteps = async () => {
+    const sent = await this.outreachService.sendDueSteps();
+
+    this.logger.log(`Outreach emails sent: ${sent}`);
+  };
+
+  // * every hour
+  @Cron(CronExpression.EVERY_HOUR, { name: 'send-outreach-steps' })
+  async sendDueStepsJob() {
+    await this.jobWrapper('send-outreach-steps', this.sendDueSteps);
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Res,
+} from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { User } from '@prisma/client';
+import { Response } from 'express';
+import { NoAutoSerialize } from 'src/decorators/no-auto-serialize.decorator';
+import { CheckAbilities } from '../auth/ability/decorators/ability.decorator';
+import { Action } from '../auth/ability';
+import { AuthUser, Public } from '../auth/decorators';
+import { CreateOutreachSequenceDto } from './dto/create-outreach-sequence.dto';
+import { StartOutreachDto } from './dto/start-outreach.dto';
+import { UpdateOutreachSequenceDto } from './dto/update-outreach-sequence.dto';
+import { OutreachEnrollmentEntity } from './entities/outreach-enrollment.entity';
+import { OutreachSequenceEntity } from './entities/outreach-sequence.entity';
+import { OutreachTimelineEntity } from './entities/outreach-timeline.entity';
+import { OutreachService } from './outreach.service';
+
+// * transparent 1x1 GIF
+const trackingPixel = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64',
+);
+
+@Controller('client')
+@ApiTags('client')
+export class OutreachController {
+  constructor(private readonly outreachService: OutreachService) {}
+
+  @Post('outreachSequences')
+  @CheckAbilities({ action: Action.Manage, subject: 'DiscoverClient' })
+  @ApiOperation({
+    summary: 'Create an outreach sequence',
+    description:
+      'Creates the follow-up emails that are sent to the discover clients after the given days, until they register.',
+  })
+  async createSequence(
+    @Body() dto: CreateOutreachSequenceDto,
+    @AuthUser() user: User,
+  ) {
+    return new OutreachSequenceEntity(
+      await this.outreachService.createSequence(dto, user),
+    );
+  }
+
+  @Get('outreachSequences')
+  @CheckAbilities({ action: Action.Read, subject: 'DiscoverClient' })
+  async findAllSequences() {
+    const sequences = await this.outreachService.findAllSequences();
+
+    return sequences.map((sequence) => new OutreachSequenceEntity(sequence));
+  }
+
+  @Get('outreachSequences/:id')
+  @CheckAbilities({ action: Action.Read, subject: 'DiscoverClient' })
+  async findOneSequence(@Param('id', ParseIntPipe) id: number) {
+    return new OutreachSequenceEntity(
+      await this.outreachService.findOneSequence(id),
+    );
+  }
+
+  @Patch('outreachSequences/:id')
+  @CheckAbilities({ action: Action.Manage, subject: 'DiscoverClient' })
+  @ApiOperation({
+    summary: 'Update an outreach sequence',
+    description:
+      'Given steps replace the current ones, started enrollments continue with the step of the same order. Deactivated sequence can not be started, started enrollments continue.',
+  })
+  async updateSequence(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateOutreachSequenceDto,
+  ) {
+    return new OutreachSequenceEntity(
+      await this.outreachService.updateSequence(id, dto),
+    );
+  }
+
+  @Post('discoverClients/:discoverClientId/outreach')
+  @CheckAbilities({ action: Action.Manage, subject: 'DiscoverClient' })
+  @ApiOperation({
+    summary: 'Start an outreach sequence',
+    description:
+      'Enrolls the discover client in the sequence, the first step without a delay is sent right away. Sequence stops when the discover client registers or is marked as "do not contact".',
+  })
+  async startOutreach(
+    @Param('discoverClientId', ParseIntPipe) discoverClientId: number,
+    @Body() dto: StartOutreachDto,
+  ) {
+    return new OutreachEnrollmentEntity(
+      await this.outreachService.startOutreach(discoverClientId, dto),
+    );
+  }
+
+  @Put('discoverClients/:discoverClientId/outreach/stop')
+  @CheckAbilities({ action: Action.Manage, subject: 'DiscoverClient' })
+  @ApiOperation({
+    summary: 'Stop the outreach',
+    description: 'Stops the active outreach sequence of the discover client.',
+  })
+  async stopOutreach(
+    @Param('discoverClientId', ParseIntPipe) discoverClientId: number,
+  ) {
+    return { count: await this.outreachService.stopOutreach(discoverClientId) };
+  }
+
+  @Get('discoverClients/:discoverClientId/outreach')
+  @CheckAbilities({ action: Action.Read, subject: 'DiscoverClient' })
+  @ApiOperation({
+    summary: 'Get the outreach timeline',
+    description:
+      'Retrieves the sequences of the discover client and the timeline of the sent emails, their opens and clicks.',
+  })
+  @ApiOkResponse({ type: OutreachTimelineEntity })
+  async findTimeline(
+    @Param('discoverClientId', ParseIntPipe) discoverClientId: number,
+  ) {
+    return new OutreachTimelineEntity(
+      await this.outreachService.findTimeline(discoverClientId),
+    );
+  }
+
+  @Get('outreach/o/:trackingToken')
+  @Public()
+  @SkipThrottle(true)
+  @NoAutoSerialize()
+  @ApiOperation({
+    summary: 'Track an outreach email open',
+    description: 'Returns a tracking pixel of the email.',
+  })
+  async trackOpen(
+    @Param('trackingToken') trackingToken: string,
+    @Res() res: Response,
+  ) {
+    await this.outreachService.trackOpen(trackingToken);
+
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store');
+
+    return res.send(trackingPixel);
+  }
+
+  @Get('outreach/c/:trackingToken')
+  @Public()
+  @SkipThrottle(true)
+  @NoAutoSerialize()
+  @ApiOperation({
+    summary: 'Track an outreach email click',
+    description: 'Redirects to the invitation link of the email.',
+  })
+  async trackClick(
+    @Param('trackingToken') trackingToken: string,
+    @Res() res: Response,
+  ) {
+    return res.redirect(await this.outreachService.trackClick(trackingToken));
+  }
+}
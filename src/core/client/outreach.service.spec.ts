@@ -0,0 +1,316 @@
+import { ConfigType } from '@nestjs/config';
+import outreachConfig from 'src/config/outreach.config';
+import securityConfig from 'src/config/security.config';
+import { MailService } from 'src/integrations/mail/mail.service';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { UserStatus } from 'src/utils';
+import { OutreachEnrollmentStatus } from './enums/outreach-enrollment-status.enum';
+import { OutreachEventType } from './enums/outreach-event-type.enum';
+import { OutreachStopReason } from './enums/outreach-stop-reason.enum';
+import { OutreachService } from './outreach.service';
+
+const now = new Date('2023-09-27T10:00:00.000Z');
+
+const getEnrollment = (
+  discoverClient: Record<string, unknown> = {},
+  failedAttempts = 0,
+) => ({
+  id: 1,
+  sequenceId: 1,
+  discoverClientId: 2,
+  status: OutreachEnrollmentStatus.Active,
+  stopReason: null,
+  nextStepOrder: 1,
+  nextStepAt: new Date('2023-09-27T09:00:00.000Z'),
+  failedAttempts,
+  stoppedAt: null,
+  discoverClient: {
+    id: 2,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    status: UserStatus.Contacted,
+    invitationToken: 'invitation-token',
+    isDeleted: false,
+    company: { name: 'Pharma' },
+    companyTitle: { name: 'CEO' },
+    ...discoverClient,
+  },
+  sequence: {
+    isActive: true,
+    outreachSteps: [
+      { id: 10, order: 1, delayDays: 0, content: 'Hi {{firstName}}' },
+      { id: 11, order: 2, delayDays: 3, content: 'Reminder' },
+    ],
+  },
+});
+
+describe('OutreachService', () => {
+  const prismaService = {
+    $transaction: jest.fn((operations: Promise<unknown>[]) =>
+      Promise.all(operations),
+    ),
+    user: { findFirst: jest.fn() },
+    discoverClient: { update: jest.fn(), updateMany: jest.fn() },
+    outreachEnrollment: {
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    outreachMessage: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    outreachEvent: { create: jest.fn(), createMany: jest.fn() },
+  };
+  const mailService = { sendClientInvitation: jest.fn() };
+  const service = new OutreachService(
+    prismaService as unknown as PrismaService,
+    mailService as unknown as MailService,
+    {
+      protocol: 'https',
+      appSubdomain: 'app',
+      baseDomain: 'example.com',
+    } as ConfigType<typeof securityConfig>,
+    {
+      trackingBaseUrl: 'https://api.example.com',
+      maxMessagesPerRun: 100,
+      maxSendAttempts: 3,
+    } as ConfigType<typeof outreachConfig>,
+  );
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now, doNotFake: ['performance'] });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaService.user.findFirst.mockResolvedValue(null);
+    prismaService.outreachEnrollment.updateMany.mockResolvedValue({
+      count: 1,
+    });
+    prismaService.outreachEnrollment.findMany.mockResolvedValue([
+      { id: 1, discoverClientId: 2 },
+    ]);
+    prismaService.outreachMessage.create.mockResolvedValue({
+      id: 20,
+      trackingToken: 'tracking-token',
+    });
+    mailService.sendClientInvitation.mockResolvedValue(undefined);
+  });
+
+  const expectStopped = (stopReason: OutreachStopReason) =>
+    expect(prismaService.outreachEnrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [1] } },
+      data: expect.objectContaining({
+        status: OutreachEnrollmentStatus.Stopped,
+        stopReason,
+      }),
+    });
+
+  describe('sendNextStep', () => {
+    it('should claim the step before sending it', async () => {
+      prismaService.outreachEnrollment.findUniqueOrThrow.mockResolvedValue(
+        getEnrollment(),
+      );
+
+      expect(await service.sendNextStep(1)).toBe(true);
+
+      expect(prismaService.outreachEnrollment.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 1,
+          status: OutreachEnrollmentStatus.Active,
+          nextStepOrder: 1,
+        },
+        data: {
+          nextStepOrder: 2,
+          nextStepAt: new Date('2023-09-30T10:00:00.000Z'),
+          failedAttempts: 0,
+        },
+      });
+      expect(
+        prismaService.outreachEnrollment.updateMany.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mailService.sendClientInvitation.mock.invocationCallOrder[0],
+      );
+      expect(mailService.sendClientInvitation).toHaveBeenCalledWith(
+        'jane@example.com',
+        'Jane',
+        'https://api.example.com/client/outreach/c/tracking-token',
+        'Hi Jane',
+        'https://api.example.com/client/outreach/o/tracking-token',
+      );
+    });
+
+    it("shouldn't send the step claimed by another run", async () => {
+      prismaService.outreachEnrollment.findUniqueOrThrow.mockResolvedValue(
+        getEnrollment(),
+      );
+      prismaService.outreachEnrollment.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      expect(await service.sendNextStep(1)).toBe(false);
+      expect(mailService.sendClientInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should retry the failed step later', async () => {
+      prismaService.outreachEnrollment.findUniqueOrThrow.mockResolvedValue(
+        getEnrollment({}, 1),
+      );
+      mailService.sendClientInvitation.mockRejectedValue(new Error('SMTP'));
+
+      await expect(service.sendNextStep(1)).rejects.toThrow('SMTP');
+
+      expect(prismaService.outreachEnrollment.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          status: OutreachEnrollmentStatus.Active,
+          nextStepOrder: 1,
+          nextStepAt: new Date('2023-09-27T12:00:00.000Z'),
+          failedAttempts: 2,
+        },
+      });
+      expect(prismaService.outreachEnrollment.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should stop the enrollment after the last failed attempt', async () => {
+      prismaService.outreachEnrollment.findUniqueOrThrow.mockResolvedValue(
+        getEnrollment({}, 2),
+      );
+      mailService.sendClientInvitation.mockRejectedValue(new Error('SMTP'));
+
+      await expect(service.sendNextStep(1)).rejects.toThrow('SMTP');
+
+      expectStopped(OutreachStopReason.SendingFailed);
+    });
+
+    it('should stop the enrollment of the discover client that must not be contacted', async () => {
+      prismaService.outreachEnrollment.findUniqueOrThrow.mockResolvedValue(
+        getEnrollment({ status: UserStatus.DoNotContact }),
+      );
+
+      expect(await service.sendNextStep(1)).toBe(false);
+
+      expectStopped(OutreachStopReason.DoNotContact);
+      expect(mailService.sendClientInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should stop the enrollment of the discover client that registered', async () => {
+      prismaService.outreachEnrollment.findUniqueOrThrow.mockResolvedValue(
+        getEnrollment({ status: UserStatus.Unconfirmed }),
+      );
+
+      expect(await service.sendNextStep(1)).toBe(false);
+
+      expectStopped(OutreachStopReason.Registered);
+      expect(mailService.sendClientInvitation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stopOutreachOnRegistration', () => {
+    it('should stop and mark the discover clients with the email or the invitation token', async () => {
+      const discoverClientWhere = {
+        OR: [
+          { email: { equals: 'john@example.com', mode: 'insensitive' } },
+          { invitationToken: 'invitation-token' },
+        ],
+      };
+
+      expect(
+        await service.stopOutreachOnRegistration(
+          'john@example.com',
+          'invitation-token',
+        ),
+      ).toBe(1);
+
+      expect(prismaService.discoverClient.updateMany).toHaveBeenCalledWith({
+        where: {
+          ...discoverClientWhere,
+          status: {
+            in: [
+              UserStatus.Identified,
+              UserStatus.Contacted,
+              UserStatus.Scheduled,
+            ],
+          },
+        },
+        data: { status: UserStatus.Unconfirmed },
+      });
+      expect(prismaService.outreachEnrollment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            discoverClient: discoverClientWhere,
+            status: OutreachEnrollmentStatus.Active,
+          },
+        }),
+      );
+      expectStopped(OutreachStopReason.Registered);
+    });
+  });
+
+  describe('tracking', () => {
+    const message = {
+      id: 20,
+      discoverClientId: 2,
+      enrollmentId: 1,
+      openedAt: null,
+      clickedAt: null,
+      discoverClient: { invitationToken: 'invitation-token' },
+    };
+
+    it('should add only the first open to the timeline', async () => {
+      prismaService.outreachMessage.findUnique.mockResolvedValue(message);
+      await service.trackOpen('tracking-token');
+
+      prismaService.outreachMessage.findUnique.mockResolvedValue({
+        ...message,
+        openedAt: now,
+      });
+      await service.trackOpen('tracking-token');
+
+      expect(prismaService.outreachMessage.update).toHaveBeenCalledWith({
+        where: { id: 20 },
+        data: expect.objectContaining({ openCount: { increment: 1 } }),
+      });
+      expect(
+        prismaService.outreachEvent.createMany.mock.calls.map(
+          ([{ data }]) => data,
+        ),
+      ).toEqual([
+        [expect.objectContaining({ type: OutreachEventType.Opened })],
+        [],
+      ]);
+    });
+
+    it('should count the click as an open and redirect to the invitation', async () => {
+      prismaService.outreachMessage.findUnique.mockResolvedValue(message);
+
+      expect(await service.trackClick('tracking-token')).toBe(
+        'https://app.example.com/register?as=client&affiliateCode=invitation-token',
+      );
+      expect(prismaService.outreachEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ type: OutreachEventType.Opened }),
+          expect.objectContaining({ type: OutreachEventType.Clicked }),
+        ],
+      });
+    });
+
+    it('should redirect the unknown message to the app', async () => {
+      prismaService.outreachMessage.findUnique.mockResolvedValue(null);
+
+      expect(await service.trackClick('unknown')).toBe(
+        'https://app.example.com',
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,604 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import {
+  Company,
+  CompanyTitle,
+  DiscoverClient,
+  OutreachEnrollment,
+  Prisma,
+  User,
+} from '@prisma/client';
+import { addDays, addHours } from 'date-fns';
+import { randomUUID } from 'crypto';
+import outreachConfig from 'src/config/outreach.config';
+import securityConfig from 'src/config/security.config';
+import { BadRequestApplicationException } from 'src/exceptions/application.exception';
+import { MailService } from 'src/integrations/mail/mail.service';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { UserStatus } from 'src/utils';
+import { generateInvitationLink } from 'src/utils/generators/invitation-link.generator';
+import { CreateOutreachSequenceDto } from './dto/create-outreach-sequence.dto';
+import { StartOutreachDto } from './dto/start-outreach.dto';
+import { UpdateOutreachSequenceDto } from './dto/update-outreach-sequence.dto';
+import { OutreachEnrollmentStatus } from './enums/outreach-enrollment-status.enum';
+import { OutreachEventType } from './enums/outreach-event-type.enum';
+import { OutreachStopReason } from './enums/outreach-stop-reason.enum';
+import {
+  getNextOutreachStep,
+  renderOutreachContent,
+} from './utils/outreach.util';
+
+type OutreachDiscoverClient = DiscoverClient & {
+  company: Company;
+  companyTitle: CompanyTitle;
+};
+
+/**
+ * Invitations and follow-up emails of the discover clients. Enrollment in a sequence sends its steps
+ * after their delays, until all are sent or the discover client registers or shouldn't be contacted.
+ */
+@Injectable()
+export class OutreachService {
+  private readonly logger = new Logger(OutreachService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly mailService: MailService,
+    @Inject(securityConfig.KEY)
+    private readonly _securityConfig: ConfigType<typeof securityConfig>,
+    @Inject(outreachConfig.KEY)
+    private readonly _outreachConfig: ConfigType<typeof outreachConfig>,
+  ) {}
+
+  private readonly sequenceInclude =
+    Prisma.validator<Prisma.OutreachSequenceInclude>()({
+      outreachSteps: { orderBy: { order: 'asc' } },
+    });
+
+  private readonly discoverClientInclude =
+    Prisma.validator<Prisma.DiscoverClientInclude>()({
+      company: true,
+      companyTitle: true,
+    });
+
+  private static readonly registeredStatuses: number[] = [
+    UserStatus.Unconfirmed,
+    UserStatus.Confirmed,
+    UserStatus.ToBeApproved,
+    UserStatus.Approved,
+  ];
+
+  private getAppBaseUrl() {
+    return `${this._securityConfig.protocol}://${[
+      this._securityConfig.appSubdomain,
+      this._securityConfig.baseDomain,
+    ]
+      .filter((s) => !!s)
+      .join('.')}`;
+  }
+
+  private getTrackingUrl(type: 'o' | 'c', trackingToken: string) {
+    return `${this._outreachConfig.trackingBaseUrl}/client/outreach/${type}/${trackingToken}`;
+  }
+
+  async createSequence(dto: CreateOutreachSequenceDto, user: User) {
+    return await this.prismaService.outreachSequence.create({
+      data: {
+        name: dto.name,
+        isActive: dto.isActive,
+        createdByUserId: user.id,
+        outreachSteps: {
+          createMany: {
+            data: dto.steps.map((step, index) => ({
+              ...step,
+              order: index + 1,
+            })),
+          },
+        },
+      },
+      include: this.sequenceInclude,
+    });
+  }
+
+  async findAllSequences() {
+    return await this.prismaService.outreachSequence.findMany({
+      include: this.sequenceInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOneSequence(id: number) {
+    return await this.prismaService.outreachSequence.findUniqueOrThrow({
+      where: { id },
+      include: this.sequenceInclude,
+    });
+  }
+
+  /**
+   * Steps are replaced if given, started enrollments continue with the step of the same order.
+   */
+  async updateSequence(
+    id: number,
+    { steps, ...dto }: UpdateOutreachSequenceDto,
+  ) {
+    return await this.prismaService.outreachSequence.update({
+      where: { id },
+      data: {
+        ...dto,
+        outreachSteps: steps && {
+          deleteMany: {},
+          createMany: {
+            data: steps.map((step, index) => ({ ...step, order: index + 1 })),
+          },
+        },
+      },
+      include: this.sequenceInclude,
+    });
+  }
+
+  /**
+   * Returns the reason why the discover client can't be contacted anymore, if there is any.
+   */
+  private async getStopReason(discoverClient: DiscoverClient) {
+    if (discoverClient.isDeleted) return OutreachStopReason.Deleted;
+
+    if (discoverClient.status === UserStatus.DoNotContact) {
+      return OutreachStopReason.DoNotContact;
+    }
+
+    // * set on the registration through the invitation, even with another email
+    if (OutreachService.registeredStatuses.includes(discoverClient.status)) {
+      return OutreachStopReason.Registered;
+    }
+
+    // * a client registered without the invitation link is still a discover client
+    const user =
+      discoverClient.email &&
+      (await this.prismaService.user.findFirst({
+        where: { email: { equals: discoverClient.email, mode: 'insensitive' } },
+        select: { id: true },
+      }));
+
+    if (user) return OutreachStopReason.Registered;
+  }
+
+  private async stopEnrollments(
+    where: Prisma.OutreachEnrollmentWhereInput,
+    stopReason: OutreachStopReason,
+  ) {
+    const enrollments = await this.prismaService.outreachEnrollment.findMany({
+      where: { ...where, status: OutreachEnrollmentStatus.Active },
+      select: { id: true, discoverClientId: true },
+    });
+
+    if (!enrollments.length) return 0;
+
+    await this.prismaService.$transaction([
+      this.prismaService.outreachEnrollment.updateMany({
+        where: { id: { in: enrollments.map(({ id }) => id) } },
+        data: {
+          status: OutreachEnrollmentStatus.Stopped,
+          stopReason,
+          stoppedAt: new Date(),
+          nextStepOrder: null,
+          nextStepAt: null,
+        },
+      }),
+      this.prismaService.outreachEvent.createMany({
+        data: enrollments.map(({ id, discoverClientId }) => ({
+          discoverClientId,
+          enrollmentId: id,
+          type: OutreachEventType.Stopped,
+          stopReason,
+        })),
+      }),
+    ]);
+
+    this.logger.verbose(
+      `Outreach enrollments stopped (${OutreachStopReason[stopReason]}): ${enrollments.length}`,
+    );
+
+    return enrollments.length;
+  }
+
+  async stopOutreach(
+    discoverClientId: number,
+    stopReason = OutreachStopReason.Manual,
+  ) {
+    return await this.stopEnrollments({ discoverClientId }, stopReason);
+  }
+
+  /**
+   * Stops the outreach of the discover clients with the email or the invitation token of the registered client.
+   * They are marked as registered, so the outreach isn't started again.
+   */
+  async stopOutreachOnRegistration(email: string, invitationToken?: string) {
+    const discoverClientWhere: Prisma.DiscoverClientWhereInput = {
+      OR: [
+        { email: { equals: email, mode: 'insensitive' } },
+        ...(invitationToken ? [{ invitationToken }] : []),
+      ],
+    };
+
+    await this.prismaService.discoverClient.updateMany({
+      where: {
+        ...discoverClientWhere,
+        status: {
+          in: [
+            UserStatus.Identified,
+            UserStatus.Contacted,
+            UserStatus.Scheduled,
+          ],
+        },
+      },
+      data: { status: UserStatus.Unconfirmed },
+    });
+
+    return await this.stopEnrollments(
+      { discoverClient: discoverClientWhere },
+      OutreachStopReason.Registered,
+    );
+  }
+
+  /**
+   * Sends the invitation with the content and the tracking links, the discover client becomes contacted.
+   */
+  private async sendMessage(
+    discoverClient: OutreachDiscoverClient,
+    content: string,
+    enrollment?: Pick<OutreachEnrollment, 'id'>,
+    stepId?: number,
+  ) {
+    const invitationToken = discoverClient.invitationToken ?? randomUUID();
+    const message = await this.prismaService.outreachMessage.create({
+      data: {
+        discoverClientId: discoverClient.id,
+        enrollmentId: enrollment?.id,
+        stepId,
+        trackingToken: randomUUID(),
+      },
+    });
+
+    try {
+      await this.mailService.sendClientInvitation(
+        discoverClient.email,
+        discoverClient.firstName,
+        this.getTrackingUrl('c', message.trackingToken),
+        renderOutreachContent(content, {
+          firstName: discoverClient.firstName,
+          lastName: discoverClient.lastName,
+          company: discoverClient.company?.name,
+          companyTitle: discoverClient.companyTitle?.name,
+        }),
+        this.getTrackingUrl('o', message.trackingToken),
+      );
+    } catch (error) {
+      await this.prismaService.outreachMessage.delete({
+        where: { id: message.id },
+      });
+      throw error;
+    }
+
+    await this.prismaService.$transaction([
+      this.prismaService.discoverClient.update({
+        where: { id: discoverClient.id },
+        data: {
+          invitationToken,
+          contactedAt: new Date(),
+          status:
+            discoverClient.status === UserStatus.Identified
+              ? UserStatus.Contacted
+              : undefined,
+        },
+      }),
+      this.prismaService.outreachEvent.create({
+        data: {
+          discoverClientId: discoverClient.id,
+          enrollmentId: enrollment?.id,
+          messageId: message.id,
+          type: OutreachEventType.Sent,
+        },
+      }),
+    ]);
+
+    return message;
+  }
+
+  async sendInvitation(discoverClientId: number, content: string) {
+    const discoverClient =
+      await this.prismaService.discoverClient.findUniqueOrThrow({
+        where: { id: discoverClientId },
+        include: this.discoverClientInclude,
+      });
+
+    return await this.sendMessage(discoverClient, content);
+  }
+
+  async startOutreach(
+    discoverClientId: number,
+    { sequenceId }: StartOutreachDto,
+  ) {
+    const [discoverClient, sequence] = await Promise.all([
+      this.prismaService.discoverClient.findUniqueOrThrow({
+        where: { id: discoverClientId },
+      }),
+      this.findOneSequence(sequenceId),
+    ]);
+
+    if (!sequence.isActive) {
+      throw new BadRequestApplicationException(
+        `Outreach sequence ${sequence.name} is not active`,
+      );
+    }
+
+    if (!discoverClient.email) {
+      throw new BadRequestApplicationException(`Discover client has no email`);
+    }
+
+    const stopReason = await this.getStopReason(discoverClient);
+
+    if (stopReason !== undefined) {
+      throw new BadRequestApplicationException(
+        `Discover client can't be contacted (${OutreachStopReason[stopReason]})`,
+      );
+    }
+
+    const activeEnrollment =
+      await this.prismaService.outreachEnrollment.findFirst({
+        where: {
+          discoverClientId,
+          status: OutreachEnrollmentStatus.Active,
+        },
+      });
+
+    if (activeEnrollment) {
+      throw new BadRequestApplicationException(
+        `Discover client is already in an outreach sequence`,
+      );
+    }
+
+    const firstStep = getNextOutreachStep(sequence.outreachSteps);
+    const enrollment = await this.prismaService.outreachEnrollment.create({
+      data: {
+        sequenceId,
+        discoverClientId,
+        status: OutreachEnrollmentStatus.Active,
+        nextStepOrder: firstStep.order,
+        nextStepAt: addDays(new Date(), firstStep.delayDays),
+        outreachEvents: {
+          create: { discoverClientId, type: OutreachEventType.Started },
+        },
+      },
+    });
+
+    // * the first step without a delay is sent right away, if it fails the job sends it again
+    if (!firstStep.delayDays) {
+      await this.sendNextStep(enrollment.id).catch((error) =>
+        this.logger.error(
+          `Outreach step of the enrollment ${enrollment.id} not sent: ${error.message}`,
+        ),
+      );
+    }
+
+    return await this.prismaService.outreachEnrollment.findUniqueOrThrow({
+      where: { id: enrollment.id },
+      include: { sequence: true },
+    });
+  }
+
+  /**
+   * Sends the step of the enrollment that is due and schedules the next one.
+   * Returns false if nothing was sent, eg. the discover client registered in the meantime.
+   */
+  async sendNextStep(enrollmentId: number) {
+    const enrollment =
+      await this.prismaService.outreachEnrollment.findUniqueOrThrow({
+        where: { id: enrollmentId },
+        include: {
+          discoverClient: { include: this.discoverClientInclude },
+          sequence: { include: this.sequenceInclude },
+        },
+      });
+    const { discoverClient, nextStepOrder, nextStepAt } = enrollment;
+
+    if (
+      enrollment.status !== OutreachEnrollmentStatus.Active ||
+      !nextStepAt ||
+      nextStepAt > new Date()
+    ) {
+      return false;
+    }
+
+    const stopReason = await this.getStopReason(discoverClient);
+
+    if (stopReason !== undefined) {
+      await this.stopEnrollments({ id: enrollmentId }, stopReason);
+
+      return false;
+    }
+
+    const steps = enrollment.sequence.outreachSteps;
+    // * the step could have been removed by the update of the sequence
+    const step = getNextOutreachStep(steps, nextStepOrder - 1);
+    const nextStep = step && getNextOutreachStep(steps, step.order);
+
+    // * claimed before sending, so concurrent runs don't send the step twice
+    const { count } = await this.prismaService.outreachEnrollment.updateMany({
+      where: {
+        id: enrollmentId,
+        status: OutreachEnrollmentStatus.Active,
+        nextStepOrder,
+      },
+      data: nextStep
+        ? {
+            nextStepOrder: nextStep.order,
+            nextStepAt: addDays(new Date(), nextStep.delayDays),
+            failedAttempts: 0,
+          }
+        : {
+            status: OutreachEnrollmentStatus.Completed,
+            nextStepOrder: null,
+            nextStepAt: null,
+            failedAttempts: 0,
+          },
+    });
+
+    if (!count) return false;
+
+    if (step) {
+      try {
+        await this.sendMessage(
+          discoverClient,
+          step.content,
+          enrollment,
+          step.id,
+        );
+      } catch (error) {
+        await this.rescheduleFailedStep(enrollment);
+        throw error;
+      }
+    }
+
+    if (!nextStep) {
+      await this.prismaService.outreachEvent.create({
+        data: {
+          discoverClientId: discoverClient.id,
+          enrollmentId,
+          type: OutreachEventType.Completed,
+        },
+      });
+    }
+
+    return !!step;
+  }
+
+  /**
+   * Schedules the step that failed to send again, each attempt waits twice as long as the previous one.
+   * Enrollment is stopped once the attempts are exhausted.
+   */
+  private async rescheduleFailedStep({
+    id,
+    nextStepOrder,
+    failedAttempts,
+  }: OutreachEnrollment) {
+    const attempts = failedAttempts + 1;
+
+    await this.prismaService.outreachEnrollment.update({
+      where: { id },
+      data: {
+        status: OutreachEnrollmentStatus.Active,
+        nextStepOrder,
+        nextStepAt: addHours(new Date(), 2 ** failedAttempts),
+        failedAttempts: attempts,
+      },
+    });
+
+    if (attempts >= this._outreachConfig.maxSendAttempts) {
+      await this.stopEnrollments({ id }, OutreachStopReason.SendingFailed);
+    }
+  }
+
+  async sendDueSteps() {
+    const enrollments = await this.prismaService.outreachEnrollment.findMany({
+      where: {
+        status: OutreachEnrollmentStatus.Active,
+        nextStepAt: { lte: new Date() },
+      },
+      select: { id: true },
+      orderBy: { nextStepAt: 'asc' },
+      take: this._outreachConfig.maxMessagesPerRun,
+    });
+    let sent = 0;
+
+    for (const { id } of enrollments) {
+      try {
+        if (await this.sendNextStep(id)) sent++;
+      } catch (error) {
+        this.logger.error(
+          `Outreach step of the enrollment ${id} not sent: ${error.message}`,
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Counts the open or the click of the message, only the first one is added to the timeline.
+   * Click also counts as an open, as the images of the email could be blocked.
+   */
+  private async trackMessage(trackingToken: string, isClick: boolean) {
+    const message = await this.prismaService.outreachMessage.findUnique({
+      where: { trackingToken },
+      include: { discoverClient: true },
+    });
+
+    if (!message) return undefined;
+
+    const now = new Date();
+    const isFirstOpen = !message.openedAt;
+    const isFirstClick = isClick && !message.clickedAt;
+    const events = [
+      ...(isFirstOpen ? [OutreachEventType.Opened] : []),
+      ...(isFirstClick ? [OutreachEventType.Clicked] : []),
+    ];
+
+    await this.prismaService.$transaction([
+      this.prismaService.outreachMessage.update({
+        where: { id: message.id },
+        data: {
+          openedAt: isFirstOpen ? now : undefined,
+          openCount: isClick ? undefined : { increment: 1 },
+          clickedAt: isFirstClick ? now : undefined,
+          clickCount: isClick ? { increment: 1 } : undefined,
+        },
+      }),
+      this.prismaService.outreachEvent.createMany({
+        data: events.map((type) => ({
+          discoverClientId: message.discoverClientId,
+          enrollmentId: message.enrollmentId,
+          messageId: message.id,
+          type,
+        })),
+      }),
+    ]);
+
+    return message;
+  }
+
+  async trackOpen(trackingToken: string) {
+    await this.trackMessage(trackingToken, false);
+  }
+
+  /**
+   * Returns the invitation link of the message, or the app if the message doesn't exist anymore.
+   */
+  async trackClick(trackingToken: string) {
+    const message = await this.trackMessage(trackingToken, true);
+
+    return message?.discoverClient.invitationToken
+      ? generateInvitationLink(this.getAppBaseUrl(), message.discoverClient)
+      : this.getAppBaseUrl();
+  }
+
+  async findTimeline(discoverClientId: number) {
+    await this.prismaService.discoverClient.findUniqueOrThrow({
+      where: { id: discoverClientId },
+    });
+
+    const [enrollments, events] = await Promise.all([
+      this.prismaService.outreachEnrollment.findMany({
+        where: { discoverClientId },
+        include: { sequence: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prismaService.outreachEvent.findMany({
+        where: { discoverClientId },
+        include: { message: { include: { step: true } } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    return { enrollments, events };
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  createNameMatcher,
+  mapDiscoverClientImportColumns,
+  normalizeName,
+  splitListValue,
+} from './discover-client-import.util';
+
+const diseaseAreas = [
+  { id: 1, name: 'Diabetes', synonyms: ['Diabetes mellitus'] },
+  { id: 2, name: "Crohn's Disease", synonyms: [] },
+  { id: 3, name: 'Asthma', synonyms: [] },
+  { id: 4, name: 'Asthmo', synonyms: [] },
+];
+
+describe('discover client import', () => {
+  describe('mapDiscoverClientImportColumns', () => {
+    it('should map the headers regardless of the case and punctuation', () => {
+      expect(
+        mapDiscoverClientImportColumns([
+          'E-Mail',
+          'First Name',
+          'last_name',
+          'Job title',
+          'Disease Areas',
+          'Notes',
+        ]),
+      ).toEqual({
+        email: 0,
+        firstName: 1,
+        lastName: 2,
+        companyTitle: 3,
+        diseaseAreas: 4,
+      });
+    });
+  });
+
+  describe('splitListValue', () => {
+    it('should split the values and leave out the empty ones', () => {
+      expect(splitListValue(' Diabetes; Asthma |\nOncology;; ')).toEqual([
+        'Diabetes',
+        'Asthma',
+        'Oncology',
+      ]);
+      expect(splitListValue(undefined)).toEqual([]);
+    });
+  });
+
+  describe('createNameMatcher', () => {
+    const match = createNameMatcher(diseaseAreas, (diseaseArea) => [
+      diseaseArea.name,
+      ...diseaseArea.synonyms,
+    ]);
+
+    it('should normalize the names', () => {
+      expect(normalizeName("  Crohn's  Disease ")).toBe('crohn s disease');
+      expect(normalizeName('Ménière')).toBe('meniere');
+    });
+
+    it('should match the name or a synonym exactly', () => {
+      expect(match("CROHN'S DISEASE")).toEqual({
+        record: diseaseAreas[1],
+        similarity: 1,
+        isAmbiguous: false,
+      });
+      expect(match('diabetes Mellitus')).toEqual({
+        record: diseaseAreas[0],
+        similarity: 1,
+        isAmbiguous: false,
+      });
+    });
+
+    it('should match the most similar name', () => {
+      const { record, similarity } = match('Diabetis');
+
+      expect(record?.id).toBe(1);
+      expect(similarity).toBeCloseTo(0.875);
+    });
+
+    it('should not match dissimilar or equally similar names', () => {
+      expect(match('Oncology').record).toBeUndefined();
+      expect(match('Asthmu')).toEqual({
+        record: undefined,
+        similarity: expect.any(Number),
+        isAmbiguous: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+export type DiscoverClientImportField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'company'
+  | 'companyTitle'
+  | 'industry'
+  | 'location'
+  | 'markets'
+  | 'diseaseAreas'
+  | 'products';
+
+export type DiscoverClientImportColumns = Partial<
+  Record<DiscoverClientImportField, number>
+>;
+
+export interface INameMatch<T> {
+  record?: T;
+  // * 1 for the exact match of the name or one of the synonyms
+  similarity: number;
+  isAmbiguous: boolean;
+}
+
+// * headers that are recognized for the field, compared without the case, spaces and punctuation
+export const discoverClientImportHeaders: Record<
+  DiscoverClientImportField,
+  string[]
+> = {
+  firstName: ['firstName', 'first name', 'given name'],
+  lastName: ['lastName', 'last name', 'surname', 'family name'],
+  email: ['email', 'e-mail', 'email address'],
+  company: ['company', 'company name', 'organization'],
+  companyTitle: ['companyTitle', 'company title', 'title', 'job title'],
+  industry: ['industry'],
+  location: ['location', 'city', 'country'],
+  markets: ['markets', 'market'],
+  diseaseAreas: ['diseaseAreas', 'disease areas', 'disease area'],
+  products: ['products', 'product'],
+};
+
+export const defaultMinNameSimilarity = 0.8;
+
+/**
+ * Lowercase name without diacritics and punctuation, eg. `Crohn's  Disease` is `crohn s disease`.
+ */
+export const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const normalizeHeader = (header: string) =>
+  normalizeName(header).replace(/ /g, '');
+
+export const mapDiscoverClientImportColumns = (header: string[]) => {
+  const columns: DiscoverClientImportColumns = {};
+  const normalizedHeader = header.map(normalizeHeader);
+
+  for (const [field, headers] of Object.entries(discoverClientImportHeaders)) {
+    const index = normalizedHeader.findIndex((value) =>
+      headers.map(normalizeHeader).includes(value),
+    );
+
+    if (index !== -1) columns[field] = index;
+  }
+
+  return columns;
+};
+
+// * multiple values in a cell are separated by a semicolon, a pipe or a new line
+export const splitListValue = (value: string | undefined) =>
+  (value ?? '')
+    .split(/[;|\r\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const getLevenshteinDistance = (a: string, b: string) => {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+
+    previousRow = row;
+  }
+
+  return previousRow[b.length];
+};
+
+export const getNameSimilarity = (a: string, b: string) => {
+  const maxLength = Math.max(a.length, b.length);
+
+  return maxLength ? 1 - getLevenshteinDistance(a, b) / maxLength : 1;
+};
+
+/**
+ * Returns the matching of names to the records by their names (eg. the name and the synonyms).
+ * Exact matches of the normalized names are preferred, then the most similar record above the minimal similarity.
+ * Name that matches more records equally well is ambiguous and isn't matched to any of them.
+ */
+export const createNameMatcher = <T>(
+  records: T[],
+  getNames: (record: T) => string[],
+  minSimilarity = defaultMinNameSimilarity,
+) => {
+  const recordNames = records.map((record) => ({
+    record,
+    names: [...new Set(getNames(record).filter(Boolean).map(normalizeName))],
+  }));
+  const exactMatches = new Map<string, Set<T>>();
+  // * spreadsheets repeat the same values a lot
+  const matches = new Map<string, INameMatch<T>>();
+
+  for (const { record, names } of recordNames) {
+    for (const name of names) {
+      exactMatches.set(name, (exactMatches.get(name) ?? new Set()).add(record));
+    }
+  }
+
+  const findMatch = (name: string): INameMatch<T> => {
+    const exactRecords = [...(exactMatches.get(name) ?? [])];
+
+    if (exactRecords.length) {
+      return {
+        record: exactRecords.length === 1 ? exactRecords[0] : undefined,
+        similarity: 1,
+        isAmbiguous: exactRecords.length > 1,
+      };
+    }
+
+    let bestRecords: T[] = [];
+    let bestSimilarity = 0;
+
+    for (const { record, names } of recordNames) {
+      const similarity = Math.max(
+        0,
+        ...names
+          // * the distance is at least the difference of the lengths
+          .filter(
+            (recordName) =>
+              Math.abs(recordName.length - name.length) <=
+              (1 - minSimilarity) * Math.max(recordName.length, name.length),
+          )
+          .map((recordName) => getNameSimilarity(name, recordName)),
+      );
+
+      if (similarity < minSimilarity || similarity < bestSimilarity) continue;
+
+      if (similarity > bestSimilarity) {
+        bestRecords = [];
+        bestSimilarity = similarity;
+      }
+
+      bestRecords.push(record);
+    }
+
+    return {
+      record: bestRecords.length === 1 ? bestRecords[0] : undefined,
+      similarity: bestSimilarity,
+      isAmbiguous: bestRecords.length > 1,
+    };
+  };
+
+  return (name: string) => {
+    const normalizedName = normalizeName(name);
+
+    if (!matches.has(normalizedName)) {
+      matches.set(
+        normalizedName,
+        normalizedName
+          ? findMatch(normalizedName)
+          : { similarity: 0, isAmbiguous: false },
+      );
+    }
+
+    return matches.get(normalizedName);
+  };
+};
@@ -0,0 +1,31 @@
+import { getNextOutreachStep, renderOutreachContent } from './outreach.util';
+
+describe('outreach', () => {
+  describe('renderOutreachContent', () => {
+    it('should replace the placeholders with the variables', () => {
+      expect(
+        renderOutreachContent(
+          'Hi {{firstName}}, how is {{ company }} doing?{{lastName}}',
+          { firstName: 'Ann', company: 'Acme', lastName: null },
+        ),
+      ).toBe('Hi Ann, how is Acme doing?');
+    });
+
+    it('should replace unknown placeholders with an empty string', () => {
+      expect(renderOutreachContent('Hi{{title}}!', {})).toBe('Hi!');
+    });
+  });
+
+  describe('getNextOutreachStep', () => {
+    const steps = [{ order: 3 }, { order: 1 }, { order: 2 }];
+
+    it('should return the first step', () => {
+      expect(getNextOutreachStep(steps)).toEqual({ order: 1 });
+    });
+
+    it('should return the step after the order', () => {
+      expect(getNextOutreachStep(steps, 1)).toEqual({ order: 2 });
+      expect(getNextOutreachStep(steps, 3)).toBeUndefined();
+    });
+  });
+});
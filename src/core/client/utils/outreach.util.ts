@@ -0,0 +1,27 @@
+export type OutreachContentVariables = Record<
+  string,
+  string | null | undefined
+>;
+
+/**
+ * Replaces the placeholders like `{{firstName}}` with the variables, unknown and empty variables with an empty string.
+ */
+export const renderOutreachContent = (
+  content: string,
+  variables: OutreachContentVariables,
+) =>
+  content.replace(
+    /{{\s*(\w+)\s*}}/g,
+    (_, name: string) => variables[name]?.trim() ?? '',
+  );
+
+/**
+ * Returns the step that follows the step of the order, or the first step if the order is not given.
+ */
+export const getNextOutreachStep = <T extends { order: number }>(
+  steps: T[],
+  afterOrder?: number,
+) =>
+  steps
+    .filter(({ order }) => afterOrder === undefined || order > afterOrder)
+    .sort((a, b) => a.order - b.order)[0];
@@ -5,6 +5,7 @@ import { ClientEntity } from 'src/core/client/entities/client.entity';
 export class CompanyProductEntity implements Product {
   id: number;
   name: string;
+  synonyms: string[];
   createdByClientId: number;
   isApproved: boolean;
   productGenericNameId: number;
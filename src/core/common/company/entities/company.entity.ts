@@ -5,6 +5,7 @@ import { UserEntity } from 'src/core/users/entities/user.entity';
 export class CompanyEntity implements Company {
   id: number;
   name: string;
+  synonyms: string[];
   createdByUserId: number;
   isCommon: boolean;
   isApproved: boolean;
@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { CurrencyService } from './currency.service';
 import { CurrencyController } from './currency.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRatesController } from './exchange-rates.controller';
 
 @Module({
-  controllers: [CurrencyController],
-  providers: [CurrencyService],
+  controllers: [CurrencyController, ExchangeRatesController],
+  providers: [CurrencyService, ExchangeRatesService],
+  exports: [ExchangeRatesService],
 })
 export class CurrencyModule {}
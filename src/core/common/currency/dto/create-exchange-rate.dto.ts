@@ -0,0 +1,29 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDate,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsPositive,
+} from 'class-validator';
+
+export class CreateExchangeRateDto {
+  @Transform(({ value }) => value?.toUpperCase())
+  @IsISO4217CurrencyCode()
+  baseCurrency: string;
+
+  @Transform(({ value }) => value?.toUpperCase())
+  @IsISO4217CurrencyCode()
+  quoteCurrency: string;
+
+  /**
+   * Amount of the quote currency for 1 unit of the base currency.
+   */
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  rate: number;
+
+  @Type(() => Date)
+  @IsDate()
+  effectiveFrom: Date;
+}
@@ -0,0 +1,14 @@
+import { Transform } from 'class-transformer';
+import { IsISO4217CurrencyCode, IsOptional } from 'class-validator';
+
+export class ExchangeRateFilterDto {
+  @IsOptional()
+  @Transform(({ value }) => value?.toUpperCase())
+  @IsISO4217CurrencyCode()
+  baseCurrency?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value?.toUpperCase())
+  @IsISO4217CurrencyCode()
+  quoteCurrency?: string;
+}
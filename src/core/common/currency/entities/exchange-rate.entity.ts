@@ -0,0 +1,27 @@
+import { ExchangeRate } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { Transform } from 'class-transformer';
+import { CurrencyEntity } from './currency.entity';
+
+export class ExchangeRateEntity implements ExchangeRate {
+  id: number;
+  baseCurrencyId: number;
+  quoteCurrencyId: number;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  rate: Decimal;
+
+  effectiveFrom: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  @Transform(({ value }) => value && new CurrencyEntity(value))
+  baseCurrency?: CurrencyEntity;
+
+  @Transform(({ value }) => value && new CurrencyEntity(value))
+  quoteCurrency?: CurrencyEntity;
+
+  constructor(data: Partial<ExchangeRateEntity>) {
+    Object.assign(this, data);
+  }
+}
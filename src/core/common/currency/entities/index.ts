@@ -1 +1,2 @@
 export * from './currency.entity';
+export * from './exchange-rate.entity';
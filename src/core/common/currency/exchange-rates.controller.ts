@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  FileTypeValidator,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  ParseIntPipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Action } from 'src/core/auth/ability';
+import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorator';
+import { ApiFile } from 'src/core/file-manager/decorators/api-file.decorator';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { ExchangeRateFilterDto } from './dto/exchange-rate-filter.dto';
+import { ExchangeRateEntity } from './entities';
+import { ExchangeRatesService } from './exchange-rates.service';
+
+@Controller('exchangeRates')
+@ApiTags('currency')
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @CheckAbilities({ action: Action.Create, subject: 'Currency' })
+  @Post()
+  @ApiOperation({
+    summary: 'Set an exchange rate',
+    description:
+      'Sets the rate of the currency pair from the given date until the next rate of the pair.',
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreateExchangeRateDto) {
+    return new ExchangeRateEntity(await this.exchangeRatesService.create(dto));
+  }
+
+  @CheckAbilities({ action: Action.Create, subject: 'Currency' })
+  @Post('import')
+  @ApiFile('file', true)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import exchange rates',
+    description:
+      'Imports a CSV file with the columns "baseCurrency", "quoteCurrency", "rate" and "effectiveFrom". Rates of the same pair and date are replaced.',
+  })
+  async import(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 1024 * 1024 * 5 }),
+          new FileTypeValidator({ fileType: /text\/csv|text\/plain/ }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+  ) {
+    return this.exchangeRatesService.import(file);
+  }
+
+  @CheckAbilities({ action: Action.Read, subject: 'Currency' })
+  @Get()
+  async findAll(@Query() dto: ExchangeRateFilterDto) {
+    const exchangeRates = await this.exchangeRatesService.findAll(dto);
+
+    return exchangeRates.map(
+      (exchangeRate) => new ExchangeRateEntity(exchangeRate),
+    );
+  }
+
+  @CheckAbilities({ action: Action.Delete, subject: 'Currency' })
+  @Delete(':id')
+  async delete(@Param('id', ParseIntPipe) id: number) {
+    return new ExchangeRateEntity(await this.exchangeRatesService.delete(id));
+  }
+}
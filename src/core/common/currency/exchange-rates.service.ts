@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { BadRequestApplicationException } from 'src/exceptions/application.exception';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { Currency, formatCurrencyIdToObject, parseCsv } from 'src/utils';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { ExchangeRateFilterDto } from './dto/exchange-rate-filter.dto';
+import { getExchangeRate } from './utils/exchange-rate.util';
+
+// * amounts without a currency were entered before currencies were selectable
+export const defaultCurrencyCode = formatCurrencyIdToObject(
+  Currency.euro,
+).short;
+
+const importColumns = [
+  'baseCurrency',
+  'quoteCurrency',
+  'rate',
+  'effectiveFrom',
+];
+
+@Injectable()
+export class ExchangeRatesService {
+  private readonly exchangeRateInclude = {
+    baseCurrency: true,
+    quoteCurrency: true,
+  };
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Code of the currency stored as the `Currency` enum, eg. in the agreed amount of the influencer.
+   */
+  getCurrencyEnumCode(currency: Currency) {
+    return formatCurrencyIdToObject(currency)?.short ?? defaultCurrencyCode;
+  }
+
+  private async getCurrencyIds(codes: string[]) {
+    const currencies = await this.prismaService.currency.findMany({
+      where: { code: { in: codes } },
+    });
+    const missingCodes = [...new Set(codes)].filter(
+      (code) => !currencies.some((currency) => currency.code === code),
+    );
+
+    if (missingCodes.length) {
+      throw new BadRequestApplicationException(
+        `Currencies ${missingCodes.join(', ')} don't exist`,
+      );
+    }
+
+    return new Map(currencies.map((currency) => [currency.code, currency.id]));
+  }
+
+  private async upsertMany(dtos: CreateExchangeRateDto[]) {
+    const currencyIds = await this.getCurrencyIds(
+      dtos.flatMap((dto) => [dto.baseCurrency, dto.quoteCurrency]),
+    );
+
+    return await this.prismaService.$transaction(
+      dtos.map(({ baseCurrency, quoteCurrency, rate, effectiveFrom }) => {
+        const data = {
+          baseCurrencyId: currencyIds.get(baseCurrency),
+          quoteCurrencyId: currencyIds.get(quoteCurrency),
+          effectiveFrom,
+        };
+
+        return this.prismaService.exchangeRate.upsert({
+          where: { ExchangeRateIdentifier: data },
+          create: { ...data, rate },
+          update: { rate },
+          include: this.exchangeRateInclude,
+        });
+      }),
+    );
+  }
+
+  /**
+   * Replaces the rate of the pair effective from the same date.
+   */
+  async create(dto: CreateExchangeRateDto) {
+    if (dto.baseCurrency === dto.quoteCurrency) {
+      throw new BadRequestApplicationException(
+        `Exchange rate needs two different currencies`,
+      );
+    }
+
+    const [exchangeRate] = await this.upsertMany([dto]);
+
+    return exchangeRate;
+  }
+
+  /**
+   * Imports CSV with the header "baseCurrency,quoteCurrency,rate,effectiveFrom". Nothing is imported if any row is invalid.
+   */
+  async import(file: Express.Multer.File) {
+    const [header, ...rows] = parseCsv(file.buffer.toString('utf-8'));
+
+    if (!header || importColumns.some((column) => !header.includes(column))) {
+      throw new BadRequestApplicationException(
+        `File must have the columns ${importColumns.join(', ')}`,
+      );
+    }
+
+    const errors: string[] = [];
+    const dtos = rows.map((row, index) => {
+      const dto = plainToInstance(
+        CreateExchangeRateDto,
+        Object.fromEntries(
+          importColumns.map((column) => [
+            column,
+            row[header.indexOf(column)]?.trim(),
+          ]),
+        ),
+      );
+      const rowErrors = validateSync(dto).flatMap((error) =>
+        Object.values(error.constraints ?? {}),
+      );
+
+      if (dto.baseCurrency === dto.quoteCurrency) {
+        rowErrors.push('currencies must be different');
+      }
+
+      // * the header is the line 1
+      if (rowErrors.length) {
+        errors.push(`line ${index + 2}: ${rowErrors.join(', ')}`);
+      }
+
+      return dto;
+    });
+
+    if (errors.length) {
+      throw new BadRequestApplicationException(
+        `Exchange rates are not valid - ${errors.join('; ')}`,
+      );
+    }
+
+    return { count: (await this.upsertMany(dtos)).length };
+  }
+
+  async findAll({ baseCurrency, quoteCurrency }: ExchangeRateFilterDto) {
+    return await this.prismaService.exchangeRate.findMany({
+      where: {
+        baseCurrency: baseCurrency && { code: baseCurrency },
+        quoteCurrency: quoteCurrency && { code: quoteCurrency },
+      },
+      include: this.exchangeRateInclude,
+      orderBy: [{ effectiveFrom: 'desc' }, { id: 'asc' }],
+    });
+  }
+
+  async delete(id: number) {
+    return await this.prismaService.exchangeRate.delete({
+      where: { id },
+      include: this.exchangeRateInclude,
+    });
+  }
+
+  /**
+   * Loads all rates once and returns the conversion of amounts to the currency, at the rate effective on their date.
+   */
+  async getConverter(toCurrencyCode: string) {
+    const exchangeRates = await this.prismaService.exchangeRate.findMany({
+      include: this.exchangeRateInclude,
+    });
+    const rates = exchangeRates.map((exchangeRate) => ({
+      baseCurrencyCode: exchangeRate.baseCurrency.code,
+      quoteCurrencyCode: exchangeRate.quoteCurrency.code,
+      rate: exchangeRate.rate,
+      effectiveFrom: exchangeRate.effectiveFrom,
+    }));
+
+    return (amount: Decimal, currencyCode: string | null, date: Date) => {
+      const fromCurrencyCode = currencyCode ?? defaultCurrencyCode;
+      const rate = getExchangeRate(
+        rates,
+        fromCurrencyCode,
+        toCurrencyCode,
+        date,
+      );
+
+      if (!rate) {
+        throw new BadRequestApplicationException(
+          `Exchange rate from ${fromCurrencyCode} to ${toCurrencyCode} on ${date.toISOString()} doesn't exist`,
+        );
+      }
+
+      return amount.mul(rate);
+    };
+  }
+}
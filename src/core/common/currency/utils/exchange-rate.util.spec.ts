@@ -0,0 +1,58 @@
+import { Decimal } from '@prisma/client/runtime';
+import { getExchangeRate, IExchangeRateData } from './exchange-rate.util';
+
+const rates: IExchangeRateData[] = [
+  {
+    baseCurrencyCode: 'EUR',
+    quoteCurrencyCode: 'USD',
+    rate: new Decimal('1.10'),
+    effectiveFrom: new Date('2023-01-01'),
+  },
+  {
+    baseCurrencyCode: 'EUR',
+    quoteCurrencyCode: 'USD',
+    rate: new Decimal('1.05'),
+    effectiveFrom: new Date('2023-06-01'),
+  },
+  {
+    baseCurrencyCode: 'CHF',
+    quoteCurrencyCode: 'EUR',
+    rate: new Decimal('1.02'),
+    effectiveFrom: new Date('2023-01-01'),
+  },
+];
+
+describe('getExchangeRate', () => {
+  it('should return 1 for the same currency', () => {
+    expect(getExchangeRate([], 'EUR', 'EUR', new Date()).toNumber()).toBe(1);
+  });
+
+  it('should use the rate effective on the date', () => {
+    expect(
+      getExchangeRate(rates, 'EUR', 'USD', new Date('2023-03-15')).toNumber(),
+    ).toBe(1.1);
+    expect(
+      getExchangeRate(rates, 'EUR', 'USD', new Date('2023-06-01')).toNumber(),
+    ).toBe(1.05);
+  });
+
+  it('should invert the rate of the opposite pair', () => {
+    expect(
+      getExchangeRate(rates, 'USD', 'EUR', new Date('2023-07-01'))
+        .toDecimalPlaces(4)
+        .toNumber(),
+    ).toBe(0.9524);
+  });
+
+  it('should convert through a common currency', () => {
+    expect(
+      getExchangeRate(rates, 'CHF', 'USD', new Date('2023-07-01')).toNumber(),
+    ).toBe(1.071);
+  });
+
+  it('should return nothing before the first rate', () => {
+    expect(
+      getExchangeRate(rates, 'EUR', 'USD', new Date('2022-12-31')),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { Decimal } from '@prisma/client/runtime';
+
+export interface IExchangeRateData {
+  baseCurrencyCode: string;
+  quoteCurrencyCode: string;
+  rate: Decimal;
+  effectiveFrom: Date;
+}
+
+const getPairRate = (
+  rates: IExchangeRateData[],
+  fromCode: string,
+  toCode: string,
+  date: Date,
+) => {
+  const matchingRates = rates
+    .filter(
+      (rate) =>
+        rate.effectiveFrom <= date &&
+        ((rate.baseCurrencyCode === fromCode &&
+          rate.quoteCurrencyCode === toCode) ||
+          (rate.baseCurrencyCode === toCode &&
+            rate.quoteCurrencyCode === fromCode)),
+    )
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+  const [latestRate] = matchingRates;
+
+  if (!latestRate) return;
+
+  return latestRate.baseCurrencyCode === fromCode
+    ? latestRate.rate
+    : new Decimal(1).div(latestRate.rate);
+};
+
+/**
+ * Rate effective on the date, from the pair in either direction, or through a currency both are quoted against.
+ */
+export const getExchangeRate = (
+  rates: IExchangeRateData[],
+  fromCode: string,
+  toCode: string,
+  date: Date,
+): Decimal | undefined => {
+  if (fromCode === toCode) return new Decimal(1);
+
+  const pairRate = getPairRate(rates, fromCode, toCode, date);
+
+  if (pairRate) return pairRate;
+
+  const currencyCodes = new Set(
+    rates.flatMap((rate) => [rate.baseCurrencyCode, rate.quoteCurrencyCode]),
+  );
+
+  for (const code of currencyCodes) {
+    if (code === fromCode || code === toCode) continue;
+
+    const fromRate = getPairRate(rates, fromCode, code, date);
+    const toRate = fromRate && getPairRate(rates, code, toCode, date);
+
+    if (toRate) return fromRate.mul(toRate);
+  }
+};
@@ -4,6 +4,7 @@ import { Transform } from 'class-transformer';
 export class DiseaseAreaEntity implements DiseaseArea {
   id: number;
   name: string;
+  synonyms: string[];
   isCommon: boolean;
   parentDiseaseAreaId: number;
   createdAt: Date;
@@ -6,6 +6,7 @@ export class ProductEntity implements Product {
   id: number;
   name: string;
   genericName: string;
+  synonyms: string[];
   createdByClientId: number;
   isApproved: boolean;
   productGenericNameId: number;
@@ -3,6 +3,7 @@ import { Symptom } from '@prisma/client';
 export class SymptomEntity implements Symptom {
   id: number;
   name: string;
+  synonyms: string[];
   createdAt: Date;
   updatedAt: Date;
 
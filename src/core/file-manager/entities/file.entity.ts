@@ -6,6 +6,9 @@ export class FileEntity implements File {
   key: string;
   filename: string;
   name: string;
+  mimeType: string;
+  size: number;
+  isPrivate: boolean;
   createdAt: Date;
   updatedAt: Date;
 
@@ -7,5 +7,6 @@ import { AwsS3Module } from 'src/integrations/aws-s3/aws-s3.module';
   imports: [AwsS3Module],
   controllers: [FileManagerController],
   providers: [FileManagerService],
+  exports: [FileManagerService],
 })
 export class FileManagerModule {}
@@ -5,6 +5,10 @@ import { UploadFileDto } from './dto/upload-file.dto';
 import { FilterParamsDto } from 'src/utils/object-definitions/dtos/filter-params.dto';
 import { Prisma } from '@prisma/client';
 import { filterRecordsFactory } from 'src/utils/factories/filter-records.factory';
+import {
+  BadRequestApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
 
 @Injectable()
 export class FileManagerService {
@@ -15,20 +19,54 @@ export class FileManagerService {
     private readonly awsS3Service: AwsS3Service,
   ) {}
 
-  async upload(file: Express.Multer.File, { name: customName }: UploadFileDto) {
-    const name = customName || file.originalname;
-    const { url, key } = await this.awsS3Service.uploadFile(
+  async upload(
+    file: Express.Multer.File,
+    { name: customName }: UploadFileDto,
+    isPrivate = false,
+  ) {
+    return this.uploadBuffer(
       file.buffer,
       file.originalname,
       file.mimetype,
+      customName,
+      isPrivate,
     );
+  }
+
+  /**
+   * Stores generated content (eg. a report document) the same way as an uploaded file.
+   * Private file is left out of the file manager, its owner serves it with its own access checks.
+   */
+  async uploadBuffer(
+    content: Buffer,
+    filename: string,
+    mimeType: string,
+    customName?: string,
+    isPrivate = false,
+  ) {
+    const name = customName || filename;
+    const uploadedFile = await this.awsS3Service.uploadFile(
+      content,
+      filename,
+      mimeType,
+    );
+
+    if (!uploadedFile) {
+      throw new BadRequestApplicationException(
+        `File "${name}" could not be uploaded`,
+      );
+    }
 
+    const { url, key } = uploadedFile;
     const fileSaved = await this.prismaService.file.create({
       data: {
         url,
         key,
-        filename: file.originalname,
+        filename,
         name,
+        mimeType,
+        size: content.length,
+        isPrivate,
       },
     });
 
@@ -37,16 +75,38 @@ export class FileManagerService {
     return fileSaved;
   }
 
+  private async findPublicFile(where: Prisma.FileWhereInput) {
+    const file = await this.prismaService.file.findFirst({
+      where: { ...where, isPrivate: false },
+    });
+
+    if (!file) throw new NotFoundApplicationException(`File not found`);
+
+    return file;
+  }
+
   async findOne(fileKey: string) {
+    await this.findPublicFile({ key: fileKey });
+
+    return this.getPresignedUrl(fileKey);
+  }
+
+  /**
+   * Presigned URL of any file, access to private files has to be checked by the caller.
+   */
+  async getPresignedUrl(fileKey: string) {
     return this.awsS3Service.getPresignedUrl(fileKey);
   }
 
   async find({ skip, take, sortBy, search }: FilterParamsDto) {
-    const queryWhere: Prisma.FileWhereInput = search && {
-      OR: {
-        name: { contains: search, mode: 'insensitive' },
-        filename: { contains: search, mode: 'insensitive' },
-      },
+    const queryWhere: Prisma.FileWhereInput = {
+      isPrivate: false,
+      OR: search
+        ? {
+            name: { contains: search, mode: 'insensitive' },
+            filename: { contains: search, mode: 'insensitive' },
+          }
+        : undefined,
     };
     const queryOrderBy: Prisma.Enumerable<Prisma.FileOrderByWithRelationInput> =
       (sortBy as any) || { createdAt: 'desc' };
@@ -60,6 +120,8 @@ export class FileManagerService {
   }
 
   async delete(id: number) {
+    await this.findPublicFile({ id });
+
     const file = await this.prismaService.file.delete({
       where: { id },
     });
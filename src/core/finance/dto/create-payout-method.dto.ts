@@ -0,0 +1,43 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBIC,
+  IsBoolean,
+  IsIBAN,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+// * "de89 3704 0044 0532 0130 00" => "DE89370400440532013000"
+const normalizeBankCode = ({ value }) =>
+  typeof value === 'string' ? value.replace(/[\s-]/g, '').toUpperCase() : value;
+
+export class CreatePayoutMethodDto {
+  @IsString()
+  @IsNotEmpty()
+  bankAccountFirstName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  bankAccountLastName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  bankName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  bankAddress: string;
+
+  @Transform(normalizeBankCode)
+  @IsIBAN()
+  iban: string;
+
+  @Transform(normalizeBankCode)
+  @IsBIC()
+  swiftBic: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
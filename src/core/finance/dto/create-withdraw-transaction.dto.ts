@@ -1,7 +1,12 @@
-import { IsNumber, IsPositive } from 'class-validator';
+import { IsInt, IsNumber, IsOptional, IsPositive } from 'class-validator';
 
 export class CreateWithdrawTransactionDto {
   @IsNumber()
   @IsPositive()
   amount: number;
+
+  // * the default payout method of the user if not set
+  @IsOptional()
+  @IsInt()
+  payoutMethodId?: number;
 }
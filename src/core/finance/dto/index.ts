@@ -1,3 +1,4 @@
 export * from './create-transaction-flow.dto';
 export * from './create-withdraw-transaction.dto';
 export * from './finance-query-params.dto';
+export * from './create-payout-method.dto';
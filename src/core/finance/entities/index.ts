@@ -1,2 +1,5 @@
 export * from './transaction-flow.entity';
 export * from './transaction.entity';
+export * from './payout-method.entity';
+export * from './payout-batch.entity';
+export * from './payout-batch-item.entity';
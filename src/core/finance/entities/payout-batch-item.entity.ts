@@ -0,0 +1,28 @@
+import { PayoutBatchItem } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { Exclude, Transform } from 'class-transformer';
+
+export class PayoutBatchItemEntity implements PayoutBatchItem {
+  id: number;
+  payoutBatchId: number;
+  transactionFlowId: number;
+  payoutMethodId: number;
+  endToEndId: string;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  amount: Decimal;
+
+  remittanceInformation: string;
+  status: number;
+  statusReason: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // * bank details are only written to the file
+  @Exclude()
+  payoutMethod?: unknown;
+
+  constructor(data: Partial<PayoutBatchItemEntity>) {
+    Object.assign(this, data);
+  }
+}
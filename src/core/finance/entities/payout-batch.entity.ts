@@ -0,0 +1,33 @@
+import { PayoutBatch } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { Transform, Type } from 'class-transformer';
+import { PayoutBatchItemEntity } from './payout-batch-item.entity';
+
+export class PayoutBatchEntity implements PayoutBatch {
+  id: number;
+  messageId: string;
+  itemsCount: number;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  controlSum: Decimal;
+
+  executionDate: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  @Type(() => PayoutBatchItemEntity)
+  payoutBatchItems?: PayoutBatchItemEntity[];
+
+  // * payouts left out of the exported batch
+  skipped?: { transactionFlowId: number; reason: string }[];
+
+  constructor({ payoutBatchItems, ...data }: Partial<PayoutBatchEntity>) {
+    Object.assign(this, data);
+
+    if (payoutBatchItems) {
+      this.payoutBatchItems = payoutBatchItems.map(
+        (payoutBatchItem) => new PayoutBatchItemEntity(payoutBatchItem),
+      );
+    }
+  }
+}
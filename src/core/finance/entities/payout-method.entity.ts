@@ -0,0 +1,23 @@
+import { PayoutMethod } from '@prisma/client';
+
+/**
+ * Bank details are returned masked.
+ */
+export class PayoutMethodEntity implements PayoutMethod {
+  id: number;
+  userId: number;
+  bankAccountFirstName: string;
+  bankAccountLastName: string;
+  bankName: string;
+  bankAddress: string;
+  iban: string;
+  swiftBic: string;
+  isDefault: boolean;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<PayoutMethod>) {
+    Object.assign(this, data);
+  }
+}
@@ -1,6 +1,7 @@
 import { TransactionFlow } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime';
 import { Transform } from 'class-transformer';
+import { PayoutMethodEntity } from './payout-method.entity';
 
 export class TransactionFlowEntity implements TransactionFlow {
   id: number;
@@ -22,7 +23,17 @@ export class TransactionFlowEntity implements TransactionFlow {
 
   vendorId: number;
 
-  constructor(data: Partial<TransactionFlow>) {
+  settlementKey: string;
+
+  payoutMethodId: number;
+
+  // * status of the latest transaction
+  status?: number;
+
+  @Transform(({ value }) => value && new PayoutMethodEntity(value))
+  payoutMethod?: PayoutMethodEntity;
+
+  constructor(data: Partial<TransactionFlowEntity>) {
     Object.assign(this, data);
   }
 }
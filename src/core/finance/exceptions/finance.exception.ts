@@ -24,3 +24,20 @@ export class TransactionInsufficientFundsUnprocessableEntityException extends Un
     super(message);
   }
 }
+
+export class ProductOrderSettlementBadRequestException extends BadRequestException {
+  constructor(productOrderId: number) {
+    const message = `Product order "${productOrderId}" can't be settled as it is not finished`;
+    super(message);
+  }
+}
+
+export class PayoutMethodNotFoundException extends NotFoundException {
+  constructor(payoutMethodId?: number) {
+    const message =
+      payoutMethodId !== undefined
+        ? `Payout method ${payoutMethodId} does not exist!`
+        : `Payout method is required, add one to your account first`;
+    super(message);
+  }
+}
@@ -16,7 +16,9 @@ import {
   FinanceQueryParamsDto,
 } from './dto';
 import { TransactionEntity, TransactionFlowEntity } from './entities';
-import { ApiTags } from '@nestjs/swagger';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CheckAbilities } from '../auth/ability/decorators/ability.decorator';
+import { Action } from '../auth/ability';
 
 @Controller('finance')
 @ApiTags('finance')
@@ -33,6 +35,17 @@ export class FinanceController {
     return await this.financeService.getAllTransactions(dto);
   }
 
+  @Get('ledger/reconciliation')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiOperation({
+    summary: 'Reconcile the ledger',
+    description:
+      'Recomputes balances from ledger entries and lists accounts whose stored balance, or the balance snapshot of the latest transaction, differs from it.',
+  })
+  async reconcileLedger() {
+    return this.financeService.reconcileLedger();
+  }
+
   @Get('transactions')
   async getTransactions(@AuthUser() user: User) {
     const transactions = await this.financeService.getTransactions(user.id);
@@ -52,6 +65,12 @@ export class FinanceController {
   }
 
   @Post('transactionFlows')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiOperation({
+    summary: 'Create transaction flow',
+    description:
+      'Reserves a payout for the user, it becomes available once approved. Users request their withdrawals through withdraw flows.',
+  })
   async createTransactionFlow(
     @AuthUser() user: User,
     @Body() dto: CreateTransactionFlowDto,
@@ -64,17 +83,34 @@ export class FinanceController {
   }
 
   @Post('transactionFlows/:id/approve')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
   async approveTransactionFlow(@Param('id', ParseIntPipe) id: number) {
     const transaction = await this.financeService.approveTransactionFlow(id);
     return new TransactionEntity(transaction);
   }
 
   @Post('transactionFlows/:id/decline')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
   async declineTransactionFlow(@Param('id', ParseIntPipe) id: number) {
     const transaction = await this.financeService.declineTransactionFlow(id);
     return new TransactionEntity(transaction);
   }
 
+  @Post('productOrders/:id/settle')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiOperation({
+    summary: 'Settle finished product order',
+    description:
+      'Creates missing salary, affiliate and commission transaction flows for approved submissions. Settlement runs automatically when a campaign or a survey is finished, and can be repeated safely.',
+  })
+  async settleProductOrder(@Param('id', ParseIntPipe) id: number) {
+    const transactionFlows =
+      await this.financeService.settleFinishedProductOrder(id);
+    return transactionFlows.map(
+      (transactionFlow) => new TransactionFlowEntity(transactionFlow),
+    );
+  }
+
   @Post('withdrawFlows')
   async requestSalary(
     @AuthUser() user: User,
@@ -87,7 +123,23 @@ export class FinanceController {
     return new TransactionFlowEntity(transactionFlow);
   }
 
+  @Get('withdrawFlows')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiOperation({
+    summary: 'Retrieve withdrawals',
+    description:
+      'Retrieves withdrawals with the status of their latest transaction and masked details of the payout method they were requested to.',
+  })
+  async getWithdrawTransactionFlows() {
+    const transactionFlows =
+      await this.financeService.getWithdrawTransactionFlows();
+    return transactionFlows.map(
+      (transactionFlow) => new TransactionFlowEntity(transactionFlow),
+    );
+  }
+
   @Post('withdrawFlows/:id/approve')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
   async approveWithdrawTransactionFlow(@Param('id', ParseIntPipe) id: number) {
     const transaction =
       await this.financeService.approveWithdrawTransactionFlow(id);
@@ -95,6 +147,7 @@ export class FinanceController {
   }
 
   @Post('withdrawFlows/:id/decline')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
   async declineWithdrawTransactionFlow(@Param('id', ParseIntPipe) id: number) {
     const transaction =
       await this.financeService.declineWithdrawTransactionFlow(id);
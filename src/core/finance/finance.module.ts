@@ -1,9 +1,24 @@
 import { Module } from '@nestjs/common';
 import { FinanceService } from './finance.service';
 import { FinanceController } from './finance.controller';
+import { LedgerService } from './ledger.service';
+import { PayoutMethodsService } from './payout-methods.service';
+import { PayoutMethodsController } from './payout-methods.controller';
+import { PayoutBatchesService } from './payout-batches.service';
+import { PayoutBatchesController } from './payout-batches.controller';
 
 @Module({
-  controllers: [FinanceController],
-  providers: [FinanceService],
+  controllers: [
+    FinanceController,
+    PayoutMethodsController,
+    PayoutBatchesController,
+  ],
+  providers: [
+    FinanceService,
+    LedgerService,
+    PayoutMethodsService,
+    PayoutBatchesService,
+  ],
+  exports: [FinanceService],
 })
 export class FinanceModule {}
@@ -0,0 +1,189 @@
+import { LedgerAccount } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { LedgerAccountType, TransactionFlowType } from 'src/utils';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TransactionOperationBadRequestException } from './exceptions';
+import { FinanceService } from './finance.service';
+import { LedgerService } from './ledger.service';
+import { PayoutMethodsService } from './payout-methods.service';
+
+describe('FinanceService', () => {
+  let accounts: LedgerAccount[];
+  let transactionFlows: Record<string, unknown>[];
+  let transactions: Record<string, unknown>[];
+
+  // * keeps the ledger accounts and the transactions in memory, the same client is used as the DB transaction
+  const prismaService = {
+    $transaction: jest.fn(async (callback) => callback(prismaService)),
+    // * row locks
+    $queryRaw: jest.fn(async () => []),
+    ledgerAccount: {
+      createMany: jest.fn(async ({ data }) => {
+        for (const { key, type, userId } of data) {
+          if (accounts.some((account) => account.key === key)) continue;
+
+          accounts.push({
+            id: accounts.length + 1,
+            key,
+            type,
+            userId: userId ?? null,
+            balance: new Decimal(0),
+          } as LedgerAccount);
+        }
+      }),
+      findMany: jest.fn(async ({ where }) =>
+        accounts.filter(
+          (account) =>
+            (!where.key || where.key.in.includes(account.key)) &&
+            (where.userId === undefined || account.userId === where.userId),
+        ),
+      ),
+      update: jest.fn(async ({ where, data }) => {
+        const account = accounts.find(({ id }) => id === where.id);
+
+        account.balance = data.balance.increment
+          ? account.balance.add(data.balance.increment)
+          : account.balance.sub(data.balance.decrement);
+      }),
+    },
+    ledgerEntry: { create: jest.fn() },
+    transactionFlow: {
+      create: jest.fn(async ({ data }) => {
+        const transactionFlow = { id: transactionFlows.length + 1, ...data };
+
+        transactionFlows.push(transactionFlow);
+
+        return transactionFlow;
+      }),
+    },
+    transaction: {
+      create: jest.fn(async ({ data }) => {
+        const transaction = {
+          id: transactions.length + 1,
+          ...data,
+          transactionFlow: transactionFlows.find(
+            ({ id }) => id === data.transactionFlowId,
+          ),
+        };
+
+        transactions.push(transaction);
+
+        return transaction;
+      }),
+      // * the latest transaction of the flow
+      findMany: jest.fn(async ({ where }) =>
+        transactions
+          .filter(
+            ({ transactionFlowId }) =>
+              transactionFlowId === where.transactionFlowId,
+          )
+          .reverse()
+          .slice(0, 1),
+      ),
+    },
+    platformProductOrderInfluencer: { updateMany: jest.fn() },
+  };
+  const notificationsService = {
+    paymentRequested: jest.fn(),
+    paymentApproved: jest.fn(),
+    paymentDeclined: jest.fn(),
+    withdrawRequested: jest.fn(),
+    withdrawApproved: jest.fn(),
+    withdrawDeclined: jest.fn(),
+  };
+  const client = prismaService as unknown as PrismaService;
+  const service = new FinanceService(
+    client,
+    notificationsService as unknown as NotificationsService,
+    new LedgerService(client),
+    {
+      findForWithdrawal: async () => ({ id: 1 }),
+    } as unknown as PayoutMethodsService,
+  );
+
+  const getBalance = (type: LedgerAccountType, userId?: number) =>
+    accounts
+      .find(
+        (account) =>
+          account.type === type && account.userId === (userId ?? null),
+      )
+      ?.balance.toNumber() ?? 0;
+
+  const createSalary = () =>
+    service.createTransactionFlow(1, {
+      amount: new Decimal(100),
+      type: TransactionFlowType.Salary,
+    });
+
+  beforeEach(() => {
+    accounts = [];
+    transactionFlows = [];
+    transactions = [];
+  });
+
+  it('should move the payout from the pending payouts to the user and out with the withdrawal', async () => {
+    const salary = await createSalary();
+
+    expect(getBalance(LedgerAccountType.PendingPayouts)).toBe(100);
+
+    await service.approveTransactionFlow(salary.id);
+
+    expect(getBalance(LedgerAccountType.PendingPayouts)).toBe(0);
+    expect(getBalance(LedgerAccountType.UserAvailable, 1)).toBe(100);
+
+    const withdrawal = await service.createWithdrawTransaction(1, {
+      amount: 70,
+      payoutMethodId: 1,
+    });
+
+    expect(getBalance(LedgerAccountType.UserAvailable, 1)).toBe(30);
+    expect(getBalance(LedgerAccountType.UserUnavailable, 1)).toBe(70);
+
+    const transaction = await service.approveWithdrawTransactionFlow(
+      withdrawal.id,
+    );
+
+    expect(getBalance(LedgerAccountType.UserUnavailable, 1)).toBe(0);
+    expect(getBalance(LedgerAccountType.PaidOut)).toBe(70);
+    expect(getBalance(LedgerAccountType.PlatformRevenue)).toBe(-100);
+    // * balance snapshot of the user after the postings
+    expect(transaction).toMatchObject({
+      availableAmounts: new Decimal(30),
+      unavailableAmounts: new Decimal(0),
+    });
+  });
+
+  it('should return the declined payout to the platform revenue', async () => {
+    const salary = await createSalary();
+
+    await service.declineTransactionFlow(salary.id);
+
+    expect(getBalance(LedgerAccountType.PendingPayouts)).toBe(0);
+    expect(getBalance(LedgerAccountType.PlatformRevenue)).toBe(0);
+    expect(getBalance(LedgerAccountType.UserAvailable, 1)).toBe(0);
+  });
+
+  it('should reject approving or declining the flow twice', async () => {
+    const salary = await createSalary();
+
+    await service.approveTransactionFlow(salary.id);
+
+    await expect(service.approveTransactionFlow(salary.id)).rejects.toThrow(
+      TransactionOperationBadRequestException,
+    );
+    await expect(service.declineTransactionFlow(salary.id)).rejects.toThrow(
+      TransactionOperationBadRequestException,
+    );
+    expect(getBalance(LedgerAccountType.UserAvailable, 1)).toBe(100);
+  });
+
+  it('should reject approving the payout as a withdrawal', async () => {
+    const salary = await createSalary();
+
+    await expect(
+      service.approveWithdrawTransactionFlow(salary.id),
+    ).rejects.toThrow(TransactionOperationBadRequestException);
+    expect(getBalance(LedgerAccountType.PaidOut)).toBe(0);
+  });
+});
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../integrations/prisma/prisma.service';
 import {
   CreateTransactionFlowDto,
@@ -6,23 +6,52 @@ import {
   FinanceQueryParamsDto,
 } from './dto';
 import {
+  LedgerAccountType,
+  PayoutStatus,
   TransactionFlowType,
   TransactionStatus,
+  UserRole,
   withSelectors,
 } from 'src/utils';
 import {
+  ProductOrderSettlementBadRequestException,
   TransactionInsufficientFundsUnprocessableEntityException,
   TransactionOperationBadRequestException,
 } from './exceptions';
 import { Decimal } from '@prisma/client/runtime';
 import { NotificationsService } from '../notifications/notifications.service';
 import FinanceSelectors from './selectors';
+import { Prisma, TransactionFlow } from '@prisma/client';
+import { influencerAffiliateCommission } from 'src/config';
+import { ProductOrderInfluencerStatus } from '../platform-product/enums/product-order-influencer-status.enum';
+import { Status } from '../campaign/enums';
+import { LedgerService } from './ledger.service';
+import { PayoutMethodsService } from './payout-methods.service';
+
+interface ISettlementFlow {
+  userId: number;
+  type: TransactionFlowType;
+  amount: Decimal;
+  settlementKey: string;
+}
+
+// * flows paid out from the PendingPayouts reservation, withdrawals are reserved on the user instead
+const payoutTransactionFlowTypes = [
+  TransactionFlowType.Salary,
+  TransactionFlowType.Donation,
+  TransactionFlowType.Affiliate,
+  TransactionFlowType.Comission,
+];
 
 @Injectable()
 export class FinanceService {
+  private readonly logger = new Logger(FinanceService.name);
+
   constructor(
     private readonly prismaService: PrismaService,
     private readonly notificationsService: NotificationsService,
+    private readonly ledgerService: LedgerService,
+    private readonly payoutMethodsService: PayoutMethodsService,
   ) {}
 
   async getAllTransactions(dto: FinanceQueryParamsDto) {
@@ -66,8 +95,11 @@ export class FinanceService {
     });
   }
 
-  async getLastTransaction(userId: number) {
-    const transactions = await this.prismaService.transaction.findMany({
+  async getLastTransaction(
+    userId: number,
+    tx: Prisma.TransactionClient = this.prismaService,
+  ) {
+    const transactions = await tx.transaction.findMany({
       where: {
         transactionFlow: {
           userId,
@@ -82,8 +114,11 @@ export class FinanceService {
     return transactions.shift();
   }
 
-  async getLastTransactionInFlow(transactionFlowId: number) {
-    const transactions = await this.prismaService.transaction.findMany({
+  async getLastTransactionInFlow(
+    transactionFlowId: number,
+    tx: Prisma.TransactionClient = this.prismaService,
+  ) {
+    const transactions = await tx.transaction.findMany({
       where: {
         transactionFlowId,
       },
@@ -100,93 +135,332 @@ export class FinanceService {
   }
 
   async getBalance(userId: number) {
-    const balance = {
-      availableAmounts: 0,
-      unavailableAmounts: 0,
+    const { availableAmounts, unavailableAmounts } =
+      await this.ledgerService.getUserBalance(userId);
+
+    return {
+      availableAmounts: availableAmounts.toNumber(),
+      unavailableAmounts: unavailableAmounts.toNumber(),
     };
+  }
 
-    const lastTransaction = await this.getLastTransaction(userId);
+  /**
+   * Locks the flow, so concurrent requests can't approve or decline it twice.
+   * Flow of another type is rejected, as its ledger postings differ.
+   */
+  private async lockPendingTransactionFlow(
+    transactionFlowId: number,
+    action: string,
+    types: TransactionFlowType[],
+    tx: Prisma.TransactionClient,
+  ) {
+    await tx.$queryRaw`SELECT "id" FROM "transaction_flows" WHERE "id" = ${transactionFlowId} FOR UPDATE`;
 
-    if (lastTransaction) {
-      balance.availableAmounts = lastTransaction.availableAmounts.toNumber();
-      balance.unavailableAmounts =
-        lastTransaction.unavailableAmounts.toNumber();
+    const lastTransactionInFlow = await this.getLastTransactionInFlow(
+      transactionFlowId,
+      tx,
+    );
+
+    if (
+      lastTransactionInFlow?.status !== TransactionStatus.Pending ||
+      !types.includes(lastTransactionInFlow.transactionFlow.type)
+    ) {
+      throw new TransactionOperationBadRequestException(
+        transactionFlowId,
+        action,
+      );
     }
 
-    return balance;
+    return lastTransactionInFlow.transactionFlow;
+  }
+
+  /**
+   * Transaction keeps a snapshot of the user's balance after the ledger postings.
+   */
+  async createTransaction(
+    transactionFlow: TransactionFlow,
+    status: TransactionStatus,
+    tx: Prisma.TransactionClient,
+  ) {
+    const balance = await this.ledgerService.getUserBalance(
+      transactionFlow.userId,
+      tx,
+    );
+
+    return tx.transaction.create({
+      data: {
+        transactionFlowId: transactionFlow.id,
+        status,
+        ...balance,
+      },
+      include: {
+        transactionFlow: true,
+      },
+    });
+  }
+
+  private async reservePayout(
+    transactionFlow: TransactionFlow,
+    tx: Prisma.TransactionClient,
+  ) {
+    await this.ledgerService.post(
+      [
+        {
+          debit: { type: LedgerAccountType.PlatformRevenue },
+          credit: { type: LedgerAccountType.PendingPayouts },
+          amount: transactionFlow.amount,
+          transactionFlowId: transactionFlow.id,
+          description: 'Payout reserved',
+        },
+      ],
+      tx,
+    );
   }
 
   async createTransactionFlow(userId: number, dto: CreateTransactionFlowDto) {
     const { name, vendorId, type, amount, productOrderId } = dto;
 
-    const lastTransaction = await this.getLastTransaction(userId);
+    const { transactionFlow, transaction } =
+      await this.prismaService.$transaction(async (tx) => {
+        const transactionFlow = await tx.transactionFlow.create({
+          data: {
+            name,
+            vendorId,
+            userId,
+            type,
+            amount,
+            productOrderId,
+          },
+        });
 
-    const amounts = {
-      availableAmounts: new Decimal(0),
-      unavailableAmounts: new Decimal(0),
-    };
+        await this.reservePayout(transactionFlow, tx);
+
+        const transaction = await this.createTransaction(
+          transactionFlow,
+          TransactionStatus.Pending,
+          tx,
+        );
+
+        return { transactionFlow, transaction };
+      });
+
+    await this.notificationsService.paymentRequested(
+      userId,
+      transaction.id,
+      transactionFlow.id,
+    );
+
+    return transactionFlow;
+  }
 
-    if (lastTransaction) {
-      amounts.availableAmounts = lastTransaction.availableAmounts;
-      amounts.unavailableAmounts = lastTransaction.unavailableAmounts;
+  /**
+   * Creates pending transaction flows for influencers with approved submissions:
+   * * "Salary" for the agreed amount
+   * * "Affiliate" for the influencer who invited the influencer
+   * * "Comission" for the ambassador of the client
+   *
+   * Each flow has a settlement key, so running the settlement again for the same order
+   * creates only missing flows. It should run in the same DB transaction as the order status change.
+   */
+  async settleProductOrder(
+    productOrderId: number,
+    tx: Prisma.TransactionClient,
+  ) {
+    const productOrder = await tx.platformProductOrder.findUniqueOrThrow({
+      where: { id: productOrderId },
+      include: {
+        client: { include: { ambassador: true } },
+        campaigns: { select: { name: true } },
+        surveys: { select: { name: true } },
+        platformProductOrderInfluencers: {
+          where: {
+            status: ProductOrderInfluencerStatus.Approved,
+            salaryTransactionFlowId: null,
+          },
+          include: {
+            influencer: { include: { invitedByUser: true } },
+          },
+        },
+      },
+    });
+    const name = [...productOrder.campaigns, ...productOrder.surveys].shift()
+      ?.name;
+    const ambassador = productOrder.client.ambassador;
+    const transactionFlows: Prisma.TransactionFlowGetPayload<{
+      include: { transactions: true };
+    }>[] = [];
+
+    for (const productOrderInfluencer of productOrder.platformProductOrderInfluencers) {
+      const { id, agreedAmount, influencer } = productOrderInfluencer;
+      const flows: ISettlementFlow[] = [
+        {
+          userId: influencer.userId,
+          type: TransactionFlowType.Salary,
+          amount: agreedAmount,
+          settlementKey: `salary:${id}`,
+        },
+      ];
+
+      if (influencer.invitedByUser?.role === UserRole.Influencer) {
+        flows.push({
+          userId: influencer.invitedByUser.id,
+          type: TransactionFlowType.Affiliate,
+          amount: agreedAmount.mul(influencerAffiliateCommission),
+          settlementKey: `affiliate:${id}`,
+        });
+      }
+
+      if (ambassador && productOrder.ambassadorCommission?.greaterThan(0)) {
+        flows.push({
+          userId: ambassador.userId,
+          type: TransactionFlowType.Comission,
+          amount: agreedAmount.mul(productOrder.ambassadorCommission),
+          settlementKey: `commission:${id}`,
+        });
+      }
+
+      const existingFlows = await tx.transactionFlow.findMany({
+        where: {
+          settlementKey: { in: flows.map((flow) => flow.settlementKey) },
+        },
+      });
+      let salaryTransactionFlowId = existingFlows.find(
+        (flow) => flow.type === TransactionFlowType.Salary,
+      )?.id;
+
+      for (const flow of flows) {
+        if (existingFlows.some((f) => f.settlementKey === flow.settlementKey))
+          continue;
+
+        const transactionFlow = await this.createSettlementFlow(
+          { ...flow, name, productOrderId },
+          tx,
+        );
+
+        if (flow.type === TransactionFlowType.Salary) {
+          salaryTransactionFlowId = transactionFlow.id;
+        }
+        transactionFlows.push(transactionFlow);
+      }
+
+      await tx.platformProductOrderInfluencer.update({
+        where: { id },
+        data: {
+          status: ProductOrderInfluencerStatus.ToBePaid,
+          payoutStatus: PayoutStatus.Pending,
+          settledAt: new Date(),
+          salaryTransactionFlowId,
+        },
+      });
     }
 
-    const transactionFlow = await this.prismaService.transactionFlow.create({
+    this.logger.log(
+      `Product order ${productOrderId} settled: ${productOrder.platformProductOrderInfluencers.length} influencer(s), ${transactionFlows.length} transaction flow(s)`,
+    );
+
+    return transactionFlows;
+  }
+
+  private async createSettlementFlow(
+    {
+      name,
+      productOrderId,
+      ...flow
+    }: ISettlementFlow & { name?: string; productOrderId: number },
+    tx: Prisma.TransactionClient,
+  ) {
+    const transactionFlow = await tx.transactionFlow.create({
       data: {
+        ...flow,
         name,
-        vendorId,
-        userId,
-        type,
-        amount,
         productOrderId,
       },
     });
 
-    const transaction = await this.prismaService.transaction.create({
-      data: {
-        transactionFlowId: transactionFlow.id,
-        ...amounts,
-        status: TransactionStatus.Pending,
-      },
-    });
+    await this.reservePayout(transactionFlow, tx);
 
-    await this.notificationsService.paymentRequested(
-      userId,
-      transaction.id,
-      transactionFlow.id,
+    const transaction = await this.createTransaction(
+      transactionFlow,
+      TransactionStatus.Pending,
+      tx,
     );
 
-    return transactionFlow;
+    return { ...transactionFlow, transactions: [transaction] };
   }
 
-  async approveTransactionFlow(transactionFlowId: number) {
-    const lastTransactionInFlow = await this.getLastTransactionInFlow(
-      transactionFlowId,
+  /**
+   * Notifications are sent after the settlement transaction is committed.
+   */
+  async notifySettlement(
+    transactionFlows: Prisma.TransactionFlowGetPayload<{
+      include: { transactions: true };
+    }>[],
+  ) {
+    for (const { id, userId, transactions } of transactionFlows) {
+      await this.notificationsService.paymentRequested(
+        userId,
+        transactions[0].id,
+        id,
+      );
+    }
+  }
+
+  async settleFinishedProductOrder(productOrderId: number) {
+    const productOrder =
+      await this.prismaService.platformProductOrder.findUniqueOrThrow({
+        where: { id: productOrderId },
+      });
+
+    if (![Status.Finished, Status.Archived].includes(productOrder.status)) {
+      throw new ProductOrderSettlementBadRequestException(productOrderId);
+    }
+
+    const transactionFlows = await this.prismaService.$transaction((tx) =>
+      this.settleProductOrder(productOrderId, tx),
     );
 
-    if (lastTransactionInFlow.status !== TransactionStatus.Pending) {
-      throw new TransactionOperationBadRequestException(
+    await this.notifySettlement(transactionFlows);
+
+    return transactionFlows;
+  }
+
+  async approveTransactionFlow(transactionFlowId: number) {
+    const transaction = await this.prismaService.$transaction(async (tx) => {
+      const transactionFlow = await this.lockPendingTransactionFlow(
         transactionFlowId,
         'approve',
+        payoutTransactionFlowTypes,
+        tx,
       );
-    }
 
-    const lastTransaction = await this.getLastTransaction(
-      lastTransactionInFlow.transactionFlow.userId,
-    );
+      await this.ledgerService.post(
+        [
+          {
+            debit: { type: LedgerAccountType.PendingPayouts },
+            credit: {
+              type: LedgerAccountType.UserAvailable,
+              userId: transactionFlow.userId,
+            },
+            amount: transactionFlow.amount,
+            transactionFlowId,
+            description: 'Payout approved',
+          },
+        ],
+        tx,
+      );
+      await tx.platformProductOrderInfluencer.updateMany({
+        where: { salaryTransactionFlowId: transactionFlowId },
+        data: {
+          status: ProductOrderInfluencerStatus.Paid,
+          payoutStatus: PayoutStatus.Approved,
+        },
+      });
 
-    const transaction = await this.prismaService.transaction.create({
-      data: {
-        availableAmounts: lastTransaction.availableAmounts.add(
-          lastTransactionInFlow.transactionFlow.amount,
-        ),
-        unavailableAmounts: lastTransaction.unavailableAmounts,
-        transactionFlowId: lastTransactionInFlow.transactionFlowId,
-        status: TransactionStatus.Approved,
-      },
-      include: {
-        transactionFlow: true,
-      },
+      return this.createTransaction(
+        transactionFlow,
+        TransactionStatus.Approved,
+        tx,
+      );
     });
 
     await this.notificationsService.paymentApproved(
@@ -199,31 +473,39 @@ export class FinanceService {
   }
 
   async declineTransactionFlow(transactionFlowId: number) {
-    const lastTransactionInFlow = await this.getLastTransactionInFlow(
-      transactionFlowId,
-    );
-
-    if (lastTransactionInFlow.status !== TransactionStatus.Pending) {
-      throw new TransactionOperationBadRequestException(
+    const transaction = await this.prismaService.$transaction(async (tx) => {
+      const transactionFlow = await this.lockPendingTransactionFlow(
         transactionFlowId,
         'decline',
+        payoutTransactionFlowTypes,
+        tx,
       );
-    }
 
-    const lastTransaction = await this.getLastTransaction(
-      lastTransactionInFlow.transactionFlow.userId,
-    );
+      await this.ledgerService.post(
+        [
+          {
+            debit: { type: LedgerAccountType.PendingPayouts },
+            credit: { type: LedgerAccountType.PlatformRevenue },
+            amount: transactionFlow.amount,
+            transactionFlowId,
+            description: 'Payout declined',
+          },
+        ],
+        tx,
+      );
+      await tx.platformProductOrderInfluencer.updateMany({
+        where: { salaryTransactionFlowId: transactionFlowId },
+        data: {
+          status: ProductOrderInfluencerStatus.Declined,
+          payoutStatus: PayoutStatus.Declined,
+        },
+      });
 
-    const transaction = await this.prismaService.transaction.create({
-      data: {
-        availableAmounts: lastTransaction.availableAmounts,
-        unavailableAmounts: lastTransaction.unavailableAmounts,
-        transactionFlowId: lastTransactionInFlow.transactionFlowId,
-        status: TransactionStatus.Declined,
-      },
-      include: {
-        transactionFlow: true,
-      },
+      return this.createTransaction(
+        transactionFlow,
+        TransactionStatus.Declined,
+        tx,
+      );
     });
 
     await this.notificationsService.paymentDeclined(
@@ -240,36 +522,57 @@ export class FinanceService {
     dto: CreateWithdrawTransactionDto,
   ) {
     const amount = new Decimal(dto.amount);
-
-    const lastTransaction = await this.getLastTransaction(userId);
-
-    const amounts = {
-      availableAmounts: new Decimal(0),
-      unavailableAmounts: new Decimal(0),
+    const availableAccount = {
+      type: LedgerAccountType.UserAvailable,
+      userId,
     };
 
-    if (lastTransaction) {
-      amounts.availableAmounts = lastTransaction.availableAmounts;
-      amounts.unavailableAmounts = lastTransaction.unavailableAmounts;
-    }
+    const transaction = await this.prismaService.$transaction(async (tx) => {
+      const accounts = await this.ledgerService.lockAccounts(
+        [availableAccount],
+        tx,
+      );
+      const availableAmounts = accounts.get(
+        this.ledgerService.getAccountKey(availableAccount),
+      ).balance;
 
-    if (amounts.availableAmounts.sub(amount).lessThan(new Decimal(0))) {
-      throw new TransactionInsufficientFundsUnprocessableEntityException();
-    }
+      if (availableAmounts.sub(amount).lessThan(new Decimal(0))) {
+        throw new TransactionInsufficientFundsUnprocessableEntityException();
+      }
 
-    const transaction = await this.prismaService.transactionFlow.create({
-      data: {
+      const payoutMethod = await this.payoutMethodsService.findForWithdrawal(
         userId,
-        amount,
-        type: TransactionFlowType.Withdrawal,
-        transactions: {
-          create: {
-            status: TransactionStatus.Pending,
-            availableAmounts: amounts.availableAmounts.sub(amount),
-            unavailableAmounts: amounts.unavailableAmounts.add(amount),
-          },
+        dto.payoutMethodId,
+        tx,
+      );
+      const transactionFlow = await tx.transactionFlow.create({
+        data: {
+          userId,
+          amount,
+          type: TransactionFlowType.Withdrawal,
+          payoutMethodId: payoutMethod.id,
         },
-      },
+      });
+
+      await this.ledgerService.post(
+        [
+          {
+            debit: availableAccount,
+            credit: { type: LedgerAccountType.UserUnavailable, userId },
+            amount,
+            transactionFlowId: transactionFlow.id,
+            description: 'Withdrawal requested',
+          },
+        ],
+        tx,
+      );
+      await this.createTransaction(
+        transactionFlow,
+        TransactionStatus.Pending,
+        tx,
+      );
+
+      return transactionFlow;
     });
 
     await this.notificationsService.withdrawRequested(userId, transaction.id);
@@ -277,34 +580,57 @@ export class FinanceService {
     return transaction;
   }
 
-  async approveWithdrawTransactionFlow(transactionFlowId: number) {
-    const lastTransactionInFlow = await this.getLastTransactionInFlow(
-      transactionFlowId,
-    );
+  /**
+   * Withdrawals with their latest status and masked payout details, for the approval.
+   */
+  async getWithdrawTransactionFlows() {
+    const transactionFlows = await this.prismaService.transactionFlow.findMany({
+      where: { type: TransactionFlowType.Withdrawal },
+      include: {
+        payoutMethod: true,
+        transactions: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
 
-    if (lastTransactionInFlow.status !== TransactionStatus.Pending) {
-      throw new TransactionOperationBadRequestException(
+    return transactionFlows.map(({ payoutMethod, transactions, ...data }) => ({
+      ...data,
+      status: transactions[0]?.status,
+      payoutMethod:
+        payoutMethod && this.payoutMethodsService.mask(payoutMethod),
+    }));
+  }
+
+  async approveWithdrawTransactionFlow(transactionFlowId: number) {
+    const transaction = await this.prismaService.$transaction(async (tx) => {
+      const transactionFlow = await this.lockPendingTransactionFlow(
         transactionFlowId,
         'approve',
+        [TransactionFlowType.Withdrawal],
+        tx,
       );
-    }
 
-    const lastTransaction = await this.getLastTransaction(
-      lastTransactionInFlow.transactionFlow.userId,
-    );
+      await this.ledgerService.post(
+        [
+          {
+            debit: {
+              type: LedgerAccountType.UserUnavailable,
+              userId: transactionFlow.userId,
+            },
+            credit: { type: LedgerAccountType.PaidOut },
+            amount: transactionFlow.amount,
+            transactionFlowId,
+            description: 'Withdrawal approved',
+          },
+        ],
+        tx,
+      );
 
-    const transaction = await this.prismaService.transaction.create({
-      data: {
-        availableAmounts: lastTransaction.availableAmounts,
-        unavailableAmounts: lastTransaction.unavailableAmounts.sub(
-          lastTransactionInFlow.transactionFlow.amount,
-        ),
-        transactionFlowId: lastTransactionInFlow.transactionFlowId,
-        status: TransactionStatus.Approved,
-      },
-      include: {
-        transactionFlow: true,
-      },
+      return this.createTransaction(
+        transactionFlow,
+        TransactionStatus.Approved,
+        tx,
+      );
     });
 
     await this.notificationsService.withdrawApproved(
@@ -316,35 +642,38 @@ export class FinanceService {
   }
 
   async declineWithdrawTransactionFlow(transactionFlowId: number) {
-    const lastTransactionInFlow = await this.getLastTransactionInFlow(
-      transactionFlowId,
-    );
-
-    if (lastTransactionInFlow.status !== TransactionStatus.Pending) {
-      throw new TransactionOperationBadRequestException(
+    const transaction = await this.prismaService.$transaction(async (tx) => {
+      const transactionFlow = await this.lockPendingTransactionFlow(
         transactionFlowId,
         'decline',
+        [TransactionFlowType.Withdrawal],
+        tx,
       );
-    }
 
-    const lastTransaction = await this.getLastTransaction(
-      lastTransactionInFlow.transactionFlow.userId,
-    );
+      await this.ledgerService.post(
+        [
+          {
+            debit: {
+              type: LedgerAccountType.UserUnavailable,
+              userId: transactionFlow.userId,
+            },
+            credit: {
+              type: LedgerAccountType.UserAvailable,
+              userId: transactionFlow.userId,
+            },
+            amount: transactionFlow.amount,
+            transactionFlowId,
+            description: 'Withdrawal declined',
+          },
+        ],
+        tx,
+      );
 
-    const transaction = await this.prismaService.transaction.create({
-      data: {
-        availableAmounts: lastTransaction.availableAmounts.add(
-          lastTransactionInFlow.transactionFlow.amount,
-        ),
-        unavailableAmounts: lastTransaction.unavailableAmounts.sub(
-          lastTransactionInFlow.transactionFlow.amount,
-        ),
-        transactionFlowId: lastTransactionInFlow.transactionFlowId,
-        status: TransactionStatus.Declined,
-      },
-      include: {
-        transactionFlow: true,
-      },
+      return this.createTransaction(
+        transactionFlow,
+        TransactionStatus.Declined,
+        tx,
+      );
     });
 
     await this.notificationsService.withdrawDeclined(
@@ -354,4 +683,8 @@ export class FinanceService {
 
     return transaction;
   }
+
+  async reconcileLedger() {
+    return this.ledgerService.reconcile();
+  }
 }
@@ -0,0 +1 @@
+export * from './ledger-posting.interface';
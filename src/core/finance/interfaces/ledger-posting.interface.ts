@@ -0,0 +1,16 @@
+import { Decimal } from '@prisma/client/runtime';
+import { LedgerAccountType } from 'src/utils';
+
+export interface ILedgerAccountReference {
+  type: LedgerAccountType;
+  // * only user accounts have a user
+  userId?: number;
+}
+
+export interface ILedgerPosting {
+  debit: ILedgerAccountReference;
+  credit: ILedgerAccountReference;
+  amount: Decimal;
+  transactionFlowId?: number;
+  description?: string;
+}
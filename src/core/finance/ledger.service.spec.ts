@@ -0,0 +1,199 @@
+import { LedgerAccount, LedgerEntry } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { LedgerAccountType } from 'src/utils';
+import { LedgerService } from './ledger.service';
+
+describe('LedgerService', () => {
+  let accounts: LedgerAccount[];
+  let entries: LedgerEntry[];
+  let snapshots: {
+    userId: number;
+    availableAmounts: Decimal;
+    unavailableAmounts: Decimal;
+  }[];
+
+  // * keeps the accounts and the entries in memory, the same client is used as the DB transaction
+  const prismaService = {
+    // * locks the accounts, or returns the balance snapshots of the users
+    $queryRaw: jest.fn(async () => snapshots),
+    ledgerAccount: {
+      createMany: jest.fn(async ({ data }) => {
+        for (const { key, type, userId } of data) {
+          if (accounts.some((account) => account.key === key)) continue;
+
+          accounts.push({
+            id: accounts.length + 1,
+            key,
+            type,
+            userId: userId ?? null,
+            balance: new Decimal(0),
+          } as LedgerAccount);
+        }
+      }),
+      findMany: jest.fn(async ({ where = {} } = {}) =>
+        accounts.filter(
+          (account) =>
+            (!where.key || where.key.in.includes(account.key)) &&
+            (where.userId === undefined || account.userId === where.userId),
+        ),
+      ),
+      update: jest.fn(async ({ where, data }) => {
+        const account = accounts.find(({ id }) => id === where.id);
+
+        account.balance = data.balance.increment
+          ? account.balance.add(data.balance.increment)
+          : account.balance.sub(data.balance.decrement);
+
+        return account;
+      }),
+    },
+    ledgerEntry: {
+      create: jest.fn(async ({ data }) => {
+        entries.push({ id: entries.length + 1, ...data });
+      }),
+      groupBy: jest.fn(async ({ by: [column] }) =>
+        [...new Set(entries.map((entry) => entry[column]))].map((id) => ({
+          [column]: id,
+          _sum: {
+            amount: Decimal.sum(
+              ...entries
+                .filter((entry) => entry[column] === id)
+                .map(({ amount }) => amount),
+            ),
+          },
+        })),
+      ),
+    },
+  };
+  const client = prismaService as unknown as PrismaService;
+  const service = new LedgerService(client);
+
+  const getBalance = (type: LedgerAccountType, userId?: number) =>
+    accounts
+      .find(
+        (account) => account.key === service.getAccountKey({ type, userId }),
+      )
+      ?.balance.toNumber();
+
+  beforeEach(() => {
+    accounts = [];
+    entries = [];
+    snapshots = [];
+  });
+
+  describe('post', () => {
+    it('should move the amount from the debit to the credit account', async () => {
+      await service.post(
+        [
+          {
+            debit: { type: LedgerAccountType.PlatformRevenue },
+            credit: { type: LedgerAccountType.PendingPayouts },
+            amount: new Decimal(100),
+          },
+          {
+            debit: { type: LedgerAccountType.PendingPayouts },
+            credit: { type: LedgerAccountType.UserAvailable, userId: 1 },
+            amount: new Decimal(60),
+          },
+        ],
+        client,
+      );
+
+      expect(getBalance(LedgerAccountType.PlatformRevenue)).toBe(-100);
+      expect(getBalance(LedgerAccountType.PendingPayouts)).toBe(40);
+      expect(getBalance(LedgerAccountType.UserAvailable, 1)).toBe(60);
+      expect(Decimal.sum(...accounts.map(({ balance }) => balance))).toEqual(
+        new Decimal(0),
+      );
+      expect(entries).toHaveLength(2);
+      expect(await service.getUserBalance(1, client)).toEqual({
+        availableAmounts: new Decimal(60),
+        unavailableAmounts: new Decimal(0),
+      });
+    });
+
+    it("shouldn't post the amount that isn't positive", async () => {
+      await service.post(
+        [
+          {
+            debit: { type: LedgerAccountType.PlatformRevenue },
+            credit: { type: LedgerAccountType.PendingPayouts },
+            amount: new Decimal(0),
+          },
+        ],
+        client,
+      );
+
+      expect(entries).toHaveLength(0);
+      expect(getBalance(LedgerAccountType.PendingPayouts)).toBe(0);
+    });
+  });
+
+  describe('reconcile', () => {
+    beforeEach(async () => {
+      await service.post(
+        [
+          {
+            debit: { type: LedgerAccountType.PlatformRevenue },
+            credit: { type: LedgerAccountType.UserAvailable, userId: 1 },
+            amount: new Decimal(100),
+          },
+        ],
+        client,
+      );
+    });
+
+    it('should find no drift in the balanced ledger', async () => {
+      snapshots = [
+        {
+          userId: 1,
+          availableAmounts: new Decimal(100),
+          unavailableAmounts: new Decimal(0),
+        },
+      ];
+
+      expect(await service.reconcile()).toEqual({
+        accountsCount: 2,
+        isBalanced: true,
+        drifts: [],
+      });
+    });
+
+    it('should report the stored balance and the snapshot that differ from the entries', async () => {
+      accounts[1].balance = new Decimal(90);
+      snapshots = [
+        {
+          userId: 1,
+          availableAmounts: new Decimal(80),
+          unavailableAmounts: new Decimal(0),
+        },
+        {
+          userId: 2,
+          availableAmounts: new Decimal(5),
+          unavailableAmounts: new Decimal(0),
+        },
+      ];
+
+      const { isBalanced, drifts } = await service.reconcile();
+
+      expect(isBalanced).toBe(true);
+      expect(drifts).toEqual([
+        expect.objectContaining({
+          key: 'user:1:available',
+          balance: 90,
+          entriesBalance: 100,
+          snapshotBalance: 80,
+          hasBalanceDrift: true,
+          hasSnapshotDrift: true,
+        }),
+        expect.objectContaining({
+          accountId: null,
+          userId: 2,
+          snapshotBalance: 5,
+          hasSnapshotDrift: true,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LedgerAccount, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { LedgerAccountType } from 'src/utils';
+import { ILedgerAccountReference, ILedgerPosting } from './interfaces';
+
+const accountKeyNames: Record<LedgerAccountType, string> = {
+  [LedgerAccountType.UserAvailable]: 'available',
+  [LedgerAccountType.UserUnavailable]: 'unavailable',
+  [LedgerAccountType.PlatformRevenue]: 'revenue',
+  [LedgerAccountType.PendingPayouts]: 'pending-payouts',
+  [LedgerAccountType.PaidOut]: 'paid-out',
+};
+
+/**
+ * Append-only double-entry ledger. Every posting moves an amount from the debit
+ * to the credit account, so the sum of all account balances is always zero.
+ *
+ * Account rows are locked (SELECT ... FOR UPDATE) for the rest of the DB transaction,
+ * so concurrent postings to the same account are serialized.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  getAccountKey({ type, userId }: ILedgerAccountReference) {
+    return userId !== undefined
+      ? `user:${userId}:${accountKeyNames[type]}`
+      : `platform:${accountKeyNames[type]}`;
+  }
+
+  /**
+   * Creates missing accounts and locks them, always in the same (ID) order to avoid deadlocks.
+   */
+  async lockAccounts(
+    references: ILedgerAccountReference[],
+    tx: Prisma.TransactionClient,
+  ) {
+    const accountsData = references.map((reference) => ({
+      key: this.getAccountKey(reference),
+      type: reference.type,
+      userId: reference.userId,
+    }));
+    const keys = [...new Set(accountsData.map((account) => account.key))];
+
+    await tx.ledgerAccount.createMany({
+      data: accountsData,
+      skipDuplicates: true,
+    });
+    await tx.$queryRaw`SELECT "id" FROM "ledger_accounts" WHERE "key" IN (${Prisma.join(
+      keys,
+    )}) ORDER BY "id" FOR UPDATE`;
+
+    const accounts = await tx.ledgerAccount.findMany({
+      where: { key: { in: keys } },
+    });
+
+    return new Map<string, LedgerAccount>(
+      accounts.map((account) => [account.key, account]),
+    );
+  }
+
+  async post(postings: ILedgerPosting[], tx: Prisma.TransactionClient) {
+    const accounts = await this.lockAccounts(
+      postings.flatMap(({ debit, credit }) => [debit, credit]),
+      tx,
+    );
+
+    for (const { debit, credit, amount, ...posting } of postings) {
+      if (amount.lessThanOrEqualTo(0)) continue;
+
+      const debitAccount = accounts.get(this.getAccountKey(debit));
+      const creditAccount = accounts.get(this.getAccountKey(credit));
+
+      await tx.ledgerEntry.create({
+        data: {
+          ...posting,
+          amount,
+          debitAccountId: debitAccount.id,
+          creditAccountId: creditAccount.id,
+        },
+      });
+      await tx.ledgerAccount.update({
+        where: { id: debitAccount.id },
+        data: { balance: { decrement: amount } },
+      });
+      await tx.ledgerAccount.update({
+        where: { id: creditAccount.id },
+        data: { balance: { increment: amount } },
+      });
+    }
+  }
+
+  async getUserBalance(
+    userId: number,
+    tx: Prisma.TransactionClient = this.prismaService,
+  ) {
+    const accounts = await tx.ledgerAccount.findMany({
+      where: { userId },
+    });
+    const getBalance = (type: LedgerAccountType) =>
+      accounts.find((account) => account.type === type)?.balance ??
+      new Decimal(0);
+
+    return {
+      availableAmounts: getBalance(LedgerAccountType.UserAvailable),
+      unavailableAmounts: getBalance(LedgerAccountType.UserUnavailable),
+    };
+  }
+
+  /**
+   * Recomputes balances from ledger entries and compares them with the stored account balances
+   * and with the (legacy) balance snapshots of the latest user transactions.
+   */
+  async reconcile() {
+    const accounts = await this.prismaService.ledgerAccount.findMany({
+      orderBy: { id: 'asc' },
+    });
+    const credits = await this.prismaService.ledgerEntry.groupBy({
+      by: ['creditAccountId'],
+      _sum: { amount: true },
+    });
+    const debits = await this.prismaService.ledgerEntry.groupBy({
+      by: ['debitAccountId'],
+      _sum: { amount: true },
+    });
+    const snapshots = await this.prismaService.$queryRaw<
+      {
+        userId: number;
+        availableAmounts: Decimal;
+        unavailableAmounts: Decimal;
+      }[]
+    >`SELECT DISTINCT ON (tf."userId") tf."userId", t."availableAmounts", t."unavailableAmounts"
+      FROM "transactions" t
+      JOIN "transaction_flows" tf ON tf."id" = t."transactionFlowId"
+      ORDER BY tf."userId", t."createdAt" DESC, t."id" DESC`;
+
+    let total = new Decimal(0);
+    const drifts = [];
+
+    for (const account of accounts) {
+      const credit =
+        credits.find((c) => c.creditAccountId === account.id)?._sum.amount ??
+        new Decimal(0);
+      const debit =
+        debits.find((d) => d.debitAccountId === account.id)?._sum.amount ??
+        new Decimal(0);
+      const entriesBalance = credit.sub(debit);
+      const snapshot = snapshots.find((s) => s.userId === account.userId);
+      let snapshotBalance: Decimal;
+
+      if (snapshot && account.type === LedgerAccountType.UserAvailable) {
+        snapshotBalance = new Decimal(snapshot.availableAmounts);
+      } else if (
+        snapshot &&
+        account.type === LedgerAccountType.UserUnavailable
+      ) {
+        snapshotBalance = new Decimal(snapshot.unavailableAmounts);
+      }
+
+      total = total.add(entriesBalance);
+
+      const hasBalanceDrift = !account.balance.equals(entriesBalance);
+      const hasSnapshotDrift =
+        snapshotBalance !== undefined &&
+        !snapshotBalance.equals(entriesBalance);
+
+      if (hasBalanceDrift || hasSnapshotDrift) {
+        drifts.push({
+          accountId: account.id,
+          key: account.key,
+          userId: account.userId,
+          balance: account.balance.toNumber(),
+          entriesBalance: entriesBalance.toNumber(),
+          snapshotBalance: snapshotBalance?.toNumber() ?? null,
+          hasBalanceDrift,
+          hasSnapshotDrift,
+        });
+      }
+    }
+
+    // * users with snapshots but without ledger accounts
+    for (const snapshot of snapshots) {
+      if (accounts.some((account) => account.userId === snapshot.userId))
+        continue;
+
+      drifts.push({
+        accountId: null,
+        key: this.getAccountKey({
+          type: LedgerAccountType.UserAvailable,
+          userId: snapshot.userId,
+        }),
+        userId: snapshot.userId,
+        balance: null,
+        entriesBalance: 0,
+        snapshotBalance: new Decimal(snapshot.availableAmounts).toNumber(),
+        hasBalanceDrift: false,
+        hasSnapshotDrift: true,
+      });
+    }
+
+    if (drifts.length || !total.isZero()) {
+      this.logger.warn(
+        `Ledger reconciliation found ${drifts.length} drift(s), total balance ${total}`,
+      );
+    }
+
+    return {
+      accountsCount: accounts.length,
+      isBalanced: total.isZero(),
+      drifts,
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  FileTypeValidator,
+  Get,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  ParseIntPipe,
+  Post,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { NoAutoSerialize } from 'src/decorators/no-auto-serialize.decorator';
+import { Action } from '../auth/ability';
+import { CheckAbilities } from '../auth/ability/decorators/ability.decorator';
+import { ApiFile } from '../file-manager/decorators/api-file.decorator';
+import { PayoutBatchEntity } from './entities';
+import { PayoutBatchesService } from './payout-batches.service';
+
+@Controller('finance/payoutBatches')
+@ApiTags('finance')
+export class PayoutBatchesController {
+  constructor(private readonly payoutBatchesService: PayoutBatchesService) {}
+
+  @Post()
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiOperation({
+    summary: 'Export a SEPA payout batch',
+    description:
+      'Collects approved withdrawals and salaries to be paid into a SEPA credit transfer (pain.001) batch and marks them as processing. Payouts without a payout method, in other currencies than EUR or with more than 2 decimals are returned as skipped.',
+  })
+  async create() {
+    return new PayoutBatchEntity(await this.payoutBatchesService.create());
+  }
+
+  @Get()
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  async findAll() {
+    const payoutBatches = await this.payoutBatchesService.findAll();
+
+    return payoutBatches.map(
+      (payoutBatch) => new PayoutBatchEntity(payoutBatch),
+    );
+  }
+
+  @Get(':id/file')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiOperation({
+    summary: 'Download the SEPA file of the payout batch',
+    description:
+      'Returns the pain.001.001.03 XML file of the batch, to be uploaded to the bank.',
+  })
+  @NoAutoSerialize()
+  async getFile(@Param('id', ParseIntPipe) id: number, @Res() res: Response) {
+    const { fileName, contentType, content } =
+      await this.payoutBatchesService.getFile(id);
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    return res.send(content);
+  }
+
+  @Post('returns')
+  @CheckAbilities({ action: Action.Manage, subject: 'PlatformProductOrder' })
+  @ApiFile('file', true)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import a bank return file',
+    description:
+      'Imports the payment status report (pain.002) of the bank. Payouts of the batch are marked as paid or declined, declined withdrawals are returned to the balance of the user.',
+  })
+  async importReturnFile(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 1024 * 1024 * 5 }),
+          new FileTypeValidator({ fileType: /xml|text\/plain/ }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+  ) {
+    return new PayoutBatchEntity(
+      await this.payoutBatchesService.importReturnFile(file),
+    );
+  }
+}
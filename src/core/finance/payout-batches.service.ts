@@ -0,0 +1,527 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { PayoutMethod, Prisma, TransactionFlow } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { addDays } from 'date-fns';
+import sepaConfig from 'src/config/sepa.config';
+import {
+  BadRequestApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import {
+  Currency,
+  LedgerAccountType,
+  PayoutBatchItemStatus,
+  PayoutStatus,
+  TransactionFlowType,
+  TransactionStatus,
+} from 'src/utils';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ProductOrderInfluencerStatus } from '../platform-product/enums/product-order-influencer-status.enum';
+import { FinanceService } from './finance.service';
+import { LedgerService } from './ledger.service';
+import { PayoutMethodsService } from './payout-methods.service';
+import {
+  buildSepaCreditTransfer,
+  getSepaControlSum,
+  getSepaEndToEndId,
+  getSepaMessageId,
+  isSepaAmount,
+  ISepaParty,
+  ISepaPaymentResult,
+  parseSepaPaymentStatusReport,
+  validateSepaCreditTransfer,
+} from './utils/sepa.util';
+
+interface IPayoutCandidate {
+  transactionFlow: TransactionFlow;
+  payoutMethod: PayoutMethod | null;
+  amount: Decimal;
+  remittanceInformation: string;
+  isEuro: boolean;
+}
+
+/**
+ * SEPA credit transfer files of approved withdrawals and unpaid salaries, and their bank return files.
+ * Items of an exported batch stay in processing until the bank reports them as paid or declined.
+ */
+@Injectable()
+export class PayoutBatchesService {
+  private readonly logger = new Logger(PayoutBatchesService.name);
+  private readonly payoutBatchInclude =
+    Prisma.validator<Prisma.PayoutBatchInclude>()({
+      payoutBatchItems: { orderBy: { id: 'asc' } },
+    });
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly financeService: FinanceService,
+    private readonly ledgerService: LedgerService,
+    private readonly payoutMethodsService: PayoutMethodsService,
+    private readonly notificationsService: NotificationsService,
+    @Inject(sepaConfig.KEY)
+    private readonly _sepaConfig: ConfigType<typeof sepaConfig>,
+  ) {}
+
+  private getDebtor(): ISepaParty {
+    const { name, iban, bic } = this._sepaConfig.debtor;
+
+    if (!iban || !bic) {
+      throw new BadRequestApplicationException(
+        `SEPA payouts are not configured, set SEPA_DEBTOR_IBAN and SEPA_DEBTOR_BIC`,
+      );
+    }
+
+    return { name, iban, bic };
+  }
+
+  /**
+   * Approved withdrawals that were not exported yet, and salaries to be paid whose flow is still pending.
+   */
+  private async findPayoutCandidates(tx: Prisma.TransactionClient) {
+    const latestTransaction =
+      Prisma.validator<Prisma.TransactionFindManyArgs>()({
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      });
+    const withdrawalFlows = await tx.transactionFlow.findMany({
+      where: {
+        type: TransactionFlowType.Withdrawal,
+        payoutBatchItems: { none: {} },
+      },
+      include: { payoutMethod: true, transactions: latestTransaction },
+      orderBy: { id: 'asc' },
+    });
+    const productOrderInfluencers =
+      await tx.platformProductOrderInfluencer.findMany({
+        where: {
+          status: ProductOrderInfluencerStatus.ToBePaid,
+          salaryTransactionFlow: {
+            payoutBatchItems: {
+              none: {
+                status: {
+                  in: [
+                    PayoutBatchItemStatus.Processing,
+                    PayoutBatchItemStatus.Paid,
+                  ],
+                },
+              },
+            },
+          },
+        },
+        include: {
+          salaryTransactionFlow: {
+            include: { transactions: latestTransaction },
+          },
+          influencer: {
+            include: {
+              user: {
+                include: {
+                  payoutMethods: {
+                    where: { isDefault: true, isDeleted: false },
+                  },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      });
+    const candidates: IPayoutCandidate[] = [];
+
+    for (const {
+      transactions,
+      payoutMethod,
+      ...transactionFlow
+    } of withdrawalFlows) {
+      if (transactions[0]?.status !== TransactionStatus.Approved) continue;
+
+      candidates.push({
+        transactionFlow,
+        payoutMethod,
+        amount: transactionFlow.amount,
+        remittanceInformation: `Withdrawal ${transactionFlow.id}`,
+        // * balances are kept in the default currency
+        isEuro: true,
+      });
+    }
+
+    for (const productOrderInfluencer of productOrderInfluencers) {
+      const { transactions, ...transactionFlow } =
+        productOrderInfluencer.salaryTransactionFlow;
+
+      if (transactions[0]?.status !== TransactionStatus.Pending) continue;
+
+      candidates.push({
+        transactionFlow,
+        payoutMethod:
+          productOrderInfluencer.influencer.user.payoutMethods[0] ?? null,
+        amount: productOrderInfluencer.agreedAmount,
+        remittanceInformation: ['Salary', transactionFlow.name]
+          .filter(Boolean)
+          .join(' - '),
+        isEuro: productOrderInfluencer.currency === Currency.euro,
+      });
+    }
+
+    return candidates;
+  }
+
+  private async buildFile(
+    payoutBatch: Prisma.PayoutBatchGetPayload<{
+      include: { payoutBatchItems: { include: { payoutMethod: true } } };
+    }>,
+  ) {
+    const xml = buildSepaCreditTransfer({
+      messageId: payoutBatch.messageId,
+      createdAt: payoutBatch.createdAt,
+      executionDate: payoutBatch.executionDate,
+      debtor: this.getDebtor(),
+      transfers: payoutBatch.payoutBatchItems.map((payoutBatchItem) => {
+        const payoutMethod = this.payoutMethodsService.getDetails(
+          payoutBatchItem.payoutMethod,
+        );
+
+        return {
+          endToEndId: payoutBatchItem.endToEndId,
+          amount: payoutBatchItem.amount,
+          creditor: {
+            name: `${payoutMethod.bankAccountFirstName} ${payoutMethod.bankAccountLastName}`,
+            iban: payoutMethod.iban,
+            bic: payoutMethod.swiftBic,
+          },
+          remittanceInformation: payoutBatchItem.remittanceInformation,
+        };
+      }),
+    });
+    const errors = await validateSepaCreditTransfer(xml);
+
+    if (errors.length) {
+      throw new BadRequestApplicationException(
+        `Payout batch ${
+          payoutBatch.messageId
+        } is not a valid SEPA credit transfer - ${errors.join('; ')}`,
+      );
+    }
+
+    return xml;
+  }
+
+  /**
+   * Exports payable items into a new batch and marks them as processing. Items that can't be paid by
+   * a SEPA transfer (missing payout method, other currency than EUR, more than 2 decimals) are skipped.
+   */
+  async create() {
+    this.getDebtor();
+
+    const skipped: { transactionFlowId: number; reason: string }[] = [];
+    const payoutBatch = await this.prismaService.$transaction(async (tx) => {
+      const candidates = (await this.findPayoutCandidates(tx)).filter(
+        ({ transactionFlow, payoutMethod, amount, isEuro }) => {
+          const reason = !payoutMethod
+            ? 'user has no payout method'
+            : !isEuro
+            ? 'amount is not in EUR'
+            : !isSepaAmount(amount)
+            ? 'amount must be positive with at most 2 decimals'
+            : undefined;
+
+          if (reason)
+            skipped.push({ transactionFlowId: transactionFlow.id, reason });
+
+          return !reason;
+        },
+      );
+
+      if (!candidates.length) {
+        throw new BadRequestApplicationException(
+          `There are no payouts to export${
+            skipped.length ? `, ${skipped.length} payout(s) were skipped` : ''
+          }`,
+        );
+      }
+
+      // * locked, so concurrent exports or approvals can't include the same flows
+      await tx.$queryRaw`SELECT "id" FROM "transaction_flows" WHERE "id" IN (${Prisma.join(
+        candidates.map(({ transactionFlow }) => transactionFlow.id),
+      )}) ORDER BY "id" FOR UPDATE`;
+
+      const createdAt = new Date();
+      const messageId = getSepaMessageId(createdAt);
+      const payoutBatch = await tx.payoutBatch.create({
+        data: {
+          messageId,
+          itemsCount: candidates.length,
+          controlSum: getSepaControlSum(candidates),
+          executionDate: addDays(createdAt, this._sepaConfig.executionDays),
+          createdAt,
+          payoutBatchItems: {
+            createMany: {
+              data: candidates.map(
+                ({ transactionFlow, payoutMethod, ...candidate }) => ({
+                  transactionFlowId: transactionFlow.id,
+                  payoutMethodId: payoutMethod.id,
+                  endToEndId: getSepaEndToEndId(messageId, transactionFlow.id),
+                  amount: candidate.amount,
+                  remittanceInformation: candidate.remittanceInformation,
+                  status: PayoutBatchItemStatus.Processing,
+                }),
+              ),
+            },
+          },
+        },
+        include: {
+          payoutBatchItems: {
+            include: { payoutMethod: true },
+            orderBy: { id: 'asc' },
+          },
+        },
+      });
+
+      for (const { transactionFlow } of candidates) {
+        const lastTransaction =
+          await this.financeService.getLastTransactionInFlow(
+            transactionFlow.id,
+            tx,
+          );
+        const expectedStatus =
+          transactionFlow.type === TransactionFlowType.Withdrawal
+            ? TransactionStatus.Approved
+            : TransactionStatus.Pending;
+
+        if (lastTransaction?.status !== expectedStatus) {
+          throw new BadRequestApplicationException(
+            `Transaction flow ${transactionFlow.id} changed during the export, try again`,
+          );
+        }
+
+        await tx.platformProductOrderInfluencer.updateMany({
+          where: { salaryTransactionFlowId: transactionFlow.id },
+          data: { payoutStatus: PayoutStatus.Processing },
+        });
+        await this.financeService.createTransaction(
+          transactionFlow,
+          TransactionStatus.Processing,
+          tx,
+        );
+      }
+
+      // * an invalid file rolls back the batch
+      await this.buildFile(payoutBatch);
+
+      return payoutBatch;
+    });
+
+    this.logger.log(
+      `Payout batch ${payoutBatch.messageId} exported: ${payoutBatch.itemsCount} payout(s), ${skipped.length} skipped`,
+    );
+
+    return { ...payoutBatch, skipped };
+  }
+
+  async findAll() {
+    return await this.prismaService.payoutBatch.findMany({
+      include: this.payoutBatchInclude,
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  async getFile(id: number) {
+    const payoutBatch = await this.prismaService.payoutBatch.findUnique({
+      where: { id },
+      include: {
+        payoutBatchItems: {
+          include: { payoutMethod: true },
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+
+    if (!payoutBatch) {
+      throw new NotFoundApplicationException(
+        `Payout batch with ID ${id} not found`,
+      );
+    }
+
+    return {
+      fileName: `${payoutBatch.messageId}.xml`,
+      contentType: 'application/xml',
+      content: await this.buildFile(payoutBatch),
+    };
+  }
+
+  private async applyPaymentResult(
+    transactionFlow: TransactionFlow,
+    { status }: ISepaPaymentResult,
+    tx: Prisma.TransactionClient,
+  ) {
+    const isWithdrawal =
+      transactionFlow.type === TransactionFlowType.Withdrawal;
+
+    if (status === PayoutBatchItemStatus.Paid) {
+      if (!isWithdrawal) {
+        // * salary was paid out directly, without the user's balance
+        await this.ledgerService.post(
+          [
+            {
+              debit: { type: LedgerAccountType.PendingPayouts },
+              credit: { type: LedgerAccountType.PaidOut },
+              amount: transactionFlow.amount,
+              transactionFlowId: transactionFlow.id,
+              description: 'Payout paid by bank transfer',
+            },
+          ],
+          tx,
+        );
+        await tx.platformProductOrderInfluencer.updateMany({
+          where: { salaryTransactionFlowId: transactionFlow.id },
+          data: {
+            status: ProductOrderInfluencerStatus.Paid,
+            payoutStatus: PayoutStatus.Approved,
+          },
+        });
+      }
+
+      return this.financeService.createTransaction(
+        transactionFlow,
+        TransactionStatus.Approved,
+        tx,
+      );
+    }
+
+    if (isWithdrawal) {
+      // * returned money is available to the user again
+      await this.ledgerService.post(
+        [
+          {
+            debit: { type: LedgerAccountType.PaidOut },
+            credit: {
+              type: LedgerAccountType.UserAvailable,
+              userId: transactionFlow.userId,
+            },
+            amount: transactionFlow.amount,
+            transactionFlowId: transactionFlow.id,
+            description: 'Withdrawal returned by the bank',
+          },
+        ],
+        tx,
+      );
+
+      return this.financeService.createTransaction(
+        transactionFlow,
+        TransactionStatus.Declined,
+        tx,
+      );
+    }
+
+    // * declined salary stays to be paid, eg. in the next batch after the payout method is fixed
+    await tx.platformProductOrderInfluencer.updateMany({
+      where: { salaryTransactionFlowId: transactionFlow.id },
+      data: { payoutStatus: PayoutStatus.Declined },
+    });
+
+    return this.financeService.createTransaction(
+      transactionFlow,
+      TransactionStatus.Pending,
+      tx,
+    );
+  }
+
+  /**
+   * Imports the payment status report (pain.002) of the bank. Items without a final status stay in processing,
+   * so the report can be imported again once the bank sends the final one.
+   */
+  async importReturnFile(file: Express.Multer.File) {
+    let report: ReturnType<typeof parseSepaPaymentStatusReport>;
+
+    try {
+      report = parseSepaPaymentStatusReport(file.buffer.toString('utf-8'));
+    } catch (error) {
+      throw new BadRequestApplicationException(error.message);
+    }
+
+    const payoutBatch = await this.prismaService.payoutBatch.findUnique({
+      where: { messageId: report.originalMessageId },
+      include: {
+        payoutBatchItems: {
+          where: { status: PayoutBatchItemStatus.Processing },
+          include: { transactionFlow: true },
+        },
+      },
+    });
+
+    if (!payoutBatch) {
+      throw new NotFoundApplicationException(
+        `Payout batch ${report.originalMessageId} not found`,
+      );
+    }
+
+    const transactions = await this.prismaService.$transaction(async (tx) => {
+      const transactions: Prisma.TransactionGetPayload<{
+        include: { transactionFlow: true };
+      }>[] = [];
+
+      for (const {
+        transactionFlow,
+        ...payoutBatchItem
+      } of payoutBatch.payoutBatchItems) {
+        const result =
+          report.results.get(payoutBatchItem.endToEndId) ??
+          report.defaultResult;
+
+        if (!result) continue;
+
+        // * guards against importing the same report concurrently
+        const { count } = await tx.payoutBatchItem.updateMany({
+          where: {
+            id: payoutBatchItem.id,
+            status: PayoutBatchItemStatus.Processing,
+          },
+          data: { status: result.status, statusReason: result.reasonCode },
+        });
+
+        if (!count) continue;
+
+        transactions.push(
+          await this.applyPaymentResult(transactionFlow, result, tx),
+        );
+      }
+
+      return transactions;
+    });
+
+    for (const transaction of transactions) {
+      const {
+        userId,
+        type,
+        id: transactionFlowId,
+      } = transaction.transactionFlow;
+
+      if (
+        transaction.status === TransactionStatus.Approved &&
+        type !== TransactionFlowType.Withdrawal
+      ) {
+        await this.notificationsService.paymentApproved(
+          userId,
+          transaction.id,
+          transactionFlowId,
+        );
+      } else if (transaction.status === TransactionStatus.Declined) {
+        await this.notificationsService.withdrawDeclined(
+          userId,
+          transaction.id,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Payout batch ${payoutBatch.messageId}: ${transactions.length} payout(s) updated from the bank report`,
+    );
+
+    return await this.prismaService.payoutBatch.findUnique({
+      where: { id: payoutBatch.id },
+      include: this.payoutBatchInclude,
+    });
+  }
+}
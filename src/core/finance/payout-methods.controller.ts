@@ -0,0 +1,59 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { AuthUser } from '../auth/decorators';
+import { CreatePayoutMethodDto } from './dto';
+import { PayoutMethodEntity } from './entities';
+import { PayoutMethodsService } from './payout-methods.service';
+
+@Controller('finance/payoutMethods')
+@ApiTags('finance')
+export class PayoutMethodsController {
+  constructor(private readonly payoutMethodsService: PayoutMethodsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Add a payout method',
+    description:
+      'Saves the bank account of the user for withdrawals. IBAN and BIC are validated, and returned masked.',
+  })
+  async create(@AuthUser() user: User, @Body() dto: CreatePayoutMethodDto) {
+    return new PayoutMethodEntity(
+      await this.payoutMethodsService.create(user.id, dto),
+    );
+  }
+
+  @Get()
+  async findAll(@AuthUser() user: User) {
+    const payoutMethods = await this.payoutMethodsService.findAll(user.id);
+
+    return payoutMethods.map(
+      (payoutMethod) => new PayoutMethodEntity(payoutMethod),
+    );
+  }
+
+  @Post(':id/default')
+  async setDefault(
+    @AuthUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return new PayoutMethodEntity(
+      await this.payoutMethodsService.setDefault(id, user.id),
+    );
+  }
+
+  @Delete(':id')
+  async delete(@AuthUser() user: User, @Param('id', ParseIntPipe) id: number) {
+    return new PayoutMethodEntity(
+      await this.payoutMethodsService.delete(id, user.id),
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { PayoutMethod, Prisma } from '@prisma/client';
+import securityConfig from 'src/config/security.config';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { dencryptCBC, encryptCBC } from 'src/utils/security/crypto';
+import { CreatePayoutMethodDto } from './dto';
+import { PayoutMethodNotFoundException } from './exceptions';
+import { maskBic, maskIban } from './utils/payout-method.util';
+
+/**
+ * Bank details of users for withdrawals. IBAN, BIC and the bank address are encrypted at rest.
+ */
+@Injectable()
+export class PayoutMethodsService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(securityConfig.KEY)
+    private readonly _securityConfig: ConfigType<typeof securityConfig>,
+  ) {}
+
+  private encrypt(value: string) {
+    const { iv, encrypted } = encryptCBC(
+      value,
+      this._securityConfig.encryptionKey,
+    );
+
+    return `${iv}:${encrypted}`;
+  }
+
+  private decrypt(encryptedValue: string) {
+    const [iv, encrypted] = encryptedValue.split(':');
+
+    return dencryptCBC(encrypted, this._securityConfig.encryptionKey, iv);
+  }
+
+  /**
+   * Full bank details, eg. for the payment order. Never return these to the client.
+   */
+  getDetails(payoutMethod: PayoutMethod): PayoutMethod {
+    return {
+      ...payoutMethod,
+      bankAddress: this.decrypt(payoutMethod.bankAddress),
+      iban: this.decrypt(payoutMethod.iban),
+      swiftBic: this.decrypt(payoutMethod.swiftBic),
+    };
+  }
+
+  mask(payoutMethod: PayoutMethod): PayoutMethod {
+    const details = this.getDetails(payoutMethod);
+
+    return {
+      ...details,
+      iban: maskIban(details.iban),
+      swiftBic: maskBic(details.swiftBic),
+    };
+  }
+
+  private async findOneOfUser(
+    id: number,
+    userId: number,
+    tx: Prisma.TransactionClient = this.prismaService,
+  ) {
+    const payoutMethod = await tx.payoutMethod.findFirst({
+      where: { id, userId, isDeleted: false },
+    });
+
+    if (!payoutMethod) throw new PayoutMethodNotFoundException(id);
+
+    return payoutMethod;
+  }
+
+  async create(userId: number, dto: CreatePayoutMethodDto) {
+    const { isDefault, bankAddress, iban, swiftBic, ...data } = dto;
+
+    const payoutMethod = await this.prismaService.$transaction(async (tx) => {
+      const activeCount = await tx.payoutMethod.count({
+        where: { userId, isDeleted: false },
+      });
+      // * the first payout method is the default one
+      const isNewDefault = isDefault || !activeCount;
+
+      if (isNewDefault) {
+        await tx.payoutMethod.updateMany({
+          where: { userId },
+          data: { isDefault: false },
+        });
+      }
+
+      return await tx.payoutMethod.create({
+        data: {
+          ...data,
+          userId,
+          bankAddress: this.encrypt(bankAddress),
+          iban: this.encrypt(iban),
+          swiftBic: this.encrypt(swiftBic),
+          isDefault: isNewDefault,
+        },
+      });
+    });
+
+    return this.mask(payoutMethod);
+  }
+
+  async findAll(userId: number) {
+    const payoutMethods = await this.prismaService.payoutMethod.findMany({
+      where: { userId, isDeleted: false },
+      orderBy: [{ isDefault: 'desc' }, { id: 'asc' }],
+    });
+
+    return payoutMethods.map((payoutMethod) => this.mask(payoutMethod));
+  }
+
+  async setDefault(id: number, userId: number) {
+    const payoutMethod = await this.prismaService.$transaction(async (tx) => {
+      await this.findOneOfUser(id, userId, tx);
+      await tx.payoutMethod.updateMany({
+        where: { userId },
+        data: { isDefault: false },
+      });
+
+      return await tx.payoutMethod.update({
+        where: { id },
+        data: { isDefault: true },
+      });
+    });
+
+    return this.mask(payoutMethod);
+  }
+
+  /**
+   * Payout methods are only hidden, as withdrawals keep the link to them.
+   */
+  async delete(id: number, userId: number) {
+    await this.findOneOfUser(id, userId);
+
+    const payoutMethod = await this.prismaService.payoutMethod.update({
+      where: { id },
+      data: { isDeleted: true, isDefault: false },
+    });
+
+    return this.mask(payoutMethod);
+  }
+
+  /**
+   * Payout method of the withdrawal - the given one or the default one of the user.
+   */
+  async findForWithdrawal(
+    userId: number,
+    payoutMethodId: number | undefined,
+    tx: Prisma.TransactionClient,
+  ) {
+    if (payoutMethodId !== undefined) {
+      return await this.findOneOfUser(payoutMethodId, userId, tx);
+    }
+
+    const payoutMethod = await tx.payoutMethod.findFirst({
+      where: { userId, isDeleted: false, isDefault: true },
+    });
+
+    if (!payoutMethod) throw new PayoutMethodNotFoundException();
+
+    return payoutMethod;
+  }
+}
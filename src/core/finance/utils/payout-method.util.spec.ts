@@ -0,0 +1,22 @@
+import { maskBic, maskIban } from './payout-method.util';
+
+describe('payout method util', () => {
+  describe('maskIban', () => {
+    it('should keep the country code, check digits and last 4 characters', () => {
+      expect(maskIban('DE89370400440532013000')).toBe(
+        'DE89 **** **** **** **30 00',
+      );
+    });
+
+    it('should mask short IBANs the same way', () => {
+      expect(maskIban('NO9386011117947')).toBe('NO93 **** ***7 947');
+    });
+  });
+
+  describe('maskBic', () => {
+    it('should keep the bank and the country code', () => {
+      expect(maskBic('DEUTDEFF500')).toBe('DEUTDE*****');
+      expect(maskBic('DEUTDEFF')).toBe('DEUTDE**');
+    });
+  });
+});
@@ -0,0 +1,19 @@
+const maskCharacter = '*';
+
+/**
+ * Keeps the country code, the check digits and the last 4 characters, eg. "DE89 **** **** **** **30 00".
+ */
+export const maskIban = (iban: string) =>
+  (
+    iban.slice(0, 4) +
+    maskCharacter.repeat(Math.max(iban.length - 8, 0)) +
+    iban.slice(Math.max(iban.length - 4, 4))
+  )
+    .replace(/(.{4})/g, '$1 ')
+    .trim();
+
+/**
+ * Keeps the bank and the country code, eg. "DEUTDE**XXX" => "DEUTDE*****".
+ */
+export const maskBic = (bic: string) =>
+  bic.slice(0, 6) + maskCharacter.repeat(Math.max(bic.length - 6, 0));
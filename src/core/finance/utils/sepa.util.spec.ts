@@ -0,0 +1,196 @@
+import { Decimal } from '@prisma/client/runtime';
+import { PayoutBatchItemStatus } from '../../../utils/enums/payout-batch-item-status.enum';
+import {
+  buildSepaCreditTransfer,
+  ISepaCreditTransferBatch,
+  parseSepaPaymentStatusReport,
+  sanitizeSepaText,
+  validateSepaCreditTransfer,
+} from './sepa.util';
+
+const batch: ISepaCreditTransferBatch = {
+  messageId: 'PAYOUT20230921102214',
+  createdAt: new Date(2023, 8, 21, 10, 22, 14),
+  executionDate: new Date(2023, 8, 22),
+  debtor: {
+    name: 'Patients Influence',
+    iban: 'DE89370400440532013000',
+    bic: 'COBADEFFXXX',
+  },
+  transfers: [
+    {
+      endToEndId: 'PAYOUT20230921102214-1',
+      amount: new Decimal('120.5'),
+      creditor: {
+        name: 'Jürgen Müller & Söhne',
+        iban: 'FR1420041010050500013M02606',
+        bic: 'PSSTFRPPXXX',
+      },
+      remittanceInformation: 'Withdrawal 1',
+    },
+    {
+      endToEndId: 'PAYOUT20230921102214-2',
+      amount: new Decimal('79.25'),
+      creditor: { name: 'Ana Perić', iban: 'NL91ABNA0417164300' },
+      remittanceInformation: 'Salary - Campaign "Spring"',
+    },
+  ],
+};
+
+const statusReport = (
+  groupStatus: string,
+  transactions: string,
+) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.002.001.03">
+  <CstmrPmtStsRpt>
+    <GrpHdr><MsgId>STATUS1</MsgId><CreDtTm>2023-09-22T08:00:00</CreDtTm></GrpHdr>
+    <OrgnlGrpInfAndSts>
+      <OrgnlMsgId>PAYOUT20230921102214</OrgnlMsgId>
+      <OrgnlMsgNmId>pain.001.001.03</OrgnlMsgNmId>
+      ${groupStatus}
+    </OrgnlGrpInfAndSts>
+    <OrgnlPmtInfAndSts>
+      <OrgnlPmtInfId>PAYOUT20230921102214</OrgnlPmtInfId>
+      ${transactions}
+    </OrgnlPmtInfAndSts>
+  </CstmrPmtStsRpt>
+</Document>`;
+
+describe('SEPA util', () => {
+  describe('sanitizeSepaText', () => {
+    it('should replace characters outside of the SEPA character set', () => {
+      expect(sanitizeSepaText('Jürgen Müller & Söhne', 70)).toBe(
+        'Jurgen Muller + Sohne',
+      );
+      expect(sanitizeSepaText('Straße "7"', 70)).toBe('Strasse 7');
+    });
+
+    it('should shorten the text', () => {
+      expect(sanitizeSepaText('Patients Influence', 8)).toBe('Patients');
+    });
+  });
+
+  describe('buildSepaCreditTransfer', () => {
+    it('should build a valid credit transfer', async () => {
+      const xml = buildSepaCreditTransfer(batch);
+
+      expect(await validateSepaCreditTransfer(xml)).toEqual([]);
+      expect(xml).toContain('<NbOfTxs>2</NbOfTxs>');
+      expect(xml).toContain('<CtrlSum>199.75</CtrlSum>');
+      expect(xml).toContain('<InstdAmt Ccy="EUR">120.50</InstdAmt>');
+      expect(xml).toContain('<Nm>Jurgen Muller + Sohne</Nm>');
+    });
+
+    it('should leave out the agent of creditors without BIC', async () => {
+      const xml = buildSepaCreditTransfer({
+        ...batch,
+        transfers: [batch.transfers[1]],
+      });
+
+      expect(xml).not.toContain('<CdtrAgt>');
+      expect(await validateSepaCreditTransfer(xml)).toEqual([]);
+    });
+  });
+
+  describe('validateSepaCreditTransfer', () => {
+    it('should report invalid identifiers, accounts and amounts', async () => {
+      const xml = buildSepaCreditTransfer({
+        ...batch,
+        transfers: [
+          {
+            ...batch.transfers[0],
+            endToEndId: 'X'.repeat(36),
+            amount: new Decimal('0.001'),
+            creditor: { name: 'Test', iban: 'not an IBAN', bic: 'BIC' },
+          },
+        ],
+      });
+
+      expect(await validateSepaCreditTransfer(xml)).toEqual(
+        expect.arrayContaining([
+          `CdtTrfTxInf[1]/PmtId/EndToEndId "${'X'.repeat(36)}" is not valid`,
+          'CdtTrfTxInf[1]/Amt/InstdAmt "0.00" is not valid',
+          'CdtTrfTxInf[1]/CdtrAgt/FinInstnId/BIC "BIC" is not valid',
+          'CdtTrfTxInf[1]/CdtrAcct/Id/IBAN "not an IBAN" is not valid',
+        ]),
+      );
+    });
+
+    it('should report documents that are not valid against the schema', async () => {
+      const xml = buildSepaCreditTransfer(batch)
+        .replace(/<ChrgBr>SLEV<\/ChrgBr>/, '')
+        .replace(/<ReqdExctnDt>.*<\/ReqdExctnDt>/, '<Unknown>1</Unknown>');
+
+      const errors = await validateSepaCreditTransfer(xml);
+
+      expect(errors).toContainEqual(
+        expect.stringContaining(
+          "Element 'Unknown': This element is not expected",
+        ),
+      );
+      expect(errors).toContain('PmtInf/ChrgBr "" is not valid');
+    });
+
+    it('should report XML that is not well-formed', async () => {
+      expect(await validateSepaCreditTransfer('<Document>')).toHaveLength(1);
+    });
+  });
+
+  describe('parseSepaPaymentStatusReport', () => {
+    it('should read statuses of the transactions', () => {
+      const report = parseSepaPaymentStatusReport(
+        statusReport(
+          '<GrpSts>PART</GrpSts>',
+          `<TxInfAndSts>
+            <OrgnlEndToEndId>PAYOUT20230921102214-1</OrgnlEndToEndId>
+            <TxSts>ACSC</TxSts>
+          </TxInfAndSts>
+          <TxInfAndSts>
+            <OrgnlEndToEndId>PAYOUT20230921102214-2</OrgnlEndToEndId>
+            <TxSts>RJCT</TxSts>
+            <StsRsnInf><Rsn><Cd>AC04</Cd></Rsn></StsRsnInf>
+          </TxInfAndSts>`,
+        ),
+      );
+
+      expect(report.originalMessageId).toBe('PAYOUT20230921102214');
+      expect(report.defaultResult).toBeUndefined();
+      expect(report.results.get('PAYOUT20230921102214-1')).toEqual({
+        status: PayoutBatchItemStatus.Paid,
+      });
+      expect(report.results.get('PAYOUT20230921102214-2')).toEqual({
+        status: PayoutBatchItemStatus.Declined,
+        reasonCode: 'AC04',
+      });
+    });
+
+    it('should apply the group status to transactions without details', () => {
+      const report = parseSepaPaymentStatusReport(
+        statusReport(
+          '<GrpSts>RJCT</GrpSts><StsRsnInf><Rsn><Cd>DT01</Cd></Rsn></StsRsnInf>',
+          '',
+        ),
+      );
+
+      expect(report.results.size).toBe(0);
+      expect(report.defaultResult).toEqual({
+        status: PayoutBatchItemStatus.Declined,
+        reasonCode: 'DT01',
+      });
+    });
+
+    it('should skip pending transactions', () => {
+      const report = parseSepaPaymentStatusReport(
+        statusReport(
+          '<GrpSts>ACSP</GrpSts>',
+          `<TxInfAndSts>
+            <OrgnlEndToEndId>PAYOUT20230921102214-1</OrgnlEndToEndId>
+            <TxSts>PDNG</TxSts>
+          </TxInfAndSts>`,
+        ),
+      );
+
+      expect(report.results.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,470 @@
+import { Decimal } from '@prisma/client/runtime';
+import { format } from 'date-fns';
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { validateXML } from 'xmllint-wasm';
+import { PayoutBatchItemStatus } from '../../../utils/enums/payout-batch-item-status.enum';
+
+export const sepaCreditTransferNamespace =
+  'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03';
+export const sepaCurrencyCode = 'EUR';
+const sepaCreditTransferSchemaPath = join(
+  __dirname,
+  '../schemas/pain.001.001.03.xsd',
+);
+
+// * restrictions of the pain.001.001.03 XSD and the SEPA implementation guidelines
+const sepaTextRegex = /^[A-Za-z0-9/\-?:().,'+ ]*$/;
+const sepaIdRegex = /^([A-Za-z0-9]|[+?/\-:().,' ]){1,35}$/;
+const ibanRegex = /^[A-Z]{2}[0-9]{2}[a-zA-Z0-9]{1,30}$/;
+const bicRegex = /^[A-Z]{6}[A-Z2-9][A-NP-Z0-9]([A-Z0-9]{3})?$/;
+const amountRegex = /^\d{1,9}\.\d{2}$/;
+const maxNameLength = 70;
+const maxRemittanceInformationLength = 140;
+
+// * transaction statuses (ExternalTransactionStatus1Code) of the bank
+const paidStatusCodes = ['ACCP', 'ACSP', 'ACSC', 'ACWC'];
+const declinedStatusCodes = ['RJCT'];
+
+export interface ISepaParty {
+  name: string;
+  iban: string;
+  bic?: string;
+}
+
+export interface ISepaCreditTransfer {
+  endToEndId: string;
+  amount: Decimal;
+  creditor: ISepaParty;
+  remittanceInformation: string;
+}
+
+export interface ISepaCreditTransferBatch {
+  messageId: string;
+  createdAt: Date;
+  executionDate: Date;
+  debtor: ISepaParty;
+  transfers: ISepaCreditTransfer[];
+}
+
+export interface ISepaPaymentResult {
+  status: PayoutBatchItemStatus;
+  reasonCode?: string;
+}
+
+export interface ISepaPaymentStatusReport {
+  originalMessageId: string;
+  // * status of the items without transaction details, eg. the whole batch was rejected
+  defaultResult?: ISepaPaymentResult;
+  results: Map<string, ISepaPaymentResult>;
+}
+
+// * parsed XML nodes, the values are unchecked strings as the tag values aren't parsed
+interface ISepaCreditTransferTransactionNode {
+  PmtId?: { EndToEndId?: string };
+  Amt?: { InstdAmt?: { '@_Ccy'?: string; '#text'?: string } };
+  CdtrAgt?: { FinInstnId?: { BIC?: string } };
+  Cdtr?: { Nm?: string };
+  CdtrAcct?: { Id?: { IBAN?: string } };
+  RmtInf?: { Ustrd?: string };
+}
+
+interface ISepaStatusReasonNode {
+  Rsn?: { Cd?: string };
+}
+
+/**
+ * Replaces characters outside of the SEPA character set, eg. "Müller & Söhne" => "Muller + Sohne".
+ */
+export const sanitizeSepaText = (value: string, maxLength: number) =>
+  value
+    .replace(/ß/g, 'ss')
+    .replace(/&/g, '+')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+
+export const formatSepaAmount = (amount: Decimal) => amount.toFixed(2);
+
+export const getSepaControlSum = (
+  transfers: Pick<ISepaCreditTransfer, 'amount'>[],
+) =>
+  transfers.reduce((sum, transfer) => sum.add(transfer.amount), new Decimal(0));
+
+/**
+ * SEPA credit transfers are in EUR, with at most 2 decimals.
+ */
+export const isSepaAmount = (amount: Decimal) =>
+  amount.greaterThan(0) && amount.decimalPlaces() <= 2;
+
+export const getSepaMessageId = (date: Date) =>
+  `PAYOUT${format(date, 'yyyyMMddHHmmss')}`;
+
+export const getSepaEndToEndId = (
+  messageId: string,
+  transactionFlowId: number,
+) => `${messageId}-${transactionFlowId}`;
+
+/**
+ * Builds the customer credit transfer initiation (pain.001.001.03) with one payment of all transfers.
+ */
+export const buildSepaCreditTransfer = ({
+  messageId,
+  createdAt,
+  executionDate,
+  debtor,
+  transfers,
+}: ISepaCreditTransferBatch) => {
+  const numberOfTransactions = transfers.length.toString();
+  const controlSum = formatSepaAmount(getSepaControlSum(transfers));
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true,
+    suppressEmptyNode: true,
+  });
+
+  return builder.build({
+    '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+    Document: {
+      '@_xmlns': sepaCreditTransferNamespace,
+      '@_xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      CstmrCdtTrfInitn: {
+        GrpHdr: {
+          MsgId: messageId,
+          CreDtTm: format(createdAt, "yyyy-MM-dd'T'HH:mm:ss"),
+          NbOfTxs: numberOfTransactions,
+          CtrlSum: controlSum,
+          InitgPty: { Nm: sanitizeSepaText(debtor.name, maxNameLength) },
+        },
+        PmtInf: {
+          PmtInfId: messageId,
+          PmtMtd: 'TRF',
+          BtchBookg: 'true',
+          NbOfTxs: numberOfTransactions,
+          CtrlSum: controlSum,
+          PmtTpInf: { SvcLvl: { Cd: 'SEPA' } },
+          ReqdExctnDt: format(executionDate, 'yyyy-MM-dd'),
+          Dbtr: { Nm: sanitizeSepaText(debtor.name, maxNameLength) },
+          DbtrAcct: { Id: { IBAN: debtor.iban } },
+          DbtrAgt: { FinInstnId: { BIC: debtor.bic } },
+          ChrgBr: 'SLEV',
+          CdtTrfTxInf: transfers.map((transfer) => ({
+            PmtId: { EndToEndId: transfer.endToEndId },
+            Amt: {
+              InstdAmt: {
+                '@_Ccy': sepaCurrencyCode,
+                '#text': formatSepaAmount(transfer.amount),
+              },
+            },
+            CdtrAgt: transfer.creditor.bic
+              ? { FinInstnId: { BIC: transfer.creditor.bic } }
+              : undefined,
+            Cdtr: {
+              Nm: sanitizeSepaText(transfer.creditor.name, maxNameLength),
+            },
+            CdtrAcct: { Id: { IBAN: transfer.creditor.iban } },
+            RmtInf: {
+              Ustrd: sanitizeSepaText(
+                transfer.remittanceInformation,
+                maxRemittanceInformationLength,
+              ),
+            },
+          })),
+        },
+      },
+    },
+  }) as string;
+};
+
+const checkText = (
+  errors: string[],
+  path: string,
+  value: unknown,
+  maxLength: number,
+) => {
+  if (typeof value !== 'string' || !value.length) {
+    errors.push(`${path} is missing`);
+  } else if (value.length > maxLength) {
+    errors.push(`${path} is longer than ${maxLength} characters`);
+  } else if (!sepaTextRegex.test(value)) {
+    errors.push(`${path} has characters outside of the SEPA character set`);
+  }
+};
+
+const checkPattern = (
+  errors: string[],
+  path: string,
+  value: unknown,
+  regex: RegExp,
+) => {
+  if (typeof value !== 'string' || !regex.test(value)) {
+    errors.push(`${path} "${value ?? ''}" is not valid`);
+  }
+};
+
+let sepaCreditTransferSchema: string | undefined;
+
+/**
+ * Validates the credit transfer against the pain.001.001.03 XSD, the errors are without the namespace of the elements.
+ */
+const validateSepaCreditTransferSchema = async (xml: string) => {
+  sepaCreditTransferSchema ??= readFileSync(
+    sepaCreditTransferSchemaPath,
+    'utf8',
+  );
+
+  const { errors } = await validateXML({
+    xml: { fileName: 'credit-transfer.xml', contents: xml },
+    schema: {
+      fileName: 'pain.001.001.03.xsd',
+      contents: sepaCreditTransferSchema,
+    },
+  });
+
+  return errors.map(({ message }) =>
+    message.split(`{${sepaCreditTransferNamespace}}`).join('').trim(),
+  );
+};
+
+/**
+ * Checks the credit transfer against the pain.001.001.03 XSD and the SEPA rules on top of it:
+ * the SEPA character set, the service level, the charge bearer, unique end-to-end identifiers, EUR amounts
+ * and the control sums. Returns the problems found, the file is valid if there are none.
+ */
+export const validateSepaCreditTransfer = async (xml: string) => {
+  const wellFormed = XMLValidator.validate(xml);
+
+  if (wellFormed !== true) {
+    return [`XML is not well-formed: ${wellFormed.err.msg}`];
+  }
+
+  const errors = await validateSepaCreditTransferSchema(xml);
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    isArray: (name) => name === 'CdtTrfTxInf',
+  });
+  const document = parser.parse(xml).Document;
+  const initiation = document?.CstmrCdtTrfInitn;
+
+  if (document?.['@_xmlns'] !== sepaCreditTransferNamespace) {
+    errors.push(
+      `Document must use the namespace ${sepaCreditTransferNamespace}`,
+    );
+  }
+
+  if (!initiation?.GrpHdr || !initiation?.PmtInf) {
+    return [...errors, 'CstmrCdtTrfInitn must have GrpHdr and PmtInf'];
+  }
+
+  const { GrpHdr: groupHeader, PmtInf: paymentInformation } = initiation;
+  const transactions: ISepaCreditTransferTransactionNode[] =
+    paymentInformation.CdtTrfTxInf ?? [];
+  const endToEndIds = new Set<string>();
+  let controlSum = new Decimal(0);
+
+  checkPattern(errors, 'GrpHdr/MsgId', groupHeader.MsgId, sepaIdRegex);
+  checkPattern(
+    errors,
+    'GrpHdr/CreDtTm',
+    groupHeader.CreDtTm,
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/,
+  );
+  checkText(
+    errors,
+    'GrpHdr/InitgPty/Nm',
+    groupHeader.InitgPty?.Nm,
+    maxNameLength,
+  );
+  checkPattern(
+    errors,
+    'PmtInf/PmtInfId',
+    paymentInformation.PmtInfId,
+    sepaIdRegex,
+  );
+  checkPattern(errors, 'PmtInf/PmtMtd', paymentInformation.PmtMtd, /^TRF$/);
+  checkPattern(
+    errors,
+    'PmtInf/PmtTpInf/SvcLvl/Cd',
+    paymentInformation.PmtTpInf?.SvcLvl?.Cd,
+    /^SEPA$/,
+  );
+  checkPattern(
+    errors,
+    'PmtInf/ReqdExctnDt',
+    paymentInformation.ReqdExctnDt,
+    /^\d{4}-\d{2}-\d{2}$/,
+  );
+  checkText(
+    errors,
+    'PmtInf/Dbtr/Nm',
+    paymentInformation.Dbtr?.Nm,
+    maxNameLength,
+  );
+  checkPattern(
+    errors,
+    'PmtInf/DbtrAcct/Id/IBAN',
+    paymentInformation.DbtrAcct?.Id?.IBAN,
+    ibanRegex,
+  );
+  checkPattern(
+    errors,
+    'PmtInf/DbtrAgt/FinInstnId/BIC',
+    paymentInformation.DbtrAgt?.FinInstnId?.BIC,
+    bicRegex,
+  );
+  checkPattern(errors, 'PmtInf/ChrgBr', paymentInformation.ChrgBr, /^SLEV$/);
+
+  if (!transactions.length) {
+    errors.push('PmtInf must have at least one CdtTrfTxInf');
+  }
+
+  transactions.forEach((transaction, index) => {
+    const path = `CdtTrfTxInf[${index + 1}]`;
+    const endToEndId = transaction.PmtId?.EndToEndId;
+    const amount = transaction.Amt?.InstdAmt;
+
+    checkPattern(errors, `${path}/PmtId/EndToEndId`, endToEndId, sepaIdRegex);
+
+    if (endToEndIds.has(endToEndId)) {
+      errors.push(`${path}/PmtId/EndToEndId "${endToEndId}" is not unique`);
+    }
+    endToEndIds.add(endToEndId);
+
+    if (amount?.['@_Ccy'] !== sepaCurrencyCode) {
+      errors.push(`${path}/Amt/InstdAmt must be in ${sepaCurrencyCode}`);
+    } else if (
+      !amountRegex.test(amount['#text']) ||
+      new Decimal(amount['#text']).lessThan(0.01)
+    ) {
+      errors.push(`${path}/Amt/InstdAmt "${amount['#text']}" is not valid`);
+    } else {
+      controlSum = controlSum.add(amount['#text']);
+    }
+
+    if (transaction.CdtrAgt) {
+      checkPattern(
+        errors,
+        `${path}/CdtrAgt/FinInstnId/BIC`,
+        transaction.CdtrAgt.FinInstnId?.BIC,
+        bicRegex,
+      );
+    }
+
+    checkText(errors, `${path}/Cdtr/Nm`, transaction.Cdtr?.Nm, maxNameLength);
+    checkPattern(
+      errors,
+      `${path}/CdtrAcct/Id/IBAN`,
+      transaction.CdtrAcct?.Id?.IBAN,
+      ibanRegex,
+    );
+
+    if (transaction.RmtInf) {
+      checkText(
+        errors,
+        `${path}/RmtInf/Ustrd`,
+        transaction.RmtInf.Ustrd,
+        maxRemittanceInformationLength,
+      );
+    }
+  });
+
+  for (const [path, header] of [
+    ['GrpHdr', groupHeader],
+    ['PmtInf', paymentInformation],
+  ]) {
+    if (header.NbOfTxs !== transactions.length.toString()) {
+      errors.push(`${path}/NbOfTxs doesn't match the number of transactions`);
+    }
+
+    if (header.CtrlSum !== formatSepaAmount(controlSum)) {
+      errors.push(`${path}/CtrlSum doesn't match the sum of the amounts`);
+    }
+  }
+
+  return errors;
+};
+
+const getPaymentResult = (
+  statusCode: string | undefined,
+  statusReasons: ISepaStatusReasonNode[] | undefined,
+): ISepaPaymentResult | undefined => {
+  const reasonCode = statusReasons?.[0]?.Rsn?.Cd;
+
+  if (paidStatusCodes.includes(statusCode)) {
+    return { status: PayoutBatchItemStatus.Paid };
+  } else if (declinedStatusCodes.includes(statusCode)) {
+    return { status: PayoutBatchItemStatus.Declined, reasonCode };
+  }
+
+  // * eg. received or pending, the bank reports the final status later
+  return undefined;
+};
+
+/**
+ * Parses the payment status report (pain.002.001.03) of the bank. Transaction statuses take precedence
+ * over the status of the payment information, and that one over the status of the whole group.
+ */
+export const parseSepaPaymentStatusReport = (
+  xml: string,
+): ISepaPaymentStatusReport => {
+  if (XMLValidator.validate(xml) !== true) {
+    throw new Error('Payment status report is not well-formed XML');
+  }
+
+  const parser = new XMLParser({
+    removeNSPrefix: true,
+    parseTagValue: false,
+    isArray: (name) =>
+      ['OrgnlPmtInfAndSts', 'TxInfAndSts', 'StsRsnInf'].includes(name),
+  });
+  const report = parser.parse(xml).Document?.CstmrPmtStsRpt;
+  const originalGroup = report?.OrgnlGrpInfAndSts;
+
+  if (!originalGroup?.OrgnlMsgId) {
+    throw new Error(
+      'Payment status report must have OrgnlGrpInfAndSts/OrgnlMsgId',
+    );
+  }
+
+  const results = new Map<string, ISepaPaymentResult>();
+  const groupResult = getPaymentResult(
+    originalGroup.GrpSts,
+    originalGroup.StsRsnInf,
+  );
+  let defaultResult = groupResult;
+
+  for (const paymentInformation of report.OrgnlPmtInfAndSts ?? []) {
+    const paymentResult =
+      getPaymentResult(
+        paymentInformation.PmtInfSts,
+        paymentInformation.StsRsnInf,
+      ) ?? groupResult;
+
+    // * exported batches have a single payment information
+    defaultResult = paymentResult;
+
+    for (const transaction of paymentInformation.TxInfAndSts ?? []) {
+      const result = transaction.TxSts
+        ? getPaymentResult(transaction.TxSts, transaction.StsRsnInf)
+        : paymentResult;
+
+      if (transaction.OrgnlEndToEndId && result) {
+        results.set(transaction.OrgnlEndToEndId, result);
+      }
+    }
+  }
+
+  return {
+    originalMessageId: originalGroup.OrgnlMsgId,
+    defaultResult,
+    results,
+  };
+};
@@ -7,6 +7,7 @@ import {
   Param,
   Delete,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { BenefitsInsightService } from './benefits-insight.service';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
@@ -15,9 +16,11 @@ import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorat
 import { Action } from 'src/core/auth/ability';
 import { GraphResultEntity } from '../entities/graph-result.entity';
 import { BenefitFilterParamsDto } from './dto/filter-params.dto';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/benefits')
 @ApiTags('insight', 'benefits')
+@UseInterceptors(UserTimezoneInterceptor)
 export class BenefitsInsightController {
   constructor(private readonly benefitsService: BenefitsInsightService) {}
 
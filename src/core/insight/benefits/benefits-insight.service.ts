@@ -1,72 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PrismaService } from 'src/integrations/prisma/prisma.service';
-import { getPeriods } from '../utils/period-generator';
 import { GraphParamsDto } from '../dto/graph-params.dto';
 import { BenefitFilterParamsDto } from './dto/filter-params.dto';
-import { Prisma } from '@prisma/client';
-import { IGraphDataPoint } from '../interfaces/graph-data-point.interface';
-import { IGraphResult } from '../interfaces/graph-result.interface';
-import { graphQueryWhere } from '../utils/query-where';
+import { InsightRollupsService } from '../rollups/insight-rollups.service';
+import { InsightMetric } from '../rollups/enums/insight-metric.enum';
 
 @Injectable()
 export class BenefitsInsightService {
   private readonly logger = new Logger(BenefitsInsightService.name);
 
-  constructor(private readonly prismaService: PrismaService) {}
+  constructor(private readonly insightRollupsService: InsightRollupsService) {}
 
   async getBenefitsCountData(
-    {
-      useStrictPeriod,
-      graphPeriod,
-      numberOfPoints,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-      includeData,
-    }: GraphParamsDto,
+    graphParams: GraphParamsDto,
     { categoryId }: BenefitFilterParamsDto,
   ) {
-    const queryWhere: Prisma.BenefitWhereInput = {
-      benefitCategoryId: categoryId !== undefined ? categoryId : undefined,
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
-      {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
-      },
-      this.logger,
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.Benefits,
+      { ...graphParams, useStrictPeriod: true },
+      { benefitCategoryId: categoryId },
+      { logger: this.logger },
     );
-    const result: IGraphResult = { data: [] };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult = await this.prismaService.benefit.count({
-        select: { _all: true },
-        where: {
-          ...graphQueryWhere(graphType, dateFrom, dateTo),
-          ...queryWhere,
-        },
-      });
-      const dataPoint: IGraphDataPoint = {
-        value: queryResult._all,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 }
@@ -7,6 +7,7 @@ import {
   Param,
   Delete,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { CampaignsInsightService } from './campaigns-insight.service';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
@@ -15,9 +16,11 @@ import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorat
 import { Action } from 'src/core/auth/ability';
 import { GraphResultEntity } from '../entities/graph-result.entity';
 import { CampaignFilterParamsDto } from './dto/filter-params.dto';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/campaigns')
 @ApiTags('insight', 'campaign')
+@UseInterceptors(UserTimezoneInterceptor)
 export class CampaignsInsightController {
   constructor(private readonly campaignsService: CampaignsInsightService) {}
 
@@ -7,6 +7,7 @@ import {
   Param,
   Delete,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { ClientsInsightService } from './clients-insight.service';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
@@ -34,9 +35,11 @@ import {
   ClientSurveyInfluencerFilterParamsDto,
 } from './dto/client-product-influencer-filter-params.dto';
 import { PlatformProduct } from 'src/core/platform-product/enums/platform-product.enum';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/clients')
 @ApiTags('insight', 'client')
+@UseInterceptors(UserTimezoneInterceptor)
 export class ClientsInsightController {
   constructor(private readonly clientsService: ClientsInsightService) {}
 
@@ -21,121 +21,20 @@ import { GraphPeriod } from '../enums/graph-period.enum';
 import { getChange } from '../utils/relative-change';
 import { BadRequestApplicationException } from 'src/exceptions/application.exception';
 import { ClientProductInfluencerFilterParamsDto } from './dto/client-product-influencer-filter-params.dto';
+import { InsightRollupsService } from '../rollups/insight-rollups.service';
+import { InsightMetric } from '../rollups/enums/insight-metric.enum';
 
 @Injectable()
 export class ClientsInsightService {
   private readonly logger = new Logger(ClientsInsightService.name);
 
-  constructor(private readonly prismaService: PrismaService) {}
-
-  private async getClientsCountDataDataIncluded(
-    {
-      useStrictPeriod,
-      graphPeriod,
-      numberOfPoints,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-      includeData,
-    }: GraphParamsDto,
-    queryWhere: Prisma.ClientWhereInput,
-  ) {
-    const dataIncluded: { GraphIncludeData?: number | 'N/A' } = {};
-
-    if (!includeData) return dataIncluded; // no additional data is requested
-
-    for (const data of includeData) {
-      let includeDataGraphPeriod: GraphPeriod;
-
-      switch (data) {
-        case GraphIncludeData.changePercentageDay:
-          includeDataGraphPeriod = GraphPeriod.Daily;
-          break;
-        case GraphIncludeData.changePercentageWeek:
-          includeDataGraphPeriod = GraphPeriod.Weekly;
-          break;
-        case GraphIncludeData.changePercentageMonth:
-          includeDataGraphPeriod = GraphPeriod.Monthly;
-          break;
-        default:
-          break;
-      }
-
-      // first handle out-of-the-ordinary data (like "total"), then handle percentage-like data
-      if (data === GraphIncludeData.total) {
-        dataIncluded[data] = (
-          await this.prismaService.client.count({
-            select: { _all: true },
-            where: {
-              ...graphQueryWhere(graphType, undefined, undefined),
-              ...queryWhere,
-            },
-          })
-        )._all;
-      } else {
-        dataIncluded[data] = await (async () => {
-          const periods = getPeriods(
-            includeDataGraphPeriod,
-            undefined,
-            {
-              includeOngoingPeriod,
-              roundDateToDay,
-              roundDateToMonth,
-              numOfLastPeriods: 2,
-            },
-            this.logger,
-          );
-          const lastDataPeriod = periods.at(-1);
-          const preLastDataPeriod = periods.at(-2);
-
-          const lastData = await this.prismaService.client.count({
-            select: { _all: true },
-            where: {
-              ...graphQueryWhere(
-                graphType,
-                lastDataPeriod.dateFrom,
-                lastDataPeriod.dateTo,
-              ),
-              ...queryWhere,
-            },
-          });
-          const preLastData = await this.prismaService.client.count({
-            select: { _all: true },
-            where: {
-              ...graphQueryWhere(
-                graphType,
-                preLastDataPeriod.dateFrom,
-                preLastDataPeriod.dateTo,
-              ),
-              ...queryWhere,
-            },
-          });
-
-          // return requested data, eg. percentage change
-          return getChange(lastData._all, preLastData._all);
-        })();
-      }
-    }
-
-    return dataIncluded;
-  }
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly insightRollupsService: InsightRollupsService,
+  ) {}
 
   async getClientsCountData(
-    {
-      useStrictPeriod,
-      graphPeriod,
-      numberOfPoints,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-      includeData,
-    }: GraphParamsDto,
+    graphParams: GraphParamsDto,
     {
       status,
       statusAtPointOfTime,
@@ -144,107 +43,19 @@ export class ClientsInsightService {
       hasProductOrder,
     }: ClientFilterParamsDto,
   ) {
-    let queryWhere: Prisma.ClientWhereInput = {
-      industryId,
-    };
-
-    if (statusAtPointOfTime || approvedOnly || status) {
-      queryWhere = {
-        ...queryWhere,
-        user: statusAtPointOfTime
-          ? {
-              statusChangelog:
-                approvedOnly !== undefined || status !== undefined
-                  ? {
-                      some: {
-                        status: approvedOnly ? UserStatus.Approved : status,
-                      },
-                    }
-                  : undefined,
-            }
-          : { status: approvedOnly ? UserStatus.Approved : status },
-      };
-    }
-
-    if (hasProductOrder) {
-      queryWhere = {
-        ...queryWhere,
-        platformProductOrder:
-          hasProductOrder !== undefined
-            ? hasProductOrder
-              ? { some: {} }
-              : { none: {} }
-            : undefined,
-      };
-    }
+    const userStatus = approvedOnly ? UserStatus.Approved : status;
 
-    const periods = useStrictPeriod
-      ? getPeriods(
-          graphPeriod,
-          undefined,
-          {
-            includeOngoingPeriod, // ? true
-            roundDateToDay, // ? true
-            roundDateToMonth,
-            numOfLastPeriods: maxResults,
-          },
-          this.logger,
-        )
-      : await (async () => {
-          // * first client based on filter criteria
-          const client = await this.prismaService.client.aggregate({
-            _min: { createdAt: true },
-            where: { ...queryWhere },
-          });
-
-          return getNPeriods(
-            undefined,
-            undefined,
-            client._min.createdAt,
-            undefined,
-            numberOfPoints,
-          );
-        })();
-    const dataIncluded = await this.getClientsCountDataDataIncluded(
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.Clients,
+      graphParams,
       {
-        useStrictPeriod,
-        graphPeriod,
-        numberOfPoints,
-        graphType,
-        maxResults,
-        roundDateToDay,
-        roundDateToMonth,
-        includeOngoingPeriod,
-        includePeriodBorders,
-        includeData,
+        industryId,
+        status: !statusAtPointOfTime ? userStatus : undefined,
+        statuses: statusAtPointOfTime ? userStatus : undefined,
+        hasProductOrder: hasProductOrder || undefined,
       },
-      queryWhere,
+      { logger: this.logger },
     );
-    const result: IGraphResult = { data: [], ...dataIncluded };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult = await this.prismaService.client.count({
-        select: { _all: true },
-        where: {
-          ...graphQueryWhere(graphType, dateFrom, dateTo),
-          ...queryWhere,
-        },
-      });
-      const dataPoint: IGraphDataPoint = {
-        value: queryResult._all,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 
   private async getDiscoverClientsCountDataDataIncluded(
@@ -259,6 +70,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
     }: GraphParamsDto,
     queryWhere: Prisma.DiscoverClientWhereInput,
   ) {
@@ -304,6 +116,7 @@ export class ClientsInsightService {
               roundDateToDay,
               roundDateToMonth,
               numOfLastPeriods: 2,
+              timezone,
             },
             this.logger,
           );
@@ -354,6 +167,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
     }: GraphParamsDto,
     { status }: DiscoverClientFilterParamsDto,
   ) {
@@ -369,6 +183,7 @@ export class ClientsInsightService {
             roundDateToDay, // ? true
             roundDateToMonth,
             numOfLastPeriods: maxResults,
+            timezone,
           },
           this.logger,
         )
@@ -386,6 +201,7 @@ export class ClientsInsightService {
             discoverClient._min.createdAt,
             undefined,
             numberOfPoints,
+            timezone,
           );
         })();
     const dataIncluded = await this.getDiscoverClientsCountDataDataIncluded(
@@ -400,6 +216,7 @@ export class ClientsInsightService {
         includeOngoingPeriod,
         includePeriodBorders,
         includeData,
+        timezone,
       },
       queryWhere,
     );
@@ -442,6 +259,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     queryWhere: Prisma.PlatformProductOrderWhereInput,
@@ -488,6 +306,7 @@ export class ClientsInsightService {
               roundDateToDay,
               roundDateToMonth,
               numOfLastPeriods: 2,
+              timezone,
             },
             this.logger,
           );
@@ -541,6 +360,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     {
@@ -566,6 +386,7 @@ export class ClientsInsightService {
             roundDateToDay, // ? true
             roundDateToMonth,
             numOfLastPeriods: maxResults,
+            timezone,
           },
           this.logger,
         )
@@ -583,6 +404,7 @@ export class ClientsInsightService {
               user.createdAt,
               undefined,
               numberOfPoints,
+              timezone,
             );
           }
 
@@ -599,6 +421,7 @@ export class ClientsInsightService {
             platformProductOrder._min.createdAt,
             undefined,
             numberOfPoints,
+            timezone,
           );
         })();
     const dataIncluded = await this.getClientProductsCountDataDataIncluded(
@@ -613,6 +436,7 @@ export class ClientsInsightService {
         includeOngoingPeriod,
         includePeriodBorders,
         includeData,
+        timezone,
         startFromUserRegistration,
       },
       queryWhere,
@@ -659,6 +483,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     queryWhere: Prisma.PlatformProductOrderInfluencerWhereInput,
@@ -705,6 +530,7 @@ export class ClientsInsightService {
               roundDateToDay,
               roundDateToMonth,
               numOfLastPeriods: 2,
+              timezone,
             },
             this.logger,
           );
@@ -759,6 +585,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     {
@@ -794,6 +621,7 @@ export class ClientsInsightService {
             roundDateToDay, // ? true
             roundDateToMonth,
             numOfLastPeriods: maxResults,
+            timezone,
           },
           this.logger,
         )
@@ -811,6 +639,7 @@ export class ClientsInsightService {
               user.createdAt,
               undefined,
               numberOfPoints,
+              timezone,
             );
           }
 
@@ -827,6 +656,7 @@ export class ClientsInsightService {
             platformProductOrderInfluencer._min.createdAt,
             undefined,
             numberOfPoints,
+            timezone,
           );
         })();
     const dataIncluded =
@@ -842,6 +672,7 @@ export class ClientsInsightService {
           includeOngoingPeriod,
           includePeriodBorders,
           includeData,
+          timezone,
           startFromUserRegistration,
         },
         queryWhere,
@@ -886,6 +717,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     {
@@ -955,6 +787,7 @@ export class ClientsInsightService {
               roundDateToDay,
               roundDateToMonth,
               numOfLastPeriods: 2,
+              timezone,
             },
             this.logger,
           );
@@ -1045,6 +878,7 @@ export class ClientsInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     {
@@ -1073,6 +907,7 @@ export class ClientsInsightService {
             roundDateToDay, // ? true
             roundDateToMonth,
             numOfLastPeriods: maxResults,
+            timezone,
           },
           this.logger,
         )
@@ -1090,6 +925,7 @@ export class ClientsInsightService {
               user.createdAt,
               undefined,
               numberOfPoints,
+              timezone,
             );
           }
 
@@ -1106,6 +942,7 @@ export class ClientsInsightService {
             platformProductOrder._min.createdAt,
             undefined,
             numberOfPoints,
+            timezone,
           );
         })();
     const dataIncluded =
@@ -1121,6 +958,7 @@ export class ClientsInsightService {
           includeOngoingPeriod,
           includePeriodBorders,
           includeData,
+          timezone,
           startFromUserRegistration,
         },
         {
@@ -5,6 +5,7 @@ import {
   IsNotEmpty,
   IsNumber,
   IsOptional,
+  IsTimeZone,
   Min,
 } from 'class-validator';
 import { GraphPeriod } from '../enums/graph-period.enum';
@@ -150,6 +151,16 @@ export class GraphParamsDto {
     }),
   )
   includeData?: GraphIncludeData[];
+
+  @decorate(IsOptional())
+  @decorate(IsTimeZone())
+  @decorate(
+    ApiPropertyOptional({
+      description: `IANA timezone of the period borders, eg. "Europe/Berlin". Days, weeks and months start at the midnight of that timezone, DST transitions included. Defaults to the timezone of the user, if set, otherwise to the timezone of the server.`,
+      type: String,
+    }),
+  )
+  timezone?: string;
 }
 
 // FixedIntervalGraphParamsDto
@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsISO4217CurrencyCode, IsOptional } from 'class-validator';
+import { decorate } from 'ts-mixer';
+import { defaultCurrencyCode } from 'src/core/common/currency/exchange-rates.service';
+import { GraphParamsDto } from '../../dto/graph-params.dto';
+
+export class FinanceGraphParamsDto extends GraphParamsDto {
+  @decorate(IsOptional())
+  @decorate(Transform(({ value }) => value?.toUpperCase()))
+  @decorate(IsISO4217CurrencyCode())
+  @decorate(
+    ApiPropertyOptional({
+      description: `Currency of the returned amounts. Each amount is converted at the exchange rate effective on its date.`,
+      default: defaultCurrencyCode,
+    }),
+  )
+  reportingCurrency?: string = defaultCurrencyCode;
+}
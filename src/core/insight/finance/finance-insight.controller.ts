@@ -7,16 +7,19 @@ import {
   Param,
   Delete,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
-import { GraphParamsDto } from '../dto/graph-params.dto';
+import { FinanceGraphParamsDto } from './dto/finance-graph-params.dto';
 import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorator';
 import { Action } from 'src/core/auth/ability';
 import { GraphResultEntity } from '../entities/graph-result.entity';
 import { FinanceInsightService } from './finance-insight.service';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/finance')
 @ApiTags('insight', 'finance')
+@UseInterceptors(UserTimezoneInterceptor)
 export class FinanceInsightController {
   constructor(private readonly financeService: FinanceInsightService) {}
 
@@ -30,7 +33,9 @@ export class FinanceInsightController {
   @ApiOkResponse({
     type: GraphResultEntity,
   })
-  async financeRevenueOverTimeData(@Query() graphParams: GraphParamsDto) {
+  async financeRevenueOverTimeData(
+    @Query() graphParams: FinanceGraphParamsDto,
+  ) {
     return new GraphResultEntity(
       await this.financeService.getFinanceRevenueData(graphParams),
     );
@@ -46,7 +51,7 @@ export class FinanceInsightController {
   @ApiOkResponse({
     type: GraphResultEntity,
   })
-  async financeCostOverTimeData(@Query() graphParams: GraphParamsDto) {
+  async financeCostOverTimeData(@Query() graphParams: FinanceGraphParamsDto) {
     return new GraphResultEntity(
       await this.financeService.getFinanceCostData(graphParams),
     );
@@ -62,7 +67,7 @@ export class FinanceInsightController {
   @ApiOkResponse({
     type: GraphResultEntity,
   })
-  async financeProfitOverTimeData(@Query() graphParams: GraphParamsDto) {
+  async financeProfitOverTimeData(@Query() graphParams: FinanceGraphParamsDto) {
     return new GraphResultEntity(
       await this.financeService.getFinanceProfitData(graphParams),
     );
@@ -78,7 +83,7 @@ export class FinanceInsightController {
   @ApiOkResponse({
     type: GraphResultEntity,
   })
-  async financeMarginOverTimeData(@Query() graphParams: GraphParamsDto) {
+  async financeMarginOverTimeData(@Query() graphParams: FinanceGraphParamsDto) {
     return new GraphResultEntity(
       await this.financeService.getFinanceMarginData(graphParams),
     );
@@ -1,144 +1,68 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PrismaService } from 'src/integrations/prisma/prisma.service';
-import { getPeriods } from '../utils/period-generator';
-import { GraphParamsDto } from '../dto/graph-params.dto';
-import { Prisma } from '@prisma/client';
+import { FinanceGraphParamsDto } from './dto/finance-graph-params.dto';
 import { IGraphDataPoint } from '../interfaces/graph-data-point.interface';
 import { IGraphResult } from '../interfaces/graph-result.interface';
-import { graphQueryWhere } from '../utils/query-where';
 import { Status } from 'src/core/campaign/enums/status.enum';
+import { ExchangeRatesService } from 'src/core/common/currency/exchange-rates.service';
+import { InsightRollupsService } from '../rollups/insight-rollups.service';
+import { InsightMetric } from '../rollups/enums/insight-metric.enum';
+import { Currency } from 'src/utils';
 
 @Injectable()
 export class FinanceInsightService {
   private readonly logger = new Logger(FinanceInsightService.name);
 
-  constructor(private readonly prismaService: PrismaService) {}
+  constructor(
+    private readonly insightRollupsService: InsightRollupsService,
+    private readonly exchangeRatesService: ExchangeRatesService,
+  ) {}
 
   async getFinanceRevenueData({
-    useStrictPeriod,
-    graphPeriod,
-    numberOfPoints,
-    graphType,
-    maxResults,
-    roundDateToDay,
-    roundDateToMonth,
-    includeOngoingPeriod,
-    includePeriodBorders,
-    includeData,
-  }: GraphParamsDto) {
-    const queryWhere: Prisma.PlatformProductOrderWhereInput = {
-      status: { in: [Status.Finished, Status.Archived] },
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
+    reportingCurrency,
+    ...graphParams
+  }: FinanceGraphParamsDto) {
+    const convert = await this.exchangeRatesService.getConverter(
+      reportingCurrency,
+    );
+
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.ProductOrderBudgets,
+      { ...graphParams, useStrictPeriod: true },
+      { status: [Status.Finished, Status.Archived] },
       {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
+        // * converted at the rate of the order date
+        getValue: ({ date, dimensions, sum }) =>
+          convert(sum, dimensions.currency as string | null, date),
+        logger: this.logger,
       },
-      this.logger,
     );
-    const result: IGraphResult = { data: [] };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult =
-        await this.prismaService.platformProductOrder.aggregate({
-          _sum: { budget: true },
-          where: {
-            ...graphQueryWhere(graphType, dateFrom, dateTo),
-            ...queryWhere,
-          },
-        });
-      const dataPoint: IGraphDataPoint = {
-        value:
-          queryResult._sum.budget !== null
-            ? queryResult._sum.budget.toNumber()
-            : 0,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 
   async getFinanceCostData({
-    useStrictPeriod,
-    graphPeriod,
-    numberOfPoints,
-    graphType,
-    maxResults,
-    roundDateToDay,
-    roundDateToMonth,
-    includeOngoingPeriod,
-    includePeriodBorders,
-    includeData,
-  }: GraphParamsDto) {
-    const queryWhere: Prisma.PlatformProductOrderInfluencerWhereInput = {
-      status: { in: [Status.Finished, Status.Archived] },
-      /* productOrder: {
-        OR: {
-          campaigns: {
-            every: { status: { in: [Status.Finished, Status.Archived] } },
-          },
-          surveys: {
-            every: { status: { in: [Status.Finished, Status.Archived] } },
-          },
-          socialMediaListenings: {
-            every: { status: { in: [Status.Finished, Status.Archived] } },
-          },
-        },
-      }, */
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
+    reportingCurrency,
+    ...graphParams
+  }: FinanceGraphParamsDto) {
+    const convert = await this.exchangeRatesService.getConverter(
+      reportingCurrency,
+    );
+
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.ProductOrderInfluencerAmounts,
+      { ...graphParams, useStrictPeriod: true },
+      { status: [Status.Finished, Status.Archived] },
       {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
+        // * converted at the rate of the agreement date
+        getValue: ({ date, dimensions, sum }) =>
+          convert(
+            sum,
+            this.exchangeRatesService.getCurrencyEnumCode(
+              dimensions.currency as Currency,
+            ),
+            date,
+          ),
+        logger: this.logger,
       },
-      this.logger,
     );
-    const result: IGraphResult = { data: [] };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult =
-        await this.prismaService.platformProductOrderInfluencer.aggregate({
-          _sum: { agreedAmount: true },
-          where: {
-            ...graphQueryWhere(graphType, dateFrom, dateTo),
-            ...queryWhere,
-          },
-        });
-      const dataPoint: IGraphDataPoint = {
-        value:
-          queryResult._sum.agreedAmount !== null
-            ? queryResult._sum.agreedAmount.toNumber()
-            : 0,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 
   async getFinanceProfitData({
@@ -152,7 +76,9 @@ export class FinanceInsightService {
     includeOngoingPeriod,
     includePeriodBorders,
     includeData,
-  }: GraphParamsDto) {
+    timezone,
+    reportingCurrency,
+  }: FinanceGraphParamsDto) {
     const revenueData = await this.getFinanceRevenueData({
       graphPeriod,
       graphType,
@@ -161,6 +87,8 @@ export class FinanceInsightService {
       roundDateToMonth,
       includeOngoingPeriod,
       includePeriodBorders,
+      reportingCurrency,
+      timezone,
     });
     const costData = await this.getFinanceCostData({
       graphPeriod,
@@ -170,6 +98,8 @@ export class FinanceInsightService {
       roundDateToMonth,
       includeOngoingPeriod,
       includePeriodBorders,
+      reportingCurrency,
+      timezone,
     });
     const result: IGraphResult = { data: [] };
 
@@ -201,7 +131,9 @@ export class FinanceInsightService {
     includeOngoingPeriod,
     includePeriodBorders,
     includeData,
-  }: GraphParamsDto) {
+    timezone,
+    reportingCurrency,
+  }: FinanceGraphParamsDto) {
     const profitData = await this.getFinanceProfitData({
       graphPeriod,
       graphType,
@@ -210,6 +142,8 @@ export class FinanceInsightService {
       roundDateToMonth,
       includeOngoingPeriod,
       includePeriodBorders,
+      reportingCurrency,
+      timezone,
     });
     const revenueData = await this.getFinanceRevenueData({
       graphPeriod,
@@ -219,6 +153,8 @@ export class FinanceInsightService {
       roundDateToMonth,
       includeOngoingPeriod,
       includePeriodBorders,
+      reportingCurrency,
+      timezone,
     });
 
     const result: IGraphResult = { data: [] };
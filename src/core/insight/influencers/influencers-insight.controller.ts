@@ -7,6 +7,7 @@ import {
   Param,
   Delete,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { InfluencersInsightService } from './influencers-insight.service';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
@@ -24,9 +25,11 @@ import { UserGraphParamsDto } from '../dto/user-graph-params.dto';
 import { cacheKeys } from 'src/config';
 import { milliseconds } from 'date-fns';
 import { CacheAndInvalidate } from 'src/decorators/cache-and-invalidate.decorator';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/influencers')
 @ApiTags('insight', 'influencer')
+@UseInterceptors(UserTimezoneInterceptor)
 export class InfluencerInsightController {
   constructor(private readonly influencersService: InfluencersInsightService) {}
 
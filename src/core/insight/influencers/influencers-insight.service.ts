@@ -31,6 +31,8 @@ import { addDays } from 'date-fns';
 import { DesiredAmountResultMetadata } from './dto/results/desired-amount-result-metadata.dto';
 import { UserGraphParamsDto } from '../dto/user-graph-params.dto';
 import { GraphIncludeData } from '../enums/graph-include-data.enum';
+import { InsightRollupsService } from '../rollups/insight-rollups.service';
+import { InsightMetric } from '../rollups/enums/insight-metric.enum';
 
 @Injectable()
 export class InfluencersInsightService {
@@ -39,6 +41,7 @@ export class InfluencersInsightService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly influencersService: InfluencerService,
+    private readonly insightRollupsService: InsightRollupsService,
   ) {}
 
   /* getGraph(graphPeriod?: GraphPeriod, max?: number, graphType?: GraphType) {
@@ -207,114 +210,8 @@ export class InfluencersInsightService {
     }
   }
 
-  private async getInfluencersCountDataDataIncluded(
-    {
-      useStrictPeriod,
-      graphPeriod,
-      numberOfPoints,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-      includeData,
-    }: GraphParamsDto,
-    queryWhere: Prisma.InfluencerWhereInput,
-  ) {
-    const dataIncluded: { GraphIncludeData?: number | 'N/A' } = {};
-
-    if (!includeData) return dataIncluded; // no additional data is requested
-
-    for (const data of includeData) {
-      let includeDataGraphPeriod: GraphPeriod;
-
-      switch (data) {
-        case GraphIncludeData.changePercentageDay:
-          includeDataGraphPeriod = GraphPeriod.Daily;
-          break;
-        case GraphIncludeData.changePercentageWeek:
-          includeDataGraphPeriod = GraphPeriod.Weekly;
-          break;
-        case GraphIncludeData.changePercentageMonth:
-          includeDataGraphPeriod = GraphPeriod.Monthly;
-          break;
-        default:
-          break;
-      }
-
-      // first handle out-of-the-ordinary data (like "total"), then handle percentage-like data
-      if (data === GraphIncludeData.total) {
-        dataIncluded[data] = (
-          await this.prismaService.influencer.count({
-            select: { _all: true },
-            where: {
-              ...graphQueryWhere(graphType, undefined, undefined),
-              ...queryWhere,
-            },
-          })
-        )._all;
-      } else {
-        dataIncluded[data] = await (async () => {
-          const periods = getPeriods(
-            includeDataGraphPeriod,
-            undefined,
-            {
-              includeOngoingPeriod,
-              roundDateToDay,
-              roundDateToMonth,
-              numOfLastPeriods: 2,
-            },
-            this.logger,
-          );
-          const lastDataPeriod = periods.at(-1);
-          const preLastDataPeriod = periods.at(-2);
-
-          const lastData = await this.prismaService.influencer.count({
-            select: { _all: true },
-            where: {
-              ...graphQueryWhere(
-                graphType,
-                lastDataPeriod.dateFrom,
-                lastDataPeriod.dateTo,
-              ),
-              ...queryWhere,
-            },
-          });
-          const preLastData = await this.prismaService.influencer.count({
-            select: { _all: true },
-            where: {
-              ...graphQueryWhere(
-                graphType,
-                preLastDataPeriod.dateFrom,
-                preLastDataPeriod.dateTo,
-              ),
-              ...queryWhere,
-            },
-          });
-
-          // return requested data, eg. percentage change
-          return getChange(lastData._all, preLastData._all);
-        })();
-      }
-    }
-
-    return dataIncluded;
-  }
-
   async getInfluencersCountData(
-    {
-      useStrictPeriod,
-      graphPeriod,
-      numberOfPoints,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-      includeData,
-    }: GraphParamsDto,
+    graphParams: GraphParamsDto,
     {
       status,
       statusAtPointOfTime,
@@ -322,96 +219,20 @@ export class InfluencersInsightService {
       approvedOnly,
     }: InfluencerFilterParamsDto,
   ) {
-    const queryWhere: Prisma.InfluencerWhereInput = {
-      user: statusAtPointOfTime
-        ? {
-            statusChangelog:
-              approvedOnly !== undefined || status !== undefined
-                ? {
-                    some: {
-                      status: approvedOnly ? UserStatus.Approved : status,
-                    },
-                  }
-                : undefined,
-          }
-        : { status: approvedOnly ? UserStatus.Approved : status },
-      stakeholders:
-        socialPlatform !== undefined
-          ? {
-              some: {
-                // TODO review ER diagram on social platforms and refactor the line below
-                socialPlatformId: socialPlatform + 1,
-              },
-            }
-          : undefined,
-    };
-    const periods = useStrictPeriod
-      ? getPeriods(
-          graphPeriod,
-          undefined,
-          {
-            includeOngoingPeriod, // ? true
-            roundDateToDay, // ? true
-            roundDateToMonth,
-            numOfLastPeriods: maxResults,
-          },
-          this.logger,
-        )
-      : await (async () => {
-          // * first influencer based on filter criteria
-          const influencer = await this.prismaService.influencer.aggregate({
-            _min: { createdAt: true },
-            where: { ...queryWhere },
-          });
-
-          return getNPeriods(
-            undefined,
-            undefined,
-            influencer._min.createdAt,
-            undefined,
-            numberOfPoints,
-          );
-        })();
-    const dataIncluded = await this.getInfluencersCountDataDataIncluded(
+    const userStatus = approvedOnly ? UserStatus.Approved : status;
+
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.Influencers,
+      graphParams,
       {
-        useStrictPeriod,
-        graphPeriod,
-        numberOfPoints,
-        graphType,
-        maxResults,
-        roundDateToDay,
-        roundDateToMonth,
-        includeOngoingPeriod,
-        includePeriodBorders,
-        includeData,
+        status: !statusAtPointOfTime ? userStatus : undefined,
+        statuses: statusAtPointOfTime ? userStatus : undefined,
+        // TODO review ER diagram on social platforms and refactor the line below
+        socialPlatformIds:
+          socialPlatform !== undefined ? socialPlatform + 1 : undefined,
       },
-      queryWhere,
+      { logger: this.logger },
     );
-    const result: IGraphResult = { data: [], ...dataIncluded };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult = await this.prismaService.influencer.count({
-        select: { _all: true },
-        where: {
-          ...graphQueryWhere(graphType, dateFrom, dateTo),
-          ...queryWhere,
-        },
-      });
-      const dataPoint: IGraphDataPoint = {
-        value: queryResult._all,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 
   async getInfluencerCampaignsCountData(
@@ -427,6 +248,7 @@ export class InfluencersInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     { status }: InfluencerCampaignFilterParamsDto,
@@ -446,6 +268,7 @@ export class InfluencersInsightService {
         roundDateToDay, // ? true
         roundDateToMonth,
         numOfLastPeriods: maxResults,
+        timezone,
       },
       this.logger,
     );
@@ -490,6 +313,7 @@ export class InfluencersInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     { status }: InfluencerCampaignFilterParamsDto,
@@ -509,6 +333,7 @@ export class InfluencersInsightService {
         roundDateToDay, // ? true
         roundDateToMonth,
         numOfLastPeriods: maxResults,
+        timezone,
       },
       this.logger,
     );
@@ -553,6 +378,7 @@ export class InfluencersInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     { platformProduct }: InfluencerFinanceFilterParamsDto,
@@ -582,6 +408,7 @@ export class InfluencersInsightService {
         roundDateToDay, // ? true
         roundDateToMonth,
         numOfLastPeriods: maxResults,
+        timezone,
       },
       this.logger,
     );
@@ -625,6 +452,7 @@ export class InfluencersInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
   ) {
@@ -649,6 +477,7 @@ export class InfluencersInsightService {
         roundDateToDay, // ? true
         roundDateToMonth,
         numOfLastPeriods: maxResults,
+        timezone,
       },
       this.logger,
     );
@@ -693,6 +522,7 @@ export class InfluencersInsightService {
       includeOngoingPeriod,
       includePeriodBorders,
       includeData,
+      timezone,
       startFromUserRegistration,
     }: UserGraphParamsDto,
     { approvedOnly, categoryId }: InfluencerBenefitFilterParamsDto,
@@ -709,6 +539,7 @@ export class InfluencersInsightService {
         roundDateToDay, // ? true
         roundDateToMonth,
         numOfLastPeriods: maxResults,
+        timezone,
       },
       this.logger,
     );
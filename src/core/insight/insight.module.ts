@@ -19,9 +19,12 @@ import { SMLModule } from '../sml/sml.module';
 import { InfluencerModule } from '../influencer/influencer.module';
 import { ReportsInsightController } from './reports/report-insight.controller';
 import { ReportsInsightService } from './reports/report-insight.service';
+import { CurrencyModule } from '../common/currency/currency.module';
+import { InsightRollupsService } from './rollups/insight-rollups.service';
+import { InsightRollupsJobService } from './rollups/jobs/insight-rollups.job';
 
 @Module({
-  imports: [SMLModule, InfluencerModule],
+  imports: [SMLModule, InfluencerModule, CurrencyModule],
   controllers: [
     InsightController,
     InfluencerInsightController,
@@ -43,6 +46,8 @@ import { ReportsInsightService } from './reports/report-insight.service';
     BenefitsInsightService,
     FinanceInsightService,
     ReportsInsightService,
+    InsightRollupsService,
+    InsightRollupsJobService,
   ],
 })
 export class InsightModule {}
@@ -3,4 +3,6 @@ export interface IPeriodUtilOptions {
   roundDateToDay: boolean;
   roundDateToMonth: boolean;
   numOfLastPeriods?: number;
+  // * IANA timezone of the period borders, server timezone by default
+  timezone?: string;
 }
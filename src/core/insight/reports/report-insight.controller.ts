@@ -1,4 +1,4 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import { Controller, Get, Query, UseInterceptors } from '@nestjs/common';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { GraphParamsDto } from '../dto/graph-params.dto';
 import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorator';
@@ -6,9 +6,11 @@ import { Action } from 'src/core/auth/ability';
 import { GraphResultEntity } from '../entities/graph-result.entity';
 import { ReportsInsightService } from './report-insight.service';
 import { CampaignFilterParamsDto } from '../campaigns/dto/filter-params.dto';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/reports')
 @ApiTags('insight', 'report')
+@UseInterceptors(UserTimezoneInterceptor)
 export class ReportsInsightController {
   constructor(private readonly reportsService: ReportsInsightService) {}
 
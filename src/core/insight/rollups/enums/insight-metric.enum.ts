@@ -0,0 +1,11 @@
+export enum InsightMetric {
+  Clients = 'clients',
+  Influencers = 'influencers',
+  Campaigns = 'campaigns',
+  Surveys = 'surveys',
+  SocialMediaListenings = 'socialMediaListenings',
+  CampaignReports = 'campaignReports',
+  Benefits = 'benefits',
+  ProductOrderBudgets = 'productOrderBudgets',
+  ProductOrderInfluencerAmounts = 'productOrderInfluencerAmounts',
+}
@@ -0,0 +1,193 @@
+import { Prisma } from '@prisma/client';
+import { InsightMetric } from './enums/insight-metric.enum';
+import {
+  IInsightRollupMetric,
+  RollupAffectedDaysQuery,
+} from './interfaces/insight-rollup.interface';
+import { formatUTCDay } from './utils/insight-rollup.util';
+
+const createdOn = (column: Prisma.Sql, days?: Date[]) =>
+  days
+    ? Prisma.sql`AND ${column}::date IN (${Prisma.join(
+        days.map((day) => Prisma.sql`${formatUTCDay(day)}::date`),
+      )})`
+    : Prisma.empty;
+
+// * days of the records of the table referenced by the written records, eg. clients of the written users
+const recordDays =
+  (table: string, column = 'id'): RollupAffectedDaysQuery =>
+  (ids) =>
+    Prisma.sql`
+      SELECT DISTINCT r."createdAt"::date AS "date"
+      FROM ${Prisma.raw(`"${table}"`)} r
+      WHERE r.${Prisma.raw(`"${column}"`)} IN (${Prisma.join(ids)})`;
+
+// * days of the records of the users of the written status changes
+const userStatusChangeDays =
+  (table: string): RollupAffectedDaysQuery =>
+  (ids) =>
+    Prisma.sql`
+      SELECT DISTINCT r."createdAt"::date AS "date"
+      FROM ${Prisma.raw(`"${table}"`)} r
+      JOIN "user_status_changelog" l ON l."userId" = r."userId"
+      WHERE l."id" IN (${Prisma.join(ids)})`;
+
+// * count of the records of a product order, split by the product order status
+const productOrderRecordsMetric = (
+  model: Prisma.ModelName,
+  table: string,
+): IInsightRollupMetric => ({
+  model,
+  affectedDays: {
+    [model]: recordDays(table),
+    PlatformProductOrder: recordDays(table, 'platformProductOrderId'),
+  },
+  query: (days) => Prisma.sql`
+    SELECT date_trunc('hour', r."createdAt") AS "date",
+      jsonb_build_object('status', o."status") AS "dimensions",
+      COUNT(*)::int AS "count",
+      0::decimal AS "sum"
+    FROM ${Prisma.raw(`"${table}"`)} r
+    JOIN "platform_product_orders" o ON o."id" = r."platformProductOrderId"
+    WHERE TRUE ${createdOn(Prisma.sql`r."createdAt"`, days)}
+    GROUP BY 1, 2`,
+});
+
+/**
+ * Hourly facts of the insight metrics. Dimensions are the properties the insight graphs are filtered by,
+ * eg. current status of the user and all statuses the user ever had.
+ */
+export const insightRollupMetrics: Record<InsightMetric, IInsightRollupMetric> =
+  {
+    [InsightMetric.Clients]: {
+      model: 'Client',
+      affectedDays: {
+        Client: recordDays('clients'),
+        User: recordDays('clients', 'userId'),
+        UserStatusChangelog: userStatusChangeDays('clients'),
+        PlatformProductOrder: (ids) => Prisma.sql`
+          SELECT DISTINCT c."createdAt"::date AS "date"
+          FROM "clients" c
+          JOIN "platform_product_orders" o ON o."clientId" = c."id"
+          WHERE o."id" IN (${Prisma.join(ids)})`,
+      },
+      query: (days) => Prisma.sql`
+        SELECT date_trunc('hour', c."createdAt") AS "date",
+          jsonb_build_object(
+            'industryId', c."industryId",
+            'status', u."status",
+            'statuses', ARRAY(
+              SELECT DISTINCT l."status" FROM "user_status_changelog" l
+              WHERE l."userId" = u."id" ORDER BY l."status"
+            ),
+            'hasProductOrder', EXISTS(
+              SELECT 1 FROM "platform_product_orders" o WHERE o."clientId" = c."id"
+            )
+          ) AS "dimensions",
+          COUNT(*)::int AS "count",
+          0::decimal AS "sum"
+        FROM "clients" c
+        JOIN "users" u ON u."id" = c."userId"
+        WHERE TRUE ${createdOn(Prisma.sql`c."createdAt"`, days)}
+        GROUP BY 1, 2`,
+    },
+    [InsightMetric.Influencers]: {
+      model: 'Influencer',
+      affectedDays: {
+        Influencer: recordDays('influencers'),
+        User: recordDays('influencers', 'userId'),
+        UserStatusChangelog: userStatusChangeDays('influencers'),
+        Stakeholder: (ids) => Prisma.sql`
+          SELECT DISTINCT i."createdAt"::date AS "date"
+          FROM "influencers" i
+          JOIN "stakeholders" s ON s."influencerId" = i."id"
+          WHERE s."id" IN (${Prisma.join(ids)})`,
+      },
+      query: (days) => Prisma.sql`
+        SELECT date_trunc('hour', i."createdAt") AS "date",
+          jsonb_build_object(
+            'status', u."status",
+            'statuses', ARRAY(
+              SELECT DISTINCT l."status" FROM "user_status_changelog" l
+              WHERE l."userId" = u."id" ORDER BY l."status"
+            ),
+            'socialPlatformIds', ARRAY(
+              SELECT DISTINCT s."socialPlatformId" FROM "stakeholders" s
+              WHERE s."influencerId" = i."id" ORDER BY s."socialPlatformId"
+            )
+          ) AS "dimensions",
+          COUNT(*)::int AS "count",
+          0::decimal AS "sum"
+        FROM "influencers" i
+        JOIN "users" u ON u."id" = i."userId"
+        WHERE TRUE ${createdOn(Prisma.sql`i."createdAt"`, days)}
+        GROUP BY 1, 2`,
+    },
+    [InsightMetric.Campaigns]: productOrderRecordsMetric(
+      'Campaign',
+      'campaigns',
+    ),
+    [InsightMetric.Surveys]: productOrderRecordsMetric('Survey', 'surveys'),
+    [InsightMetric.SocialMediaListenings]: productOrderRecordsMetric(
+      'SocialMediaListening',
+      'social_media_listenings',
+    ),
+    [InsightMetric.CampaignReports]: productOrderRecordsMetric(
+      'CampaignReport',
+      'campaign_reports',
+    ),
+    [InsightMetric.Benefits]: {
+      model: 'Benefit',
+      affectedDays: { Benefit: recordDays('benefits') },
+      query: (days) => Prisma.sql`
+        SELECT date_trunc('hour', b."createdAt") AS "date",
+          jsonb_build_object('benefitCategoryId', b."benefitCategoryId") AS "dimensions",
+          COUNT(*)::int AS "count",
+          0::decimal AS "sum"
+        FROM "benefits" b
+        WHERE TRUE ${createdOn(Prisma.sql`b."createdAt"`, days)}
+        GROUP BY 1, 2`,
+    },
+    [InsightMetric.ProductOrderBudgets]: {
+      model: 'PlatformProductOrder',
+      affectedDays: {
+        PlatformProductOrder: recordDays('platform_product_orders'),
+        Currency: recordDays('platform_product_orders', 'currencyId'),
+      },
+      query: (days) => Prisma.sql`
+        SELECT date_trunc('hour', o."createdAt") AS "date",
+          jsonb_build_object(
+            'platformProduct', o."platformProduct",
+            'status', o."status",
+            'currency', cu."code"
+          ) AS "dimensions",
+          COUNT(*)::int AS "count",
+          SUM(o."budget") AS "sum"
+        FROM "platform_product_orders" o
+        LEFT JOIN "currencies" cu ON cu."id" = o."currencyId"
+        WHERE o."budget" IS NOT NULL ${createdOn(
+          Prisma.sql`o."createdAt"`,
+          days,
+        )}
+        GROUP BY 1, 2`,
+    },
+    [InsightMetric.ProductOrderInfluencerAmounts]: {
+      model: 'PlatformProductOrderInfluencer',
+      affectedDays: {
+        PlatformProductOrderInfluencer: recordDays(
+          'platform_product_order_influencers',
+        ),
+      },
+      query: (days) => Prisma.sql`
+        SELECT date_trunc('hour', poi."createdAt") AS "date",
+          jsonb_build_object(
+            'status', poi."status",
+            'currency', poi."currency"
+          ) AS "dimensions",
+          COUNT(*)::int AS "count",
+          SUM(poi."agreedAmount") AS "sum"
+        FROM "platform_product_order_influencers" poi
+        WHERE TRUE ${createdOn(Prisma.sql`poi."createdAt"`, days)}
+        GROUP BY 1, 2`,
+    },
+  };
@@ -0,0 +1,95 @@
+import { Decimal } from '@prisma/client/runtime';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { GraphPeriod } from '../enums/graph-period.enum';
+import { GraphType } from '../enums/graph-type.enum';
+import { InsightMetric } from './enums/insight-metric.enum';
+import { InsightRollupsService } from './insight-rollups.service';
+
+const storedFact = (date: string, count: number) => ({
+  date: new Date(date),
+  dimensions: {},
+  count,
+  sum: new Decimal(0),
+});
+
+describe('InsightRollupsService', () => {
+  const prismaService = {
+    $queryRaw: jest.fn(),
+  };
+  const service = new InsightRollupsService(
+    prismaService as unknown as PrismaService,
+  );
+
+  beforeAll(() => {
+    jest.useFakeTimers({
+      now: new Date('2023-09-03T10:00:00.000Z'),
+      doNotFake: ['performance'],
+    });
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('getGraphData', () => {
+    // * facts from 22:00 UTC on are on the next day in Berlin, facts until 04:00 UTC on the previous day in New York
+    beforeEach(() => {
+      prismaService.$queryRaw.mockResolvedValue([
+        storedFact('2023-09-01T21:00:00.000Z', 1),
+        storedFact('2023-09-01T22:00:00.000Z', 2),
+        storedFact('2023-09-01T23:00:00.000Z', 4),
+        storedFact('2023-09-02T03:00:00.000Z', 8),
+      ]);
+    });
+
+    const getDailyValues = async (timezone: string) => {
+      const { data } = await service.getGraphData(InsightMetric.Clients, {
+        useStrictPeriod: true,
+        graphPeriod: GraphPeriod.Daily,
+        graphType: GraphType.PeriodBased,
+        maxResults: 2,
+        includeOngoingPeriod: false,
+        roundDateToDay: true,
+        roundDateToMonth: false,
+        timezone,
+      });
+
+      return data.map(({ value, timestamp }) => [
+        timestamp.toISOString(),
+        value,
+      ]);
+    };
+
+    it('should sum the hours of the days of the timezone', async () => {
+      expect(await getDailyValues('UTC')).toEqual([
+        ['2023-09-01T00:00:00.000Z', 7],
+        ['2023-09-02T00:00:00.000Z', 8],
+      ]);
+      expect(await getDailyValues('Europe/Berlin')).toEqual([
+        ['2023-08-31T22:00:00.000Z', 1],
+        ['2023-09-01T22:00:00.000Z', 14],
+      ]);
+      expect(await getDailyValues('America/New_York')).toEqual([
+        ['2023-09-01T04:00:00.000Z', 15],
+        ['2023-09-02T04:00:00.000Z', 0],
+      ]);
+    });
+
+    it('should load only the facts of the periods', async () => {
+      const getFacts = jest.spyOn(service, 'getFacts');
+
+      await getDailyValues('Europe/Berlin');
+
+      expect(getFacts).toHaveBeenCalledWith(
+        InsightMetric.Clients,
+        {},
+        {
+          dateFrom: new Date('2023-08-31T22:00:00.000Z'),
+          dateTo: new Date('2023-09-02T21:59:59.999Z'),
+        },
+      );
+    });
+  });
+});
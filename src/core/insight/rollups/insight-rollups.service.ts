@@ -0,0 +1,513 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import lodash from 'lodash';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { GraphParamsDto } from '../dto/graph-params.dto';
+import { GraphIncludeData } from '../enums/graph-include-data.enum';
+import { GraphPeriod } from '../enums/graph-period.enum';
+import { GraphType } from '../enums/graph-type.enum';
+import { IGraphDataPoint } from '../interfaces/graph-data-point.interface';
+import { IGraphResult } from '../interfaces/graph-result.interface';
+import { getNPeriods, getPeriods } from '../utils/period-generator';
+import { getChange } from '../utils/relative-change';
+import { InsightMetric } from './enums/insight-metric.enum';
+import { insightRollupMetrics } from './insight-rollup-metrics';
+import {
+  IInsightRollupFact,
+  RollupDimensionFilter,
+  RollupDimensions,
+} from './interfaces/insight-rollup.interface';
+import {
+  addUTCDays,
+  createFactsSummer,
+  diffRollupFacts,
+  formatUTCDay,
+  getDimensionFilterSql,
+  startOfUTCDay,
+} from './utils/insight-rollup.util';
+
+const writeActions: Prisma.PrismaAction[] = [
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+];
+
+// * writes of more records outdate all facts of the metric, instead of querying their days
+const maxOutdatedRecords = 1000;
+
+const includeDataGraphPeriods: Partial<Record<GraphIncludeData, GraphPeriod>> =
+  {
+    [GraphIncludeData.changePercentageDay]: GraphPeriod.Daily,
+    [GraphIncludeData.changePercentageWeek]: GraphPeriod.Weekly,
+    [GraphIncludeData.changePercentageMonth]: GraphPeriod.Monthly,
+  };
+
+interface IOutdatedRollup {
+  // * UTC days whose facts are outdated
+  days: Set<string>;
+  // * written records, their days are resolved on the refresh as the writes may be uncommitted until then
+  records: Map<Prisma.ModelName, Set<number>>;
+}
+
+export interface IRollupGraphOptions {
+  // * value of the fact, count by default
+  getValue?: (fact: IInsightRollupFact) => Decimal | number;
+  logger?: Logger;
+}
+
+/**
+ * Hourly facts of the insight metrics, so a graph is calculated from a single query instead of a query per period.
+ * Facts of the days affected by writes are refreshed incrementally and all facts are rebuilt nightly. As the facts
+ * are hourly, periods of any timezone with a whole-hour offset are summed exactly, in timezones with a half-hour
+ * offset an hour is counted in the period its start belongs to.
+ */
+@Injectable()
+export class InsightRollupsService implements OnModuleInit {
+  private readonly logger = new Logger(InsightRollupsService.name);
+  // * metric => outdated facts, null if all facts are outdated
+  private readonly outdatedMetrics = new Map<
+    InsightMetric,
+    IOutdatedRollup | null
+  >();
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  onModuleInit() {
+    // * the facts of the writes before the start are rebuilt on the first refresh
+    Object.values(InsightMetric).forEach((metric) =>
+      this.outdatedMetrics.set(metric, null),
+    );
+
+    this.prismaService.$use(async (params, next) => {
+      const metrics =
+        params.model && writeActions.includes(params.action)
+          ? this.getWriteMetrics(params.model)
+          : [];
+
+      if (!metrics.length) return next(params);
+
+      // * days of deleted records can't be resolved after the write
+      const deletedDays = ['delete', 'deleteMany'].includes(params.action)
+        ? await this.findDeletedDays(params, metrics)
+        : undefined;
+      const updatedIds =
+        params.action === 'updateMany'
+          ? await this.findWrittenIds(params).catch(() => undefined)
+          : undefined;
+      const result = await next(params);
+      const writtenIds =
+        params.action === 'updateMany'
+          ? updatedIds
+          : typeof result?.id === 'number'
+          ? [result.id]
+          : undefined;
+
+      metrics.forEach((metric) => {
+        if (deletedDays) {
+          this.markOutdatedDays(metric, deletedDays.get(metric));
+        } else if (params.action === 'createMany') {
+          this.markOutdatedCreateMany(metric, params.model);
+        } else {
+          this.markOutdatedRecords(metric, params.model, writtenIds);
+        }
+      });
+
+      return result;
+    });
+  }
+
+  private getWriteMetrics(model: Prisma.ModelName) {
+    return Object.values(InsightMetric).filter(
+      (metric) => insightRollupMetrics[metric].affectedDays[model],
+    );
+  }
+
+  /**
+   * Ids of the records matching the filter of the write, undefined if there are too many to track.
+   */
+  private async findWrittenIds({
+    model,
+    action,
+    args,
+  }: Prisma.MiddlewareParams) {
+    const delegate = this.prismaService[lodash.lowerFirst(model)];
+    const records: { id: number }[] =
+      action === 'delete'
+        ? [
+            await delegate.findUnique({
+              where: args.where,
+              select: { id: true },
+            }),
+          ]
+        : await delegate.findMany({
+            where: args?.where,
+            select: { id: true },
+            take: maxOutdatedRecords + 1,
+          });
+    const ids = records.filter(Boolean).map(({ id }) => id);
+
+    return ids.length <= maxOutdatedRecords ? ids : undefined;
+  }
+
+  /**
+   * Days of the facts the records to delete belong to, undefined for the metrics whose days are unknown.
+   */
+  private async findDeletedDays(
+    params: Prisma.MiddlewareParams,
+    metrics: InsightMetric[],
+  ) {
+    const deletedDays = new Map<InsightMetric, Date[] | undefined>();
+
+    try {
+      const ids = await this.findWrittenIds(params);
+
+      for (const metric of metrics) {
+        deletedDays.set(
+          metric,
+          ids && (await this.findAffectedDays(metric, params.model, ids)),
+        );
+      }
+    } catch (error) {
+      // * the write doesn't fail because of the rollup, all facts are rebuilt instead
+      this.logger.error(`Days of deleted records failed: ${error.message}`);
+    }
+
+    return deletedDays;
+  }
+
+  private async findAffectedDays(
+    metric: InsightMetric,
+    model: Prisma.ModelName,
+    ids: number[],
+  ) {
+    if (!ids.length) return [];
+
+    const days = await this.prismaService.$queryRaw<{ date: Date }[]>(
+      insightRollupMetrics[metric].affectedDays[model](ids),
+    );
+
+    return days.map(({ date }) => date);
+  }
+
+  private getOutdatedRollup(metric: InsightMetric) {
+    if (!this.outdatedMetrics.has(metric)) {
+      this.outdatedMetrics.set(metric, { days: new Set(), records: new Map() });
+    }
+
+    return this.outdatedMetrics.get(metric);
+  }
+
+  /**
+   * Outdates the facts of the days, or all facts if the days are unknown.
+   */
+  private markOutdatedDays(metric: InsightMetric, days: Date[] | undefined) {
+    const outdatedRollup = this.getOutdatedRollup(metric);
+
+    if (!days) {
+      this.outdatedMetrics.set(metric, null);
+    } else if (outdatedRollup) {
+      days.forEach((day) => outdatedRollup.days.add(formatUTCDay(day)));
+    }
+  }
+
+  /**
+   * Outdates the facts of the written records, or all facts if the records are unknown.
+   */
+  private markOutdatedRecords(
+    metric: InsightMetric,
+    model: Prisma.ModelName,
+    ids: number[] | undefined,
+  ) {
+    const outdatedRollup = this.getOutdatedRollup(metric);
+
+    if (!ids) {
+      this.outdatedMetrics.set(metric, null);
+    } else if (outdatedRollup) {
+      const records = outdatedRollup.records.get(model) ?? new Set<number>();
+
+      ids.forEach((id) => records.add(id));
+      outdatedRollup.records.set(model, records);
+    }
+  }
+
+  /**
+   * Records created by createMany are facts of today if they are of the metric model, otherwise they aren't known.
+   */
+  private markOutdatedCreateMany(
+    metric: InsightMetric,
+    model: Prisma.ModelName,
+  ) {
+    this.markOutdatedDays(
+      metric,
+      model === insightRollupMetrics[metric].model
+        ? [startOfUTCDay(new Date())]
+        : undefined,
+    );
+  }
+
+  /**
+   * Days of the outdated facts, including the days of the written records.
+   */
+  private async getOutdatedDays(
+    metric: InsightMetric,
+    { days, records }: IOutdatedRollup,
+  ) {
+    const outdatedDays = new Set(days);
+
+    for (const [model, ids] of records) {
+      const affectedDays = await this.findAffectedDays(metric, model, [...ids]);
+
+      affectedDays.forEach((day) => outdatedDays.add(formatUTCDay(day)));
+    }
+
+    return [...outdatedDays].sort().map((day) => new Date(day));
+  }
+
+  /**
+   * Recalculates the facts of the records created on the days, or of all records, and stores the changed facts only.
+   */
+  async refresh(metric: InsightMetric, days?: Date[]) {
+    const facts = await this.prismaService.$queryRaw<
+      {
+        date: Date;
+        dimensions: RollupDimensions;
+        count: number;
+        sum: Decimal;
+      }[]
+    >(insightRollupMetrics[metric].query(days));
+    const storedFacts = await this.prismaService.insightHourlyRollup.findMany({
+      select: {
+        id: true,
+        date: true,
+        dimensionKey: true,
+        count: true,
+        sum: true,
+      },
+      where: {
+        metric,
+        OR: days?.map((day) => ({
+          date: { gte: day, lt: addUTCDays(day, 1) },
+        })),
+      },
+    });
+    const { factsToCreate, factsToUpdate, factIdsToDelete } = diffRollupFacts(
+      storedFacts,
+      facts.map((fact) => ({ ...fact, sum: new Decimal(fact.sum ?? 0) })),
+    );
+
+    await this.prismaService.$transaction([
+      this.prismaService.insightHourlyRollup.deleteMany({
+        where: { id: { in: factIdsToDelete } },
+      }),
+      ...factsToUpdate.map(({ id, count, sum }) =>
+        this.prismaService.insightHourlyRollup.update({
+          where: { id },
+          data: { count, sum },
+        }),
+      ),
+      this.prismaService.insightHourlyRollup.createMany({
+        data: factsToCreate.map((fact) => ({ ...fact, metric })),
+      }),
+    ]);
+
+    return {
+      created: factsToCreate.length,
+      updated: factsToUpdate.length,
+      deleted: factIdsToDelete.length,
+    };
+  }
+
+  /**
+   * Refreshes the facts outdated by the writes since the last refresh.
+   */
+  async refreshOutdated() {
+    const outdatedMetrics = [...this.outdatedMetrics.entries()];
+
+    this.outdatedMetrics.clear();
+
+    for (const [metric, outdatedRollup] of outdatedMetrics) {
+      try {
+        const days = outdatedRollup
+          ? await this.getOutdatedDays(metric, outdatedRollup)
+          : undefined;
+
+        if (days && !days.length) continue;
+
+        const result = await this.refresh(metric, days);
+
+        this.logger.verbose(
+          `Rollup of ${metric} refreshed: ${JSON.stringify(result)}`,
+        );
+      } catch (error) {
+        // * retried on the next refresh
+        if (outdatedRollup) {
+          this.markOutdatedDays(
+            metric,
+            [...outdatedRollup.days].map((day) => new Date(day)),
+          );
+          outdatedRollup.records.forEach((ids, model) =>
+            this.markOutdatedRecords(metric, model, [...ids]),
+          );
+        } else {
+          this.outdatedMetrics.set(metric, null);
+        }
+
+        this.logger.error(`Rollup of ${metric} failed: ${error.message}`);
+      }
+    }
+  }
+
+  async rebuild() {
+    for (const metric of Object.values(InsightMetric)) {
+      const result = await this.refresh(metric);
+
+      this.logger.log(`Rollup of ${metric} rebuilt: ${JSON.stringify(result)}`);
+    }
+  }
+
+  /**
+   * Facts of the metric matching the filter, of the hours starting within the dates, sorted by the date.
+   */
+  async getFacts(
+    metric: InsightMetric,
+    filter: RollupDimensionFilter = {},
+    { dateFrom, dateTo }: { dateFrom?: Date; dateTo?: Date } = {},
+  ): Promise<IInsightRollupFact[]> {
+    const facts = await this.prismaService.$queryRaw<IInsightRollupFact[]>`
+      SELECT r."date", r."dimensions", r."count", r."sum"
+      FROM "insight_hourly_rollups" r
+      WHERE r."metric" = ${metric}
+        ${dateFrom ? Prisma.sql`AND r."date" >= ${dateFrom}` : Prisma.empty}
+        ${dateTo ? Prisma.sql`AND r."date" <= ${dateTo}` : Prisma.empty}
+        AND ${getDimensionFilterSql(Prisma.sql`r."dimensions"`, filter)}
+      ORDER BY r."date" ASC`;
+
+    return facts.map((fact) => ({ ...fact, sum: new Decimal(fact.sum) }));
+  }
+
+  /**
+   * Graph of the metric with the same periods and included data as the graph calculated from the records.
+   */
+  async getGraphData(
+    metric: InsightMetric,
+    {
+      useStrictPeriod,
+      graphPeriod,
+      numberOfPoints,
+      graphType,
+      maxResults,
+      roundDateToDay,
+      roundDateToMonth,
+      includeOngoingPeriod,
+      includePeriodBorders,
+      includeData,
+      timezone,
+    }: GraphParamsDto,
+    filter: RollupDimensionFilter = {},
+    { getValue = ({ count }) => count, logger }: IRollupGraphOptions = {},
+  ) {
+    const changePeriods = new Map(
+      (includeData ?? [])
+        .filter((data) => data !== GraphIncludeData.total)
+        .map((data) => [
+          data,
+          getPeriods(
+            includeDataGraphPeriods[data],
+            undefined,
+            {
+              includeOngoingPeriod,
+              roundDateToDay,
+              roundDateToMonth,
+              numOfLastPeriods: 2,
+              timezone,
+            },
+            logger,
+          ),
+        ]),
+    );
+    const strictPeriods =
+      useStrictPeriod &&
+      getPeriods(
+        graphPeriod,
+        undefined,
+        {
+          includeOngoingPeriod,
+          roundDateToDay,
+          roundDateToMonth,
+          numOfLastPeriods: maxResults,
+          timezone,
+        },
+        logger,
+      );
+    // * only the facts of the periods are loaded, unless the periods start from the first fact
+    const queriedPeriods = [
+      ...(strictPeriods || []),
+      ...[...changePeriods.values()].flat(),
+    ];
+    const isWholeRangeNeeded =
+      !strictPeriods ||
+      graphType === GraphType.Cumulative ||
+      includeData?.includes(GraphIncludeData.total);
+    const facts = await this.getFacts(
+      metric,
+      filter,
+      isWholeRangeNeeded
+        ? {}
+        : {
+            dateFrom: lodash.min(
+              queriedPeriods.map(({ dateFrom }) => dateFrom),
+            ),
+            dateTo: lodash.max(queriedPeriods.map(({ dateTo }) => dateTo)),
+          },
+    );
+    const sumFacts = createFactsSummer(facts, getValue);
+    const getPeriodValue = (period: { dateFrom?: Date; dateTo?: Date }) =>
+      sumFacts(period, graphType).toDecimalPlaces(2).toNumber();
+    const periods =
+      strictPeriods ||
+      getNPeriods(
+        undefined,
+        undefined,
+        facts.at(0)?.date ?? null,
+        undefined,
+        numberOfPoints,
+        timezone,
+      );
+    const result: IGraphResult = { data: [] };
+
+    for (const data of includeData ?? []) {
+      if (data === GraphIncludeData.total) {
+        result[data] = getPeriodValue({});
+      } else {
+        const [preLastDataPeriod, lastDataPeriod] = changePeriods.get(data);
+
+        result[data] = getChange(
+          getPeriodValue(lastDataPeriod),
+          getPeriodValue(preLastDataPeriod),
+        );
+      }
+    }
+
+    for (const { dateFrom, dateTo } of periods) {
+      const dataPoint: IGraphDataPoint = {
+        value: getPeriodValue({ dateFrom, dateTo }),
+        timestamp: dateFrom,
+        dateFrom,
+        dateTo,
+      };
+
+      if (includePeriodBorders) result.data.push(dataPoint);
+      else {
+        const { value, timestamp } = dataPoint;
+        result.data.push({ value, timestamp });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,32 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+
+export type RollupDimensionValue = number | string | boolean | null | number[];
+
+export type RollupDimensions = Record<string, RollupDimensionValue>;
+
+// * undefined values are not filtered, arrays of the filter match any of the values
+export type RollupDimensionFilter = Record<
+  string,
+  number | string | boolean | number[] | undefined
+>;
+
+export interface IInsightRollupFact {
+  // * start of the UTC hour of the record creation
+  date: Date;
+  dimensions: RollupDimensions;
+  count: number;
+  sum: Decimal;
+}
+
+// * UTC days of the facts the written records belong to
+export type RollupAffectedDaysQuery = (ids: number[]) => Prisma.Sql;
+
+export interface IInsightRollupMetric {
+  // * model whose creation time is the date of the facts
+  model: Prisma.ModelName;
+  // * models whose writes change the facts, including the metric model
+  affectedDays: Partial<Record<Prisma.ModelName, RollupAffectedDaysQuery>>;
+  // * facts of the records created on the UTC days, or of all records
+  query: (days?: Date[]) => Prisma.Sql;
+}
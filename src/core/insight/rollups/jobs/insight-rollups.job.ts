@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JobService } from 'src/utils/classes/job-service';
+import { InsightRollupsService } from '../insight-rollups.service';
+
+@Injectable()
+export class InsightRollupsJobService extends JobService {
+  constructor(private readonly insightRollupsService: InsightRollupsService) {
+    super(new Logger(InsightRollupsJobService.name));
+  }
+
+  private refreshOutdatedRollups = async () => {
+    await this.insightRollupsService.refreshOutdated();
+  };
+
+  // * rebuild catches the writes the incremental refresh missed, eg. raw queries or other instances
+  private rebuildRollups = async () => {
+    await this.insightRollupsService.rebuild();
+  };
+
+  // * every minute
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'refresh-insight-rollups' })
+  async refreshOutdatedRollupsJob() {
+    await this.jobWrapper(
+      'refresh-insight-rollups',
+      this.refreshOutdatedRollups,
+    );
+  }
+
+  // * at 00:20 every day
+  // reference: https://crontab.guru/#20_0_*_*_*
+  @Cron('20 0 * * *', { name: 'rebuild-insight-rollups' })
+  async rebuildRollupsJob() {
+    await this.jobWrapper('rebuild-insight-rollups', this.rebuildRollups);
+  }
+}
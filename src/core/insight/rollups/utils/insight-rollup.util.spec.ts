@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { GraphType } from '../../enums/graph-type.enum';
+import { IInsightRollupFact } from '../interfaces/insight-rollup.interface';
+import {
+  createFactsSummer,
+  diffRollupFacts,
+  getDimensionFilterSql,
+  getDimensionKey,
+  startOfUTCDay,
+} from './insight-rollup.util';
+
+const fact = (
+  date: string,
+  count: number,
+  dimensions: IInsightRollupFact['dimensions'] = {},
+): IInsightRollupFact => ({
+  date: new Date(date),
+  dimensions,
+  count,
+  sum: new Decimal(count * 10),
+});
+
+describe('insight rollup util', () => {
+  it('should start the day at UTC midnight', () => {
+    expect(startOfUTCDay(new Date('2023-09-20T23:15:00.000Z'))).toEqual(
+      new Date('2023-09-20T00:00:00.000Z'),
+    );
+  });
+
+  it('should serialize dimensions independent of the key order', () => {
+    expect(getDimensionKey({ status: 1, industryId: 2 })).toBe(
+      getDimensionKey({ industryId: 2, status: 1 }),
+    );
+    expect(getDimensionKey({ status: 1 })).not.toBe(
+      getDimensionKey({ status: 2 }),
+    );
+  });
+
+  describe('getDimensionFilterSql', () => {
+    const column = Prisma.sql`r."dimensions"`;
+
+    it('should match the scalar or the array dimension of each value', () => {
+      const sql = getDimensionFilterSql(column, {
+        status: [1, 2],
+        industryId: undefined,
+        isDeleted: false,
+      });
+
+      expect(sql.sql).toBe(
+        'TRUE AND (r."dimensions" @> ?::jsonb OR r."dimensions" @> ?::jsonb OR r."dimensions" @> ?::jsonb OR r."dimensions" @> ?::jsonb) AND (r."dimensions" @> ?::jsonb OR r."dimensions" @> ?::jsonb)',
+      );
+      expect(sql.values).toEqual([
+        '{"status":1}',
+        '{"status":[1]}',
+        '{"status":2}',
+        '{"status":[2]}',
+        '{"isDeleted":false}',
+        '{"isDeleted":[false]}',
+      ]);
+    });
+
+    it('should match everything without a filter', () => {
+      expect(getDimensionFilterSql(column, {}).sql).toBe('TRUE');
+    });
+  });
+
+  describe('diffRollupFacts', () => {
+    it('should create, update and delete the changed facts only', () => {
+      const storedFact = (id: number, date: string, count: number) => ({
+        id,
+        date: new Date(date),
+        dimensionKey: getDimensionKey({ status: 1 }),
+        count,
+        sum: new Decimal(count * 10),
+      });
+
+      expect(
+        diffRollupFacts(
+          [
+            storedFact(1, '2023-09-01', 2),
+            storedFact(2, '2023-09-02', 3),
+            storedFact(3, '2023-09-03', 1),
+          ],
+          [
+            fact('2023-09-01', 2, { status: 1 }),
+            fact('2023-09-02', 4, { status: 1 }),
+            fact('2023-09-04', 1, { status: 1 }),
+          ],
+        ),
+      ).toEqual({
+        factsToCreate: [
+          {
+            ...fact('2023-09-04', 1, { status: 1 }),
+            dimensionKey: getDimensionKey({ status: 1 }),
+          },
+        ],
+        factsToUpdate: [{ id: 2, count: 4, sum: new Decimal(40) }],
+        factIdsToDelete: [3],
+      });
+    });
+  });
+
+  describe('createFactsSummer', () => {
+    const facts = [
+      fact('2023-09-01', 1),
+      fact('2023-09-02', 2),
+      fact('2023-09-02T12:00:00.000Z', 8),
+      fact('2023-09-03', 4),
+    ];
+    const period = {
+      dateFrom: new Date('2023-09-02T00:00:00.000Z'),
+      dateTo: new Date('2023-09-02T23:59:59.999Z'),
+    };
+    const sumCounts = createFactsSummer(facts, ({ count }) => count);
+
+    it('should sum the facts of the period', () => {
+      expect(sumCounts(period, GraphType.PeriodBased)).toEqual(new Decimal(10));
+      expect(
+        createFactsSummer(facts, ({ sum }) => sum)({}, GraphType.PeriodBased),
+      ).toEqual(new Decimal(150));
+    });
+
+    it('should include the facts at the borders of the period', () => {
+      expect(
+        sumCounts(
+          {
+            dateFrom: new Date('2023-09-02T00:00:00.000Z'),
+            dateTo: new Date('2023-09-03T00:00:00.000Z'),
+          },
+          GraphType.PeriodBased,
+        ),
+      ).toEqual(new Decimal(14));
+    });
+
+    it('should sum nothing for the period without facts', () => {
+      expect(
+        sumCounts(
+          {
+            dateFrom: new Date('2023-09-04T00:00:00.000Z'),
+            dateTo: new Date('2023-09-05T00:00:00.000Z'),
+          },
+          GraphType.PeriodBased,
+        ),
+      ).toEqual(new Decimal(0));
+      expect(createFactsSummer([], () => 1)({}, GraphType.PeriodBased)).toEqual(
+        new Decimal(0),
+      );
+    });
+
+    it('should sum the facts until the end of the period if cumulative', () => {
+      expect(sumCounts(period, GraphType.Cumulative)).toEqual(new Decimal(11));
+    });
+  });
+});
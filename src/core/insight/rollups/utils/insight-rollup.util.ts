@@ -0,0 +1,173 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { GraphType } from '../../enums/graph-type.enum';
+import {
+  IInsightRollupFact,
+  RollupDimensionFilter,
+  RollupDimensions,
+} from '../interfaces/insight-rollup.interface';
+
+export interface IStoredRollupFact {
+  id: number;
+  date: Date;
+  dimensionKey: string;
+  count: number;
+  sum: Decimal;
+}
+
+export const startOfUTCDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+export const addUTCDays = (date: Date, amount: number) => {
+  const result = new Date(date);
+
+  result.setUTCDate(result.getUTCDate() + amount);
+
+  return result;
+};
+
+export const formatUTCDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Serialized dimensions, independent of the order of the dimension keys.
+ */
+export const getDimensionKey = (dimensions: RollupDimensions) =>
+  JSON.stringify(
+    Object.keys(dimensions)
+      .sort()
+      .map((key) => [key, dimensions[key]]),
+  );
+
+const getFactKey = (date: Date, dimensionKey: string) =>
+  `${date.toISOString()}|${dimensionKey}`;
+
+/**
+ * Conditions of the dimensions column. Scalar dimensions have to equal the filter value, array dimensions
+ * (eg. statuses a user ever had) have to include it. If the filter value is an array, any of its values matches.
+ */
+export const getDimensionFilterSql = (
+  column: Prisma.Sql,
+  filter: RollupDimensionFilter,
+) =>
+  Prisma.join(
+    [
+      Prisma.sql`TRUE`,
+      ...Object.entries(filter)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => {
+          const values = Array.isArray(value) ? value : [value];
+
+          return Prisma.sql`(${Prisma.join(
+            values.flatMap((value) => [
+              Prisma.sql`${column} @> ${JSON.stringify({
+                [key]: value,
+              })}::jsonb`,
+              Prisma.sql`${column} @> ${JSON.stringify({
+                [key]: [value],
+              })}::jsonb`,
+            ]),
+            ' OR ',
+          )})`;
+        }),
+    ],
+    ' AND ',
+  );
+
+/**
+ * Facts to create, update and delete, so the stored facts equal the calculated ones.
+ */
+export const diffRollupFacts = (
+  storedFacts: IStoredRollupFact[],
+  facts: IInsightRollupFact[],
+) => {
+  const storedFactsByKey = new Map(
+    storedFacts.map((storedFact) => [
+      getFactKey(storedFact.date, storedFact.dimensionKey),
+      storedFact,
+    ]),
+  );
+  const factsToCreate: (IInsightRollupFact & { dimensionKey: string })[] = [];
+  const factsToUpdate: Pick<IStoredRollupFact, 'id' | 'count' | 'sum'>[] = [];
+
+  for (const fact of facts) {
+    const dimensionKey = getDimensionKey(fact.dimensions);
+    const factKey = getFactKey(fact.date, dimensionKey);
+    const storedFact = storedFactsByKey.get(factKey);
+
+    storedFactsByKey.delete(factKey);
+
+    if (!storedFact) {
+      factsToCreate.push({ ...fact, dimensionKey });
+    } else if (
+      storedFact.count !== fact.count ||
+      !new Decimal(storedFact.sum).equals(fact.sum)
+    ) {
+      factsToUpdate.push({
+        id: storedFact.id,
+        count: fact.count,
+        sum: fact.sum,
+      });
+    }
+  }
+
+  return {
+    factsToCreate,
+    factsToUpdate,
+    factIdsToDelete: [...storedFactsByKey.values()].map(({ id }) => id),
+  };
+};
+
+// * index of the first fact that doesn't match, the facts matching the predicate have to be first
+const findFactIndex = (
+  facts: IInsightRollupFact[],
+  predicate: (date: Date) => boolean,
+) => {
+  let [low, high] = [0, facts.length];
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+
+    if (predicate(facts[middle].date)) low = middle + 1;
+    else high = middle;
+  }
+
+  return low;
+};
+
+/**
+ * Returns the sum of the facts of the hours that start within the period, or before its end if the graph
+ * is cumulative. Facts sorted by the date are summed up once, so a period is summed without going through them.
+ */
+export const createFactsSummer = (
+  facts: IInsightRollupFact[],
+  getValue: (fact: IInsightRollupFact) => Decimal | number,
+) => {
+  // * sum of the facts before the index
+  const prefixSums = facts.reduce(
+    (sums, fact) => {
+      sums.push(sums[sums.length - 1].add(getValue(fact)));
+
+      return sums;
+    },
+    [new Decimal(0)],
+  );
+
+  return (
+    { dateFrom, dateTo }: { dateFrom?: Date; dateTo?: Date },
+    graphType: GraphType,
+  ) => {
+    const fromIndex =
+      graphType === GraphType.Cumulative || !dateFrom
+        ? 0
+        : findFactIndex(facts, (date) => date < dateFrom);
+    const toIndex = dateTo
+      ? findFactIndex(facts, (date) => date <= dateTo)
+      : facts.length;
+
+    return toIndex > fromIndex
+      ? prefixSums[toIndex].sub(prefixSums[fromIndex])
+      : new Decimal(0);
+  };
+};
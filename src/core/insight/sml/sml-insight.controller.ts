@@ -7,6 +7,7 @@ import {
   Param,
   Delete,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { SMLInsightService } from './sml-insight.service';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
@@ -28,9 +29,11 @@ import { SMLMostUsedWordsWithBrandsParamsDto } from './dto/most-used-words-with-
 import { SMLMostUsedWordsWithProductsParamsDto } from './dto/most-used-words-with-products-params.dto';
 import { SMLMostUsedWordsWithSymptomsParamsDto } from './dto/most-used-words-with-symtoms-params.dto';
 import { SMLMostUsedWordsWithStrugglesParamsDto } from './dto/most-used-words-with-struggles-params.dto';
+import { UserTimezoneInterceptor } from 'src/interceptors/user-timezone.interceptor';
 
 @Controller('insight/sml')
 @ApiTags('insight', 'sml')
+@UseInterceptors(UserTimezoneInterceptor)
 export class SMLInsightController {
   constructor(private readonly smlService: SMLInsightService) {}
 
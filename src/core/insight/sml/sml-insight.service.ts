@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from 'src/integrations/prisma/prisma.service';
 import { UserStatus } from 'src/utils';
-import { getNPeriods, getPeriods } from '../utils/period-generator';
+import { getNPeriods } from '../utils/period-generator';
 import { GraphParamsDto, NPointGraphParamsDto } from '../dto/graph-params.dto';
 import { SMLFilterParamsDto } from './dto/filter-params.dto';
 import { Prisma } from '@prisma/client';
@@ -28,6 +28,8 @@ import { SMLMostUsedWordsWithBrandsParamsDto } from './dto/most-used-words-with-
 import { SMLMostUsedWordsWithProductsParamsDto } from './dto/most-used-words-with-products-params.dto';
 import { SMLMostUsedWordsWithSymptomsParamsDto } from './dto/most-used-words-with-symtoms-params.dto';
 import { SMLMostUsedWordsWithStrugglesParamsDto } from './dto/most-used-words-with-struggles-params.dto';
+import { InsightRollupsService } from '../rollups/insight-rollups.service';
+import { InsightMetric } from '../rollups/enums/insight-metric.enum';
 
 @Injectable()
 export class SMLInsightService {
@@ -36,117 +38,32 @@ export class SMLInsightService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly smlService: SMLService,
+    private readonly insightRollupsService: InsightRollupsService,
   ) {}
 
   async getSMLCountData(
-    {
-      graphPeriod,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-    }: GraphParamsDto,
+    graphParams: GraphParamsDto,
     { status }: SMLFilterParamsDto,
   ) {
-    const queryWhere: Prisma.SocialMediaListeningWhereInput = {
-      platformProductOrder: { status },
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
-      {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
-      },
-      this.logger,
+    const result = await this.insightRollupsService.getGraphData(
+      InsightMetric.SocialMediaListenings,
+      { ...graphParams, useStrictPeriod: true },
+      { status },
+      { logger: this.logger },
     );
-    const result: IGraphResult = { data: [], dataLength: -1 };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult = await this.prismaService.socialMediaListening.count({
-        select: { _all: true },
-        where: {
-          ...graphQueryWhere(graphType, dateFrom, dateTo),
-          ...queryWhere,
-        },
-      });
-      const dataPoint: IGraphDataPoint = {
-        value: queryResult._all,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    result.dataLength = result.data.length;
 
-    return result;
+    return { ...result, dataLength: result.data.length };
   }
 
-  async getSMLRevenueData({
-    graphPeriod,
-    graphType,
-    maxResults,
-    roundDateToDay,
-    roundDateToMonth,
-    includeOngoingPeriod,
-    includePeriodBorders,
-  }: GraphParamsDto) {
-    const queryWhere: Prisma.PlatformProductOrderWhereInput = {
-      status: Status.Finished,
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
-      {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
-      },
-      this.logger,
+  async getSMLRevenueData(graphParams: GraphParamsDto) {
+    const result = await this.insightRollupsService.getGraphData(
+      InsightMetric.ProductOrderBudgets,
+      { ...graphParams, useStrictPeriod: true },
+      { status: Status.Finished },
+      { getValue: ({ sum }) => sum, logger: this.logger },
     );
-    const result: IGraphResult = { data: [], dataLength: -1 };
 
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult =
-        await this.prismaService.platformProductOrder.aggregate({
-          _sum: { budget: true },
-          where: {
-            ...graphQueryWhere(graphType, dateFrom, dateTo),
-            ...queryWhere,
-          },
-        });
-      const dataPoint: IGraphDataPoint = {
-        value:
-          queryResult._sum.budget !== null
-            ? queryResult._sum.budget.toNumber()
-            : 0,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    result.dataLength = result.data.length;
-
-    return result;
+    return { ...result, dataLength: result.data.length };
   }
 
   private smlAuthorFilterQuery(
@@ -1,132 +1,34 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PrismaService } from 'src/integrations/prisma/prisma.service';
-import { UserStatus } from 'src/utils';
-import { getPeriods } from '../utils/period-generator';
 import { GraphParamsDto } from '../dto/graph-params.dto';
 import { SurveyFilterParamsDto } from './dto/filter-params.dto';
-import { Prisma } from '@prisma/client';
-import { IGraphDataPoint } from '../interfaces/graph-data-point.interface';
-import { IGraphResult } from '../interfaces/graph-result.interface';
-import { graphQueryWhere } from '../utils/query-where';
-import { PlatformProduct } from 'src/core/platform-product/enums/platform-product.enum';
 import { Status } from 'src/core/campaign/enums/status.enum';
+import { InsightRollupsService } from '../rollups/insight-rollups.service';
+import { InsightMetric } from '../rollups/enums/insight-metric.enum';
 
 @Injectable()
 export class SurveysInsightService {
   private readonly logger = new Logger(SurveysInsightService.name);
 
-  constructor(private readonly prismaService: PrismaService) {}
+  constructor(private readonly insightRollupsService: InsightRollupsService) {}
 
   async getSurveysCountData(
-    {
-      useStrictPeriod,
-      graphPeriod,
-      numberOfPoints,
-      graphType,
-      maxResults,
-      roundDateToDay,
-      roundDateToMonth,
-      includeOngoingPeriod,
-      includePeriodBorders,
-      includeData,
-    }: GraphParamsDto,
+    graphParams: GraphParamsDto,
     { status }: SurveyFilterParamsDto,
   ) {
-    const queryWhere: Prisma.SurveyWhereInput = {
-      platformProductOrder: { status },
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
-      {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
-      },
-      this.logger,
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.Surveys,
+      { ...graphParams, useStrictPeriod: true },
+      { status },
+      { logger: this.logger },
     );
-    const result: IGraphResult = { data: [] };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult = await this.prismaService.survey.count({
-        select: { _all: true },
-        where: {
-          ...graphQueryWhere(graphType, dateFrom, dateTo),
-          ...queryWhere,
-        },
-      });
-      const dataPoint: IGraphDataPoint = {
-        value: queryResult._all,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 
-  async getSurveysRevenueData({
-    useStrictPeriod,
-    graphPeriod,
-    numberOfPoints,
-    graphType,
-    maxResults,
-    roundDateToDay,
-    roundDateToMonth,
-    includeOngoingPeriod,
-    includePeriodBorders,
-    includeData,
-  }: GraphParamsDto) {
-    const queryWhere: Prisma.PlatformProductOrderWhereInput = {
-      status: Status.Finished,
-    };
-    const periods = getPeriods(
-      graphPeriod,
-      undefined,
-      {
-        includeOngoingPeriod, // ? true
-        roundDateToDay, // ? true
-        roundDateToMonth,
-        numOfLastPeriods: maxResults,
-      },
-      this.logger,
+  async getSurveysRevenueData(graphParams: GraphParamsDto) {
+    return this.insightRollupsService.getGraphData(
+      InsightMetric.ProductOrderBudgets,
+      { ...graphParams, useStrictPeriod: true },
+      { status: Status.Finished },
+      { getValue: ({ sum }) => sum, logger: this.logger },
     );
-    const result: IGraphResult = { data: [] };
-
-    for (const { dateFrom, dateTo } of periods) {
-      const queryResult =
-        await this.prismaService.platformProductOrder.aggregate({
-          _sum: { budget: true },
-          where: {
-            ...graphQueryWhere(graphType, dateFrom, dateTo),
-            ...queryWhere,
-          },
-        });
-      const dataPoint: IGraphDataPoint = {
-        value:
-          queryResult._sum.budget !== null
-            ? queryResult._sum.budget.toNumber()
-            : 0,
-        timestamp: dateFrom,
-        dateFrom,
-        dateTo,
-      };
-
-      if (includePeriodBorders) result.data.push(dataPoint);
-      else {
-        const { value, timestamp, ...periodBorders } = dataPoint;
-        result.data.push({ value, timestamp });
-      }
-    }
-
-    return result;
   }
 }
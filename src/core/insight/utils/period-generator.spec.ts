@@ -0,0 +1,164 @@
+import { GraphPeriod } from '../enums/graph-period.enum';
+import { getNPeriods, getPeriods } from './period-generator';
+import { calculateDaysAgo } from './time-interval';
+import { fromZonedTime, toZonedTime } from './timezone';
+
+const toISOStrings = (periods: { dateFrom: Date; dateTo: Date }[]) =>
+  periods.map(({ dateFrom, dateTo }) => [
+    dateFrom.toISOString(),
+    dateTo.toISOString(),
+  ]);
+
+describe('period generator', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('timezone', () => {
+    it('should convert between the instant and the wall clock time', () => {
+      const date = new Date('2023-07-01T10:00:00.000Z');
+
+      expect(toZonedTime(date, 'Europe/Berlin')).toEqual(
+        new Date('2023-07-01T12:00:00.000Z'),
+      );
+      expect(toZonedTime(date, 'America/New_York')).toEqual(
+        new Date('2023-07-01T06:00:00.000Z'),
+      );
+      expect(
+        fromZonedTime(
+          toZonedTime(date, 'America/New_York'),
+          'America/New_York',
+        ),
+      ).toEqual(date);
+    });
+
+    it('should move the wall clock time skipped by DST forward', () => {
+      // * 02:30 doesn't exist on 26th of March in Berlin, clocks go from 02:00 to 03:00
+      expect(
+        fromZonedTime(new Date('2023-03-26T02:30:00.000Z'), 'Europe/Berlin'),
+      ).toEqual(new Date('2023-03-26T01:30:00.000Z'));
+    });
+
+    it('should count calendar days of the timezone', () => {
+      expect(
+        calculateDaysAgo(
+          new Date('2023-03-31T12:00:00.000Z'),
+          '1M',
+          'Europe/Berlin',
+        ),
+      ).toBe(31);
+      expect(
+        calculateDaysAgo(
+          new Date('2023-03-28T12:00:00.000Z'),
+          '1w',
+          'Europe/Berlin',
+        ),
+      ).toBe(7);
+    });
+  });
+
+  describe('getPeriods', () => {
+    it('should start the days at the local midnight when DST starts', () => {
+      const periods = getPeriods(
+        GraphPeriod.Daily,
+        new Date('2023-03-28T10:00:00.000Z'),
+        {
+          includeOngoingPeriod: false,
+          roundDateToDay: true,
+          roundDateToMonth: false,
+          numOfLastPeriods: 3,
+          timezone: 'Europe/Berlin',
+        },
+      );
+
+      expect(toISOStrings(periods)).toEqual([
+        ['2023-03-24T23:00:00.000Z', '2023-03-25T22:59:59.999Z'],
+        // * 23-hour day
+        ['2023-03-25T23:00:00.000Z', '2023-03-26T21:59:59.999Z'],
+        ['2023-03-26T22:00:00.000Z', '2023-03-27T21:59:59.999Z'],
+      ]);
+    });
+
+    it('should start the days at the local midnight when DST ends', () => {
+      const periods = getPeriods(
+        GraphPeriod.Daily,
+        new Date('2023-10-30T10:00:00.000Z'),
+        {
+          includeOngoingPeriod: false,
+          roundDateToDay: true,
+          roundDateToMonth: false,
+          numOfLastPeriods: 2,
+          timezone: 'Europe/Berlin',
+        },
+      );
+
+      expect(toISOStrings(periods)).toEqual([
+        ['2023-10-27T22:00:00.000Z', '2023-10-28T21:59:59.999Z'],
+        // * 25-hour day
+        ['2023-10-28T22:00:00.000Z', '2023-10-29T22:59:59.999Z'],
+      ]);
+    });
+
+    it('should keep the week start at the local midnight across DST', () => {
+      const periods = getPeriods(
+        GraphPeriod.Weekly,
+        new Date('2023-03-15T12:00:00.000Z'),
+        {
+          includeOngoingPeriod: false,
+          roundDateToDay: true,
+          roundDateToMonth: false,
+          numOfLastPeriods: 2,
+          timezone: 'America/New_York',
+        },
+      );
+
+      expect(toISOStrings(periods)).toEqual([
+        ['2023-03-01T05:00:00.000Z', '2023-03-08T04:59:59.999Z'],
+        ['2023-03-08T05:00:00.000Z', '2023-03-15T03:59:59.999Z'],
+      ]);
+    });
+
+    it('should round the date to the local start of the month', () => {
+      const periods = getPeriods(
+        GraphPeriod.Monthly,
+        new Date('2023-04-15T12:00:00.000Z'),
+        {
+          includeOngoingPeriod: false,
+          roundDateToDay: false,
+          roundDateToMonth: true,
+          numOfLastPeriods: 1,
+          timezone: 'America/New_York',
+        },
+      );
+
+      expect(toISOStrings(periods)).toEqual([
+        ['2023-03-02T05:00:00.000Z', '2023-04-01T03:59:59.999Z'],
+      ]);
+    });
+  });
+
+  describe('getNPeriods', () => {
+    it('should step by the calendar days of the timezone', () => {
+      const toDate = new Date('2023-03-27T22:00:00.000Z');
+      const periods = getNPeriods(
+        undefined,
+        toDate,
+        new Date('2023-03-24T23:00:00.000Z'),
+        undefined,
+        4,
+        'Europe/Berlin',
+      );
+
+      expect(toISOStrings(periods)).toEqual([
+        ['2023-03-24T23:00:00.000Z', '2023-03-25T22:59:59.999Z'],
+        ['2023-03-25T23:00:00.000Z', '2023-03-26T21:59:59.999Z'],
+        ['2023-03-26T22:00:00.000Z', '2023-03-27T21:59:59.999Z'],
+        ['2023-03-27T22:00:00.000Z', '2023-03-27T22:00:00.000Z'],
+      ]);
+    });
+  });
+});
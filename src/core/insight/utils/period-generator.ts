@@ -2,16 +2,18 @@ import { Logger } from '@nestjs/common';
 import { GraphPeriod } from '../enums/graph-period.enum';
 import { IPeriodUtilOptions } from '../interfaces/period-util-options.interface';
 import { calculateDaysAgo } from './time-interval';
+import { addHours, differenceInHours } from 'date-fns';
 import {
-  addDays,
-  addHours,
-  differenceInDays,
-  differenceInHours,
-  endOfDay,
-  startOfDay,
-} from 'date-fns';
-import { convertToMilliseconds } from 'src/utils';
-
+  addZonedTime,
+  fromZonedTime,
+  getServerTimezone,
+  toZonedTime,
+} from './timezone';
+
+/**
+ * Periods before the date, with period borders in the wall clock time of the timezone (server timezone by default),
+ * so days, weeks and months start at the local midnight, DST transitions included.
+ */
 export function getPeriods(
   graphPeriod: GraphPeriod,
   dateTo = new Date(),
@@ -22,49 +24,45 @@ export function getPeriods(
   },
   logger?: Logger,
 ) {
+  const timezone = options.timezone ?? getServerTimezone();
   const periods: { dateFrom: Date; dateTo: Date }[] = [];
-  const dateToCopy = new Date(dateTo);
+  // * calendar arithmetic is done on the UTC fields of the wall clock time
+  const dateToCopy = toZonedTime(dateTo, timezone);
   if (options.includeOngoingPeriod) {
     if (graphPeriod === GraphPeriod.Daily) {
-      dateToCopy.setDate(dateToCopy.getDate() + 1);
+      dateToCopy.setUTCDate(dateToCopy.getUTCDate() + 1);
     } else if (graphPeriod == GraphPeriod.Weekly) {
-      dateToCopy.setDate(dateToCopy.getDate() + 7);
+      dateToCopy.setUTCDate(dateToCopy.getUTCDate() + 7);
     } else if (graphPeriod == GraphPeriod.Monthly) {
-      dateToCopy.setMonth(dateToCopy.getMonth() + 1);
+      dateToCopy.setUTCMonth(dateToCopy.getUTCMonth() + 1);
     } else if (graphPeriod == GraphPeriod.Yearly) {
-      dateToCopy.setFullYear(dateToCopy.getFullYear() + 1);
+      dateToCopy.setUTCFullYear(dateToCopy.getUTCFullYear() + 1);
     }
   }
   if (options.roundDateToDay) {
-    dateToCopy.setHours(0, 0, 0, 0);
+    dateToCopy.setUTCHours(0, 0, 0, 0);
   }
   if (options.roundDateToMonth) {
     if (options.includeOngoingPeriod) {
-      dateToCopy.setMonth(dateToCopy.getMonth() + 1);
+      dateToCopy.setUTCMonth(dateToCopy.getUTCMonth() + 1);
     }
-    dateToCopy.setDate(1);
-    dateToCopy.setHours(0, 0, 0, 0);
+    dateToCopy.setUTCDate(1);
+    dateToCopy.setUTCHours(0, 0, 0, 0);
   }
   const dateFrom = new Date(dateToCopy);
-  const dateToFinal = new Date(dateToCopy);
-  // * the line below decides if dateTo has to satisfy lt or lte prisma query
-  dateToCopy.setMilliseconds(dateToCopy.getMilliseconds() - 1);
+  const dateToFinal = fromZonedTime(dateToCopy, timezone);
+  // * last moment of the last period
+  const dateToLast = new Date(dateToFinal.getTime() - 1);
 
   let periodsInPast: number;
   let periodLength: number;
-  let dateFromFirst: Date;
   let iteration = 0;
 
   switch (graphPeriod) {
     case GraphPeriod.Daily:
-      // const dateToFinalTemp = new Date(dateToFinal);
       // ! periodsInPast = 30; // 30 days max
-      periodsInPast = calculateDaysAgo(dateToCopy, '1M');
+      periodsInPast = calculateDaysAgo(dateToLast, '1M', timezone);
       periodLength = 1; // 1-day period
-      // periodsInPast = (dateToFinalTemp.getTime() - (dateToFinalTemp.setMonth(dateToFinalTemp.getMonth() - 1)));
-      dateFromFirst = new Date(
-        dateToFinal.getTime() - periodsInPast * convertToMilliseconds('1d'),
-      );
 
       break;
     case GraphPeriod.Weekly:
@@ -72,54 +70,53 @@ export function getPeriods(
       // 3 * 30 || 3 * 4 * 7;
       // ! periodsInPast = 3 * 30; // 90 days max
       // ! OLD periodsInPast = calculateDaysAgo(dateToCopy, '3M');
-      periodsInPast = calculateDaysAgo(dateToCopy, '12w'); // 12w ~ 3M
+      periodsInPast = calculateDaysAgo(dateToLast, '12w', timezone); // 12w ~ 3M
       periodLength = 7; // 7-day period
-      dateFromFirst = new Date(
-        dateToFinal.getTime() - periodsInPast * convertToMilliseconds('1d'),
-      );
 
       break;
     case GraphPeriod.Monthly:
       // ! periodsInPast = 365; // 365 days or 1 year max
-      periodsInPast = calculateDaysAgo(dateToCopy, '1Y');
+      periodsInPast = calculateDaysAgo(dateToLast, '1Y', timezone);
       periodLength = 30; // 30-day or 1-month period
-      dateFromFirst = new Date(
-        dateToFinal.getTime() - periodsInPast * convertToMilliseconds('1d'),
-      );
 
       break;
     case GraphPeriod.Yearly:
       // ! periodsInPast = 6 * 365; // 6 years max
-      periodsInPast = calculateDaysAgo(dateToCopy, '6Y');
+      periodsInPast = calculateDaysAgo(dateToLast, '6Y', timezone);
       periodLength = 365; // 1-year period
-      dateFromFirst = new Date(
-        dateToFinal.getTime() - periodsInPast * convertToMilliseconds('1d'),
-      );
       break;
     default:
       break;
   }
 
+  const dateFromFirst = addZonedTime(dateToCopy, -periodsInPast, 'd');
+
   while (
     dateFrom > dateFromFirst &&
     ((options.numOfLastPeriods !== undefined &&
       iteration !== options.numOfLastPeriods) ||
       options.numOfLastPeriods === undefined)
   ) {
-    dateFrom.setDate(dateFrom.getDate() - periodLength);
+    // * the line below decides if dateTo has to satisfy lt or lte prisma query
+    const periodDateTo = new Date(
+      fromZonedTime(dateFrom, timezone).getTime() - 1,
+    );
+
+    dateFrom.setUTCDate(dateFrom.getUTCDate() - periodLength);
     periods.push({
       // ! it is important to initialize a new Date object
-      dateFrom: new Date(dateFrom),
-      dateTo: new Date(dateToCopy),
+      dateFrom: fromZonedTime(dateFrom, timezone),
+      dateTo: periodDateTo,
     });
     (logger ?? console).debug(
       JSON.stringify({
         iteration: ++iteration,
-        dateFrom: dateFrom.toLocaleString('hr'),
-        dateTo: dateToCopy.toLocaleString('hr'),
+        dateFrom: periods.at(-1).dateFrom.toLocaleString('hr', {
+          timeZone: timezone,
+        }),
+        dateTo: periodDateTo.toLocaleString('hr', { timeZone: timezone }),
       }),
     );
-    dateToCopy.setDate(dateToCopy.getDate() - periodLength);
   }
 
   return periods.sort((a, b) => a.dateFrom.getTime() - b.dateFrom.getTime());
@@ -131,6 +128,7 @@ export function getNPeriods(
   oldestData: Date,
   newestData: Date,
   N: number,
+  timezone = getServerTimezone(),
 ) {
   if (oldestData === null && newestData === null) {
     return [];
@@ -145,7 +143,12 @@ export function getNPeriods(
   const fromDate = filterFromDate || oldestData || new Date();
   const toDate = filterToDate || new Date();
 
-  const totalDays = differenceInDays(toDate, fromDate);
+  // * days are calendar days of the timezone, eg. a day of the DST transition has 23 or 25 hours
+  const zonedFromDate = toZonedTime(fromDate, timezone);
+  const totalDays = Math.floor(
+    (toZonedTime(toDate, timezone).getTime() - zonedFromDate.getTime()) /
+      (24 * 60 * 60 * 1000),
+  );
   const totalHours = differenceInHours(toDate, fromDate);
 
   const dates: { dateFrom: Date; dateTo: Date }[] = [];
@@ -186,11 +189,17 @@ export function getNPeriods(
     }
 
     for (let i = 0; i < N; i++) {
-      const dateStart = addDays(fromDate, i * step);
+      const dateStart = fromZonedTime(
+        addZonedTime(zonedFromDate, i * step, 'd'),
+        timezone,
+      );
       let dateEnd: Date;
 
       if (i < N - 1) {
-        dateEnd = addDays(fromDate, (i + 1) * step);
+        dateEnd = fromZonedTime(
+          addZonedTime(zonedFromDate, (i + 1) * step, 'd'),
+          timezone,
+        );
         dateEnd.setMilliseconds(dateEnd.getMilliseconds() - 1);
       } else {
         dateEnd = toDate;
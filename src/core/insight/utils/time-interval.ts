@@ -1,10 +1,4 @@
-import {
-  addDays,
-  addMonths,
-  addWeeks,
-  addYears,
-  differenceInDays,
-} from 'date-fns';
+import { addZonedTime, getServerTimezone, toZonedTime } from './timezone';
 
 export const getLastIntervals = (date = new Date(), roundDateToDay = false) => {
   // dateCopy is given date or "now"
@@ -61,35 +55,39 @@ export const getLastIntervals = (date = new Date(), roundDateToDay = false) => {
  *  - M (months)
  *  - Y (years)
  *
+ * Units are calendar units of the timezone, eg. a month before 31st of March is 28th of February
+ * and a day of the DST transition is still a day.
+ *
  * @example
- * const days = calculateDaysAgo(new Date(), '1M');
+ * const days = calculateDaysAgo(new Date(), '1M', 'Europe/Berlin');
  *
  * @param date current date or any other date
  * @param timeAgo string representation of time, like "1M"
+ * @param timezone IANA timezone, server timezone by default
  * @returns difference in days
  */
-export const calculateDaysAgo = (date: Date, timeAgo: string) => {
-  let dateAgo: Date;
-
+export const calculateDaysAgo = (
+  date: Date,
+  timeAgo: string,
+  timezone = getServerTimezone(),
+) => {
   const number = parseInt(timeAgo.slice(0, -1), 10);
   const unit = timeAgo.slice(-1);
 
   switch (unit) {
     case 'd':
-      dateAgo = addDays(date, -number);
-      break;
     case 'w':
-      dateAgo = addWeeks(date, -number);
-      break;
     case 'M':
-      dateAgo = addMonths(date, -number);
-      break;
     case 'Y':
-      dateAgo = addYears(date, -number);
       break;
     default:
       throw new Error(`Invalid time unit: ${unit}`);
   }
 
-  return differenceInDays(date, dateAgo);
+  const zonedDate = toZonedTime(date, timezone);
+  const zonedDateAgo = addZonedTime(zonedDate, -number, unit);
+
+  return Math.floor(
+    (zonedDate.getTime() - zonedDateAgo.getTime()) / (24 * 60 * 60 * 1000),
+  );
 };
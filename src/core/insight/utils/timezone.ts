@@ -0,0 +1,104 @@
+const timezoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getTimezoneFormatter = (timezone: string) => {
+  if (!timezoneFormatters.has(timezone)) {
+    timezoneFormatters.set(
+      timezone,
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      }),
+    );
+  }
+
+  return timezoneFormatters.get(timezone);
+};
+
+export const getServerTimezone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Offset of the timezone from UTC at the given time, in milliseconds, eg. 2h for Europe/Berlin in summer.
+ */
+export const getTimezoneOffset = (date: Date, timezone: string) => {
+  const parts = Object.fromEntries(
+    getTimezoneFormatter(timezone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, parseInt(value, 10)]),
+  );
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+
+  return wallTime - (date.getTime() - date.getUTCMilliseconds());
+};
+
+/**
+ * Wall clock time of the timezone, represented by the UTC fields of the returned date.
+ * Calendar arithmetic on the UTC fields (eg. `setUTCDate`) is then done in the timezone, DST included.
+ */
+export const toZonedTime = (date: Date, timezone: string) =>
+  new Date(date.getTime() + getTimezoneOffset(date, timezone));
+
+/**
+ * Reverse of `toZonedTime`. Wall clock time skipped by a DST transition is moved forward by the skipped time,
+ * eg. 02:30 is 03:30 on the day Europe/Berlin switches to summer time.
+ */
+export const fromZonedTime = (zonedTime: Date, timezone: string) => {
+  const offset = getTimezoneOffset(zonedTime, timezone);
+  const date = new Date(zonedTime.getTime() - offset);
+  const dateOffset = getTimezoneOffset(date, timezone);
+
+  if (dateOffset === offset) return date;
+
+  const adjustedDate = new Date(zonedTime.getTime() - dateOffset);
+
+  return getTimezoneOffset(adjustedDate, timezone) === dateOffset
+    ? adjustedDate
+    : new Date(zonedTime.getTime() - Math.min(offset, dateOffset));
+};
+
+/**
+ * Adds the amount of calendar units to the wall clock time, month and year ends are clamped like in date-fns,
+ * eg. 31st of March minus a month is 28th of February.
+ */
+export const addZonedTime = (
+  zonedTime: Date,
+  amount: number,
+  unit: 'd' | 'w' | 'M' | 'Y',
+) => {
+  const result = new Date(zonedTime);
+
+  if (unit === 'd' || unit === 'w') {
+    result.setUTCDate(result.getUTCDate() + amount * (unit === 'w' ? 7 : 1));
+
+    return result;
+  }
+
+  const months = amount * (unit === 'Y' ? 12 : 1);
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  result.setUTCDate(
+    Math.min(
+      day,
+      new Date(
+        Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+      ).getUTCDate(),
+    ),
+  );
+
+  return result;
+};
@@ -0,0 +1,6 @@
+import { IsInt } from 'class-validator';
+
+export class CreateInvoiceDto {
+  @IsInt()
+  productOrderId: number;
+}
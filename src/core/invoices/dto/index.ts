@@ -0,0 +1,2 @@
+export * from './create-invoice.dto';
+export * from './invoice-filter.dto';
@@ -0,0 +1,16 @@
+import { IsEnum, IsInt, IsOptional } from 'class-validator';
+import { InvoiceStatus, InvoiceType } from '../enums';
+
+export class InvoiceFilterDto {
+  @IsOptional()
+  @IsInt()
+  productOrderId?: number;
+
+  @IsOptional()
+  @IsEnum(InvoiceType)
+  type?: InvoiceType;
+
+  @IsOptional()
+  @IsEnum(InvoiceStatus)
+  status?: InvoiceStatus;
+}
@@ -0,0 +1,2 @@
+export * from './invoice.entity';
+export * from './invoice-line.entity';
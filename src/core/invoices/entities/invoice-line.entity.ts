@@ -0,0 +1,28 @@
+import { InvoiceLine } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { Transform } from 'class-transformer';
+
+export class InvoiceLineEntity implements InvoiceLine {
+  id: number;
+  invoiceId: number;
+  description: string;
+  quantity: number;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  unitPrice: Decimal;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  netAmount: Decimal;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  vatRate: Decimal;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  vatAmount: Decimal;
+
+  createdAt: Date;
+
+  constructor(data: Partial<InvoiceLine>) {
+    Object.assign(this, data);
+  }
+}
@@ -0,0 +1,45 @@
+import { Invoice } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { Exclude, Transform } from 'class-transformer';
+import { InvoiceLineEntity } from './invoice-line.entity';
+
+export class InvoiceEntity implements Invoice {
+  id: number;
+  type: number;
+  number: string;
+  productOrderId: number;
+  clientId: number;
+  originalInvoiceId: number;
+  status: number;
+  currencyCode: string;
+  billingName: string;
+  billingCompany: string;
+  billingCountry: string;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  netAmount: Decimal;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  vatAmount: Decimal;
+
+  @Transform(({ value }) => value.toNumber(), { toPlainOnly: true })
+  grossAmount: Decimal;
+
+  @Exclude()
+  fileKey: string;
+
+  issuedAt: Date;
+  dueAt: Date;
+  paidAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  @Transform(({ value }) => value.map((item) => new InvoiceLineEntity(item)))
+  invoiceLines?: InvoiceLineEntity[];
+
+  constructor({ invoiceLines, ...data }: Partial<InvoiceEntity>) {
+    Object.assign(this, data);
+
+    if (invoiceLines) this.invoiceLines = invoiceLines;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './invoice-type.enum';
+export * from './invoice-status.enum';
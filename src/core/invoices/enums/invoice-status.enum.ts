@@ -0,0 +1,6 @@
+export enum InvoiceStatus {
+  Issued = 0,
+  Paid = 1,
+  // * cancelled by a credit note
+  Cancelled = 2,
+}
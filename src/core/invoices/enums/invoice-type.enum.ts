@@ -0,0 +1,4 @@
+export enum InvoiceType {
+  Invoice = 0,
+  CreditNote = 1,
+}
@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { AuthUser } from '../auth/decorators';
+import { CreateInvoiceDto, InvoiceFilterDto } from './dto';
+import { InvoiceEntity } from './entities';
+import { InvoicesService } from './invoices.service';
+
+@Controller('invoices')
+@ApiTags('invoices')
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Issue an invoice',
+    description:
+      'Issues the invoice of the product order budget, with VAT of the client country, and stores its PDF.',
+  })
+  async create(@Body() dto: CreateInvoiceDto, @AuthUser() user: User) {
+    return new InvoiceEntity(await this.invoicesService.create(dto, user));
+  }
+
+  @Get()
+  async findAll(@Query() dto: InvoiceFilterDto, @AuthUser() user: User) {
+    const invoices = await this.invoicesService.findAll(user, dto);
+
+    return invoices.map((invoice) => new InvoiceEntity(invoice));
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number, @AuthUser() user: User) {
+    return new InvoiceEntity(await this.invoicesService.findOne(id, user));
+  }
+
+  @Get(':id/download')
+  @ApiOperation({
+    summary: 'Download an invoice',
+    description: 'Returns a short-lived URL of the invoice PDF.',
+  })
+  async download(
+    @Param('id', ParseIntPipe) id: number,
+    @AuthUser() user: User,
+  ) {
+    return this.invoicesService.getDownloadUrl(id, user);
+  }
+
+  @Post(':id/pay')
+  @ApiOperation({
+    summary: 'Mark an invoice as paid',
+    description:
+      'Marks the invoice as paid and the revenue of its product order as received.',
+  })
+  async markAsPaid(
+    @Param('id', ParseIntPipe) id: number,
+    @AuthUser() user: User,
+  ) {
+    return new InvoiceEntity(await this.invoicesService.markAsPaid(id, user));
+  }
+
+  @Post(':id/creditNote')
+  @ApiOperation({
+    summary: 'Cancel an invoice',
+    description:
+      'Issues the credit note of the invoice, eg. when the order is cancelled, and marks the invoice as cancelled.',
+  })
+  async createCreditNote(
+    @Param('id', ParseIntPipe) id: number,
+    @AuthUser() user: User,
+  ) {
+    return new InvoiceEntity(
+      await this.invoicesService.createCreditNote(id, user),
+    );
+  }
+}
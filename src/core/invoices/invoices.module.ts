@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AwsS3Module } from 'src/integrations/aws-s3/aws-s3.module';
+import { InvoicesController } from './invoices.controller';
+import { InvoicesService } from './invoices.service';
+
+@Module({
+  imports: [AwsS3Module],
+  controllers: [InvoicesController],
+  providers: [InvoicesService],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
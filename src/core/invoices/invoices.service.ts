@@ -0,0 +1,362 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { addDays } from 'date-fns';
+import invoiceConfig from 'src/config/invoice.config';
+import {
+  BadRequestApplicationException,
+  ForbiddenApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
+import { AwsS3Service } from 'src/integrations/aws-s3/aws-s3.service';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { UserRole } from 'src/utils';
+import { FinanceStatus } from '../campaign/enums/finance-status.enum';
+import { PlatformProduct } from '../platform-product/enums/platform-product.enum';
+import { UserEntity } from '../users/entities/user.entity';
+import { CreateInvoiceDto, InvoiceFilterDto } from './dto';
+import { InvoiceStatus, InvoiceType } from './enums';
+import {
+  calculateInvoiceLines,
+  formatInvoiceNumber,
+  getInvoiceSequenceKey,
+  getVatRate,
+} from './utils/invoice.util';
+import { InvoiceDocument, renderInvoicePdf } from './utils/invoice-pdf.util';
+
+const platformProductNames: Record<PlatformProduct, string> = {
+  [PlatformProduct.Campaign]: 'Campaign',
+  [PlatformProduct.Survey]: 'Survey',
+  [PlatformProduct.SocialMediaListening]: 'Social Media Listening',
+  [PlatformProduct.CampaignReport]: 'Campaign Report',
+};
+
+/**
+ * Invoices and credit notes of platform product orders. Numbers are gapless per prefix and year,
+ * as the sequence row stays locked until the issuing transaction ends.
+ */
+@Injectable()
+export class InvoicesService {
+  private readonly logger = new Logger(InvoicesService.name);
+  private readonly invoiceInclude = Prisma.validator<Prisma.InvoiceInclude>()({
+    invoiceLines: { orderBy: { id: 'asc' } },
+    originalInvoice: true,
+  });
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly awsS3Service: AwsS3Service,
+    @Inject(invoiceConfig.KEY)
+    private readonly _invoiceConfig: ConfigType<typeof invoiceConfig>,
+  ) {}
+
+  private getAccessibleWhere(user: UserEntity): Prisma.InvoiceWhereInput {
+    if (user.role === UserRole.Client) {
+      return { client: { userId: user.id } };
+    } else if (user.role === UserRole.Ambassador) {
+      return { client: { ambassador: { userId: user.id } } };
+    } else if ([UserRole.SuperAdmin, UserRole.Admin].includes(user.role)) {
+      return {};
+    }
+
+    throw new ForbiddenApplicationException(
+      `Invoices are available only to clients, ambassadors and admins`,
+    );
+  }
+
+  private checkIsAdmin(user: UserEntity) {
+    if (![UserRole.SuperAdmin, UserRole.Admin].includes(user.role)) {
+      throw new ForbiddenApplicationException(
+        `Only the admin can issue and settle invoices`,
+      );
+    }
+  }
+
+  private async getNextNumber(
+    prefix: string,
+    date: Date,
+    tx: Prisma.TransactionClient,
+  ) {
+    const year = date.getFullYear();
+    const { lastNumber } = await tx.invoiceSequence.upsert({
+      where: { key: getInvoiceSequenceKey(prefix, year) },
+      create: { key: getInvoiceSequenceKey(prefix, year), lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+
+    return formatInvoiceNumber(prefix, year, lastNumber);
+  }
+
+  /**
+   * Stores the rendered PDF. A failed upload doesn't fail the invoice, the PDF is stored on the next download.
+   */
+  private async storePdf(invoice: InvoiceDocument) {
+    const content = await renderInvoicePdf(invoice, this._invoiceConfig.issuer);
+    const file = await this.awsS3Service.uploadFile(
+      content,
+      `${invoice.number}.pdf`,
+      'application/pdf',
+    );
+
+    if (!file) {
+      this.logger.warn(`PDF of invoice ${invoice.number} was not stored`);
+      return invoice;
+    }
+
+    return await this.prismaService.invoice.update({
+      where: { id: invoice.id },
+      data: { fileKey: file.key },
+      include: this.invoiceInclude,
+    });
+  }
+
+  async create({ productOrderId }: CreateInvoiceDto, user: UserEntity) {
+    this.checkIsAdmin(user);
+
+    const productOrder =
+      await this.prismaService.platformProductOrder.findUnique({
+        where: { id: productOrderId },
+        include: {
+          currency: true,
+          client: {
+            include: {
+              company: true,
+              user: { include: { location: { include: { country: true } } } },
+            },
+          },
+          campaigns: { select: { name: true } },
+          surveys: { select: { name: true } },
+        },
+      });
+
+    if (!productOrder) {
+      throw new NotFoundApplicationException(
+        `Product order with ID ${productOrderId} not found`,
+      );
+    } else if (!productOrder.budget?.greaterThan(0)) {
+      throw new BadRequestApplicationException(
+        `Product order ${productOrderId} has no budget to invoice`,
+      );
+    } else if (!productOrder.currency) {
+      throw new BadRequestApplicationException(
+        `Product order ${productOrderId} has no currency`,
+      );
+    }
+
+    const { client } = productOrder;
+    // * cities point to their country, countries don't
+    const country =
+      client.user.location?.country?.name ?? client.user.location?.name;
+    const productName =
+      productOrder.campaigns[0]?.name ?? productOrder.surveys[0]?.name;
+    const { invoiceLines, ...amounts } = calculateInvoiceLines(
+      [
+        {
+          description: [
+            platformProductNames[productOrder.platformProduct],
+            productName ?? `order ${productOrder.id}`,
+          ].join(' - '),
+          unitPrice: productOrder.budget,
+        },
+      ],
+      getVatRate(
+        country,
+        this._invoiceConfig.vatRates,
+        this._invoiceConfig.defaultVatRate,
+      ),
+    );
+
+    const invoice = await this.prismaService.$transaction(async (tx) => {
+      const issuedAt = new Date();
+      const number = await this.getNextNumber(
+        this._invoiceConfig.invoicePrefix,
+        issuedAt,
+        tx,
+      );
+
+      // * checked after locking the sequence, so concurrent requests can't both issue an invoice
+      const openInvoice = await tx.invoice.findFirst({
+        where: {
+          productOrderId,
+          type: InvoiceType.Invoice,
+          status: { not: InvoiceStatus.Cancelled },
+        },
+      });
+
+      if (openInvoice) {
+        throw new BadRequestApplicationException(
+          `Product order ${productOrderId} is already invoiced with ${openInvoice.number}`,
+        );
+      }
+
+      await tx.platformProductOrder.update({
+        where: { id: productOrderId },
+        data: { financeStatus: FinanceStatus.Pending },
+      });
+
+      return await tx.invoice.create({
+        data: {
+          ...amounts,
+          type: InvoiceType.Invoice,
+          number,
+          productOrderId,
+          clientId: client.id,
+          status: InvoiceStatus.Issued,
+          currencyCode: productOrder.currency.code,
+          billingName: `${client.user.firstName} ${client.user.lastName}`,
+          billingCompany: client.company.name,
+          billingCountry: country,
+          issuedAt,
+          dueAt: addDays(issuedAt, this._invoiceConfig.paymentTermDays),
+          invoiceLines: { createMany: { data: invoiceLines } },
+        },
+        include: this.invoiceInclude,
+      });
+    });
+
+    return await this.storePdf(invoice);
+  }
+
+  async findAll(user: UserEntity, filters: InvoiceFilterDto) {
+    return await this.prismaService.invoice.findMany({
+      where: { ...filters, ...this.getAccessibleWhere(user) },
+      include: this.invoiceInclude,
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  async findOne(id: number, user: UserEntity) {
+    const invoice = await this.prismaService.invoice.findFirst({
+      where: { id, ...this.getAccessibleWhere(user) },
+      include: this.invoiceInclude,
+    });
+
+    if (!invoice) {
+      throw new NotFoundApplicationException(`Invoice with ID ${id} not found`);
+    }
+
+    return invoice;
+  }
+
+  async getDownloadUrl(id: number, user: UserEntity) {
+    let invoice = await this.findOne(id, user);
+
+    if (!invoice.fileKey) invoice = await this.storePdf(invoice);
+
+    if (!invoice.fileKey) {
+      throw new BadRequestApplicationException(
+        `PDF of invoice ${invoice.number} is not available, try again later`,
+      );
+    }
+
+    return { url: await this.awsS3Service.getPresignedUrl(invoice.fileKey) };
+  }
+
+  /**
+   * Payment of the invoice is the received revenue of the product order.
+   */
+  async markAsPaid(id: number, user: UserEntity) {
+    this.checkIsAdmin(user);
+
+    const invoice = await this.findOne(id, user);
+
+    if (
+      invoice.type !== InvoiceType.Invoice ||
+      invoice.status !== InvoiceStatus.Issued
+    ) {
+      throw new BadRequestApplicationException(
+        `Only issued invoices can be paid`,
+      );
+    }
+
+    return await this.prismaService.$transaction(async (tx) => {
+      await tx.platformProductOrder.update({
+        where: { id: invoice.productOrderId },
+        data: { financeStatus: FinanceStatus.Received },
+      });
+
+      return await tx.invoice.update({
+        where: { id },
+        data: { status: InvoiceStatus.Paid, paidAt: new Date() },
+        include: this.invoiceInclude,
+      });
+    });
+  }
+
+  /**
+   * Cancels the invoice, eg. of a cancelled order, with a credit note of negative amounts.
+   * Revenue of an unpaid invoice is not expected anymore, a paid one has to be refunded.
+   */
+  async createCreditNote(id: number, user: UserEntity) {
+    this.checkIsAdmin(user);
+
+    const invoice = await this.findOne(id, user);
+
+    if (
+      invoice.type !== InvoiceType.Invoice ||
+      invoice.status === InvoiceStatus.Cancelled
+    ) {
+      throw new BadRequestApplicationException(
+        `Only issued or paid invoices can be cancelled`,
+      );
+    }
+
+    const creditNote = await this.prismaService.$transaction(async (tx) => {
+      const issuedAt = new Date();
+      const number = await this.getNextNumber(
+        this._invoiceConfig.creditNotePrefix,
+        issuedAt,
+        tx,
+      );
+
+      await tx.invoice.update({
+        where: { id },
+        data: { status: InvoiceStatus.Cancelled },
+      });
+
+      if (invoice.status === InvoiceStatus.Issued) {
+        await tx.platformProductOrder.updateMany({
+          where: {
+            id: invoice.productOrderId,
+            financeStatus: FinanceStatus.Pending,
+          },
+          data: { financeStatus: null },
+        });
+      }
+
+      return await tx.invoice.create({
+        data: {
+          type: InvoiceType.CreditNote,
+          number,
+          productOrderId: invoice.productOrderId,
+          clientId: invoice.clientId,
+          originalInvoiceId: invoice.id,
+          status: InvoiceStatus.Issued,
+          currencyCode: invoice.currencyCode,
+          billingName: invoice.billingName,
+          billingCompany: invoice.billingCompany,
+          billingCountry: invoice.billingCountry,
+          netAmount: invoice.netAmount.negated(),
+          vatAmount: invoice.vatAmount.negated(),
+          grossAmount: invoice.grossAmount.negated(),
+          issuedAt,
+          invoiceLines: {
+            createMany: {
+              data: invoice.invoiceLines.map((line) => ({
+                description: line.description,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice.negated(),
+                netAmount: line.netAmount.negated(),
+                vatRate: line.vatRate,
+                vatAmount: line.vatAmount.negated(),
+              })),
+            },
+          },
+        },
+        include: this.invoiceInclude,
+      });
+    });
+
+    return await this.storePdf(creditNote);
+  }
+}
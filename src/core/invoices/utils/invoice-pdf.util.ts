@@ -0,0 +1,125 @@
+import { Invoice, InvoiceLine } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime';
+import { format } from 'date-fns';
+import PDFDocument from 'pdfkit';
+import { IInvoiceConfig } from 'src/config/interfaces/invoice-config.interface';
+import { InvoiceType } from '../enums';
+
+export type InvoiceDocument = Invoice & {
+  invoiceLines: InvoiceLine[];
+  originalInvoice: Invoice | null;
+};
+
+const formatDate = (date: Date) => format(date, 'dd.MM.yyyy');
+
+const formatAmount = (amount: Decimal, currencyCode: string) =>
+  `${amount.toFixed(2)} ${currencyCode}`;
+
+// * x positions and widths of the line table columns
+const columns = {
+  description: { x: 50, width: 220 },
+  quantity: { x: 270, width: 40 },
+  unitPrice: { x: 310, width: 80 },
+  vatRate: { x: 390, width: 50 },
+  netAmount: { x: 440, width: 105 },
+};
+
+/**
+ * Renders the invoice with the standard PDF fonts only, so no fonts or other assets are fetched.
+ */
+export const renderInvoicePdf = (
+  invoice: InvoiceDocument,
+  issuer: IInvoiceConfig['issuer'],
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const document = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    const isCreditNote = invoice.type === InvoiceType.CreditNote;
+
+    document.on('data', (chunk: Buffer) => chunks.push(chunk));
+    document.on('end', () => resolve(Buffer.concat(chunks)));
+    document.on('error', reject);
+
+    document.info.Title = invoice.number;
+
+    document.font('Helvetica-Bold').fontSize(16).text(issuer.name);
+    document.font('Helvetica').fontSize(9);
+    issuer.address.forEach((line) => document.text(line));
+    if (issuer.vatId) document.text(`VAT ID: ${issuer.vatId}`);
+
+    document.moveDown(2).fontSize(10);
+    [invoice.billingCompany, invoice.billingName, invoice.billingCountry]
+      .filter(Boolean)
+      .forEach((line) => document.text(line));
+
+    document
+      .moveDown(2)
+      .font('Helvetica-Bold')
+      .fontSize(14)
+      .text(isCreditNote ? 'Credit Note' : 'Invoice');
+    document.font('Helvetica').fontSize(10);
+    document.text(`Number: ${invoice.number}`);
+    document.text(`Date: ${formatDate(invoice.issuedAt)}`);
+    if (invoice.dueAt) document.text(`Due date: ${formatDate(invoice.dueAt)}`);
+    if (isCreditNote && invoice.originalInvoice) {
+      document.text(`Cancels invoice: ${invoice.originalInvoice.number}`);
+    }
+
+    const addRow = (
+      cells: Record<keyof typeof columns, string>,
+      font = 'Helvetica',
+    ) => {
+      const y = document.y;
+
+      document.font(font);
+      Object.entries(columns).forEach(([key, { x, width }]) =>
+        document.text(cells[key], x, y, {
+          width,
+          align: key === 'description' ? 'left' : 'right',
+        }),
+      );
+      document.x = columns.description.x;
+      document.moveDown(0.5);
+    };
+
+    document.moveDown(2);
+    addRow(
+      {
+        description: 'Description',
+        quantity: 'Qty',
+        unitPrice: 'Unit price',
+        vatRate: 'VAT',
+        netAmount: 'Net amount',
+      },
+      'Helvetica-Bold',
+    );
+    invoice.invoiceLines.forEach((line) =>
+      addRow({
+        description: line.description,
+        quantity: line.quantity.toString(),
+        unitPrice: formatAmount(line.unitPrice, invoice.currencyCode),
+        vatRate: `${line.vatRate.toString()}%`,
+        netAmount: formatAmount(line.netAmount, invoice.currencyCode),
+      }),
+    );
+
+    document.moveDown();
+    [
+      ['Net total', invoice.netAmount],
+      ['VAT', invoice.vatAmount],
+      ['Total', invoice.grossAmount],
+    ].forEach(([label, amount]: [string, Decimal], index, totals) =>
+      addRow(
+        {
+          description: '',
+          quantity: '',
+          unitPrice: label,
+          vatRate: '',
+          netAmount: formatAmount(amount, invoice.currencyCode),
+        },
+        index === totals.length - 1 ? 'Helvetica-Bold' : 'Helvetica',
+      ),
+    );
+
+    document.end();
+  });
@@ -0,0 +1,52 @@
+import { Decimal } from '@prisma/client/runtime';
+import {
+  calculateInvoiceLines,
+  formatInvoiceNumber,
+  getVatRate,
+} from './invoice.util';
+
+describe('invoice util', () => {
+  describe('formatInvoiceNumber', () => {
+    it('should pad the sequence number', () => {
+      expect(formatInvoiceNumber('INV', 2023, 42)).toBe('INV-2023-000042');
+    });
+  });
+
+  describe('getVatRate', () => {
+    const vatRates = { germany: 19, switzerland: 8.1 };
+
+    it('should match the country regardless of the case', () => {
+      expect(getVatRate('Switzerland ', vatRates, 0)).toBe(8.1);
+    });
+
+    it('should fall back to the default rate', () => {
+      expect(getVatRate('Austria', vatRates, 20)).toBe(20);
+      expect(getVatRate(undefined, vatRates, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateInvoiceLines', () => {
+    it('should round VAT per line and sum the totals', () => {
+      const { invoiceLines, netAmount, vatAmount, grossAmount } =
+        calculateInvoiceLines(
+          [
+            { description: 'Campaign', unitPrice: new Decimal('100.05') },
+            {
+              description: 'Survey',
+              quantity: 3,
+              unitPrice: new Decimal('0.35'),
+            },
+          ],
+          19,
+        );
+
+      expect(invoiceLines.map((line) => line.vatAmount.toString())).toEqual([
+        '19.01',
+        '0.2',
+      ]);
+      expect(netAmount.toString()).toBe('101.1');
+      expect(vatAmount.toString()).toBe('19.21');
+      expect(grossAmount.toString()).toBe('120.31');
+    });
+  });
+});
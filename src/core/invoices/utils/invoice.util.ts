@@ -0,0 +1,65 @@
+import { Decimal } from '@prisma/client/runtime';
+
+export interface IInvoiceLineInput {
+  description: string;
+  quantity?: number;
+  unitPrice: Decimal;
+}
+
+const roundAmount = (amount: Decimal) =>
+  amount.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+
+/**
+ * eg. "INV", 2023, 42 => "INV-2023-000042"
+ */
+export const formatInvoiceNumber = (
+  prefix: string,
+  year: number,
+  sequenceNumber: number,
+) => `${prefix}-${year}-${sequenceNumber.toString().padStart(6, '0')}`;
+
+export const getInvoiceSequenceKey = (prefix: string, year: number) =>
+  `${prefix}-${year}`;
+
+export const getVatRate = (
+  country: string | undefined,
+  vatRates: Record<string, number>,
+  defaultVatRate: number,
+) => vatRates[country?.trim().toLowerCase()] ?? defaultVatRate;
+
+/**
+ * VAT is rounded per line, totals are sums of the rounded line amounts.
+ */
+export const calculateInvoiceLines = (
+  lines: IInvoiceLineInput[],
+  vatRate: number,
+) => {
+  const invoiceLines = lines.map(({ description, quantity = 1, unitPrice }) => {
+    const netAmount = roundAmount(unitPrice.mul(quantity));
+    const rate = new Decimal(vatRate);
+
+    return {
+      description,
+      quantity,
+      unitPrice,
+      netAmount,
+      vatRate: rate,
+      vatAmount: roundAmount(netAmount.mul(rate).div(100)),
+    };
+  });
+  const netAmount = Decimal.sum(
+    0,
+    ...invoiceLines.map((line) => line.netAmount),
+  );
+  const vatAmount = Decimal.sum(
+    0,
+    ...invoiceLines.map((line) => line.vatAmount),
+  );
+
+  return {
+    invoiceLines,
+    netAmount,
+    vatAmount,
+    grossAmount: netAmount.add(vatAmount),
+  };
+};
@@ -78,6 +78,11 @@ export class CreateNotificationPayload {
   @IsPositive()
   @IsOptional()
   platformProductOrderId?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  fileId?: number;
 }
 
 export class CreateNotificationDto {
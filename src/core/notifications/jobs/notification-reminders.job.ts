@@ -0,0 +1,373 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import {
+  addDays,
+  addMinutes,
+  differenceInDays,
+  differenceInMinutes,
+} from 'date-fns';
+import remindersConfig from 'src/config/reminders.config';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { JobService } from 'src/utils/classes/job-service';
+import { NotificationType, UserRole, UserStatus } from 'src/utils';
+import { NotificationsService } from '../notifications.service';
+
+const isAdmin = (role: number) =>
+  [UserRole.SuperAdmin, UserRole.Admin].includes(role);
+
+@Injectable()
+export class NotificationRemindersService extends JobService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly notificationsService: NotificationsService,
+    @Inject(remindersConfig.KEY)
+    private readonly _remindersConfig: ConfigType<typeof remindersConfig>,
+  ) {
+    super(new Logger(NotificationRemindersService.name));
+  }
+
+  /**
+   * Stores the reminder key and returns false if the reminder has already been sent.
+   */
+  private async claimReminder(
+    key: string,
+    type: NotificationType,
+    userId: number,
+  ) {
+    const { count } = await this.prismaService.notificationReminder.createMany({
+      data: { key, type, userId },
+      skipDuplicates: true,
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Finds (non-deleted) users whose status hasn't been changed since the cutoff date,
+   * along with the date of the last status change.
+   */
+  private async findUsersWithStatusUnchangedSince(
+    where: Prisma.UserWhereInput,
+    cutoff: Date,
+  ) {
+    const users = await this.prismaService.user.findMany({
+      where: {
+        ...where,
+        isDeleted: false,
+        createdAt: { lte: cutoff },
+        statusChangelog: { none: { createdAt: { gt: cutoff } } },
+      },
+      select: {
+        id: true,
+        role: true,
+        status: true,
+        createdAt: true,
+        statusChangelog: {
+          select: { createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    return users.map((user) => ({
+      ...user,
+      statusChangedAt: user.statusChangelog.length
+        ? user.statusChangelog[0].createdAt
+        : user.createdAt,
+    }));
+  }
+
+  /**
+   * Returns the highest threshold reached - lower thresholds that were missed are skipped.
+   */
+  private getReachedThreshold(thresholds: number[], since: Date) {
+    const days = differenceInDays(new Date(), since);
+
+    return [...thresholds].reverse().find((threshold) => threshold <= days);
+  }
+
+  private remindUsersWithUnchangedStatus = async () => {
+    const thresholds = this._remindersConfig.statusUnchangedDays;
+
+    if (!thresholds.length) return;
+
+    const users = await this.findUsersWithStatusUnchangedSince(
+      {
+        role: { in: [UserRole.Client, UserRole.Influencer] },
+        // * unconfirmed users are reminded to verify their email instead
+        status: {
+          notIn: [
+            UserStatus.Unconfirmed,
+            UserStatus.Approved,
+            UserStatus.DoNotContact,
+          ],
+        },
+      },
+      addDays(new Date(), -thresholds[0]),
+    );
+
+    let remindersSent = 0;
+
+    for (const user of users) {
+      const days = this.getReachedThreshold(thresholds, user.statusChangedAt);
+
+      if (days === undefined) continue;
+
+      const type =
+        user.role === UserRole.Client
+          ? NotificationType.ClientStatusUnchanged
+          : NotificationType.InfluencerStatusUnchanged;
+      const key = `status-unchanged:${
+        user.id
+      }:${user.statusChangedAt.getTime()}:${days}`;
+
+      if (!(await this.claimReminder(key, type, user.id))) continue;
+
+      if (user.role === UserRole.Client) {
+        await this.notificationsService.clientStatusUnchanged(user.id, days);
+      } else {
+        await this.notificationsService.influencerStatusUnchanged(
+          user.id,
+          days,
+        );
+      }
+      remindersSent++;
+    }
+
+    this.logger.log(`Status unchanged reminders sent: ${remindersSent}`);
+  };
+
+  private remindUsersWithUnverifiedEmail = async () => {
+    const thresholds = this._remindersConfig.emailUnverifiedDays;
+
+    if (!thresholds.length) return;
+
+    const users = await this.findUsersWithStatusUnchangedSince(
+      {
+        role: { in: [UserRole.Client, UserRole.Influencer] },
+        status: UserStatus.Unconfirmed,
+      },
+      addDays(new Date(), -thresholds[0]),
+    );
+
+    let remindersSent = 0;
+
+    for (const user of users) {
+      const days = this.getReachedThreshold(thresholds, user.statusChangedAt);
+
+      if (days === undefined) continue;
+
+      const type =
+        user.role === UserRole.Client
+          ? NotificationType.ClientEmailUnverified
+          : NotificationType.InfluencerEmailUnverified;
+      const key = `email-unverified:${
+        user.id
+      }:${user.statusChangedAt.getTime()}:${days}`;
+
+      if (!(await this.claimReminder(key, type, user.id))) continue;
+
+      if (user.role === UserRole.Client) {
+        await this.notificationsService.clientEmailUnverified(user.id, days);
+      } else {
+        await this.notificationsService.influencerEmailUnverified(
+          user.id,
+          days,
+        );
+      }
+      remindersSent++;
+    }
+
+    this.logger.log(`Email unverified reminders sent: ${remindersSent}`);
+  };
+
+  private remindUnreadChatMessages = async () => {
+    const { minutes, maxDays } = this._remindersConfig.messageUnread;
+    const now = new Date();
+
+    const messages =
+      await this.prismaService.platformProductOrderChatMessage.findMany({
+        where: {
+          isDeleted: false,
+          createdAt: {
+            gte: addDays(now, -maxDays),
+            lte: addMinutes(now, -minutes),
+          },
+        },
+        select: {
+          id: true,
+          chatRoomId: true,
+          createdAt: true,
+          author: { select: { id: true, role: true } },
+          chatRoom: {
+            select: {
+              productOrderChatRoomMembers: {
+                select: {
+                  lastReadAt: true,
+                  user: { select: { id: true, role: true } },
+                },
+              },
+              productOrder: {
+                select: {
+                  campaigns: { select: { id: true }, take: 1 },
+                  surveys: { select: { id: true }, take: 1 },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+    if (!messages.length) return;
+
+    // * member's own message marks previous messages in the room as read
+    const lastMessagesByAuthor =
+      await this.prismaService.platformProductOrderChatMessage.groupBy({
+        by: ['chatRoomId', 'authorId'],
+        _max: { createdAt: true },
+        where: {
+          chatRoomId: {
+            in: [...new Set(messages.map((message) => message.chatRoomId))],
+          },
+        },
+      });
+    const getLastMessageAt = (chatRoomId: number, authorId: number) =>
+      lastMessagesByAuthor.find(
+        (lastMessage) =>
+          lastMessage.chatRoomId === chatRoomId &&
+          lastMessage.authorId === authorId,
+      )?._max.createdAt;
+
+    // * remind only about the first unread message in the room
+    const remindedMembers = new Set<string>();
+    let remindersSent = 0;
+
+    for (const message of messages) {
+      const { author, chatRoom } = message;
+      const campaign = chatRoom.productOrder.campaigns[0];
+      const survey = chatRoom.productOrder.surveys[0];
+
+      for (const member of chatRoom.productOrderChatRoomMembers) {
+        const recipient = member.user;
+        const roomMemberKey = `${message.chatRoomId}:${recipient.id}`;
+
+        if (recipient.id === author.id || remindedMembers.has(roomMemberKey))
+          continue;
+
+        const readAt = [
+          member.lastReadAt,
+          getLastMessageAt(message.chatRoomId, recipient.id),
+        ].filter((date) => !!date);
+
+        if (readAt.some((date) => date >= message.createdAt)) continue;
+
+        const messageMinutes = differenceInMinutes(now, message.createdAt);
+        let sendReminder: () => Promise<unknown>;
+        let type: NotificationType;
+
+        if (campaign) {
+          type = NotificationType.CampaignMessageUnread;
+
+          if (
+            author.role === UserRole.Influencer &&
+            recipient.role === UserRole.Client
+          ) {
+            sendReminder = () =>
+              this.notificationsService.campaignMessageUnreadByInfluencer(
+                author.id,
+                recipient.id,
+                campaign.id,
+                messageMinutes,
+              );
+          } else if (
+            author.role === UserRole.Client &&
+            recipient.role === UserRole.Influencer
+          ) {
+            sendReminder = () =>
+              this.notificationsService.campaignMessageUnreadByClient(
+                recipient.id,
+                author.id,
+                campaign.id,
+                messageMinutes,
+              );
+          }
+        } else if (survey) {
+          type = NotificationType.SurveyMessageUnread;
+
+          if (author.role === UserRole.Influencer && isAdmin(recipient.role)) {
+            sendReminder = () =>
+              this.notificationsService.surveyMessageUnreadByInfluencer(
+                author.id,
+                recipient.id,
+                survey.id,
+                messageMinutes,
+              );
+          } else if (
+            isAdmin(author.role) &&
+            recipient.role === UserRole.Influencer
+          ) {
+            sendReminder = () =>
+              this.notificationsService.surveyMessageUnreadByAdmin(
+                recipient.id,
+                author.id,
+                survey.id,
+                messageMinutes,
+              );
+          }
+        }
+
+        if (!sendReminder) continue;
+
+        const key = `message-unread:${recipient.id}:${message.id}`;
+        const isClaimed = await this.claimReminder(key, type, recipient.id);
+
+        // * the member is reminded now or was by an earlier run, the later messages don't get a reminder
+        remindedMembers.add(roomMemberKey);
+
+        if (!isClaimed) continue;
+
+        await sendReminder();
+        remindersSent++;
+      }
+    }
+
+    this.logger.log(`Unread message reminders sent: ${remindersSent}`);
+  };
+
+  // * at 09:00 every day
+  @Cron(CronExpression.EVERY_DAY_AT_9AM, {
+    name: 'remind-users-with-unchanged-status',
+  })
+  async remindUsersWithUnchangedStatusJob() {
+    await this.jobWrapper(
+      'remind-users-with-unchanged-status',
+      this.remindUsersWithUnchangedStatus,
+    );
+  }
+
+  // * at 09:00 every day
+  @Cron(CronExpression.EVERY_DAY_AT_9AM, {
+    name: 'remind-users-with-unverified-email',
+  })
+  async remindUsersWithUnverifiedEmailJob() {
+    await this.jobWrapper(
+      'remind-users-with-unverified-email',
+      this.remindUsersWithUnverifiedEmail,
+    );
+  }
+
+  // * every 10 minutes
+  @Cron(CronExpression.EVERY_10_MINUTES, {
+    name: 'remind-unread-chat-messages',
+  })
+  async remindUnreadChatMessagesJob() {
+    await this.jobWrapper(
+      'remind-unread-chat-messages',
+      this.remindUnreadChatMessages,
+    );
+  }
+}
@@ -2,11 +2,16 @@ import { Module, Global } from '@nestjs/common';
 import { NotificationsService } from './notifications.service';
 import { NotificationsController } from './notifications.controller';
 import { NotificationsGateway } from './notifications.gateway';
+import { NotificationRemindersService } from './jobs/notification-reminders.job';
 
 @Global()
 @Module({
   controllers: [NotificationsController],
-  providers: [NotificationsGateway, NotificationsService],
+  providers: [
+    NotificationsGateway,
+    NotificationsService,
+    NotificationRemindersService,
+  ],
   exports: [NotificationsService],
 })
 export class NotificationsModule {}
@@ -546,17 +546,18 @@ export class NotificationsService {
 
   async campaignReportDelivered(
     clientId: number,
-    ambassadorId: number,
+    ambassadorId: number | undefined,
     campaignId: number,
     campaignReportId: number,
+    fileId?: number,
   ) {
     const notification = await this.createNotification({
       title: 'Campaign Report',
       description: `Report delivered for campaign`,
       type: NotificationType.CampaignReportDelivered,
       variant: 'info',
-      notificationPayload: { campaignId, campaignReportId },
-      notificationUsers: [clientId, ambassadorId],
+      notificationPayload: { campaignId, campaignReportId, fileId },
+      notificationUsers: [clientId, ambassadorId].filter((user) => !!user),
     });
 
     return notification;
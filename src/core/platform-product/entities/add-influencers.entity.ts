@@ -14,6 +14,9 @@ export class AddInfluencersEntity implements PlatformProductOrderInfluencer {
   currency: number;
   status: number;
   signedAt: Date | null;
+  payoutStatus: number | null;
+  settledAt: Date | null;
+  salaryTransactionFlowId: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
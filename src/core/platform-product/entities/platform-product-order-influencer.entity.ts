@@ -2,6 +2,7 @@ import { PlatformProductOrderInfluencer } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime';
 import { Transform } from 'class-transformer';
 import { ProductOrderInfluencerStatus } from '../enums/product-order-influencer-status.enum';
+import { PayoutStatus } from 'src/utils';
 
 export class PlatformProductOrderInfluencerEntity
   implements PlatformProductOrderInfluencer
@@ -14,6 +15,9 @@ export class PlatformProductOrderInfluencerEntity
   currency: number;
   status: ProductOrderInfluencerStatus;
   signedAt: Date;
+  payoutStatus: PayoutStatus;
+  settledAt: Date;
+  salaryTransactionFlowId: number;
   createdAt: Date;
   updatedAt: Date;
 
@@ -14,6 +14,7 @@ import { UpdatePlatformProductOrderDto } from './dto/update-platform-product-ord
 import { AddInfluencersDto } from './dto/add-influencers.dto';
 import { ClientService } from '../client/client.service';
 import { FinanceStatus } from '../campaign/enums/finance-status.enum';
+import { InvoiceStatus, InvoiceType } from '../invoices/enums';
 import { ReceivePendingRevenuesDto } from './dto/receive-pending-revenues.dto';
 import { ProductOrderInfluencerStatus } from './enums/product-order-influencer-status.enum';
 import { ApprovePaymentsDto } from './dto/approve-payments.dto';
@@ -719,14 +720,23 @@ export class PlatformProductOrderService {
         );
       }
 
-      const updatedOrders = await this.prismaService.$transaction(
-        existingOrderIds.map((id) =>
+      const [, ...updatedOrders] = await this.prismaService.$transaction([
+        // * issued invoices of the orders are settled by the received revenue
+        this.prismaService.invoice.updateMany({
+          where: {
+            productOrderId: { in: existingOrderIds },
+            type: InvoiceType.Invoice,
+            status: InvoiceStatus.Issued,
+          },
+          data: { status: InvoiceStatus.Paid, paidAt: new Date() },
+        }),
+        ...existingOrderIds.map((id) =>
           this.prismaService.platformProductOrder.update({
             where: { id },
             data: { financeStatus: FinanceStatus.Received },
           }),
         ),
-      );
+      ]);
 
       return updatedOrders;
     } catch (error) {
@@ -18,6 +18,7 @@ export class StakeholderPostEntity implements StakeholderPost {
   reportComment: string;
   preprocessedContent: string;
   isContentProcessed: boolean;
+  isContentAnalyzed: boolean;
   isDeleted: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,5 @@
+export interface IDictionaryEntry {
+  id: number;
+  // * name, generic name and synonyms
+  terms: string[];
+}
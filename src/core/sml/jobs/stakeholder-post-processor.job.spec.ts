@@ -0,0 +1,107 @@
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { Sentiment } from 'src/utils/enums/sentiment.enum';
+import { NLPService } from '../nlp.service';
+import { StakeholderPostProcessorService } from './stakeholder-post-processor.job';
+
+const createModelMock = (records: unknown[] = []) => ({
+  findMany: jest.fn().mockResolvedValue(records),
+  deleteMany: jest.fn((args) => ({ deleteMany: args })),
+  createMany: jest.fn((args) => args),
+  update: jest.fn((args) => args),
+});
+
+describe('StakeholderPostProcessorService', () => {
+  const posts = [
+    {
+      id: 1,
+      content:
+        "Humira is a good treatment for my Crohn's. Ozempic made me feel awful and sick! #MultipleSclerosis",
+    },
+    { id: 2, content: 'Nothing to see here' },
+  ];
+  let prismaService: Record<string, any>;
+  let service: StakeholderPostProcessorService;
+
+  beforeEach(() => {
+    prismaService = {
+      company: createModelMock([
+        { id: 1, name: 'AbbVie', synonyms: [] },
+        { id: 2, name: 'Novo Nordisk', synonyms: ['Novo'] },
+      ]),
+      product: createModelMock([
+        { id: 1, name: 'Humira', genericName: 'adalimumab', synonyms: [] },
+        { id: 2, name: 'Ozempic', genericName: 'semaglutide', synonyms: [] },
+      ]),
+      symptom: createModelMock(),
+      struggle: createModelMock(),
+      diseaseArea: createModelMock([
+        { id: 1, name: "Crohn's Disease", synonyms: ["Crohn's"] },
+        { id: 2, name: 'Multiple Sclerosis', synonyms: ['MS'] },
+      ]),
+      interest: createModelMock(),
+      theme: createModelMock(),
+      stakeholderPost: createModelMock(),
+      postBrand: createModelMock(),
+      postProduct: createModelMock(),
+      postSymptom: createModelMock(),
+      postStruggle: createModelMock(),
+      postDiseaseArea: createModelMock(),
+      postInterest: createModelMock(),
+      postTheme: createModelMock(),
+      $transaction: jest.fn().mockResolvedValue([]),
+    };
+    prismaService.stakeholderPost.findMany
+      .mockResolvedValueOnce(posts)
+      .mockResolvedValueOnce([]);
+    service = new StakeholderPostProcessorService(
+      prismaService as unknown as PrismaService,
+      new NLPService(),
+    );
+  });
+
+  it('should store the products with the sentiment of their sentences', async () => {
+    await service.analyzeContent(service);
+
+    expect(prismaService.postProduct.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          stakeholderPostId: 1,
+          productId: 1,
+          productSentiment: Sentiment.Positive,
+        },
+        {
+          stakeholderPostId: 1,
+          productId: 2,
+          productSentiment: Sentiment.VeryNegative,
+        },
+      ],
+    });
+  });
+
+  it('should match the disease areas by synonyms and hashtags', async () => {
+    await service.analyzeContent(service);
+
+    expect(prismaService.postDiseaseArea.createMany).toHaveBeenCalledWith({
+      data: [
+        { stakeholderPostId: 1, diseaseAreaId: 1 },
+        { stakeholderPostId: 1, diseaseAreaId: 2 },
+      ],
+    });
+  });
+
+  it('should replace the previous results and mark the posts analyzed', async () => {
+    await service.analyzeContent(service);
+
+    expect(prismaService.$transaction).toHaveBeenCalledTimes(posts.length);
+    expect(prismaService.postBrand.deleteMany).toHaveBeenCalledWith({
+      where: { stakeholderPostId: 2 },
+    });
+    expect(prismaService.postBrand.createMany).toHaveBeenCalledWith({
+      data: [],
+    });
+    expect(prismaService.stakeholderPost.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: { overallSentiment: Sentiment.Neutral, isContentAnalyzed: true },
+    });
+  });
+});
@@ -11,6 +11,7 @@ import { TokenType } from '../enums/token-type.type';
 import { NLPService } from '../nlp.service';
 import { ITokenMapValue } from '../interfaces/token-map-value.interface';
 import { JobService } from 'src/utils/classes/job-service';
+import { IDictionaryEntry } from '../interfaces/dictionary-entry.interface';
 
 @Injectable()
 export class StakeholderPostProcessorService extends JobService {
@@ -166,8 +167,177 @@ export class StakeholderPostProcessorService extends JobService {
     }
   }
 
+  private async loadDictionaries() {
+    const [
+      companies,
+      products,
+      symptoms,
+      struggles,
+      diseaseAreas,
+      interests,
+      themes,
+    ] = await Promise.all([
+      this.prismaService.company.findMany({ where: { isApproved: true } }),
+      this.prismaService.product.findMany({ where: { isApproved: true } }),
+      this.prismaService.symptom.findMany(),
+      this.prismaService.struggle.findMany(),
+      this.prismaService.diseaseArea.findMany(),
+      this.prismaService.interest.findMany(),
+      this.prismaService.theme.findMany(),
+    ]);
+    const toEntries = (
+      records: { id: number; name: string; synonyms: string[] }[],
+    ) =>
+      records.map((record) =>
+        this.nlmService.createDictionaryEntry(record.id, [
+          record.name,
+          ...record.synonyms,
+        ]),
+      );
+
+    return {
+      brands: toEntries(companies),
+      products: products.map((product) =>
+        this.nlmService.createDictionaryEntry(product.id, [
+          product.name,
+          product.genericName,
+          ...product.synonyms,
+        ]),
+      ),
+      symptoms: toEntries(symptoms),
+      struggles: toEntries(struggles),
+      diseaseAreas: toEntries(diseaseAreas),
+      interests: toEntries(interests),
+      themes: toEntries(themes),
+    };
+  }
+
+  async analyzeContent(context: StakeholderPostProcessorService) {
+    const dictionaries = await context.loadDictionaries();
+    const take = 100;
+    let posts: Pick<StakeholderPost, 'id' | 'content'>[];
+
+    do {
+      // * analyzed posts are marked, so the next batch always starts from the beginning
+      posts = await context.prismaService.stakeholderPost.findMany({
+        where: { isContentAnalyzed: false, isDeleted: false },
+        select: { id: true, content: true },
+        orderBy: { id: 'asc' },
+        take,
+      });
+
+      for (const post of posts) {
+        const content = post.content || '';
+        const find = (entries: IDictionaryEntry[]) =>
+          content
+            ? context.nlmService.findDictionaryEntries(content, entries)
+            : [];
+        const withSentiment = (entries: IDictionaryEntry[]) =>
+          find(entries).map((entry) => ({
+            id: entry.id,
+            sentiment: context.nlmService.getEntrySentiment(content, entry),
+          }));
+
+        const brands = withSentiment(dictionaries.brands);
+        const products = withSentiment(dictionaries.products);
+        const symptoms = withSentiment(dictionaries.symptoms);
+        const struggles = withSentiment(dictionaries.struggles);
+        const diseaseAreas = find(dictionaries.diseaseAreas);
+        const interests = find(dictionaries.interests);
+        const themes = find(dictionaries.themes);
+        const stakeholderPostId = post.id;
+
+        // * re-analyzing the post replaces previous results
+        await context.prismaService.$transaction([
+          context.prismaService.postBrand.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postProduct.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postSymptom.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postStruggle.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postDiseaseArea.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postInterest.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postTheme.deleteMany({
+            where: { stakeholderPostId },
+          }),
+          context.prismaService.postBrand.createMany({
+            data: brands.map(({ id, sentiment }) => ({
+              stakeholderPostId,
+              brandId: id,
+              brandSentiment: sentiment,
+            })),
+          }),
+          context.prismaService.postProduct.createMany({
+            data: products.map(({ id, sentiment }) => ({
+              stakeholderPostId,
+              productId: id,
+              productSentiment: sentiment,
+            })),
+          }),
+          context.prismaService.postSymptom.createMany({
+            data: symptoms.map(({ id, sentiment }) => ({
+              stakeholderPostId,
+              symptomId: id,
+              symptomSentiment: sentiment,
+            })),
+          }),
+          context.prismaService.postStruggle.createMany({
+            data: struggles.map(({ id, sentiment }) => ({
+              stakeholderPostId,
+              struggleId: id,
+              struggleSentiment: sentiment,
+            })),
+          }),
+          context.prismaService.postDiseaseArea.createMany({
+            data: diseaseAreas.map(({ id }) => ({
+              stakeholderPostId,
+              diseaseAreaId: id,
+            })),
+          }),
+          context.prismaService.postInterest.createMany({
+            data: interests.map(({ id }) => ({
+              stakeholderPostId,
+              interestId: id,
+            })),
+          }),
+          context.prismaService.postTheme.createMany({
+            data: themes.map(({ id }) => ({ stakeholderPostId, themeId: id })),
+          }),
+          context.prismaService.stakeholderPost.update({
+            where: { id: stakeholderPostId },
+            data: {
+              overallSentiment: content
+                ? context.nlmService.getSentiment(content)
+                : null,
+              isContentAnalyzed: true,
+            },
+          }),
+        ]);
+
+        context.logger.log(`Post ${post.id} - content analyzed`);
+      }
+    } while (posts.length === take);
+  }
+
   @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT, { name: 'count-post-tokens' })
   async countTokensJob() {
     // await this.jobWrapper('count-post-tokens', this.countTokens);
   }
+
+  // * at 00:30 every day
+  // reference: https://crontab.guru/#30_0_*_*_*
+  @Cron('30 0 * * *', { name: 'analyze-post-content' })
+  async analyzeContentJob() {
+    await this.jobWrapper('analyze-post-content', this.analyzeContent);
+  }
 }
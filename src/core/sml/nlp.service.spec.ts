@@ -0,0 +1,134 @@
+import { Sentiment } from 'src/utils/enums/sentiment.enum';
+import { NLPService } from './nlp.service';
+
+describe('NLPService', () => {
+  const nlpService = new NLPService();
+  const crohnsDisease = nlpService.createDictionaryEntry(1, [
+    "Crohn's Disease",
+    'Crohn disease',
+  ]);
+  const multipleSclerosis = nlpService.createDictionaryEntry(2, [
+    'Multiple Sclerosis',
+    'MS',
+  ]);
+
+  describe('createDictionaryEntry', () => {
+    it('should normalize the terms and drop the empty and too short ones', () => {
+      expect(crohnsDisease).toEqual({
+        id: 1,
+        terms: ['crohn s disease', 'crohn disease'],
+      });
+      expect(
+        nlpService.createDictionaryEntry(3, ['Humira', 'humira', '', null]),
+      ).toEqual({ id: 3, terms: ['humira'] });
+    });
+
+    it('should drop ambiguous short names, eg. abbreviations', () => {
+      expect(multipleSclerosis.terms).toEqual(['multiple sclerosis']);
+    });
+  });
+
+  describe('findDictionaryEntries', () => {
+    const entries = [crohnsDisease, multipleSclerosis];
+
+    it('should find the entry by its name or a synonym', () => {
+      expect(
+        nlpService.findDictionaryEntries(
+          "Living with CROHN'S disease since 2015",
+          entries,
+        ),
+      ).toEqual([crohnsDisease]);
+      expect(
+        nlpService.findDictionaryEntries('my crohn disease flared up', entries),
+      ).toEqual([crohnsDisease]);
+    });
+
+    it('should find the entry by a hashtag', () => {
+      expect(
+        nlpService.findDictionaryEntries(
+          'Another day #MultipleSclerosis',
+          entries,
+        ),
+      ).toEqual([multipleSclerosis]);
+    });
+
+    it('should match whole words only', () => {
+      expect(
+        nlpService.findDictionaryEntries(
+          'Our MS team and terms apply',
+          entries,
+        ),
+      ).toEqual([]);
+      expect(
+        nlpService.findDictionaryEntries(
+          'multiple sclerosisfoundation',
+          entries,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should find every entry sharing the name', () => {
+      const insulin = nlpService.createDictionaryEntry(3, ['Insulin']);
+      const genericInsulin = nlpService.createDictionaryEntry(4, [
+        'Insulin glargine',
+        'insulin',
+      ]);
+
+      expect(
+        nlpService.findDictionaryEntries('Started on insulin today', [
+          insulin,
+          genericInsulin,
+        ]),
+      ).toEqual([insulin, genericInsulin]);
+    });
+  });
+
+  describe('getSentiment', () => {
+    it('should map the comparative score to the sentiment', () => {
+      expect(nlpService.getSentiment('I hate this awful pill')).toBe(
+        Sentiment.VeryNegative,
+      );
+      expect(
+        nlpService.getSentiment('The new treatment was bad for me last week'),
+      ).toBe(Sentiment.Negative);
+      expect(nlpService.getSentiment('This is a pill')).toBe(Sentiment.Neutral);
+      expect(
+        nlpService.getSentiment('The new treatment was good for me last week'),
+      ).toBe(Sentiment.Positive);
+      expect(nlpService.getSentiment('I love this')).toBe(
+        Sentiment.VeryPositive,
+      );
+    });
+
+    it('should include the thresholds in the stronger sentiment', () => {
+      expect(nlpService.getSentiment('the pill is bad for me')).toBe(
+        Sentiment.VeryNegative,
+      );
+      expect(nlpService.getSentiment('the pill is good for me')).toBe(
+        Sentiment.VeryPositive,
+      );
+    });
+  });
+
+  describe('getEntrySentiment', () => {
+    it('should use only the sentences mentioning the entry', () => {
+      const humira = nlpService.createDictionaryEntry(3, ['Humira']);
+      const ozempic = nlpService.createDictionaryEntry(4, ['Ozempic']);
+      const text =
+        'Humira is a good treatment for me. Ozempic made me feel awful and sick!';
+
+      expect(nlpService.getEntrySentiment(text, humira)).toBe(
+        Sentiment.Positive,
+      );
+      expect(nlpService.getEntrySentiment(text, ozempic)).toBe(
+        Sentiment.VeryNegative,
+      );
+    });
+
+    it('should fall back to the whole text', () => {
+      expect(nlpService.getEntrySentiment('I love this', crohnsDisease)).toBe(
+        Sentiment.VeryPositive,
+      );
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import nlp from 'compromise';
 import emojiRegex from 'emoji-regex';
+import SentimentAnalyzer from 'sentiment';
+import { Sentiment } from 'src/utils/enums/sentiment.enum';
+import { IDictionaryEntry } from './interfaces/dictionary-entry.interface';
 
 @Injectable()
 export class NLPService {
@@ -8,6 +11,9 @@ export class NLPService {
   private readonly regexEmoji = emojiRegex();
   private readonly regexHashtag = /#\w+/g;
   private readonly regexMention = /@\w+/g;
+  private readonly regexSentence = /(?<=[.!?])\s+|\n+/;
+  // AFINN-165 word list based analyzer, works offline
+  private readonly sentimentAnalyzer = new SentimentAnalyzer();
   // NLTK's (Natural Language Toolkit) list of English stop words
   readonly stopWords = [
     'i',
@@ -270,4 +276,70 @@ export class NLPService {
       mentions,
     };
   }
+
+  /**
+   * Lowercase text with diacritics, punctuation and excess whitespace removed, eg. "Crohn's  Disease" => "crohn s disease"
+   */
+  normalizeForMatching(text: string) {
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  /**
+   * Finds dictionary entries mentioned in the text as whole words or as hashtags, eg. "#multiplesclerosis"
+   */
+  findDictionaryEntries(text: string, entries: IDictionaryEntry[]) {
+    const normalizedText = ` ${this.normalizeForMatching(text)} `;
+    const hashtags = this.extractHashtags(text).map((hashtag) =>
+      this.normalizeForMatching(hashtag).replace(/\s/g, ''),
+    );
+
+    return entries.filter((entry) =>
+      entry.terms.some(
+        (term) =>
+          normalizedText.includes(` ${term} `) ||
+          hashtags.includes(term.replace(/\s/g, '')),
+      ),
+    );
+  }
+
+  /**
+   * Builds dictionary entry from the names, dropping empty and too short (ambiguous) terms.
+   */
+  createDictionaryEntry(id: number, names: string[]): IDictionaryEntry {
+    const minTermLength = 3;
+    const terms = names
+      .filter((name) => !!name)
+      .map((name) => this.normalizeForMatching(name))
+      .filter((term) => term.length >= minTermLength);
+
+    return { id, terms: [...new Set(terms)] };
+  }
+
+  getSentiment(text: string) {
+    const { comparative } = this.sentimentAnalyzer.analyze(text);
+
+    if (comparative <= -0.5) return Sentiment.VeryNegative;
+    if (comparative < 0) return Sentiment.Negative;
+    if (comparative === 0) return Sentiment.Neutral;
+    if (comparative < 0.5) return Sentiment.Positive;
+    return Sentiment.VeryPositive;
+  }
+
+  /**
+   * Sentiment of the sentences that mention the dictionary entry.
+   */
+  getEntrySentiment(text: string, entry: IDictionaryEntry) {
+    const sentences = text
+      .split(this.regexSentence)
+      .filter(
+        (sentence) => this.findDictionaryEntries(sentence, [entry]).length > 0,
+      );
+
+    return this.getSentiment(sentences.length ? sentences.join(' ') : text);
+  }
 }
@@ -0,0 +1,14 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CloneSurveyDto {
+  // copied name is used if empty
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  // admins only, the client of the original survey is used if empty
+  @IsInt()
+  @IsOptional()
+  clientUserId?: number;
+}
@@ -0,0 +1,26 @@
+import { IsEnum, IsInt, IsNotEmpty, IsOptional } from 'class-validator';
+import { QuestionRuleAction } from '../enums/question-rule-action.enum';
+
+export class CreateQuestionRuleDto {
+  @IsEnum(QuestionRuleAction)
+  @IsNotEmpty()
+  action: QuestionRuleAction;
+
+  // the option has to be selected
+  @IsInt()
+  @IsOptional()
+  surveyOptionId?: number;
+
+  // the rating has to be within bounds
+  @IsInt()
+  @IsOptional()
+  minValue?: number;
+
+  @IsInt()
+  @IsOptional()
+  maxValue?: number;
+
+  @IsInt()
+  @IsOptional()
+  targetQuestionId?: number;
+}
@@ -0,0 +1,36 @@
+import { OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { CreateQuestionDto } from './create-question.dto';
+
+export class CreateQuestionTemplateOptionDto {
+  @IsString()
+  @IsNotEmpty()
+  optionText: string;
+
+  @IsInt()
+  @IsOptional()
+  order?: number;
+}
+
+export class CreateQuestionTemplateDto extends OmitType(CreateQuestionDto, [
+  'order',
+]) {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateQuestionTemplateOptionDto)
+  @IsOptional()
+  templateOptions?: CreateQuestionTemplateOptionDto[];
+
+  // admins only, the template is global if empty
+  @IsInt()
+  @IsOptional()
+  clientUserId?: number;
+}
@@ -1,10 +1,13 @@
 import { QuestionType } from '../enums/question-type.enum';
 import {
+  IsBoolean,
   IsEnum,
+  IsInt,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsString,
+  Min,
 } from 'class-validator';
 
 export class CreateQuestionDto {
@@ -23,4 +26,26 @@ export class CreateQuestionDto {
   @IsNumber()
   @IsOptional()
   questionCredit?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isMultiSelect?: boolean;
+
+  @IsInt()
+  @IsOptional()
+  minValue?: number;
+
+  @IsInt()
+  @IsOptional()
+  maxValue?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  minLength?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxLength?: number;
 }
@@ -0,0 +1,10 @@
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsInt } from 'class-validator';
+
+export class InsertQuestionTemplatesDto {
+  // questions are added to the end of the survey in the given order
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  questionTemplateIds: number[];
+}
@@ -1,5 +1,41 @@
-export class SubmitSurveyResultDto {
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class SurveyAnswerDto {
+  @IsInt()
   surveyQuestionId: number;
-  surveyOptionId: number;
-  surveyResponseText: string;
+
+  /**
+   * Selected options, or all options in the ranked order for ranking questions.
+   */
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @ArrayUnique()
+  surveyOptionIds?: number[];
+
+  // rating scale questions only
+  @IsOptional()
+  @IsInt()
+  value?: number;
+
+  // short answer and essay questions only
+  @IsOptional()
+  @IsString()
+  text?: string;
+}
+
+export class SubmitSurveyResultDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @ArrayUnique((answer: SurveyAnswerDto) => answer.surveyQuestionId)
+  @Type(() => SurveyAnswerDto)
+  answers: SurveyAnswerDto[];
 }
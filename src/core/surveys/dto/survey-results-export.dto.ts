@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { ExportFormat } from 'src/utils';
+
+export class SurveyResultsExportDto {
+  @IsEnum(ExportFormat)
+  format: ExportFormat;
+}
@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { SurveyResultsBreakdown } from '../enums/survey-results-breakdown.enum';
+
+export class SurveyResultsFilterDto {
+  @IsOptional()
+  @IsEnum(SurveyResultsBreakdown)
+  breakdownBy?: SurveyResultsBreakdown;
+}
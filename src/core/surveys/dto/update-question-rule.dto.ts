@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateQuestionRuleDto } from './create-question-rule.dto';
+
+export class UpdateQuestionRuleDto extends PartialType(CreateQuestionRuleDto) {}
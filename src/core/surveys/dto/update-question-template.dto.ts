@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateQuestionTemplateDto } from './create-question-template.dto';
+
+export class UpdateQuestionTemplateDto extends PartialType(
+  OmitType(CreateQuestionTemplateDto, ['clientUserId']),
+) {}
@@ -0,0 +1,17 @@
+import { SurveyQuestionRule } from '@prisma/client';
+
+export class QuestionRuleEntity implements SurveyQuestionRule {
+  id: number;
+  surveyQuestionId: number;
+  action: number;
+  surveyOptionId: number;
+  minValue: number;
+  maxValue: number;
+  targetQuestionId: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<QuestionRuleEntity>) {
+    Object.assign(this, partial);
+  }
+}
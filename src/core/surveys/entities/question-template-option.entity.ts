@@ -0,0 +1,16 @@
+import { SurveyQuestionTemplateOption } from '@prisma/client';
+
+export class QuestionTemplateOptionEntity
+  implements SurveyQuestionTemplateOption
+{
+  id: number;
+  surveyQuestionTemplateId: number;
+  optionText: string;
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<QuestionTemplateOptionEntity>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,29 @@
+import { SurveyQuestionTemplate } from '@prisma/client';
+import { Transform } from 'class-transformer';
+import { QuestionTemplateOptionEntity } from './question-template-option.entity';
+
+export class QuestionTemplateEntity implements SurveyQuestionTemplate {
+  id: number;
+  clientId: number;
+  questionText: string;
+  questionType: number;
+  questionCredit: number;
+  isMultiSelect: boolean;
+  minValue: number;
+  maxValue: number;
+  minLength: number;
+  maxLength: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  @Transform(({ value }) =>
+    value.map((item) => new QuestionTemplateOptionEntity(item)),
+  )
+  templateOptions?: QuestionTemplateOptionEntity[];
+
+  constructor({ templateOptions, ...data }: Partial<QuestionTemplateEntity>) {
+    Object.assign(this, data);
+
+    if (templateOptions) this.templateOptions = templateOptions;
+  }
+}
@@ -1,6 +1,7 @@
 import { SurveyQuestion } from '@prisma/client';
 import { Transform } from 'class-transformer';
 import { AnswerEntity } from './answer.entity';
+import { QuestionRuleEntity } from './question-rule.entity';
 
 export class QuestionEntity implements SurveyQuestion {
   id: number;
@@ -9,15 +10,28 @@ export class QuestionEntity implements SurveyQuestion {
   questionType: number;
   order: number;
   questionCredit: number;
+  isMultiSelect: boolean;
+  minValue: number;
+  maxValue: number;
+  minLength: number;
+  maxLength: number;
   createdAt: Date;
   updatedAt: Date;
 
   @Transform(({ value }) => value.map((item) => new AnswerEntity(item)))
   surveyOptions?: AnswerEntity[];
 
-  constructor({ surveyOptions, ...data }: Partial<QuestionEntity>) {
+  @Transform(({ value }) => value.map((item) => new QuestionRuleEntity(item)))
+  surveyQuestionRules?: QuestionRuleEntity[];
+
+  constructor({
+    surveyOptions,
+    surveyQuestionRules,
+    ...data
+  }: Partial<QuestionEntity>) {
     Object.assign(this, data);
 
     if (surveyOptions) this.surveyOptions = surveyOptions;
+    if (surveyQuestionRules) this.surveyQuestionRules = surveyQuestionRules;
   }
 }
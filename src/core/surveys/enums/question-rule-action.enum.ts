@@ -0,0 +1,4 @@
+export enum QuestionRuleAction {
+  JumpTo, // skips to the target question, or to the end if there is no target
+  Show, // the target question is shown only if a show rule of it applies
+}
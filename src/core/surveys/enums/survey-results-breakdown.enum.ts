@@ -0,0 +1,6 @@
+export enum SurveyResultsBreakdown {
+  Gender,
+  AgeBand,
+  Location,
+  DiseaseArea,
+}
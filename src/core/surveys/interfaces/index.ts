@@ -0,0 +1 @@
+export * from './survey-respondent.interface';
@@ -0,0 +1,7 @@
+export interface ISurveyRespondent {
+  userId: number;
+  gender: number | null;
+  dateOfBirth: Date | null;
+  location: { id: number; name: string } | null;
+  diseaseAreas: { id: number; name: string }[];
+}
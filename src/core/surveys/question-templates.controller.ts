@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User } from '@prisma/client';
+import { NoAutoSerialize } from 'src/decorators/no-auto-serialize.decorator';
+import { serializeArray } from 'src/utils/serializers/array.serializer';
+import { Action } from '../auth/ability';
+import { CheckAbilities } from '../auth/ability/decorators/ability.decorator';
+import { AuthUser } from '../auth/decorators';
+import { CreateQuestionTemplateDto } from './dto/create-question-template.dto';
+import { UpdateQuestionTemplateDto } from './dto/update-question-template.dto';
+import { QuestionTemplateEntity } from './entities/question-template.entity';
+import { QuestionTemplatesService } from './question-templates.service';
+
+@Controller('surveyQuestionTemplates')
+@ApiTags('surveys')
+export class QuestionTemplatesController {
+  constructor(
+    private readonly questionTemplatesService: QuestionTemplatesService,
+  ) {}
+
+  @Post()
+  @CheckAbilities({ action: Action.Create, subject: 'Survey' })
+  @ApiBody({ type: CreateQuestionTemplateDto })
+  @ApiCreatedResponse({ type: QuestionTemplateEntity })
+  async create(@Body() dto: CreateQuestionTemplateDto, @AuthUser() user: User) {
+    return new QuestionTemplateEntity(
+      await this.questionTemplatesService.create(dto, user),
+    );
+  }
+
+  @Get()
+  @CheckAbilities({ action: Action.Read, subject: 'Survey' })
+  @ApiOkResponse({ type: QuestionTemplateEntity, isArray: true })
+  @NoAutoSerialize()
+  async findAll(@AuthUser() user: User) {
+    return serializeArray(
+      this.questionTemplatesService.findAll(user),
+      QuestionTemplateEntity,
+    );
+  }
+
+  @Get(':id')
+  @CheckAbilities({ action: Action.Read, subject: 'Survey' })
+  @ApiOkResponse({ type: QuestionTemplateEntity })
+  async findOne(@Param('id') id: number, @AuthUser() user: User) {
+    return new QuestionTemplateEntity(
+      await this.questionTemplatesService.findOne(id, user),
+    );
+  }
+
+  @Patch(':id')
+  @CheckAbilities({ action: Action.Create, subject: 'Survey' })
+  @ApiBody({ type: UpdateQuestionTemplateDto })
+  @ApiOkResponse({ type: QuestionTemplateEntity })
+  async update(
+    @Param('id') id: number,
+    @Body() dto: UpdateQuestionTemplateDto,
+    @AuthUser() user: User,
+  ) {
+    return new QuestionTemplateEntity(
+      await this.questionTemplatesService.update(id, dto, user),
+    );
+  }
+
+  @Delete(':id')
+  @CheckAbilities({ action: Action.Create, subject: 'Survey' })
+  @ApiOkResponse({ type: QuestionTemplateEntity })
+  async delete(@Param('id') id: number, @AuthUser() user: User) {
+    return new QuestionTemplateEntity(
+      await this.questionTemplatesService.delete(id, user),
+    );
+  }
+}
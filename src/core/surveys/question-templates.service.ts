@@ -0,0 +1,230 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  BadRequestApplicationException,
+  ForbiddenApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { UserRole } from 'src/utils';
+import { UserEntity } from '../users/entities/user.entity';
+import { CreateQuestionTemplateDto } from './dto/create-question-template.dto';
+import { InsertQuestionTemplatesDto } from './dto/insert-question-templates.dto';
+import { UpdateQuestionTemplateDto } from './dto/update-question-template.dto';
+import { SurveysService } from './surveys.service';
+
+/**
+ * Reusable questions - global ones are managed by admins, clients manage their own.
+ */
+@Injectable()
+export class QuestionTemplatesService {
+  private readonly questionTemplateInclude: Prisma.SurveyQuestionTemplateInclude =
+    {
+      templateOptions: { orderBy: [{ order: 'asc' }, { id: 'asc' }] },
+    };
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly surveysService: SurveysService,
+  ) {}
+
+  private getAccessibleWhere(
+    user: UserEntity,
+  ): Prisma.SurveyQuestionTemplateWhereInput {
+    if (user.role === UserRole.Client) {
+      return { OR: [{ clientId: null }, { clientId: user.client.id }] };
+    } else if ([UserRole.SuperAdmin, UserRole.Admin].includes(user.role)) {
+      return {};
+    }
+
+    throw new ForbiddenApplicationException(
+      `Question templates are available only to clients and admins`,
+    );
+  }
+
+  private async findOneManageable(id: number, user: UserEntity) {
+    const questionTemplate =
+      await this.prismaService.surveyQuestionTemplate.findFirst({
+        where: { id, ...this.getAccessibleWhere(user) },
+      });
+
+    if (!questionTemplate) {
+      throw new NotFoundApplicationException(
+        `Question template with ID ${id} not found`,
+      );
+    } else if (
+      user.role === UserRole.Client &&
+      questionTemplate.clientId === null
+    ) {
+      throw new ForbiddenApplicationException(
+        `Only the admin can change global question templates`,
+      );
+    }
+
+    return questionTemplate;
+  }
+
+  async create(
+    createQuestionTemplateDto: CreateQuestionTemplateDto,
+    user: UserEntity,
+  ) {
+    const { templateOptions, clientUserId, ...data } =
+      createQuestionTemplateDto;
+    let clientId: number = null;
+
+    if (user.role === UserRole.Client) {
+      if (clientUserId !== undefined) {
+        throw new BadRequestApplicationException(
+          `Only the admin can create question templates for other clients.`,
+        );
+      }
+
+      clientId = user.client.id;
+    } else if (clientUserId !== undefined) {
+      const client = await this.prismaService.client.findUniqueOrThrow({
+        where: { userId: clientUserId },
+      });
+
+      clientId = client.id;
+    }
+
+    return await this.prismaService.surveyQuestionTemplate.create({
+      data: {
+        ...data,
+        clientId,
+        templateOptions: templateOptions && {
+          createMany: { data: templateOptions },
+        },
+      },
+      include: this.questionTemplateInclude,
+    });
+  }
+
+  async findAll(user: UserEntity) {
+    return await this.prismaService.surveyQuestionTemplate.findMany({
+      where: this.getAccessibleWhere(user),
+      include: this.questionTemplateInclude,
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async findOne(id: number, user: UserEntity) {
+    const questionTemplate =
+      await this.prismaService.surveyQuestionTemplate.findFirst({
+        where: { id, ...this.getAccessibleWhere(user) },
+        include: this.questionTemplateInclude,
+      });
+
+    if (!questionTemplate) {
+      throw new NotFoundApplicationException(
+        `Question template with ID ${id} not found`,
+      );
+    }
+
+    return questionTemplate;
+  }
+
+  /**
+   * Options are replaced if they are given.
+   */
+  async update(
+    id: number,
+    updateQuestionTemplateDto: UpdateQuestionTemplateDto,
+    user: UserEntity,
+  ) {
+    const { templateOptions, ...data } = updateQuestionTemplateDto;
+
+    await this.findOneManageable(id, user);
+
+    return await this.prismaService.surveyQuestionTemplate.update({
+      where: { id },
+      data: {
+        ...data,
+        templateOptions: templateOptions && {
+          deleteMany: {},
+          createMany: { data: templateOptions },
+        },
+      },
+      include: this.questionTemplateInclude,
+    });
+  }
+
+  async delete(id: number, user: UserEntity) {
+    await this.findOneManageable(id, user);
+
+    return await this.prismaService.surveyQuestionTemplate.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Adds questions created from the templates to the end of the survey.
+   */
+  async insertIntoSurvey(
+    surveyId: number,
+    { questionTemplateIds }: InsertQuestionTemplatesDto,
+    user: UserEntity,
+  ) {
+    const questionTemplates =
+      await this.prismaService.surveyQuestionTemplate.findMany({
+        where: {
+          id: { in: questionTemplateIds },
+          ...this.getAccessibleWhere(user),
+        },
+        include: {
+          templateOptions: { orderBy: [{ order: 'asc' }, { id: 'asc' }] },
+        },
+      });
+    const missingIds = questionTemplateIds.filter(
+      (id) => !questionTemplates.some((template) => template.id === id),
+    );
+
+    if (missingIds.length) {
+      throw new NotFoundApplicationException(
+        `Question templates with IDs ${missingIds.join(', ')} not found`,
+      );
+    }
+
+    await this.prismaService.survey.findFirstOrThrow({
+      where: {
+        id: surveyId,
+        platformProductOrder:
+          user.role === UserRole.Client
+            ? { client: { userId: user.id } }
+            : undefined,
+      },
+    });
+
+    return await this.prismaService.$transaction(async (tx) => {
+      const {
+        _max: { order: maxOrder },
+      } = await tx.surveyQuestion.aggregate({
+        where: { surveyId },
+        _max: { order: true },
+      });
+
+      return await this.surveysService.createQuestionsWithOptions(
+        surveyId,
+        questionTemplateIds.map((id, index) => {
+          const template = questionTemplates.find(
+            (questionTemplate) => questionTemplate.id === id,
+          );
+
+          return {
+            questionText: template.questionText,
+            questionType: template.questionType,
+            order: (maxOrder ?? 0) + index + 1,
+            questionCredit: template.questionCredit,
+            isMultiSelect: template.isMultiSelect,
+            minValue: template.minValue,
+            maxValue: template.maxValue,
+            minLength: template.minLength,
+            maxLength: template.maxLength,
+            surveyOptions: template.templateOptions,
+          };
+        }),
+        tx,
+      );
+    });
+  }
+}
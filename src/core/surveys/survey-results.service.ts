@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import { Workbook } from 'exceljs';
+import {
+  ForbiddenApplicationException,
+  NotFoundApplicationException,
+} from 'src/exceptions/application.exception';
+import { PrismaService } from 'src/integrations/prisma/prisma.service';
+import { ExportFormat, formatCsv, UserRole } from 'src/utils';
+import { ProductOrderInfluencerStatus } from '../platform-product/enums/product-order-influencer-status.enum';
+import { SurveyResultsFilterDto } from './dto/survey-results-filter.dto';
+import { ISurveyRespondent } from './interfaces';
+import {
+  aggregateSurveyResults,
+  getSurveyResultsTable,
+} from './utils/survey-results.util';
+
+// * submissions that were accepted by the client or an admin
+const approvedSubmissionStatuses = [
+  ProductOrderInfluencerStatus.Approved,
+  ProductOrderInfluencerStatus.ToBePaid,
+  ProductOrderInfluencerStatus.Paid,
+];
+
+@Injectable()
+export class SurveyResultsService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  private async findResultsData(surveyId: number, user: User) {
+    let where: Prisma.SurveyWhereInput = { id: surveyId };
+
+    if (user.role === UserRole.Influencer) {
+      throw new ForbiddenApplicationException(
+        `Influencers can't access survey results`,
+      );
+    } else if (user.role === UserRole.Client) {
+      where = {
+        ...where,
+        platformProductOrder: { client: { userId: user.id } },
+      };
+    } else if (user.role === UserRole.Ambassador) {
+      where = {
+        ...where,
+        platformProductOrder: { client: { ambassador: { userId: user.id } } },
+      };
+    }
+
+    const survey = await this.prismaService.survey.findFirst({
+      where,
+      include: {
+        surveyQuestions: {
+          include: {
+            surveyOptions: { orderBy: [{ order: 'asc' }, { id: 'asc' }] },
+          },
+          orderBy: [{ order: 'asc' }, { id: 'asc' }],
+        },
+      },
+    });
+
+    if (!survey) {
+      throw new NotFoundApplicationException(
+        `Survey with ID ${surveyId} not found`,
+      );
+    }
+
+    const surveyInfluencers =
+      await this.prismaService.platformProductOrderInfluencer.findMany({
+        where: {
+          productOrderId: survey.platformProductOrderId,
+          status: { in: approvedSubmissionStatuses },
+        },
+        select: {
+          influencer: {
+            select: {
+              userId: true,
+              gender: true,
+              dateOfBirth: true,
+              user: {
+                select: { location: { select: { id: true, name: true } } },
+              },
+              influencerDiseaseAreas: {
+                select: { diseaseArea: { select: { id: true, name: true } } },
+              },
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      });
+    const respondents: ISurveyRespondent[] = surveyInfluencers.map(
+      ({ influencer }) => ({
+        userId: influencer.userId,
+        gender: influencer.gender,
+        dateOfBirth: influencer.dateOfBirth,
+        location: influencer.user.location,
+        diseaseAreas: influencer.influencerDiseaseAreas.map(
+          ({ diseaseArea }) => diseaseArea,
+        ),
+      }),
+    );
+    const responses = await this.prismaService.surveyResponse.findMany({
+      where: {
+        surveyId,
+        isDraft: false,
+        userId: { in: respondents.map((respondent) => respondent.userId) },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    return { survey, respondents, responses };
+  }
+
+  async getResults(
+    surveyId: number,
+    user: User,
+    { breakdownBy }: SurveyResultsFilterDto,
+  ) {
+    const { survey, respondents, responses } = await this.findResultsData(
+      surveyId,
+      user,
+    );
+
+    return aggregateSurveyResults(
+      survey.surveyQuestions,
+      responses,
+      respondents,
+      breakdownBy,
+    );
+  }
+
+  async export(surveyId: number, user: User, format: ExportFormat) {
+    const { survey, respondents, responses } = await this.findResultsData(
+      surveyId,
+      user,
+    );
+    const table = getSurveyResultsTable(
+      survey.surveyQuestions,
+      responses,
+      respondents,
+    );
+    const fileName = `survey-${survey.id}-results.${format}`;
+
+    if (format === ExportFormat.CSV) {
+      return {
+        fileName,
+        contentType: 'text/csv; charset=utf-8',
+        // * BOM, so spreadsheet apps detect the encoding
+        content: Buffer.from(`\ufeff${formatCsv(table)}`),
+      };
+    }
+
+    const workbook = new Workbook();
+    const worksheet = workbook.addWorksheet('Results');
+
+    worksheet.addRows(table);
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    return {
+      fileName,
+      contentType:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: Buffer.from(await workbook.xlsx.writeBuffer()),
+    };
+  }
+}
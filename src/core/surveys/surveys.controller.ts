@@ -40,6 +40,9 @@ import { QuestionEntity } from './entities/question.entity';
 import { CreateAnswerChoiceDto } from './dto/create-answer-choice.dto';
 import { AnswerEntity } from './entities/answer.entity';
 import { UpdateAnswerChoiceDto } from './dto/update-answer-choice.dto';
+import { CreateQuestionRuleDto } from './dto/create-question-rule.dto';
+import { UpdateQuestionRuleDto } from './dto/update-question-rule.dto';
+import { QuestionRuleEntity } from './entities/question-rule.entity';
 import { EnumItemResult } from 'src/utils/object-definitions/results/enum-item-result';
 import { Response } from 'express';
 import { serializeEnum } from 'src/utils/serializers/enum-result.serializer';
@@ -52,6 +55,12 @@ import { cacheKeys } from 'src/config';
 import { CacheInvalidate } from 'src/decorators/cache-invalidate.decorator';
 import { DeleteManySurveysDto } from './dto/delete-many-surveys.dto';
 import { SurveyInviteInfluencers } from './dto/survey-invite-influencers.dto';
+import { SurveyResultsService } from './survey-results.service';
+import { SurveyResultsFilterDto } from './dto/survey-results-filter.dto';
+import { SurveyResultsExportDto } from './dto/survey-results-export.dto';
+import { CloneSurveyDto } from './dto/clone-survey.dto';
+import { InsertQuestionTemplatesDto } from './dto/insert-question-templates.dto';
+import { QuestionTemplatesService } from './question-templates.service';
 
 @Controller('surveys')
 @ApiTags('surveys')
@@ -68,7 +77,11 @@ export class SurveysController {
     cacheKeys.insightClientSurveyInfluencers,
   ];
 
-  constructor(private readonly surveysService: SurveysService) {}
+  constructor(
+    private readonly surveysService: SurveysService,
+    private readonly surveyResultsService: SurveyResultsService,
+    private readonly questionTemplatesService: QuestionTemplatesService,
+  ) {}
 
   //#region ENUMS
   @Get('creditPackages')
@@ -197,6 +210,26 @@ export class SurveysController {
     );
   }
 
+  @Post(':id/clone')
+  @CheckAbilities({ action: Action.Create, subject: 'Survey' })
+  @ApiOperation({
+    summary: 'Clone a survey',
+    description:
+      'Copies the survey with its targeting, questions, options and rules into a new survey.',
+  })
+  @ApiBody({ type: CloneSurveyDto })
+  @ApiCreatedResponse({ type: SurveyEntity })
+  @CacheInvalidate(...SurveysController.cacheInvalidateOnSurveyCreate)
+  async clone(
+    @Param('id') id: number,
+    @Body() cloneSurveyDto: CloneSurveyDto,
+    @AuthUser() user: User,
+  ) {
+    return new SurveyEntity(
+      await this.surveysService.clone(id, cloneSurveyDto, user),
+    );
+  }
+
   @Post(':id/addInfluencers')
   @ApiBody({
     description: 'User IDs',
@@ -318,6 +351,23 @@ export class SurveysController {
     return this.surveysService.removeInfluencers(id, influencerIds);
   }
 
+  @Get(':id/surveyResult')
+  async getSurveyResult(@Param('id') id: number, @AuthUser() user: User) {
+    return this.surveysService.getSurveyResult(id, user);
+  }
+
+  @Put(':id/surveyResultDraft')
+  @ApiBody({
+    type: SubmitSurveyResultDto,
+  })
+  async saveSurveyResultDraft(
+    @Param('id') id: number,
+    @Body() data: SubmitSurveyResultDto,
+    @AuthUser() user: User,
+  ) {
+    return this.surveysService.saveSurveyResultDraft(id, user, data);
+  }
+
   @Post(':id/submitSurveyResult')
   @ApiBody({
     type: SubmitSurveyResultDto,
@@ -337,6 +387,44 @@ export class SurveysController {
     return this.surveysService.submitSurveyResult(id, user, data);
   }
 
+  @Get(':id/results')
+  @CheckAbilities({ action: Action.Read, subject: 'Survey' })
+  @ApiOperation({
+    summary: 'Get survey results',
+    description:
+      'Aggregates answers of approved submissions, optionally broken down by influencer segments.',
+  })
+  async getResults(
+    @Param('id') id: number,
+    @Query() filters: SurveyResultsFilterDto,
+    @AuthUser() user: User,
+  ) {
+    return this.surveyResultsService.getResults(id, user, filters);
+  }
+
+  @Get(':id/results/export')
+  @CheckAbilities({ action: Action.Read, subject: 'Survey' })
+  @ApiOperation({
+    summary: 'Export survey results',
+    description:
+      'Exports answers of approved submissions as a CSV or XLSX file.',
+  })
+  @NoAutoSerialize()
+  async exportResults(
+    @Param('id') id: number,
+    @Query() { format }: SurveyResultsExportDto,
+    @AuthUser() user: User,
+    @Res() res: Response,
+  ) {
+    const { fileName, contentType, content } =
+      await this.surveyResultsService.export(id, user, format);
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    return res.send(content);
+  }
+
   @Put(':id/approveSubmission')
   @ApiBody({
     description: 'User IDs',
@@ -408,13 +496,43 @@ export class SurveysController {
     );
   }
 
+  @Post(':id/questions/fromTemplates')
+  @CheckAbilities({ action: Action.Update, subject: 'Survey' })
+  @ApiBody({
+    type: InsertQuestionTemplatesDto,
+  })
+  @ApiCreatedResponse({
+    type: QuestionEntity,
+    isArray: true,
+  })
+  @NoAutoSerialize()
+  @CacheInvalidate(...SurveysController.cacheInvalidateOnSurveyUpdate)
+  async createQuestionsFromTemplates(
+    @Param('id') id: number,
+    @Body() dto: InsertQuestionTemplatesDto,
+    @AuthUser() user: User,
+  ) {
+    return serializeArray(
+      this.questionTemplatesService.insertIntoSurvey(id, dto, user),
+      QuestionEntity,
+    );
+  }
+
   @Get(':id/questions')
   @ApiOkResponse({
     type: QuestionEntity,
     isArray: true,
   })
   @NoAutoSerialize()
-  async getQuestions(@Param('id') id: number) {
+  async getQuestions(@Param('id') id: number, @AuthUser() user: User) {
+    // * influencers get only the questions on their path
+    if (user.role === UserRole.Influencer) {
+      return serializeArray(
+        this.surveysService.getQuestionPath(id, user),
+        QuestionEntity,
+      );
+    }
+
     return serializeArray(
       this.surveysService.getQuestions(id, true),
       QuestionEntity,
@@ -451,6 +569,80 @@ export class SurveysController {
   }
   //#endregion
 
+  //#region QUESTION RULES
+  @Post(':id/questions/:questionId/rules')
+  @CheckAbilities({ action: Action.Update, subject: 'Survey' })
+  @ApiBody({
+    type: CreateQuestionRuleDto,
+  })
+  @ApiCreatedResponse({
+    type: QuestionRuleEntity,
+  })
+  @CacheInvalidate(...SurveysController.cacheInvalidateOnSurveyUpdate)
+  async createQuestionRule(
+    @Param('id') id: number,
+    @Param('questionId') questionId: number,
+    @Body() dto: CreateQuestionRuleDto,
+  ) {
+    return new QuestionRuleEntity(
+      await this.surveysService.createQuestionRule(id, questionId, dto),
+    );
+  }
+
+  @Get(':id/questions/:questionId/rules')
+  @CheckAbilities({ action: Action.Read, subject: 'Survey' })
+  @ApiOkResponse({
+    type: QuestionRuleEntity,
+    isArray: true,
+  })
+  @NoAutoSerialize()
+  async getQuestionRules(
+    @Param('id') id: number,
+    @Param('questionId') questionId: number,
+  ) {
+    return serializeArray(
+      this.surveysService.getQuestionRules(id, questionId),
+      QuestionRuleEntity,
+    );
+  }
+
+  @Patch(':id/questions/:questionId/rules/:ruleId')
+  @CheckAbilities({ action: Action.Update, subject: 'Survey' })
+  @ApiBody({
+    type: UpdateQuestionRuleDto,
+  })
+  @ApiOkResponse({
+    type: QuestionRuleEntity,
+  })
+  @CacheInvalidate(...SurveysController.cacheInvalidateOnSurveyUpdate)
+  async updateQuestionRule(
+    @Param('id') id: number,
+    @Param('questionId') questionId: number,
+    @Param('ruleId') ruleId: number,
+    @Body() dto: UpdateQuestionRuleDto,
+  ) {
+    return new QuestionRuleEntity(
+      await this.surveysService.updateQuestionRule(id, questionId, ruleId, dto),
+    );
+  }
+
+  @Delete(':id/questions/:questionId/rules/:ruleId')
+  @CheckAbilities({ action: Action.Update, subject: 'Survey' })
+  @ApiOkResponse({
+    type: QuestionRuleEntity,
+  })
+  @CacheInvalidate(...SurveysController.cacheInvalidateOnSurveyUpdate)
+  async deleteQuestionRule(
+    @Param('id') id: number,
+    @Param('questionId') questionId: number,
+    @Param('ruleId') ruleId: number,
+  ) {
+    return new QuestionRuleEntity(
+      await this.surveysService.deleteQuestionRule(id, questionId, ruleId),
+    );
+  }
+  //#endregion
+
   //#region QUESTION ANSWER CHOICES/OPTIONS
   @Post(':id/questions/:questionId/answerChoices')
   @ApiBody({
@@ -1,9 +1,14 @@
 import { Module } from '@nestjs/common';
 import { SurveysService } from './surveys.service';
 import { SurveysController } from './surveys.controller';
+import { SurveyResultsService } from './survey-results.service';
+import { QuestionTemplatesController } from './question-templates.controller';
+import { QuestionTemplatesService } from './question-templates.service';
+import { FinanceModule } from '../finance/finance.module';
 
 @Module({
-  controllers: [SurveysController],
-  providers: [SurveysService],
+  imports: [FinanceModule],
+  controllers: [SurveysController, QuestionTemplatesController],
+  providers: [SurveysService, SurveyResultsService, QuestionTemplatesService],
 })
 export class SurveysModule {}
@@ -6,7 +6,7 @@ import { Status } from '../campaign/enums/status.enum';
 import { PlatformProduct } from '../platform-product/enums/platform-product.enum';
 import { UserRole } from 'src/utils';
 import { ambassadorCommission } from 'src/config';
-import { Prisma, User } from '@prisma/client';
+import { Prisma, SurveyOption, SurveyQuestion, User } from '@prisma/client';
 import { FilterParamsDto } from 'src/utils/object-definitions/dtos/filter-params.dto';
 import { filterRecordsFactory } from 'src/utils/factories/filter-records.factory';
 import {
@@ -29,6 +29,20 @@ import { CreditPackage } from './enums/credit-package.enum';
 import { DeleteManySurveysDto } from './dto/delete-many-surveys.dto';
 import { SurveyInviteInfluencers } from './dto/survey-invite-influencers.dto';
 import { FinanceStatus } from '../campaign/enums/finance-status.enum';
+import { FinanceService } from '../finance/finance.service';
+import {
+  getSurveyResponsesData,
+  SurveyQuestionWithOptions,
+  validateSurveyAnswer,
+} from './utils/survey-answer.util';
+import {
+  getSurveyAnswersFromResponses,
+  getSurveyQuestionPath,
+  validateSurveyLogic,
+} from './utils/survey-logic.util';
+import { CreateQuestionRuleDto } from './dto/create-question-rule.dto';
+import { UpdateQuestionRuleDto } from './dto/update-question-rule.dto';
+import { CloneSurveyDto } from './dto/clone-survey.dto';
 
 @Injectable()
 export class SurveysService {
@@ -196,7 +210,10 @@ export class SurveysService {
       },
     };
 
-  constructor(private readonly prismaService: PrismaService) {}
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly financeService: FinanceService,
+  ) {}
 
   async create(createSurveyDto: CreateSurveyDto, user: UserEntity) {
     const {
@@ -405,6 +422,239 @@ export class SurveysService {
     return survey;
   }
 
+  /**
+   * Copies the survey with its targeting, questions and rules into a new product order.
+   * Influencers, answers and token balances are not copied.
+   */
+  async clone(
+    surveyId: number,
+    cloneSurveyDto: CloneSurveyDto,
+    user: UserEntity,
+  ) {
+    const { name, clientUserId } = cloneSurveyDto;
+
+    if (user.role === UserRole.Client && clientUserId !== undefined) {
+      throw new BadRequestApplicationException(
+        `Only the admin can clone a survey for another client.`,
+      );
+    }
+
+    const survey = await this.prismaService.survey.findFirst({
+      where: {
+        id: surveyId,
+        platformProductOrder:
+          user.role === UserRole.Client
+            ? { client: { userId: user.id } }
+            : undefined,
+      },
+      include: {
+        products: { include: { product: { select: { isApproved: true } } } },
+        stakeholderTypes: true,
+        exampleImages: true,
+        surveyQuestions: {
+          include: {
+            surveyOptions: { orderBy: { id: 'asc' } },
+            surveyQuestionRules: { orderBy: { id: 'asc' } },
+          },
+          orderBy: [{ order: 'asc' }, { id: 'asc' }],
+        },
+        platformProductOrder: {
+          include: {
+            platformProductOrderDiseaseAreas: true,
+            platformProductOrderStruggles: true,
+            platformProductOrderSymptoms: true,
+            platformProductOrderLocations: true,
+            platformProductOrderEthnicities: true,
+            platformProductOrderInterests: true,
+            platformProductOrderGenders: true,
+            platformProductOrderLanguages: true,
+          },
+        },
+      },
+    });
+
+    if (!survey) {
+      throw new NotFoundApplicationException(
+        `Survey with ID ${surveyId} not found`,
+      );
+    }
+
+    const productOrder = survey.platformProductOrder;
+    const clientId =
+      clientUserId !== undefined
+        ? (
+            await this.prismaService.client.findUniqueOrThrow({
+              where: { userId: clientUserId },
+            })
+          ).id
+        : productOrder.clientId;
+    // * unapproved products are visible only to the client that created them
+    const productIds = survey.products
+      .filter(
+        ({ product }) =>
+          product.isApproved || clientId === productOrder.clientId,
+      )
+      .map(({ productId }) => productId);
+
+    return await this.prismaService.$transaction(async (tx) => {
+      const newSurvey = await tx.survey.create({
+        data: {
+          name: name ?? `${survey.name} (copy)`,
+          language: survey.language,
+          surveyDescription: survey.surveyDescription,
+          participantCount: survey.participantCount,
+          questionCount: survey.questionCount,
+          ageMin: survey.ageMin,
+          ageMax: survey.ageMax,
+          participantsDescription: survey.participantsDescription,
+          surveyType: survey.surveyType,
+          fileUploadUrl: survey.fileUploadUrl,
+          instructionsDescription: survey.instructionsDescription,
+          questionCredits: survey.questionCredits,
+          link: survey.link,
+          products: {
+            createMany: {
+              data: productIds.map((productId) => ({ productId })),
+            },
+          },
+          stakeholderTypes: {
+            createMany: {
+              data: survey.stakeholderTypes.map(({ stakeholderType }) => ({
+                stakeholderType,
+              })),
+            },
+          },
+          exampleImages: {
+            createMany: {
+              data: survey.exampleImages.map(({ imageUrl }) => ({ imageUrl })),
+            },
+          },
+          platformProductOrder: {
+            create: {
+              platformProduct: PlatformProduct.Survey,
+              financeStatus: productOrder.budget && FinanceStatus.Pending,
+              clientId,
+              ambassadorCommission: productOrder.ambassadorCommission,
+              budget: productOrder.budget,
+              currencyId: productOrder.currencyId,
+              platformProductOrderDiseaseAreas: {
+                createMany: {
+                  data: productOrder.platformProductOrderDiseaseAreas.map(
+                    ({ diseaseAreaId }) => ({ diseaseAreaId }),
+                  ),
+                },
+              },
+              platformProductOrderStruggles: {
+                createMany: {
+                  data: productOrder.platformProductOrderStruggles.map(
+                    ({ struggleId }) => ({ struggleId }),
+                  ),
+                },
+              },
+              platformProductOrderSymptoms: {
+                createMany: {
+                  data: productOrder.platformProductOrderSymptoms.map(
+                    ({ symptomId }) => ({ symptomId }),
+                  ),
+                },
+              },
+              platformProductOrderLocations: {
+                createMany: {
+                  data: productOrder.platformProductOrderLocations.map(
+                    ({ locationId }) => ({ locationId }),
+                  ),
+                },
+              },
+              platformProductOrderEthnicities: {
+                createMany: {
+                  data: productOrder.platformProductOrderEthnicities.map(
+                    ({ ethnicityId }) => ({ ethnicityId }),
+                  ),
+                },
+              },
+              platformProductOrderInterests: {
+                createMany: {
+                  data: productOrder.platformProductOrderInterests.map(
+                    ({ interestId }) => ({ interestId }),
+                  ),
+                },
+              },
+              platformProductOrderGenders: {
+                createMany: {
+                  data: productOrder.platformProductOrderGenders.map(
+                    ({ gender }) => ({ gender }),
+                  ),
+                },
+              },
+              platformProductOrderLanguages: {
+                createMany: {
+                  data: productOrder.platformProductOrderLanguages.map(
+                    ({ language }) => ({ language }),
+                  ),
+                },
+              },
+              status: Status.InPreparation,
+            },
+          },
+        },
+      });
+      const questionIds = new Map<number, number>();
+      const optionIds = new Map<number, number>();
+      const newQuestions = await this.createQuestionsWithOptions(
+        newSurvey.id,
+        survey.surveyQuestions.map((question) => ({
+          questionText: question.questionText,
+          questionType: question.questionType,
+          order: question.order,
+          questionCredit: question.questionCredit,
+          isMultiSelect: question.isMultiSelect,
+          minValue: question.minValue,
+          maxValue: question.maxValue,
+          minLength: question.minLength,
+          maxLength: question.maxLength,
+          surveyOptions: question.surveyOptions,
+        })),
+        tx,
+      );
+
+      survey.surveyQuestions.forEach((question, index) => {
+        questionIds.set(question.id, newQuestions[index].id);
+        question.surveyOptions.forEach((option, optionIndex) =>
+          optionIds.set(
+            option.id,
+            newQuestions[index].surveyOptions[optionIndex].id,
+          ),
+        );
+      });
+
+      await tx.surveyQuestionRule.createMany({
+        data: survey.surveyQuestions
+          .flatMap((question) => question.surveyQuestionRules)
+          .map((rule) => ({
+            surveyQuestionId: questionIds.get(rule.surveyQuestionId),
+            action: rule.action,
+            surveyOptionId:
+              rule.surveyOptionId !== null
+                ? optionIds.get(rule.surveyOptionId)
+                : null,
+            minValue: rule.minValue,
+            maxValue: rule.maxValue,
+            targetQuestionId:
+              rule.targetQuestionId !== null
+                ? questionIds.get(rule.targetQuestionId)
+                : null,
+          })),
+      });
+
+      return await tx.survey.findUniqueOrThrow({
+        where: { id: newSurvey.id },
+        include: {
+          ...this.surveyQueryIncludeSingle,
+        },
+      });
+    });
+  }
+
   async findAll(
     { skip, take, sortBy, search }: FilterParamsDto,
     filters: SurveyFilterDto,
@@ -1366,8 +1616,17 @@ export class SurveysService {
     createQuestionDto: CreateQuestionDto,
     includeAnswerChoices = false,
   ) {
-    const { questionText, questionType, order, questionCredit } =
-      createQuestionDto;
+    const {
+      questionText,
+      questionType,
+      order,
+      questionCredit,
+      isMultiSelect,
+      minValue,
+      maxValue,
+      minLength,
+      maxLength,
+    } = createQuestionDto;
 
     return await this.prismaService.surveyQuestion.create({
       data: {
@@ -1376,6 +1635,11 @@ export class SurveysService {
         questionType,
         order,
         questionCredit,
+        isMultiSelect,
+        minValue,
+        maxValue,
+        minLength,
+        maxLength,
       },
       include: {
         surveyOptions: includeAnswerChoices,
@@ -1383,13 +1647,68 @@ export class SurveysService {
     });
   }
 
+  /**
+   * Creates the questions with their options, in the given order.
+   */
+  async createQuestionsWithOptions(
+    surveyId: number,
+    questions: (Omit<Prisma.SurveyQuestionCreateManyInput, 'surveyId'> & {
+      surveyOptions: Pick<SurveyOption, 'optionText' | 'order'>[];
+    })[],
+    tx: Prisma.TransactionClient,
+  ) {
+    const newQuestions: SurveyQuestionWithOptions[] = [];
+
+    for (const { surveyOptions, ...question } of questions) {
+      const newQuestion = await tx.surveyQuestion.create({
+        data: { ...question, surveyId },
+      });
+      const newOptions: SurveyOption[] = [];
+
+      for (const { optionText, order } of surveyOptions) {
+        newOptions.push(
+          await tx.surveyOption.create({
+            data: { surveyQuestionId: newQuestion.id, optionText, order },
+          }),
+        );
+      }
+
+      newQuestions.push({ ...newQuestion, surveyOptions: newOptions });
+    }
+
+    return newQuestions;
+  }
+
   async getQuestions(surveyId: number, includeAnswerChoices = false) {
     return await this.prismaService.surveyQuestion.findMany({
       where: { surveyId },
       include: {
         surveyOptions: includeAnswerChoices,
+        surveyQuestionRules: true,
+      },
+      orderBy: [{ order: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  /**
+   * Questions the influencer goes through, based on the answers saved so far.
+   */
+  async getQuestionPath(surveyId: number, user: User) {
+    const questions = await this.prismaService.surveyQuestion.findMany({
+      where: { surveyId },
+      include: {
+        surveyOptions: true,
+        surveyQuestionRules: true,
       },
+      orderBy: [{ order: 'asc' }, { id: 'asc' }],
     });
+    const responses = await this.getSurveyResult(surveyId, user);
+
+    return getSurveyQuestionPath(
+      questions,
+      questions.flatMap((question) => question.surveyQuestionRules),
+      getSurveyAnswersFromResponses(responses),
+    );
   }
 
   async updateQuestion(
@@ -1397,8 +1716,17 @@ export class SurveysService {
     updateQuestionDto: UpdateQuestionDto,
     includeAnswerChoices = false,
   ) {
-    const { questionText, questionType, order, questionCredit } =
-      updateQuestionDto;
+    const {
+      questionText,
+      questionType,
+      order,
+      questionCredit,
+      isMultiSelect,
+      minValue,
+      maxValue,
+      minLength,
+      maxLength,
+    } = updateQuestionDto;
 
     return await this.prismaService.surveyQuestion.update({
       where: { id: questionId },
@@ -1407,6 +1735,11 @@ export class SurveysService {
         questionType,
         order,
         questionCredit,
+        isMultiSelect,
+        minValue,
+        maxValue,
+        minLength,
+        maxLength,
       },
       include: {
         surveyOptions: includeAnswerChoices,
@@ -1421,6 +1754,157 @@ export class SurveysService {
   }
   //#endregion
 
+  //#region QUESTION RULES CRUD
+  /**
+   * Rules are checked when the survey is started, so they can't be changed afterwards.
+   */
+  private async findQuestionForRules(
+    surveyId: number,
+    questionId: number,
+    editable = false,
+  ) {
+    const question = await this.prismaService.surveyQuestion.findFirst({
+      where: { id: questionId, surveyId },
+      include: {
+        surveyOptions: true,
+        survey: { include: { platformProductOrder: true } },
+      },
+    });
+
+    if (!question) {
+      throw new NotFoundApplicationException(
+        `Question with ID ${questionId} not found in survey ${surveyId}`,
+      );
+    } else if (
+      editable &&
+      question.survey.platformProductOrder.status !== Status.InPreparation
+    ) {
+      throw new BadRequestApplicationException(
+        `Survey ${surveyId} has already started, its question rules can't be changed`,
+      );
+    }
+
+    return question;
+  }
+
+  private async validateQuestionRuleReferences(
+    question: SurveyQuestion & { surveyOptions: SurveyOption[] },
+    { surveyOptionId, targetQuestionId }: UpdateQuestionRuleDto,
+  ) {
+    if (
+      surveyOptionId !== undefined &&
+      surveyOptionId !== null &&
+      !question.surveyOptions.some((option) => option.id === surveyOptionId)
+    ) {
+      throw new BadRequestApplicationException(
+        `Answer choice ${surveyOptionId} doesn't belong to question ${question.id}`,
+      );
+    }
+
+    if (targetQuestionId !== undefined && targetQuestionId !== null) {
+      const targetQuestion = await this.prismaService.surveyQuestion.findFirst({
+        where: { id: targetQuestionId, surveyId: question.surveyId },
+      });
+
+      if (!targetQuestion) {
+        throw new BadRequestApplicationException(
+          `Target question ${targetQuestionId} doesn't belong to survey ${question.surveyId}`,
+        );
+      }
+    }
+  }
+
+  private async findQuestionRule(questionId: number, ruleId: number) {
+    const rule = await this.prismaService.surveyQuestionRule.findFirst({
+      where: { id: ruleId, surveyQuestionId: questionId },
+    });
+
+    if (!rule) {
+      throw new NotFoundApplicationException(
+        `Rule with ID ${ruleId} not found in question ${questionId}`,
+      );
+    }
+
+    return rule;
+  }
+
+  async createQuestionRule(
+    surveyId: number,
+    questionId: number,
+    createQuestionRuleDto: CreateQuestionRuleDto,
+  ) {
+    const { action, surveyOptionId, minValue, maxValue, targetQuestionId } =
+      createQuestionRuleDto;
+    const question = await this.findQuestionForRules(
+      surveyId,
+      questionId,
+      true,
+    );
+
+    await this.validateQuestionRuleReferences(question, createQuestionRuleDto);
+
+    return await this.prismaService.surveyQuestionRule.create({
+      data: {
+        surveyQuestionId: questionId,
+        action,
+        surveyOptionId,
+        minValue,
+        maxValue,
+        targetQuestionId,
+      },
+    });
+  }
+
+  async getQuestionRules(surveyId: number, questionId: number) {
+    return await this.prismaService.surveyQuestionRule.findMany({
+      where: { surveyQuestionId: questionId, surveyQuestion: { surveyId } },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async updateQuestionRule(
+    surveyId: number,
+    questionId: number,
+    ruleId: number,
+    updateQuestionRuleDto: UpdateQuestionRuleDto,
+  ) {
+    const { action, surveyOptionId, minValue, maxValue, targetQuestionId } =
+      updateQuestionRuleDto;
+    const question = await this.findQuestionForRules(
+      surveyId,
+      questionId,
+      true,
+    );
+
+    await this.findQuestionRule(questionId, ruleId);
+    await this.validateQuestionRuleReferences(question, updateQuestionRuleDto);
+
+    return await this.prismaService.surveyQuestionRule.update({
+      where: { id: ruleId },
+      data: {
+        action,
+        surveyOptionId,
+        minValue,
+        maxValue,
+        targetQuestionId,
+      },
+    });
+  }
+
+  async deleteQuestionRule(
+    surveyId: number,
+    questionId: number,
+    ruleId: number,
+  ) {
+    await this.findQuestionForRules(surveyId, questionId, true);
+    await this.findQuestionRule(questionId, ruleId);
+
+    return await this.prismaService.surveyQuestionRule.delete({
+      where: { id: ruleId },
+    });
+  }
+  //#endregion
+
   //#region QUESTION ANSWER/S CRUD
   async createAnswerChoice(
     questionId: number,
@@ -1465,10 +1949,38 @@ export class SurveysService {
   }
   //#endregion
 
+  async getSurveyResult(surveyId: number, user: User) {
+    return await this.prismaService.surveyResponse.findMany({
+      where: { surveyId, userId: user.id },
+      orderBy: [{ surveyQuestionId: 'asc' }, { value: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async saveSurveyResultDraft(
+    surveyId: number,
+    user: UserWithInfluencer,
+    data: SubmitSurveyResultDto,
+  ) {
+    return await this.saveSurveyResult(surveyId, user, data, true);
+  }
+
   async submitSurveyResult(
     surveyId: number,
     user: UserWithInfluencer,
     data: SubmitSurveyResultDto,
+  ) {
+    return await this.saveSurveyResult(surveyId, user, data, false);
+  }
+
+  /**
+   * Replaces all answers of the influencer at once. Drafts can be saved partially and repeatedly,
+   * while the final submission has to answer every question and is sent for an approval.
+   */
+  private async saveSurveyResult(
+    surveyId: number,
+    user: UserWithInfluencer,
+    data: SubmitSurveyResultDto,
+    isDraft: boolean,
   ) {
     if (!user.influencer) {
       throw new BadRequestApplicationException(
@@ -1487,12 +1999,17 @@ export class SurveysService {
             },
           },
         },
+        surveyQuestions: {
+          include: { surveyOptions: true, surveyQuestionRules: true },
+          orderBy: [{ order: 'asc' }, { id: 'asc' }],
+        },
       },
     });
     const surveyInfluencer =
       survey.platformProductOrder.platformProductOrderInfluencers[0];
 
     if (
+      !surveyInfluencer ||
       ![
         ProductOrderInfluencerStatus.ToBeAnswered,
         ProductOrderInfluencerStatus.NotApproved,
@@ -1505,34 +2022,92 @@ export class SurveysService {
       );
     }
 
+    const errors: string[] = [];
+    const responsesData: Prisma.SurveyResponseCreateManyInput[] = [];
+
+    for (const answer of data.answers) {
+      const question = survey.surveyQuestions.find(
+        (surveyQuestion) => surveyQuestion.id === answer.surveyQuestionId,
+      );
+      const error = question
+        ? validateSurveyAnswer(question, answer, isDraft)
+        : 'question does not belong to the survey';
+
+      if (error) {
+        errors.push(`question ${answer.surveyQuestionId}: ${error}`);
+        continue;
+      }
+
+      responsesData.push(
+        ...getSurveyResponsesData(question, answer).map((response) => ({
+          ...response,
+          surveyId,
+          userId: user.id,
+          isDraft,
+        })),
+      );
+    }
+
+    if (!isDraft) {
+      // * only the questions on the path of the answers have to (and can) be answered
+      const path = getSurveyQuestionPath(
+        survey.surveyQuestions,
+        survey.surveyQuestions.flatMap(
+          (question) => question.surveyQuestionRules,
+        ),
+        data.answers,
+      );
+
+      for (const question of path) {
+        if (
+          !data.answers.some(
+            (answer) => answer.surveyQuestionId === question.id,
+          )
+        ) {
+          errors.push(`question ${question.id}: answer is missing`);
+        }
+      }
+
+      for (const answer of data.answers) {
+        if (
+          survey.surveyQuestions.some(
+            (question) => question.id === answer.surveyQuestionId,
+          ) &&
+          !path.some((question) => question.id === answer.surveyQuestionId)
+        ) {
+          errors.push(
+            `question ${answer.surveyQuestionId}: question is skipped by the previous answers`,
+          );
+        }
+      }
+    }
+
+    if (errors.length) {
+      throw new BadRequestApplicationException(
+        `Survey result is invalid - ${errors.join(', ')}`,
+      );
+    }
+
     return await this.prismaService.$transaction(async (tx) => {
-      await tx.platformProductOrderInfluencer.update({
-        data: {
-          status: ProductOrderInfluencerStatus.ToBeApproved,
-        },
-        where: {
-          id: surveyInfluencer.id,
-        },
+      await tx.surveyResponse.deleteMany({
+        where: { surveyId, userId: user.id },
       });
+      await tx.surveyResponse.createMany({ data: responsesData });
 
-      return await tx.surveyResponse.upsert({
-        create: {
-          // TODO review - only the influencers should do surveys???
-          userId: user.id,
-          surveyId,
-          surveyQuestionId: data.surveyQuestionId,
-          surveyOptionId: data.surveyOptionId,
-          surveyResponseText: data.surveyResponseText,
-        },
-        update: { surveyResponseText: data.surveyResponseText },
-        where: {
-          // TODO review if this will work with multi-select questions
-          UserSurveyQuestionResponseIdentifier: {
-            surveyQuestionId: data.surveyQuestionId,
-            surveyOptionId: data.surveyOptionId,
-            userId: user.id,
+      if (!isDraft) {
+        await tx.platformProductOrderInfluencer.update({
+          data: {
+            status: ProductOrderInfluencerStatus.ToBeApproved,
           },
-        },
+          where: {
+            id: surveyInfluencer.id,
+          },
+        });
+      }
+
+      return await tx.surveyResponse.findMany({
+        where: { surveyId, userId: user.id },
+        orderBy: [{ surveyQuestionId: 'asc' }, { value: 'asc' }, { id: 'asc' }],
       });
     });
   }
@@ -1680,6 +2255,10 @@ export class SurveysService {
             platformProductOrderInfluencers: true,
           },
         },
+        surveyQuestions: {
+          include: { surveyOptions: true, surveyQuestionRules: true },
+          orderBy: [{ order: 'asc' }, { id: 'asc' }],
+        },
       },
     });
     const surveyInfluencers =
@@ -1699,6 +2278,19 @@ export class SurveysService {
       );
     }
 
+    const logicErrors = validateSurveyLogic(
+      survey.surveyQuestions,
+      survey.surveyQuestions.flatMap(
+        (question) => question.surveyQuestionRules,
+      ),
+    );
+
+    if (logicErrors.length) {
+      throw new BadRequestApplicationException(
+        `Survey question rules are invalid - ${logicErrors.join(', ')}`,
+      );
+    }
+
     return await this.prismaService.survey.update({
       data: {
         platformProductOrder: {
@@ -1729,29 +2321,31 @@ export class SurveysService {
       );
     }
 
-    return await this.prismaService.$transaction(async (tx) => {
-      await tx.platformProductOrderInfluencer.updateMany({
-        data: {
-          status: ProductOrderInfluencerStatus.ToBePaid,
-        },
-        where: {
-          status: ProductOrderInfluencerStatus.Approved,
-        },
-      });
-
-      return await this.prismaService.survey.update({
-        data: {
-          platformProductOrder: {
-            update: {
-              status: Status.Finished,
+    const { updatedSurvey, transactionFlows } =
+      await this.prismaService.$transaction(async (tx) => {
+        const transactionFlows = await this.financeService.settleProductOrder(
+          survey.platformProductOrderId,
+          tx,
+        );
+        const updatedSurvey = await tx.survey.update({
+          data: {
+            platformProductOrder: {
+              update: {
+                status: Status.Finished,
+              },
             },
           },
-        },
-        where: {
-          id: surveyId,
-        },
+          where: {
+            id: surveyId,
+          },
+        });
+
+        return { updatedSurvey, transactionFlows };
       });
-    });
+
+    await this.financeService.notifySettlement(transactionFlows);
+
+    return updatedSurvey;
   }
 
   async archiveSurvey(surveyId: number) {
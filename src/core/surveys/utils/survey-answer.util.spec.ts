@@ -0,0 +1,130 @@
+import { QuestionType } from '../enums/question-type.enum';
+import {
+  getSurveyResponsesData,
+  SurveyQuestionWithOptions,
+  validateSurveyAnswer,
+} from './survey-answer.util';
+
+const createQuestion = (
+  data: Partial<SurveyQuestionWithOptions>,
+): SurveyQuestionWithOptions => ({
+  id: 1,
+  surveyId: 1,
+  questionText: 'Question',
+  questionType: QuestionType.MultipleChoice,
+  order: null,
+  questionCredit: null,
+  isMultiSelect: false,
+  minValue: null,
+  maxValue: null,
+  minLength: null,
+  maxLength: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  surveyOptions: [1, 2, 3].map((id) => ({
+    id,
+    surveyQuestionId: 1,
+    optionText: `Option ${id}`,
+    order: id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })),
+  ...data,
+});
+
+describe('validateSurveyAnswer', () => {
+  it('rejects options of other questions', () => {
+    const question = createQuestion({});
+
+    expect(
+      validateSurveyAnswer(question, {
+        surveyQuestionId: 1,
+        surveyOptionIds: [4],
+      }),
+    ).toBeDefined();
+  });
+
+  it('allows multiple options only for multi-select questions', () => {
+    const answer = { surveyQuestionId: 1, surveyOptionIds: [1, 2] };
+
+    expect(validateSurveyAnswer(createQuestion({}), answer)).toBeDefined();
+    expect(
+      validateSurveyAnswer(createQuestion({ isMultiSelect: true }), answer),
+    ).toBeUndefined();
+  });
+
+  it('requires all options to be ranked', () => {
+    const question = createQuestion({ questionType: QuestionType.Ranking });
+
+    expect(
+      validateSurveyAnswer(question, {
+        surveyQuestionId: 1,
+        surveyOptionIds: [3, 1],
+      }),
+    ).toBeDefined();
+    expect(
+      validateSurveyAnswer(question, {
+        surveyQuestionId: 1,
+        surveyOptionIds: [3, 1, 2],
+      }),
+    ).toBeUndefined();
+  });
+
+  it('checks rating scale bounds', () => {
+    const question = createQuestion({
+      questionType: QuestionType.RatingScale,
+      minValue: 0,
+      maxValue: 10,
+    });
+
+    expect(
+      validateSurveyAnswer(question, { surveyQuestionId: 1, value: 11 }),
+    ).toBeDefined();
+    expect(
+      validateSurveyAnswer(question, { surveyQuestionId: 1, value: 0 }),
+    ).toBeUndefined();
+  });
+
+  it('checks text length', () => {
+    const question = createQuestion({ questionType: QuestionType.ShortAnswer });
+
+    expect(
+      validateSurveyAnswer(question, { surveyQuestionId: 1, text: '  ' }),
+    ).toBeDefined();
+    expect(
+      validateSurveyAnswer(question, {
+        surveyQuestionId: 1,
+        text: 'a'.repeat(256),
+      }),
+    ).toBeDefined();
+  });
+
+  it('accepts incomplete drafts', () => {
+    const question = createQuestion({ questionType: QuestionType.Ranking });
+
+    expect(
+      validateSurveyAnswer(
+        question,
+        { surveyQuestionId: 1, surveyOptionIds: [2] },
+        true,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('getSurveyResponsesData', () => {
+  it('stores the rank of each option', () => {
+    const question = createQuestion({ questionType: QuestionType.Ranking });
+
+    expect(
+      getSurveyResponsesData(question, {
+        surveyQuestionId: 1,
+        surveyOptionIds: [3, 1, 2],
+      }),
+    ).toEqual([
+      { surveyQuestionId: 1, surveyOptionId: 3, value: 1 },
+      { surveyQuestionId: 1, surveyOptionId: 1, value: 2 },
+      { surveyQuestionId: 1, surveyOptionId: 2, value: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { Prisma, SurveyOption, SurveyQuestion } from '@prisma/client';
+import { SurveyAnswerDto } from '../dto/submit-survey-result.dto';
+import { QuestionType } from '../enums/question-type.enum';
+
+export type SurveyQuestionWithOptions = SurveyQuestion & {
+  surveyOptions: SurveyOption[];
+};
+
+export const surveyAnswerDefaults = {
+  minValue: 1,
+  maxValue: 5,
+  minLength: 1,
+  maxLength: {
+    [QuestionType.ShortAnswer]: 255,
+    [QuestionType.Essay]: 5000,
+  },
+};
+
+/**
+ * Returns the reason why the answer is invalid, or undefined if it's valid.
+ * Drafts may be incomplete, so only the options are checked for them.
+ */
+export const validateSurveyAnswer = (
+  question: SurveyQuestionWithOptions,
+  answer: SurveyAnswerDto,
+  isDraft = false,
+) => {
+  const optionIds = answer.surveyOptionIds ?? [];
+  const questionOptionIds = question.surveyOptions.map((option) => option.id);
+
+  if (optionIds.some((optionId) => !questionOptionIds.includes(optionId))) {
+    return 'option does not belong to the question';
+  }
+
+  if (isDraft) return;
+
+  switch (question.questionType) {
+    case QuestionType.MultipleChoice:
+      if (!optionIds.length) {
+        return 'an option has to be selected';
+      } else if (!question.isMultiSelect && optionIds.length > 1) {
+        return 'only one option can be selected';
+      }
+      break;
+    case QuestionType.TrueFalse:
+      if (optionIds.length !== 1) {
+        return 'exactly one option has to be selected';
+      }
+      break;
+    case QuestionType.Ranking:
+      if (optionIds.length !== questionOptionIds.length) {
+        return 'all options have to be ranked';
+      }
+      break;
+    case QuestionType.RatingScale: {
+      const minValue = question.minValue ?? surveyAnswerDefaults.minValue;
+      const maxValue = question.maxValue ?? surveyAnswerDefaults.maxValue;
+
+      if (
+        answer.value === undefined ||
+        answer.value < minValue ||
+        answer.value > maxValue
+      ) {
+        return `value has to be between ${minValue} and ${maxValue}`;
+      }
+      break;
+    }
+    case QuestionType.ShortAnswer:
+    case QuestionType.Essay: {
+      const length = answer.text?.trim().length ?? 0;
+      const minLength = question.minLength ?? surveyAnswerDefaults.minLength;
+      const maxLength =
+        question.maxLength ??
+        surveyAnswerDefaults.maxLength[question.questionType];
+
+      if (length < minLength || length > maxLength) {
+        return `text has to be between ${minLength} and ${maxLength} characters long`;
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Maps the answer to response rows - one per selected (or ranked) option, otherwise a single row.
+ * Values that don't apply to the question type are ignored.
+ */
+export const getSurveyResponsesData = (
+  question: SurveyQuestionWithOptions,
+  answer: SurveyAnswerDto,
+): Pick<
+  Prisma.SurveyResponseCreateManyInput,
+  'surveyQuestionId' | 'surveyOptionId' | 'surveyResponseText' | 'value'
+>[] => {
+  const surveyQuestionId = question.id;
+  const optionIds = answer.surveyOptionIds ?? [];
+
+  switch (question.questionType) {
+    case QuestionType.MultipleChoice:
+    case QuestionType.TrueFalse:
+      return optionIds.map((surveyOptionId) => ({
+        surveyQuestionId,
+        surveyOptionId,
+      }));
+    case QuestionType.Ranking:
+      return optionIds.map((surveyOptionId, index) => ({
+        surveyQuestionId,
+        surveyOptionId,
+        value: index + 1,
+      }));
+    case QuestionType.RatingScale:
+      return answer.value !== undefined
+        ? [{ surveyQuestionId, value: answer.value }]
+        : [];
+    case QuestionType.ShortAnswer:
+    case QuestionType.Essay:
+      return answer.text?.trim()
+        ? [{ surveyQuestionId, surveyResponseText: answer.text.trim() }]
+        : [];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,135 @@
+import { SurveyQuestionRule } from '@prisma/client';
+import { QuestionRuleAction } from '../enums/question-rule-action.enum';
+import { QuestionType } from '../enums/question-type.enum';
+import { SurveyQuestionWithOptions } from './survey-answer.util';
+import {
+  getSurveyQuestionPath,
+  validateSurveyLogic,
+} from './survey-logic.util';
+
+const createQuestion = (
+  id: number,
+  questionType = QuestionType.MultipleChoice,
+): SurveyQuestionWithOptions => ({
+  id,
+  surveyId: 1,
+  questionText: `Question ${id}`,
+  questionType,
+  order: id,
+  questionCredit: null,
+  isMultiSelect: false,
+  minValue: null,
+  maxValue: null,
+  minLength: null,
+  maxLength: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  surveyOptions: [1, 2].map((optionIndex) => ({
+    id: id * 10 + optionIndex,
+    surveyQuestionId: id,
+    optionText: `Option ${optionIndex}`,
+    order: optionIndex,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })),
+});
+
+const createRule = (data: Partial<SurveyQuestionRule>): SurveyQuestionRule => ({
+  id: 1,
+  surveyQuestionId: 1,
+  action: QuestionRuleAction.JumpTo,
+  surveyOptionId: null,
+  minValue: null,
+  maxValue: null,
+  targetQuestionId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...data,
+});
+
+const getIds = (questions: SurveyQuestionWithOptions[]) =>
+  questions.map((question) => question.id);
+
+describe('getSurveyQuestionPath', () => {
+  const questions = [
+    createQuestion(1),
+    createQuestion(2),
+    createQuestion(3, QuestionType.RatingScale),
+    createQuestion(4),
+  ];
+
+  it('jumps to the target question if the option is selected', () => {
+    const rules = [createRule({ surveyOptionId: 11, targetQuestionId: 3 })];
+
+    expect(
+      getIds(
+        getSurveyQuestionPath(questions, rules, [
+          { surveyQuestionId: 1, surveyOptionIds: [11] },
+        ]),
+      ),
+    ).toEqual([1, 3, 4]);
+    expect(
+      getIds(
+        getSurveyQuestionPath(questions, rules, [
+          { surveyQuestionId: 1, surveyOptionIds: [12] },
+        ]),
+      ),
+    ).toEqual([1, 2, 3, 4]);
+  });
+
+  it('shows the question only if the rating is high enough', () => {
+    const rules = [
+      createRule({
+        surveyQuestionId: 3,
+        action: QuestionRuleAction.Show,
+        minValue: 4,
+        targetQuestionId: 4,
+      }),
+    ];
+
+    expect(
+      getIds(
+        getSurveyQuestionPath(questions, rules, [
+          { surveyQuestionId: 3, value: 3 },
+        ]),
+      ),
+    ).toEqual([1, 2, 3]);
+    expect(
+      getIds(
+        getSurveyQuestionPath(questions, rules, [
+          { surveyQuestionId: 3, value: 4 },
+        ]),
+      ),
+    ).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('validateSurveyLogic', () => {
+  const questions = [createQuestion(1), createQuestion(2), createQuestion(3)];
+
+  it('detects cycles', () => {
+    const rules = [
+      createRule({ id: 1, surveyQuestionId: 2, targetQuestionId: 1 }),
+    ];
+
+    expect(validateSurveyLogic(questions, rules)).toContainEqual(
+      expect.stringContaining('cycle'),
+    );
+  });
+
+  it('detects unreachable questions', () => {
+    const rules = [createRule({ id: 1, targetQuestionId: 3 })];
+
+    expect(validateSurveyLogic(questions, rules)).toEqual([
+      'question 2: question is unreachable',
+    ]);
+  });
+
+  it('accepts conditional jumps', () => {
+    const rules = [
+      createRule({ id: 1, surveyOptionId: 11, targetQuestionId: 3 }),
+    ];
+
+    expect(validateSurveyLogic(questions, rules)).toEqual([]);
+  });
+});
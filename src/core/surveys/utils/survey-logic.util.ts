@@ -0,0 +1,232 @@
+import { SurveyQuestionRule, SurveyResponse } from '@prisma/client';
+import { SurveyAnswerDto } from '../dto/submit-survey-result.dto';
+import { QuestionRuleAction } from '../enums/question-rule-action.enum';
+import { QuestionType } from '../enums/question-type.enum';
+import { SurveyQuestionWithOptions } from './survey-answer.util';
+
+const isUnconditional = (rule: SurveyQuestionRule) =>
+  rule.surveyOptionId === null &&
+  rule.minValue === null &&
+  rule.maxValue === null;
+
+export const isQuestionRuleMatched = (
+  rule: SurveyQuestionRule,
+  answer?: SurveyAnswerDto,
+) => {
+  if (isUnconditional(rule)) return true;
+
+  if (!answer) return false;
+
+  if (
+    rule.surveyOptionId !== null &&
+    !answer.surveyOptionIds?.includes(rule.surveyOptionId)
+  ) {
+    return false;
+  }
+
+  if (rule.minValue !== null || rule.maxValue !== null) {
+    if (answer.value === undefined || answer.value === null) return false;
+
+    if (rule.minValue !== null && answer.value < rule.minValue) return false;
+
+    if (rule.maxValue !== null && answer.value > rule.maxValue) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Questions the respondent goes through, based on the (possibly incomplete) answers.
+ * Questions are expected in the survey order. Jump rules are evaluated in the order they were created.
+ */
+export const getSurveyQuestionPath = (
+  questions: SurveyQuestionWithOptions[],
+  rules: SurveyQuestionRule[],
+  answers: SurveyAnswerDto[],
+) => {
+  const getAnswer = (questionId: number) =>
+    answers.find((answer) => answer.surveyQuestionId === questionId);
+  const path: SurveyQuestionWithOptions[] = [];
+  const visitedQuestionIds = new Set<number>();
+  let index = 0;
+
+  while (index >= 0 && index < questions.length) {
+    const question = questions[index];
+
+    // * guards against cycles of rules that weren't validated
+    if (visitedQuestionIds.has(question.id)) break;
+
+    visitedQuestionIds.add(question.id);
+
+    const showRules = rules.filter(
+      (rule) =>
+        rule.action === QuestionRuleAction.Show &&
+        rule.targetQuestionId === question.id,
+    );
+
+    if (
+      showRules.length &&
+      !showRules.some((rule) =>
+        isQuestionRuleMatched(rule, getAnswer(rule.surveyQuestionId)),
+      )
+    ) {
+      index++;
+      continue;
+    }
+
+    path.push(question);
+
+    const jumpRule = rules.find(
+      (rule) =>
+        rule.action === QuestionRuleAction.JumpTo &&
+        rule.surveyQuestionId === question.id &&
+        isQuestionRuleMatched(rule, getAnswer(question.id)),
+    );
+
+    if (!jumpRule) {
+      index++;
+    } else if (jumpRule.targetQuestionId === null) {
+      break;
+    } else {
+      index = questions.findIndex(
+        (targetQuestion) => targetQuestion.id === jumpRule.targetQuestionId,
+      );
+    }
+  }
+
+  return path;
+};
+
+/**
+ * Returns problems of the rules: invalid conditions and targets, cycles and unreachable questions.
+ */
+export const validateSurveyLogic = (
+  questions: SurveyQuestionWithOptions[],
+  rules: SurveyQuestionRule[],
+) => {
+  const errors: string[] = [];
+  const getIndex = (questionId: number) =>
+    questions.findIndex((question) => question.id === questionId);
+
+  for (const rule of rules) {
+    const sourceIndex = getIndex(rule.surveyQuestionId);
+    const targetIndex =
+      rule.targetQuestionId !== null ? getIndex(rule.targetQuestionId) : null;
+    const source = questions[sourceIndex];
+
+    if (sourceIndex === -1 || targetIndex === -1) {
+      errors.push(`rule ${rule.id}: question does not belong to the survey`);
+      continue;
+    }
+
+    if (rule.action === QuestionRuleAction.Show) {
+      if (targetIndex === null) {
+        errors.push(`rule ${rule.id}: question to show is missing`);
+      } else if (targetIndex <= sourceIndex) {
+        errors.push(
+          `rule ${rule.id}: question can be shown only based on a previous question`,
+        );
+      }
+    }
+
+    if (rule.surveyOptionId !== null) {
+      if (
+        ![QuestionType.MultipleChoice, QuestionType.TrueFalse].includes(
+          source.questionType,
+        )
+      ) {
+        errors.push(
+          `rule ${rule.id}: option conditions apply only to choice questions`,
+        );
+      } else if (
+        !source.surveyOptions.some(
+          (option) => option.id === rule.surveyOptionId,
+        )
+      ) {
+        errors.push(`rule ${rule.id}: option does not belong to the question`);
+      }
+    }
+
+    if (
+      (rule.minValue !== null || rule.maxValue !== null) &&
+      source.questionType !== QuestionType.RatingScale
+    ) {
+      errors.push(
+        `rule ${rule.id}: value conditions apply only to rating scale questions`,
+      );
+    }
+  }
+
+  if (errors.length) return errors;
+
+  // * possible transitions - an index out of the questions is the end of the survey
+  const getNextIndexes = (index: number) => {
+    const jumpRules = rules.filter(
+      (rule) =>
+        rule.action === QuestionRuleAction.JumpTo &&
+        rule.surveyQuestionId === questions[index].id,
+    );
+    const nextIndexes = jumpRules.map((rule) =>
+      rule.targetQuestionId !== null
+        ? getIndex(rule.targetQuestionId)
+        : questions.length,
+    );
+
+    if (!jumpRules.some(isUnconditional)) nextIndexes.push(index + 1);
+
+    return nextIndexes;
+  };
+  const visited = new Set<number>();
+  const inProgress = new Set<number>();
+  const visit = (index: number) => {
+    if (index >= questions.length || visited.has(index)) return;
+
+    if (inProgress.has(index)) {
+      errors.push(`question ${questions[index].id}: rules create a cycle`);
+      return;
+    }
+
+    inProgress.add(index);
+    getNextIndexes(index).forEach(visit);
+    inProgress.delete(index);
+    visited.add(index);
+  };
+
+  if (questions.length) visit(0);
+
+  questions.forEach((question, index) => {
+    if (!visited.has(index)) {
+      errors.push(`question ${question.id}: question is unreachable`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Converts stored responses back to answers, eg. to continue a draft.
+ */
+export const getSurveyAnswersFromResponses = (responses: SurveyResponse[]) => {
+  const answers = new Map<number, SurveyAnswerDto>();
+
+  for (const response of responses) {
+    const answer = answers.get(response.surveyQuestionId) ?? {
+      surveyQuestionId: response.surveyQuestionId,
+    };
+
+    if (response.surveyOptionId !== null) {
+      answer.surveyOptionIds = [
+        ...(answer.surveyOptionIds ?? []),
+        response.surveyOptionId,
+      ];
+    } else if (response.value !== null) {
+      answer.value = response.value;
+    } else if (response.surveyResponseText !== null) {
+      answer.text = response.surveyResponseText;
+    }
+
+    answers.set(response.surveyQuestionId, answer);
+  }
+
+  return [...answers.values()];
+};
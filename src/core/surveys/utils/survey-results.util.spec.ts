@@ -0,0 +1,126 @@
+import { SurveyResponse } from '@prisma/client';
+import { QuestionType } from '../enums/question-type.enum';
+import { SurveyResultsBreakdown } from '../enums/survey-results-breakdown.enum';
+import { ISurveyRespondent } from '../interfaces';
+import { SurveyQuestionWithOptions } from './survey-answer.util';
+import {
+  aggregateQuestionResults,
+  aggregateSurveyResults,
+  getAgeBand,
+} from './survey-results.util';
+
+const createQuestion = (
+  data: Partial<SurveyQuestionWithOptions>,
+): SurveyQuestionWithOptions => ({
+  id: 1,
+  surveyId: 1,
+  questionText: 'Question',
+  questionType: QuestionType.MultipleChoice,
+  order: null,
+  questionCredit: null,
+  isMultiSelect: false,
+  minValue: null,
+  maxValue: null,
+  minLength: null,
+  maxLength: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  surveyOptions: [1, 2].map((id) => ({
+    id,
+    surveyQuestionId: 1,
+    optionText: `Option ${id}`,
+    order: id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })),
+  ...data,
+});
+
+const createResponse = (data: Partial<SurveyResponse>): SurveyResponse => ({
+  id: 1,
+  surveyId: 1,
+  userId: 1,
+  surveyQuestionId: 1,
+  surveyOptionId: null,
+  surveyResponseText: null,
+  value: null,
+  isDraft: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...data,
+});
+
+describe('getAgeBand', () => {
+  it('returns the band of the age', () => {
+    const date = new Date('2023-09-13');
+
+    expect(getAgeBand(new Date('2000-01-01'), date)).toBe('18-24');
+    expect(getAgeBand(new Date('1950-01-01'), date)).toBe('65+');
+    expect(getAgeBand(null, date)).toBeUndefined();
+  });
+});
+
+describe('aggregateQuestionResults', () => {
+  it('counts options of multi-select answers per respondent', () => {
+    const question = createQuestion({ isMultiSelect: true });
+    const results = aggregateQuestionResults(question, [
+      createResponse({ userId: 1, surveyOptionId: 1 }),
+      createResponse({ userId: 1, surveyOptionId: 2 }),
+      createResponse({ userId: 2, surveyOptionId: 1 }),
+    ]);
+
+    expect(results).toMatchObject({
+      answersCount: 2,
+      options: [
+        { surveyOptionId: 1, count: 2, percentage: 100 },
+        { surveyOptionId: 2, count: 1, percentage: 50 },
+      ],
+    });
+  });
+
+  it('calculates rating scale statistics', () => {
+    const question = createQuestion({
+      questionType: QuestionType.RatingScale,
+      minValue: 1,
+      maxValue: 3,
+    });
+    const results = aggregateQuestionResults(
+      question,
+      [1, 2, 2, 3].map((value, index) =>
+        createResponse({ userId: index, value }),
+      ),
+    );
+
+    expect(results).toMatchObject({
+      mean: 2,
+      median: 2,
+      histogram: [
+        { value: 1, count: 1 },
+        { value: 2, count: 2 },
+        { value: 3, count: 1 },
+      ],
+    });
+  });
+});
+
+describe('aggregateSurveyResults', () => {
+  it('breaks results down by segments', () => {
+    const respondents: ISurveyRespondent[] = [1, 2].map((userId) => ({
+      userId,
+      gender: null,
+      dateOfBirth: null,
+      location: null,
+      diseaseAreas: [{ id: 1, name: 'Asthma' }],
+    }));
+    const results = aggregateSurveyResults(
+      [createQuestion({})],
+      [createResponse({ userId: 1, surveyOptionId: 1 })],
+      respondents,
+      SurveyResultsBreakdown.DiseaseArea,
+    );
+
+    expect(results.questions[0].breakdown).toMatchObject([
+      { key: '1', label: 'Asthma', respondentsCount: 2, answersCount: 1 },
+    ]);
+  });
+});
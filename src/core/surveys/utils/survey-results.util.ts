@@ -0,0 +1,278 @@
+import { SurveyResponse } from '@prisma/client';
+import { differenceInYears } from 'date-fns';
+import { Gender } from '../../users/enums/gender';
+import { QuestionType } from '../enums/question-type.enum';
+import { SurveyResultsBreakdown } from '../enums/survey-results-breakdown.enum';
+import { ISurveyRespondent } from '../interfaces';
+import {
+  surveyAnswerDefaults,
+  SurveyQuestionWithOptions,
+} from './survey-answer.util';
+
+export const surveyResultsAgeBands = [
+  { min: 0, max: 17 },
+  { min: 18, max: 24 },
+  { min: 25, max: 34 },
+  { min: 35, max: 44 },
+  { min: 45, max: 54 },
+  { min: 55, max: 64 },
+  { min: 65, max: Infinity },
+];
+
+const unknownSegment = { key: 'unknown', label: 'Unknown' };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getMean = (values: number[]) =>
+  values.length
+    ? round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : null;
+
+const getMedian = (values: number[]) => {
+  if (!values.length) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2
+    ? sorted[middle]
+    : round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+export const getAgeBand = (dateOfBirth: Date | null, date = new Date()) => {
+  if (!dateOfBirth) return;
+
+  const age = differenceInYears(date, dateOfBirth);
+  const ageBand = surveyResultsAgeBands.find(
+    ({ min, max }) => age >= min && age <= max,
+  );
+
+  if (!ageBand) return;
+
+  return ageBand.max === Infinity
+    ? `${ageBand.min}+`
+    : `${ageBand.min}-${ageBand.max}`;
+};
+
+/**
+ * Segments the respondent belongs to. A respondent can be in multiple disease area segments.
+ */
+export const getRespondentSegments = (
+  respondent: ISurveyRespondent,
+  breakdownBy: SurveyResultsBreakdown,
+): { key: string; label: string }[] => {
+  switch (breakdownBy) {
+    case SurveyResultsBreakdown.Gender:
+      return respondent.gender !== null && Gender[respondent.gender]
+        ? [
+            {
+              key: respondent.gender.toString(),
+              label: Gender[respondent.gender],
+            },
+          ]
+        : [unknownSegment];
+    case SurveyResultsBreakdown.AgeBand: {
+      const ageBand = getAgeBand(respondent.dateOfBirth);
+
+      return ageBand ? [{ key: ageBand, label: ageBand }] : [unknownSegment];
+    }
+    case SurveyResultsBreakdown.Location:
+      return respondent.location
+        ? [
+            {
+              key: respondent.location.id.toString(),
+              label: respondent.location.name,
+            },
+          ]
+        : [unknownSegment];
+    case SurveyResultsBreakdown.DiseaseArea:
+      return respondent.diseaseAreas.length
+        ? respondent.diseaseAreas.map((diseaseArea) => ({
+            key: diseaseArea.id.toString(),
+            label: diseaseArea.name,
+          }))
+        : [unknownSegment];
+  }
+};
+
+export const aggregateQuestionResults = (
+  question: SurveyQuestionWithOptions,
+  responses: SurveyResponse[],
+) => {
+  const questionResponses = responses.filter(
+    (response) => response.surveyQuestionId === question.id,
+  );
+  const answersCount = new Set(
+    questionResponses.map((response) => response.userId),
+  ).size;
+
+  switch (question.questionType) {
+    case QuestionType.MultipleChoice:
+    case QuestionType.TrueFalse:
+      return {
+        answersCount,
+        options: question.surveyOptions.map((option) => {
+          const count = questionResponses.filter(
+            (response) => response.surveyOptionId === option.id,
+          ).length;
+
+          return {
+            surveyOptionId: option.id,
+            optionText: option.optionText,
+            count,
+            percentage: answersCount ? round((count / answersCount) * 100) : 0,
+          };
+        }),
+      };
+    case QuestionType.Ranking:
+      return {
+        answersCount,
+        options: question.surveyOptions.map((option) => {
+          const ranks = questionResponses
+            .filter((response) => response.surveyOptionId === option.id)
+            .map((response) => response.value);
+
+          return {
+            surveyOptionId: option.id,
+            optionText: option.optionText,
+            count: ranks.length,
+            averageRank: getMean(ranks),
+          };
+        }),
+      };
+    case QuestionType.RatingScale: {
+      const minValue = question.minValue ?? surveyAnswerDefaults.minValue;
+      const maxValue = question.maxValue ?? surveyAnswerDefaults.maxValue;
+      const values = questionResponses.map((response) => response.value);
+
+      return {
+        answersCount,
+        mean: getMean(values),
+        median: getMedian(values),
+        histogram: Array.from(
+          { length: maxValue - minValue + 1 },
+          (_, index) => ({
+            value: minValue + index,
+            count: values.filter((value) => value === minValue + index).length,
+          }),
+        ),
+      };
+    }
+    case QuestionType.ShortAnswer:
+    case QuestionType.Essay:
+      return {
+        answersCount,
+        answers: questionResponses.map(
+          (response) => response.surveyResponseText,
+        ),
+      };
+    default:
+      return { answersCount };
+  }
+};
+
+export const aggregateSurveyResults = (
+  questions: SurveyQuestionWithOptions[],
+  responses: SurveyResponse[],
+  respondents: ISurveyRespondent[],
+  breakdownBy?: SurveyResultsBreakdown,
+) => {
+  const segments = new Map<string, { label: string; userIds: number[] }>();
+
+  if (breakdownBy !== undefined) {
+    for (const respondent of respondents) {
+      for (const { key, label } of getRespondentSegments(
+        respondent,
+        breakdownBy,
+      )) {
+        if (!segments.has(key)) segments.set(key, { label, userIds: [] });
+
+        segments.get(key).userIds.push(respondent.userId);
+      }
+    }
+  }
+
+  return {
+    respondentsCount: respondents.length,
+    questions: questions.map((question) => ({
+      id: question.id,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      ...aggregateQuestionResults(question, responses),
+      breakdown:
+        breakdownBy !== undefined
+          ? [...segments].map(([key, { label, userIds }]) => ({
+              key,
+              label,
+              respondentsCount: userIds.length,
+              ...aggregateQuestionResults(
+                question,
+                responses.filter((response) =>
+                  userIds.includes(response.userId),
+                ),
+              ),
+            }))
+          : undefined,
+    })),
+  };
+};
+
+const formatAnswer = (
+  question: SurveyQuestionWithOptions,
+  responses: SurveyResponse[],
+) => {
+  const getOptionText = (response: SurveyResponse) =>
+    question.surveyOptions.find(
+      (option) => option.id === response.surveyOptionId,
+    )?.optionText;
+
+  switch (question.questionType) {
+    case QuestionType.MultipleChoice:
+    case QuestionType.TrueFalse:
+      return responses.map(getOptionText).join('; ');
+    case QuestionType.Ranking:
+      return [...responses]
+        .sort((a, b) => a.value - b.value)
+        .map(getOptionText)
+        .join(' > ');
+    case QuestionType.RatingScale:
+      return responses[0]?.value ?? null;
+    default:
+      return responses[0]?.surveyResponseText ?? null;
+  }
+};
+
+/**
+ * One row per respondent and one column per question. Respondents are numbered, not identified.
+ */
+export const getSurveyResultsTable = (
+  questions: SurveyQuestionWithOptions[],
+  responses: SurveyResponse[],
+  respondents: ISurveyRespondent[],
+) => [
+  [
+    'Respondent',
+    'Gender',
+    'Age Band',
+    'Location',
+    'Disease Areas',
+    ...questions.map((question) => question.questionText),
+  ],
+  ...respondents.map((respondent, index) => [
+    index + 1,
+    Gender[respondent.gender] ?? null,
+    getAgeBand(respondent.dateOfBirth) ?? null,
+    respondent.location?.name ?? null,
+    respondent.diseaseAreas.map((diseaseArea) => diseaseArea.name).join('; '),
+    ...questions.map((question) =>
+      formatAnswer(
+        question,
+        responses.filter(
+          (response) =>
+            response.userId === respondent.userId &&
+            response.surveyQuestionId === question.id,
+        ),
+      ),
+    ),
+  ]),
+];
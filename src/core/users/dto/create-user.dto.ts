@@ -1,4 +1,5 @@
 import { User } from '@prisma/client';
+import { IsOptional, IsTimeZone } from 'class-validator';
 
 export class CreateUserDto implements Partial<User> {
   id: number;
@@ -11,6 +12,10 @@ export class CreateUserDto implements Partial<User> {
   status: number;
   isDeleted: boolean;
   currency: number;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -45,6 +45,12 @@ export class UserEntity implements Partial<User> {
   @ApiProperty({ description: 'Desired currency for a withdrawal purposes' })
   currency: number;
 
+  @ApiProperty({
+    description: 'IANA timezone of the insight graphs, eg. "Europe/Berlin"',
+    nullable: true,
+  })
+  timezone: string | null;
+
   createdAt: Date;
   updatedAt: Date;
 
@@ -97,6 +97,12 @@ export class UsersService {
 
       const deletedUserId = user.id;
 
+      // * sign out deleted user from every device
+      await this.prismaService.userSession.updateMany({
+        where: { userId: deletedUserId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
       await this.prismaService.influencer.updateMany({
         where: {
           invitendByUserId: {
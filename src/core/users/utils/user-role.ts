@@ -0,0 +1,12 @@
+import { UserRole } from 'src/utils/enums/user-role.enum';
+
+/**
+ * Checks if the user with the role can manage the account of a user with the target role.
+ * Roles are ordered from the highest one, so only the users with a lower role can be managed.
+ *
+ * @example
+ * canManageUserRole(UserRole.Admin, UserRole.Client) // true
+ * canManageUserRole(UserRole.Admin, UserRole.Admin) // false
+ */
+export const canManageUserRole = (role: UserRole, targetRole: UserRole) =>
+  role < targetRole;
@@ -6,6 +6,10 @@ export interface CacheAndInvalidateOptions {
   invalidatePolicy: 'atEntry' | 'atExit' | 'atCacheHit';
 }
 
+/**
+ * Caches the response per user, route params and query, under the key (tag) that `CacheInvalidate` invalidates.
+ * Affected keys are invalidated at the time given by the invalidate policy.
+ */
 export const CacheAndInvalidate = (
   ttl: number,
   key?: string,
@@ -2,6 +2,9 @@ import { SetMetadata } from '@nestjs/common';
 
 export const CACHE_INVALIDATE = 'cache_invalidate';
 
-export const CacheInvalidate = (...affectedKeys) => {
+/**
+ * Invalidates the responses cached by `CacheAndInvalidate` with any of the keys (tags), for every user.
+ */
+export const CacheInvalidate = (...affectedKeys: string[]) => {
   return SetMetadata(CACHE_INVALIDATE, affectedKeys);
 };
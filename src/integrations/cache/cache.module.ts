@@ -0,0 +1,57 @@
+import { Global, Logger, Module } from '@nestjs/common';
+import { CacheModule } from '@nestjs/cache-manager';
+import { ConfigType } from '@nestjs/config';
+import { redisInsStore } from 'cache-manager-redis-yet';
+import { createClient, RedisClientType } from 'redis';
+import cacheConfig from 'src/config/cache.config';
+import { ResponseCacheService } from './response-cache.service';
+import { ResponseCacheController } from './response-cache.controller';
+
+// * give up after ~10s, so the cache doesn't block the requests while Redis is down
+const redisReconnectStrategy = (retries: number) =>
+  retries < 10
+    ? Math.min(retries * 200, 2000)
+    : new Error('Redis cache is not reachable');
+
+@Global()
+@Module({
+  imports: [
+    CacheModule.registerAsync({
+      isGlobal: true,
+      inject: [cacheConfig.KEY],
+      useFactory: async (config: ConfigType<typeof cacheConfig>) => {
+        const memoryOptions = { max: config.memoryMaxItems };
+
+        if (!config.redisUrl) return memoryOptions;
+
+        const logger = new Logger('CacheModule');
+        const client = createClient({
+          url: config.redisUrl,
+          socket: { reconnectStrategy: redisReconnectStrategy },
+        });
+
+        client.on('error', (error) =>
+          logger.warn(`Redis cache error: ${error.message}`),
+        );
+
+        try {
+          await client.connect();
+
+          return {
+            store: redisInsStore(client as RedisClientType),
+          };
+        } catch (error) {
+          logger.error(
+            `Redis cache is not available, in-memory cache is used instead: ${error.message}`,
+          );
+
+          return memoryOptions;
+        }
+      },
+    }),
+  ],
+  controllers: [ResponseCacheController],
+  providers: [ResponseCacheService],
+  exports: [ResponseCacheService],
+})
+export class AppCacheModule {}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CacheTagMetricsEntity {
+  @ApiProperty({ example: 'insightClientCampaigns' })
+  tag: string;
+
+  hits: number;
+  misses: number;
+
+  @ApiProperty({ nullable: true, description: 'Hits per request, 0-1' })
+  hitRate: number | null;
+}
+
+export class CacheMetricsEntity {
+  @ApiProperty({ example: 'redis', description: 'Storage of the cache' })
+  store: string;
+
+  hits: number;
+  misses: number;
+
+  @ApiProperty({ nullable: true, description: 'Hits per request, 0-1' })
+  hitRate: number | null;
+
+  @ApiProperty({ type: CacheTagMetricsEntity, isArray: true })
+  tags: CacheTagMetricsEntity[];
+
+  constructor(data: Partial<CacheMetricsEntity>) {
+    Object.assign(this, data);
+  }
+}
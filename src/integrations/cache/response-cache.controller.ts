@@ -0,0 +1,24 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Action } from 'src/core/auth/ability';
+import { CheckAbilities } from 'src/core/auth/ability/decorators/ability.decorator';
+import { CacheMetricsEntity } from './entities/cache-metrics.entity';
+import { ResponseCacheService } from './response-cache.service';
+
+@Controller('cache')
+@ApiTags('cache')
+export class ResponseCacheController {
+  constructor(private readonly responseCacheService: ResponseCacheService) {}
+
+  @Get('metrics')
+  @CheckAbilities({ action: Action.Manage, subject: 'all' })
+  @ApiOperation({
+    summary: 'Get cache metrics',
+    description:
+      'Retrieves hits and misses of the cached responses by tag, counted by this API instance since its start.',
+  })
+  @ApiOkResponse({ type: CacheMetricsEntity })
+  getMetrics() {
+    return new CacheMetricsEntity(this.responseCacheService.getMetrics());
+  }
+}
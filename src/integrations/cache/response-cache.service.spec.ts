@@ -0,0 +1,44 @@
+import { ConfigType } from '@nestjs/config';
+import { Cache } from 'cache-manager';
+import cacheConfig from 'src/config/cache.config';
+import { ResponseCacheService } from './response-cache.service';
+
+describe('ResponseCacheService', () => {
+  let storage: Map<string, unknown>;
+  let service: ResponseCacheService;
+
+  beforeEach(() => {
+    storage = new Map();
+
+    const cacheManager = {
+      get: async (key: string) => storage.get(key),
+      set: async (key: string, value: unknown) => {
+        storage.set(key, value);
+      },
+    };
+
+    service = new ResponseCacheService(
+      cacheManager as unknown as Cache,
+      { keyPrefix: 'test' } as ConfigType<typeof cacheConfig>,
+    );
+  });
+
+  it('should serve the value stored after a miss', async () => {
+    const { value, version } = await service.get('clients', 'key');
+
+    expect(value).toBeUndefined();
+
+    await service.set('clients', 'key', { count: 1 }, 1000, version);
+
+    expect((await service.get('clients', 'key')).value).toEqual({ count: 1 });
+  });
+
+  it("shouldn't serve a value calculated while the tag was invalidated", async () => {
+    const { version } = await service.get('clients', 'key');
+
+    await service.invalidate('clients');
+    await service.set('clients', 'key', { count: 1 }, 1000, version);
+
+    expect((await service.get('clients', 'key')).value).toBeUndefined();
+  });
+});
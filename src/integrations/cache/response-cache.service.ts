@@ -0,0 +1,145 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConfigType } from '@nestjs/config';
+import { Cache } from 'cache-manager';
+import { randomUUID } from 'crypto';
+import cacheConfig from 'src/config/cache.config';
+
+/**
+ * Cache of the responses, grouped by tags (eg. `insightClientCampaigns`).
+ * Each tag has a version that is a part of the keys of its responses, so invalidating a tag
+ * invalidates the responses of every user at once, without knowing their keys.
+ * Responses of the outdated versions expire by their TTL.
+ */
+@Injectable()
+export class ResponseCacheService {
+  private readonly logger = new Logger(ResponseCacheService.name);
+  // * hits and misses of this instance since the start, by tag
+  private readonly metrics = new Map<
+    string,
+    { hits: number; misses: number }
+  >();
+
+  constructor(
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    @Inject(cacheConfig.KEY)
+    private readonly _cacheConfig: ConfigType<typeof cacheConfig>,
+  ) {}
+
+  private getTagVersionKey(tag: string) {
+    return `${this._cacheConfig.keyPrefix}:tag:${tag}`;
+  }
+
+  /**
+   * Missing version (eg. evicted from the storage) is replaced by a new one,
+   * so the responses cached before the eviction can't be served.
+   */
+  private async getTagVersion(tag: string) {
+    const tagVersionKey = this.getTagVersionKey(tag);
+    const version = await this.cacheManager.get<string>(tagVersionKey);
+
+    if (version) return version;
+
+    const newVersion = randomUUID();
+
+    await this.cacheManager.set(tagVersionKey, newVersion, 0);
+
+    return newVersion;
+  }
+
+  private getStorageKey(tag: string, version: string, key: string) {
+    return `${this._cacheConfig.keyPrefix}:${tag}:${version}:${key}`;
+  }
+
+  private countRequest(tag: string, isHit: boolean) {
+    const tagMetrics = this.metrics.get(tag) ?? { hits: 0, misses: 0 };
+
+    if (isHit) tagMetrics.hits++;
+    else tagMetrics.misses++;
+
+    this.metrics.set(tag, tagMetrics);
+  }
+
+  /**
+   * Returns the cached value with the tag version it was read with. A value calculated after the miss is stored
+   * under that version, so it's not served if the tag is invalidated while it's being calculated.
+   * Storage errors are treated as misses, the response is calculated as if there was no cache.
+   */
+  async get<T>(tag: string, key: string) {
+    let value: T | undefined;
+    let version: string | undefined;
+
+    try {
+      version = await this.getTagVersion(tag);
+      value = await this.cacheManager.get<T>(
+        this.getStorageKey(tag, version, key),
+      );
+    } catch (error) {
+      this.logger.warn(`Cache of ${tag} not read: ${error.message}`);
+    }
+
+    this.countRequest(tag, value !== undefined && value !== null);
+
+    return { value: value ?? undefined, version };
+  }
+
+  /**
+   * Stores the value under the tag version returned by `get`, nothing is stored if the version wasn't read.
+   */
+  async set(
+    tag: string,
+    key: string,
+    value: unknown,
+    ttl: number,
+    version: string | undefined,
+  ) {
+    if (!version) return;
+
+    try {
+      await this.cacheManager.set(
+        this.getStorageKey(tag, version, key),
+        value,
+        ttl,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache of ${tag} not written: ${error.message}`);
+    }
+  }
+
+  async invalidate(...tags: string[]) {
+    for (const tag of new Set(tags)) {
+      try {
+        await this.cacheManager.set(
+          this.getTagVersionKey(tag),
+          randomUUID(),
+          0,
+        );
+      } catch (error) {
+        this.logger.error(`Cache of ${tag} not invalidated: ${error.message}`);
+      }
+    }
+  }
+
+  getMetrics() {
+    const getHitRate = (hits: number, misses: number) =>
+      hits + misses ? hits / (hits + misses) : null;
+    const tags = [...this.metrics.entries()]
+      .map(([tag, { hits, misses }]) => ({
+        tag,
+        hits,
+        misses,
+        hitRate: getHitRate(hits, misses),
+      }))
+      .sort((a, b) => a.tag.localeCompare(b.tag));
+    const hits = tags.reduce((sum, tag) => sum + tag.hits, 0);
+    const misses = tags.reduce((sum, tag) => sum + tag.misses, 0);
+
+    return {
+      store: (this.cacheManager.store as { name?: string }).name ?? 'memory',
+      hits,
+      misses,
+      hitRate: getHitRate(hits, misses),
+      tags,
+    };
+  }
+}
@@ -192,12 +192,15 @@ export class MailService {
     firstName: string,
     invitationLink: string,
     content: string,
+    // * image that marks the email as opened when it's displayed
+    trackingPixelUrl?: string,
   ) {
     const data = {
       email,
       firstName,
       invitationLink,
       content,
+      trackingPixelUrl,
     };
     await this.sendgridService.send(
       SendgridSender.Welcome,
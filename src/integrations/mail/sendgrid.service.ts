@@ -56,7 +56,7 @@ export class SendgridService {
       case Mail.EmptyInfluencer:
         template = this.config.templates.emptyInfluencer;
         break;
-      case Mail.EmptyInfluencer:
+      case Mail.InviteClient:
         template = this.config.templates.inviteClient;
         break;
       case Mail.Other:
@@ -6,6 +6,7 @@ import { Server, ServerOptions } from 'socket.io';
 import { createAuthMiddleware } from '../middleware';
 import securityConfig from 'src/config/security.config';
 import appConfig from 'src/config/app.config';
+import { AuthService } from 'src/core/auth/auth.service';
 
 export class SocketIoAdapter extends IoAdapter {
   private readonly logger = new Logger(SocketIoAdapter.name);
@@ -18,6 +19,7 @@ export class SocketIoAdapter extends IoAdapter {
 
   createIOServer(port: number, options?: ServerOptions) {
     const jwtService = this.appContext.get(JwtService);
+    const authService = this.appContext.get(AuthService, { strict: false });
     const cookieName = this.configService.get('security.jwt.cookieName');
 
     port = this.configService.get('app.apiSocketPort');
@@ -35,7 +37,14 @@ export class SocketIoAdapter extends IoAdapter {
     ['chat', 'notifications'].forEach((namespace) => {
       server
         .of(namespace)
-        .use(createAuthMiddleware(jwtService, cookieName, this.logger));
+        .use(
+          createAuthMiddleware(
+            jwtService,
+            authService,
+            cookieName,
+            this.logger,
+          ),
+        );
     });
 
     this.logger.verbose(
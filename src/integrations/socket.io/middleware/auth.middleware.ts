@@ -4,16 +4,24 @@ import { ForbiddenException, Logger } from '@nestjs/common';
 import { parse } from 'cookie';
 import { ConfigService } from '@nestjs/config';
 import { NextFunction } from 'express';
-import { IUserJwtPayload } from 'src/core/auth/interfaces/jwt-payload.interface';
+import { IJWTPayload } from 'src/core/auth/interfaces/jwt-payload.interface';
+import { AuthService } from 'src/core/auth/auth.service';
 
 export const createAuthMiddleware =
-  (jwtService: JwtService, cookieName: string, logger: Logger) =>
+  (
+    jwtService: JwtService,
+    authService: AuthService,
+    cookieName: string,
+    logger: Logger,
+  ) =>
   async (socket: SocketWithAuth, next: NextFunction) => {
     const cookie = socket.handshake?.headers?.cookie;
     try {
       const { [cookieName]: token } = parse(cookie);
-      const payload: IUserJwtPayload = (await jwtService.verify(token)).user;
-      socket.authPayload = payload;
+      const payload: IJWTPayload = await jwtService.verify(token);
+      // * same as the REST API, revoked sessions can't connect
+      await authService.validateSession(payload);
+      socket.authPayload = payload.user;
       next();
     } catch {
       next(new ForbiddenException());
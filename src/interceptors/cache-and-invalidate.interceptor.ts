@@ -1,25 +1,24 @@
-import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
-  Inject,
+  Injectable,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Cache } from 'cache-manager';
 import { Request } from 'express';
-import { Observable, of, tap } from 'rxjs';
-import { UserEntity } from 'src/core/users/entities/user.entity';
+import { Observable, concatMap, of } from 'rxjs';
 import {
   CACHE_AND_INVALIDATE,
   CacheAndInvalidateOptions,
 } from 'src/decorators/cache-and-invalidate.decorator';
+import { ResponseCacheService } from 'src/integrations/cache/response-cache.service';
 import { generateCacheKey } from 'src/utils/generators/cache-key.generator';
 
+@Injectable()
 export class CacheAndInvalidateInterceptor implements NestInterceptor {
   constructor(
     private readonly reflector: Reflector,
-    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly responseCacheService: ResponseCacheService,
   ) {}
 
   async intercept(
@@ -28,34 +27,45 @@ export class CacheAndInvalidateInterceptor implements NestInterceptor {
   ): Promise<Observable<any>> {
     const request = context.switchToHttp().getRequest<Request>();
     const decoratorData = this.reflector.get<{
-      key: string;
+      key?: string;
       ttl: number;
-      affectedKeys: string[];
+      affectedKeys?: string[];
       options: CacheAndInvalidateOptions;
     }>(CACHE_AND_INVALIDATE, context.getHandler()); // retrieve key, ttl, and affectedKeys from the decorator
 
     if (!decoratorData) return next.handle(); // * suppose CacheAndInvalidate decorator is not "hooked" to a function, there's no caching
 
-    const { ttl, key, affectedKeys, options } = decoratorData;
-    const cacheKey = generateCacheKey(key, request);
+    const { ttl, affectedKeys = [], options } = decoratorData;
+    // * key is the tag of the response, the route is used if there is no explicit key
+    const tag = decoratorData.key ?? `${request.baseUrl}${request.route?.path}`;
+    const cacheKey = generateCacheKey(tag, request);
 
-    const cachedData = await this.cacheManager.get(cacheKey);
+    if (options.invalidatePolicy === 'atEntry') {
+      await this.responseCacheService.invalidate(...affectedKeys);
+    }
+
+    const { value: cachedData, version } = await this.responseCacheService.get(
+      tag,
+      cacheKey,
+    );
+
+    if (cachedData !== undefined) {
+      if (options.invalidatePolicy === 'atCacheHit') {
+        await this.responseCacheService.invalidate(...affectedKeys);
+      }
 
-    if (cachedData) {
       return of(cachedData);
     }
 
     return next.handle().pipe(
-      tap(async (data) => {
-        await this.cacheManager.set(cacheKey, data, ttl);
-      }),
-      tap(async () => {
-        // perform cache invalidation for affected keys
-        if (affectedKeys && Array.isArray(affectedKeys)) {
-          for (const affectedKey of affectedKeys) {
-            await this.cacheManager.del(affectedKey);
-          }
+      concatMap(async (data) => {
+        await this.responseCacheService.set(tag, cacheKey, data, ttl, version);
+
+        if (options.invalidatePolicy === 'atExit') {
+          await this.responseCacheService.invalidate(...affectedKeys);
         }
+
+        return data;
       }),
     );
   }
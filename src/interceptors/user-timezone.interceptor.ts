@@ -0,0 +1,30 @@
+import {
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Injectable,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { UserEntity } from 'src/core/users/entities/user.entity';
+
+/**
+ * Sets the `timezone` query parameter to the timezone of the logged-in user if it isn't given explicitly.
+ * Interceptors run before pipes, so the parameter is validated and transformed as if it was sent.
+ */
+@Injectable()
+export class UserTimezoneInterceptor implements NestInterceptor {
+  intercept(
+    context: ExecutionContext,
+    next: CallHandler<any>,
+  ): Observable<any> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as UserEntity;
+
+    if (request.query.timezone === undefined && user?.timezone) {
+      request.query.timezone = user.timezone;
+    }
+
+    return next.handle();
+  }
+}
@@ -49,6 +49,7 @@ async function bootstrap() {
     .addTag('file manager')
     .addTag('dropdown options')
     .addTag('enums and types')
+    .addTag('admin')
     // TODO here add more tags
     .addCookieAuth('auth')
     .build();
@@ -0,0 +1,4 @@
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
@@ -7,3 +7,7 @@ export * from './transaction-status.enum';
 export * from './currency.enum';
 export * from './notification-type.enum';
 export * from './stakeholder-type.enum';
+export * from './payout-status.enum';
+export * from './ledger-account-type.enum';
+export * from './export-format.enum';
+export * from './payout-batch-item-status.enum';
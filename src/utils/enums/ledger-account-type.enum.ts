@@ -0,0 +1,7 @@
+export enum LedgerAccountType {
+  UserAvailable,
+  UserUnavailable, // requested withdrawals
+  PlatformRevenue,
+  PendingPayouts, // reserved for pending transaction flows
+  PaidOut, // approved withdrawals that left the platform
+}
@@ -0,0 +1,5 @@
+export enum PayoutBatchItemStatus {
+  Processing,
+  Paid,
+  Declined,
+}
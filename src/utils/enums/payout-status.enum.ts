@@ -0,0 +1,8 @@
+// * status of the salary transaction flow created by the product order settlement
+export enum PayoutStatus {
+  Pending,
+  Approved,
+  Declined,
+  // * included in a SEPA payout batch, waiting for the bank
+  Processing,
+}
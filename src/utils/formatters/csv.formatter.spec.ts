@@ -0,0 +1,28 @@
+import { formatCsv, parseCsv, parseCsvLines } from './csv.formatter';
+
+describe('CSV formatter', () => {
+  it('should parse the formatted rows', () => {
+    const rows = [
+      ['email', 'company'],
+      ['jane@example.com', 'Müller, "Söhne"'],
+    ];
+
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('should count the lines of empty rows and quoted line breaks', () => {
+    const content = [
+      'email,note',
+      '',
+      'jane@example.com,"first line',
+      'second line"',
+      'john@example.com,note',
+    ].join('\r\n');
+
+    expect(parseCsvLines(content)).toEqual([
+      { line: 1, values: ['email', 'note'] },
+      { line: 3, values: ['jane@example.com', 'first line\r\nsecond line'] },
+      { line: 5, values: ['john@example.com', 'note'] },
+    ]);
+  });
+});
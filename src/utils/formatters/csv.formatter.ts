@@ -0,0 +1,93 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// spreadsheet apps evaluate cells starting with these as formulas
+const formulaPrefixes = ['=', '+', '-', '@', '\t', '\r'];
+
+export const formatCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : value.toString();
+
+  if (typeof value === 'string' && formulaPrefixes.includes(text[0])) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats rows as RFC 4180 CSV.
+ */
+export const formatCsv = (rows: CsvValue[][]) =>
+  rows.map((row) => row.map(formatCsvValue).join(',')).join('\r\n');
+
+export interface ICsvLine {
+  // * line of the file the row starts at, counted from 1
+  line: number;
+  values: string[];
+}
+
+/**
+ * Parses RFC 4180 CSV with the line each row starts at. Empty lines are skipped,
+ * line breaks of quoted values are counted, so the lines are the ones shown by a text editor.
+ */
+export const parseCsvLines = (content: string) => {
+  const rows: ICsvLine[] = [];
+  let row: string[] = [];
+  let value = '';
+  let isQuoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endValue = () => {
+    row.push(value);
+    value = '';
+  };
+  const endRow = () => {
+    endValue();
+    if (row.length > 1 || row[0] !== '')
+      rows.push({ line: rowLine, values: row });
+    row = [];
+  };
+
+  // * BOM added by spreadsheet apps
+  const text = content.replace(/^\ufeff/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        value += char;
+
+        // * \r\n is a single line break
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      endValue();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      rowLine = ++line;
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length) endRow();
+
+  return rows;
+};
+
+/**
+ * Parses RFC 4180 CSV (the inverse of `formatCsv`). Empty lines are skipped.
+ */
+export const parseCsv = (content: string) =>
+  parseCsvLines(content).map(({ values }) => values);
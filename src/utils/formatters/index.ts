@@ -3,3 +3,4 @@ export * from './array-crud-query.formatter';
 export * from './currency-id-to-object.formatter';
 export * from './notification-type-to-name.formatter';
 export * from './dateOfBirth.formatter';
+export * from './csv.formatter';
@@ -0,0 +1,50 @@
+import { Request } from 'express';
+import {
+  generateCacheKey,
+  normalizeCacheKeyValue,
+} from './cache-key.generator';
+
+const request = (query: Record<string, unknown>, userId = 1) =>
+  ({
+    method: 'GET',
+    baseUrl: '/insight/clients',
+    route: { path: '/clientCampaignsOverTimeData/:userId' },
+    params: { userId: '5' },
+    query,
+    user: { id: userId },
+  } as unknown as Request);
+
+describe('cache key generator', () => {
+  it('should normalize the order of the keys and the multiselect values', () => {
+    expect(normalizeCacheKeyValue({ b: ['2', '1'], a: '', c: undefined })).toBe(
+      normalizeCacheKeyValue({ b: ['1', '2'] }),
+    );
+    expect(normalizeCacheKeyValue({ a: { d: 1, c: 2 } })).toBe('{a:{c:2,d:1}}');
+  });
+
+  it('should include the user, params and query', () => {
+    const key = generateCacheKey(
+      'insightClientCampaigns',
+      request({ graphPeriod: 'M', includeData: ['total'] }),
+    );
+
+    expect(key).toBe(
+      generateCacheKey(
+        'insightClientCampaigns',
+        request({ includeData: ['total'], graphPeriod: 'M' }),
+      ),
+    );
+    expect(key).not.toBe(
+      generateCacheKey(
+        'insightClientCampaigns',
+        request({ graphPeriod: 'W', includeData: ['total'] }),
+      ),
+    );
+    expect(key).not.toBe(
+      generateCacheKey(
+        'insightClientCampaigns',
+        request({ graphPeriod: 'M', includeData: ['total'] }, 2),
+      ),
+    );
+  });
+});
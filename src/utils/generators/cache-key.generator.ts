@@ -1,6 +1,28 @@
 import { Request } from 'express';
 import { UserEntity } from 'src/core/users/entities/user.entity';
 
+/**
+ * Serializes the value independent of the order of the object keys and of the multiselect values,
+ * empty values are left out, eg. `{ b: [2, 1], a: '' }` and `{ b: [1, 2] }` are the same.
+ */
+export const normalizeCacheKeyValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(normalizeCacheKeyValue).sort().join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined && record[key] !== '')
+      .sort()
+      .map((key) => `${key}:${normalizeCacheKeyValue(record[key])}`)
+      .join(',')}}`;
+  }
+
+  return String(value);
+};
+
 export const generateCacheKey = (
   key: string,
   request: Request,
@@ -8,16 +30,14 @@ export const generateCacheKey = (
 ) => {
   const user = request.user as UserEntity; // retrieve the currently logged-in user
 
-  /* let cacheKey = `${
-    `key_${key}` || `url_${request.originalUrl}` // use the request's URL as the cache key if there is no explicit key
-  }_query_${JSON.stringify(
-    request.query, // use the request's query parameters
-  )}`; */
-  let cacheKey = `${
-    `key_${key}` || `url_${request.originalUrl}` // use the request's URL as the cache key if there is no explicit key
-  }`;
+  // * the same route with different params or query (eg. graph params) is a different response
+  let cacheKey = `key_${key}_route_${request.method}_${request.baseUrl}${
+    request.route?.path ?? request.path
+  }_params_${normalizeCacheKeyValue(
+    request.params,
+  )}_query_${normalizeCacheKeyValue(request.query)}`;
 
-  if (isUserKey && cacheKey && user) {
+  if (isUserKey && user) {
     // build the custom cache key including the user and query parameters
     cacheKey = `user_${user.id}_${cacheKey}`;
   }